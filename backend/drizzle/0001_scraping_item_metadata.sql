@@ -0,0 +1 @@
+ALTER TABLE "scraping_items" ADD COLUMN "metadata" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "scraping_jobs" ADD COLUMN "options" jsonb;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "scraping_items" ADD COLUMN "canonical_url" text;--> statement-breakpoint
+CREATE INDEX "scraping_items_canonical_url_idx" ON "scraping_items" USING btree ("canonical_url");
\ No newline at end of file
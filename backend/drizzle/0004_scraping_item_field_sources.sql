@@ -0,0 +1 @@
+ALTER TABLE "scraping_items" ADD COLUMN "field_sources" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "scraping_items" ADD COLUMN "error_category" text;
\ No newline at end of file
@@ -0,0 +1,22 @@
+CREATE TABLE "scraping_schedules" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"job_id" uuid NOT NULL,
+	"user_id" uuid NOT NULL,
+	"cron_expression" text NOT NULL,
+	"time_zone" text DEFAULT 'UTC' NOT NULL,
+	"enabled" boolean DEFAULT true NOT NULL,
+	"next_run_at" timestamp,
+	"last_run_at" timestamp,
+	"last_run_job_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "scraping_schedules_job_id_unique" UNIQUE("job_id")
+);
+--> statement-breakpoint
+ALTER TABLE "scraping_jobs" ADD COLUMN "parent_job_id" uuid;--> statement-breakpoint
+ALTER TABLE "scraping_schedules" ADD CONSTRAINT "scraping_schedules_job_id_scraping_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."scraping_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraping_schedules" ADD CONSTRAINT "scraping_schedules_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "scraping_schedules" ADD CONSTRAINT "scraping_schedules_last_run_job_id_scraping_jobs_id_fk" FOREIGN KEY ("last_run_job_id") REFERENCES "public"."scraping_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scraping_schedules_next_run_at_idx" ON "scraping_schedules" USING btree ("next_run_at");--> statement-breakpoint
+ALTER TABLE "scraping_jobs" ADD CONSTRAINT "scraping_jobs_parent_job_id_scraping_jobs_id_fk" FOREIGN KEY ("parent_job_id") REFERENCES "public"."scraping_jobs"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scraping_jobs_parent_job_id_idx" ON "scraping_jobs" USING btree ("parent_job_id");
\ No newline at end of file
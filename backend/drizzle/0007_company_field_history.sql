@@ -0,0 +1,19 @@
+CREATE TABLE "company_field_history" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"canonical_url" text NOT NULL,
+	"field" text NOT NULL,
+	"value_key" text DEFAULT '' NOT NULL,
+	"value" jsonb NOT NULL,
+	"first_seen_at" timestamp NOT NULL,
+	"last_seen_at" timestamp NOT NULL,
+	"first_item_id" uuid,
+	"last_item_id" uuid,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "company_field_history" ADD CONSTRAINT "company_field_history_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_field_history" ADD CONSTRAINT "company_field_history_first_item_id_scraping_items_id_fk" FOREIGN KEY ("first_item_id") REFERENCES "public"."scraping_items"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_field_history" ADD CONSTRAINT "company_field_history_last_item_id_scraping_items_id_fk" FOREIGN KEY ("last_item_id") REFERENCES "public"."scraping_items"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "company_field_history_lookup_idx" ON "company_field_history" USING btree ("user_id","canonical_url","field","value_key");
\ No newline at end of file
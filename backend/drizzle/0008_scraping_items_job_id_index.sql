@@ -0,0 +1 @@
+CREATE INDEX "scraping_items_job_id_id_idx" ON "scraping_items" USING btree ("job_id","id");
\ No newline at end of file
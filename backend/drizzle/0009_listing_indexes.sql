@@ -0,0 +1,2 @@
+CREATE INDEX "scraping_items_created_at_idx" ON "scraping_items" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "scraping_jobs_user_id_created_at_idx" ON "scraping_jobs" USING btree ("user_id","created_at");
\ No newline at end of file
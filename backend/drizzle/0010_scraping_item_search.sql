@@ -0,0 +1,2 @@
+ALTER TABLE "scraping_items" ADD COLUMN "page_text_excerpt" text;--> statement-breakpoint
+CREATE INDEX "scraping_items_search_idx" ON "scraping_items" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("company_name", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("industry", '') || ' ' || coalesce("hq_location", '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce(jsonb_path_query_array("contacts", '$[*].name'::jsonpath)::text || ' ' || jsonb_path_query_array("contacts", '$[*].title'::jsonpath)::text, '')), 'C') || setweight(to_tsvector('english'::regconfig, coalesce("page_text_excerpt", '')), 'D')));
\ No newline at end of file
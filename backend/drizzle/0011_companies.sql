@@ -0,0 +1,21 @@
+CREATE TABLE "companies" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"domain" text NOT NULL,
+	"company_name" text,
+	"website" text,
+	"industry" text,
+	"headcount_range" text,
+	"hq_location" text,
+	"contacts" jsonb,
+	"field_provenance" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"last_scraped_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "company_id" uuid;--> statement-breakpoint
+ALTER TABLE "companies" ADD CONSTRAINT "companies_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "companies_user_id_domain_idx" ON "companies" USING btree ("user_id","domain");--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD CONSTRAINT "scraping_items_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "scraping_items_company_id_idx" ON "scraping_items" USING btree ("company_id");
\ No newline at end of file
@@ -0,0 +1,38 @@
+CREATE TABLE "contact_sightings" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"contact_id" uuid NOT NULL,
+	"item_id" uuid NOT NULL,
+	"job_id" uuid NOT NULL,
+	"source_url" text NOT NULL,
+	"raw_email" text NOT NULL,
+	"name" text,
+	"title" text,
+	"seen_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "contacts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid NOT NULL,
+	"email" text NOT NULL,
+	"name" text,
+	"title" text,
+	"company_id" uuid,
+	"first_seen_at" timestamp NOT NULL,
+	"last_seen_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "contact_sightings" ADD CONSTRAINT "contact_sightings_contact_id_contacts_id_fk" FOREIGN KEY ("contact_id") REFERENCES "public"."contacts"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_sightings" ADD CONSTRAINT "contact_sightings_item_id_scraping_items_id_fk" FOREIGN KEY ("item_id") REFERENCES "public"."scraping_items"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contact_sightings" ADD CONSTRAINT "contact_sightings_job_id_scraping_jobs_id_fk" FOREIGN KEY ("job_id") REFERENCES "public"."scraping_jobs"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "contacts" ADD CONSTRAINT "contacts_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "contact_sightings_contact_item_source_idx" ON "contact_sightings" USING btree ("contact_id","item_id","source_url");--> statement-breakpoint
+CREATE INDEX "contact_sightings_item_id_idx" ON "contact_sightings" USING btree ("item_id");--> statement-breakpoint
+CREATE INDEX "contact_sightings_job_id_idx" ON "contact_sightings" USING btree ("job_id");--> statement-breakpoint
+CREATE UNIQUE INDEX "contacts_user_id_email_idx" ON "contacts" USING btree ("user_id","email");--> statement-breakpoint
+CREATE INDEX "contacts_company_id_idx" ON "contacts" USING btree ("company_id");--> statement-breakpoint
+CREATE INDEX "contacts_user_id_last_seen_at_idx" ON "contacts" USING btree ("user_id","last_seen_at");--> statement-breakpoint
+CREATE INDEX "contacts_search_idx" ON "contacts" USING gin ((setweight(to_tsvector('english'::regconfig, coalesce("name", '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce("title", '')), 'B') || setweight(to_tsvector('english'::regconfig, translate("email", '@._-+', '     ')), 'C')));
\ No newline at end of file
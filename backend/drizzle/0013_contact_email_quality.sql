@@ -0,0 +1,4 @@
+ALTER TABLE "contacts" ADD COLUMN "email_type" text;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "email_domain_match" boolean;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "quality_score" real;--> statement-breakpoint
+CREATE INDEX "contacts_user_id_quality_score_idx" ON "contacts" USING btree ("user_id","quality_score");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "scraping_items" ADD COLUMN "structured_data" jsonb;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "scraping_items" ADD COLUMN "social_profiles" jsonb;
\ No newline at end of file
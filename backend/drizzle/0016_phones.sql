@@ -0,0 +1,3 @@
+ALTER TABLE "companies" ADD COLUMN "phones" jsonb;--> statement-breakpoint
+ALTER TABLE "contacts" ADD COLUMN "phone" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "phones" jsonb;
\ No newline at end of file
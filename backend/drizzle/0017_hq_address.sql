@@ -0,0 +1,11 @@
+ALTER TABLE "companies" ADD COLUMN "hq_street" text;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "hq_city" text;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "hq_region" text;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "hq_postal_code" text;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "hq_country" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "hq_street" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "hq_city" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "hq_region" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "hq_postal_code" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "hq_country" text;--> statement-breakpoint
+CREATE INDEX "companies_user_id_hq_country_idx" ON "companies" USING btree ("user_id","hq_country");
\ No newline at end of file
@@ -0,0 +1,7 @@
+ALTER TABLE "companies" ADD COLUMN "headcount_min" integer;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "headcount_max" integer;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "headcount_bucket" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "headcount_min" integer;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "headcount_max" integer;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "headcount_bucket" text;--> statement-breakpoint
+CREATE INDEX "companies_user_id_headcount_min_max_idx" ON "companies" USING btree ("user_id","headcount_min","headcount_max");
\ No newline at end of file
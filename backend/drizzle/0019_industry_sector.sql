@@ -0,0 +1,5 @@
+ALTER TABLE "companies" ADD COLUMN "industry_sector" text;--> statement-breakpoint
+ALTER TABLE "companies" ADD COLUMN "industry_confidence" real;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "industry_sector" text;--> statement-breakpoint
+ALTER TABLE "scraping_items" ADD COLUMN "industry_confidence" real;--> statement-breakpoint
+CREATE INDEX "companies_user_id_industry_sector_idx" ON "companies" USING btree ("user_id","industry_sector");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "scraping_jobs" ADD COLUMN "cancelled_urls" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE "scraping_jobs" SET "cancelled_urls" = "counts"."cancelled" FROM (SELECT "job_id", count(*)::int AS "cancelled" FROM "scraping_items" WHERE "status" = 'cancelled' GROUP BY "job_id") AS "counts" WHERE "scraping_jobs"."id" = "counts"."job_id";
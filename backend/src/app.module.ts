@@ -13,6 +13,8 @@ import { AuthModule } from "./modules/auth/auth.module";
 import { HealthCheckModule } from "./modules/health-check/health-check.module";
 import { QueuesModule } from "./modules/queues/queues.module";
 import { ScrapingModule } from "./modules/scraping/scraping.module";
+import { CompaniesModule } from "./modules/companies/companies.module";
+import { ContactsModule } from "./modules/contacts/contacts.module";
 import { envValidationSchema } from "./config/env.validation";
 
 const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
@@ -47,6 +49,8 @@ const redisUrl = process.env.REDIS_URL || "redis://localhost:6379";
     HealthCheckModule,
     QueuesModule,
     ScrapingModule,
+    CompaniesModule,
+    ContactsModule,
   ],
   controllers: [AppController],
   providers: [AppService],
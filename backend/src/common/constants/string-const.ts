@@ -26,6 +26,10 @@ export enum ENV {
   // Web Scraping Configuration
   MOCK_COMPANY_DATA_SERVER_URL = "MOCK_COMPANY_DATA_SERVER_URL",
   REQUEST_DELAY_MS = "REQUEST_DELAY_MS",
+  HOST_MAX_CONCURRENCY = "HOST_MAX_CONCURRENCY",
+  HOST_BURST = "HOST_BURST",
+  SCRAPER_USER_AGENT = "SCRAPER_USER_AGENT",
+  ROBOTS_TXT_CACHE_TTL_MS = "ROBOTS_TXT_CACHE_TTL_MS",
 }
 
 // Common Messages
@@ -83,6 +87,12 @@ export enum QUEUES {
   NOTIFICATIONS = "notifications",
 }
 
+// User Roles (from Supabase app_metadata.role)
+export enum USER_ROLES {
+  ADMIN = "admin",
+  USER = "user",
+}
+
 // Cookie Keys
 export enum COOKIES {
   AUTH_TOKEN = "auth_token",
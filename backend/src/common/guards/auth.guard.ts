@@ -7,7 +7,7 @@ import {
 } from "@nestjs/common";
 import { Request } from "express";
 import { SupabaseService } from "../../core/supabase/supabase.service";
-import { COOKIES } from "../constants/string-const";
+import { COOKIES, USER_ROLES } from "../constants/string-const";
 
 /**
  * AuthGuard that validates Supabase tokens and attaches user info to request
@@ -86,6 +86,7 @@ export class AuthGuard implements CanActivate {
       (request as any).user = {
         id: user.id,
         email: user.email,
+        role: user.app_metadata?.role ?? USER_ROLES.USER,
         supabaseUser: user, // Full user object for advanced use cases
       };
 
@@ -94,6 +95,7 @@ export class AuthGuard implements CanActivate {
         requestId,
         userId: user.id,
         email: user.email,
+        role: user.app_metadata?.role ?? USER_ROLES.USER,
         authTime: `${authTime}ms`,
         userMetadata: {
           emailVerified: user.email_confirmed_at ? true : false,
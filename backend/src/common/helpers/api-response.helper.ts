@@ -5,6 +5,18 @@ export const successResponse = (data: any, message = "Success"): unknown => ({
   data,
 });
 
+export const paginatedResponse = (
+  data: unknown[],
+  pagination: { limit: number; nextCursor: string | null },
+  message = "Success",
+): unknown => ({
+  statusCode: 200,
+  success: true,
+  message,
+  data,
+  pagination,
+});
+
 export const createdResponse = (data: any, message = "Created"): unknown => ({
   statusCode: 201,
   success: true,
@@ -0,0 +1,22 @@
+import { BadRequestException } from "@nestjs/common";
+import { ValidationError } from "class-validator";
+
+/**
+ * Flatten class-validator errors (including nested children) into messages
+ */
+export const collectValidationMessages = (
+  errors: ValidationError[],
+): string[] =>
+  errors.flatMap((error) => [
+    ...Object.values(error.constraints ?? {}),
+    ...collectValidationMessages(error.children ?? []),
+  ]);
+
+/**
+ * Exception factory for ValidationPipe
+ * Joins all messages into one string so HttpExceptionFilter reports them
+ */
+export const validationExceptionFactory = (
+  errors: ValidationError[],
+): BadRequestException =>
+  new BadRequestException(collectValidationMessages(errors).join("; "));
@@ -12,6 +12,7 @@ export * from "./filters/http-exception.filter";
 
 // Helpers
 export * from "./helpers/api-response.helper";
+export * from "./helpers/validation-errors.helper";
 
 // Constants
 export * from "./constants/string-const";
@@ -18,6 +18,12 @@ export interface AuthenticatedRequest extends Request {
      */
     email: string;
 
+    /**
+     * Role from Supabase app_metadata (server-controlled), "user" when unset
+     * @example "admin"
+     */
+    role: string;
+
     /**
      * Full Supabase user object for advanced use cases
      * Contains all user metadata, auth info, etc.
@@ -44,6 +44,23 @@ export const envValidationSchema = Joi.object({
     .uri()
     .optional()
     .default("http://localhost:3000/login"),
+
+  // Web Scraping Configuration
+  [ENV.REQUEST_DELAY_MS]: Joi.number().integer().min(0).optional().default(500),
+  [ENV.HOST_MAX_CONCURRENCY]: Joi.number()
+    .integer()
+    .min(1)
+    .optional()
+    .default(2),
+  [ENV.HOST_BURST]: Joi.number().integer().min(1).optional().default(1),
+  [ENV.SCRAPER_USER_AGENT]: Joi.string()
+    .optional()
+    .default("CompanyDataExtractorBot/1.0"),
+  [ENV.ROBOTS_TXT_CACHE_TTL_MS]: Joi.number()
+    .integer()
+    .min(0)
+    .optional()
+    .default(3600000),
 }).custom((value, helpers) => {
   // Ensure either DATABASE_URL or all individual database parameters are provided
   const hasDatabaseUrl = value[ENV.DATABASE_URL];
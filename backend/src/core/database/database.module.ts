@@ -4,10 +4,33 @@ import { ConfigModule } from "@nestjs/config";
 import { DrizzleService } from "./drizzle.service";
 import { UsersRepository } from "./repositories/users.repository";
 import { HealthCheckingRepository } from "./repositories/health-checking.repository";
+import { ScrapingRepository } from "./repositories/scraping.repository";
+import { ScrapingScheduleRepository } from "./repositories/scraping-schedule.repository";
+import { CompanyFieldHistoryRepository } from "./repositories/company-field-history.repository";
+import { CompanyRepository } from "./repositories/company.repository";
+import { ContactRepository } from "./repositories/contact.repository";
 
 @Module({
   imports: [ConfigModule],
-  providers: [DrizzleService, UsersRepository, HealthCheckingRepository],
-  exports: [DrizzleService, UsersRepository, HealthCheckingRepository],
+  providers: [
+    DrizzleService,
+    UsersRepository,
+    HealthCheckingRepository,
+    ScrapingRepository,
+    ScrapingScheduleRepository,
+    CompanyFieldHistoryRepository,
+    CompanyRepository,
+    ContactRepository,
+  ],
+  exports: [
+    DrizzleService,
+    UsersRepository,
+    HealthCheckingRepository,
+    ScrapingRepository,
+    ScrapingScheduleRepository,
+    CompanyFieldHistoryRepository,
+    CompanyRepository,
+    ContactRepository,
+  ],
 })
 export class DatabaseModule {}
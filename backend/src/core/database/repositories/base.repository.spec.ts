@@ -0,0 +1,155 @@
+import { BadRequestException } from "@nestjs/common";
+import { SQL } from "drizzle-orm";
+import { PgDialect } from "drizzle-orm/pg-core";
+import { DrizzleService } from "../drizzle.service";
+import { scrapingJobs } from "../schema/scraping-jobs";
+import {
+  BaseRepository,
+  CursorPage,
+  CursorPageOptions,
+  CursorQuery,
+  CursorRow,
+  SortDirection,
+} from "./base.repository";
+
+interface Row {
+  id: string;
+  createdAt: string | null;
+}
+
+/**
+ * Exposes paginate() over an in-memory fetch so queries can be inspected
+ */
+class TestRepository extends BaseRepository<Row> {
+  constructor() {
+    super({} as DrizzleService);
+  }
+
+  list(
+    direction: SortDirection,
+    options: CursorPageOptions,
+    fetch: (query: CursorQuery) => Promise<CursorRow<Row>[]>,
+  ): Promise<CursorPage<Row>> {
+    return this.paginate(
+      {
+        column: scrapingJobs.createdAt,
+        idColumn: scrapingJobs.id,
+        direction,
+      },
+      options,
+      fetch,
+    );
+  }
+}
+
+const dialect = new PgDialect();
+const render = (query: SQL | undefined) =>
+  query ? dialect.sqlToQuery(query) : undefined;
+
+const toCursorRows = (rows: Row[]): CursorRow<Row>[] =>
+  rows.map((row) => ({ row, id: row.id, sortKey: row.createdAt }));
+
+const encode = (value: unknown) =>
+  Buffer.from(JSON.stringify(value)).toString("base64url");
+
+describe("BaseRepository.paginate", () => {
+  const repository = new TestRepository();
+
+  const rows: Row[] = [
+    { id: "a", createdAt: "2024-01-01 00:00:00" },
+    { id: "b", createdAt: "2024-01-02 00:00:00" },
+    { id: "c", createdAt: null },
+  ];
+
+  it("fetches one extra row and returns a cursor to the last item of the page", async () => {
+    const fetch = jest.fn((query: CursorQuery) => {
+      expect(query.after).toBeUndefined();
+      expect(query.limit).toBe(3);
+      return Promise.resolve(toCursorRows(rows.slice(0, query.limit)));
+    });
+
+    const page = await repository.list("asc", { limit: 2 }, fetch);
+
+    expect(page.items.map((row) => row.id)).toEqual(["a", "b"]);
+    expect(page.nextCursor).toBe(encode(["2024-01-02 00:00:00", "b"]));
+  });
+
+  it("continues after the decoded cursor position on the next page", async () => {
+    let after: ReturnType<typeof render>;
+    const page = await repository.list(
+      "asc",
+      { limit: 2, cursor: encode(["2024-01-02 00:00:00", "b"]) },
+      (query) => {
+        after = render(query.after);
+        return Promise.resolve(toCursorRows(rows.slice(2)));
+      },
+    );
+
+    expect(after?.sql).toBe(
+      '(("scraping_jobs"."created_at") > $1 OR (("scraping_jobs"."created_at") = $2 AND "scraping_jobs"."id" > $3) OR ("scraping_jobs"."created_at") IS NULL)',
+    );
+    expect(after?.params).toEqual([
+      "2024-01-02 00:00:00",
+      "2024-01-02 00:00:00",
+      "b",
+    ]);
+    expect(page.items.map((row) => row.id)).toEqual(["c"]);
+    expect(page.nextCursor).toBeNull();
+  });
+
+  it("compares with < and sorts descending for desc order", async () => {
+    let query: CursorQuery | undefined;
+    await repository.list(
+      "desc",
+      { limit: 2, cursor: encode(["2024-01-02 00:00:00", "b"]) },
+      (received) => {
+        query = received;
+        return Promise.resolve([]);
+      },
+    );
+
+    expect(render(query?.after)?.sql).toContain(
+      '("scraping_jobs"."created_at") < $1',
+    );
+    expect(query?.orderBy.map((part) => render(part)?.sql)).toEqual([
+      '("scraping_jobs"."created_at") DESC NULLS LAST',
+      '"scraping_jobs"."id" DESC',
+    ]);
+  });
+
+  it("encodes a NULL sort key and pages through the NULL rows by ID", async () => {
+    const first = await repository.list("asc", { limit: 1 }, () =>
+      Promise.resolve(toCursorRows([rows[2], { id: "d", createdAt: null }])),
+    );
+    expect(first.nextCursor).toBe(encode([null, "c"]));
+
+    let after: ReturnType<typeof render>;
+    await repository.list(
+      "asc",
+      { limit: 1, cursor: first.nextCursor ?? undefined },
+      (query) => {
+        after = render(query.after);
+        return Promise.resolve([]);
+      },
+    );
+
+    expect(after?.sql).toBe(
+      '(("scraping_jobs"."created_at") IS NULL AND "scraping_jobs"."id" > $1)',
+    );
+    expect(after?.params).toEqual(["c"]);
+  });
+
+  it.each([
+    ["not base64 JSON", "not-a-cursor"],
+    ["an object", encode({ sortKey: "x", id: "a" })],
+    ["a numeric sort key", encode([1, "a"])],
+    ["a missing ID", encode(["x"])],
+  ])("rejects a cursor holding %s with 400", async (_label, cursor) => {
+    const fetch = jest.fn();
+
+    await expect(
+      repository.list("asc", { limit: 2, cursor }, fetch),
+    ).rejects.toBeInstanceOf(BadRequestException);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
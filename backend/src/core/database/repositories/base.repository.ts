@@ -1,8 +1,98 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { DrizzleService } from "../drizzle.service";
-import { NotFoundException } from "@nestjs/common";
+import { NotFoundException, BadRequestException } from "@nestjs/common";
 import { MESSAGES } from "../../../common/constants/string-const";
-import { eq, count } from "drizzle-orm";
+import { HeadcountBucket } from "../schema/scraping-items";
+import { eq, count, inArray, lte, sql, SQL } from "drizzle-orm";
+import { AnyPgColumn } from "drizzle-orm/pg-core";
+
+export type SortDirection = "asc" | "desc";
+
+/**
+ * Sort order of a cursor-paginated query
+ * The column may be a computed expression (e.g. a search rank);
+ * the ID column breaks ties so every row has a unique position
+ */
+export interface CursorSort {
+  column: AnyPgColumn | SQL;
+  idColumn: AnyPgColumn;
+  direction: SortDirection;
+}
+
+export interface CursorPageOptions {
+  limit: number;
+  // Opaque cursor returned as nextCursor by the previous page
+  cursor?: string;
+}
+
+/**
+ * Query parts handed to the fetch callback of paginate()
+ */
+export interface CursorQuery {
+  // Rows after the cursor; undefined on the first page
+  after: SQL | undefined;
+  orderBy: SQL[];
+  // One more than the page size, to detect whether another page exists
+  limit: number;
+  // Sort column as text, selected so the next cursor keeps full precision
+  sortKey: SQL<string | null>;
+}
+
+export interface CursorRow<R> {
+  row: R;
+  id: string;
+  sortKey: string | null;
+}
+
+export interface CursorPage<R> {
+  items: R[];
+  nextCursor: string | null;
+}
+
+/**
+ * Escape LIKE wildcards so user input is matched literally
+ */
+export const escapeLike = (value: string): string =>
+  value.replace(/[\\%_]/g, "\\$&");
+
+/**
+ * Company size filters on the parsed headcount columns
+ */
+export interface HeadcountFilters {
+  // Ranges reaching at least this many employees
+  minHeadcount?: number;
+  // Ranges starting at no more than this many employees
+  maxHeadcount?: number;
+  headcountBuckets?: HeadcountBucket[];
+}
+
+/**
+ * Conditions for HeadcountFilters: a range matches when it overlaps
+ * [minHeadcount, maxHeadcount]; open-ended ranges have no upper bound
+ * Rows without a parsed headcount never match a size filter
+ */
+export const headcountConditions = (
+  columns: {
+    headcountMin: AnyPgColumn;
+    headcountMax: AnyPgColumn;
+    headcountBucket: AnyPgColumn;
+  },
+  filters: HeadcountFilters,
+): SQL[] => {
+  const conditions: SQL[] = [];
+  if (filters.minHeadcount !== undefined) {
+    conditions.push(
+      sql`(${columns.headcountMax} >= ${filters.minHeadcount} OR (${columns.headcountMax} IS NULL AND ${columns.headcountMin} IS NOT NULL))`,
+    );
+  }
+  if (filters.maxHeadcount !== undefined) {
+    conditions.push(lte(columns.headcountMin, filters.maxHeadcount));
+  }
+  if (filters.headcountBuckets?.length) {
+    conditions.push(inArray(columns.headcountBucket, filters.headcountBuckets));
+  }
+  return conditions;
+};
 
 @Injectable()
 export abstract class BaseRepository<T> {
@@ -146,6 +236,81 @@ export abstract class BaseRepository<T> {
     return (result[0]?.count || 0) > 0;
   }
 
+  /**
+   * Keyset (cursor) pagination over any query
+   * The callback applies the given condition, order and limit to its own
+   * select and returns each row with its ID and sort key. NULL sort values
+   * come last in both directions.
+   *
+   * @throws BadRequestException if the cursor is malformed
+   */
+  protected async paginate<R>(
+    sort: CursorSort,
+    options: CursorPageOptions,
+    fetch: (query: CursorQuery) => Promise<CursorRow<R>[]>,
+  ): Promise<CursorPage<R>> {
+    const { column, idColumn, direction } = sort;
+    const position = options.cursor ? this.decodeCursor(options.cursor) : null;
+    const cmp = direction === "asc" ? sql`>` : sql`<`;
+
+    let after: SQL | undefined;
+    if (position?.sortKey === null) {
+      after = sql`((${column}) IS NULL AND ${idColumn} ${cmp} ${position.id})`;
+    } else if (position) {
+      after = sql`((${column}) ${cmp} ${position.sortKey} OR ((${column}) = ${position.sortKey} AND ${idColumn} ${cmp} ${position.id}) OR (${column}) IS NULL)`;
+    }
+
+    const rows = await fetch({
+      after,
+      orderBy:
+        direction === "asc"
+          ? [sql`(${column}) ASC NULLS LAST`, sql`${idColumn} ASC`]
+          : [sql`(${column}) DESC NULLS LAST`, sql`${idColumn} DESC`],
+      limit: options.limit + 1,
+      sortKey: sql<string | null>`(${column})::text`,
+    });
+
+    const page = rows.slice(0, options.limit);
+    const last = page[page.length - 1];
+
+    return {
+      items: page.map((entry) => entry.row),
+      nextCursor:
+        rows.length > options.limit && last
+          ? Buffer.from(JSON.stringify([last.sortKey, last.id])).toString(
+              "base64url",
+            )
+          : null,
+    };
+  }
+
+  /**
+   * Decode a cursor produced by paginate()
+   *
+   * @private
+   */
+  private decodeCursor(cursor: string): {
+    sortKey: string | null;
+    id: string;
+  } {
+    try {
+      const decoded: unknown = JSON.parse(
+        Buffer.from(cursor, "base64url").toString("utf8"),
+      );
+      if (
+        Array.isArray(decoded) &&
+        decoded.length === 2 &&
+        (typeof decoded[0] === "string" || decoded[0] === null) &&
+        typeof decoded[1] === "string"
+      ) {
+        return { sortKey: decoded[0] as string | null, id: decoded[1] };
+      }
+    } catch {
+      // Fall through to the error below
+    }
+    throw new BadRequestException("Invalid pagination cursor");
+  }
+
   /**
    * Execute raw SQL query
    */
@@ -0,0 +1,204 @@
+import { Injectable } from "@nestjs/common";
+import { BaseRepository } from "./base.repository";
+import { companyFieldHistory } from "../schema";
+import { eq, and, inArray, sql } from "drizzle-orm";
+
+export interface CompanyFieldHistoryEntity {
+  id: string;
+  userId: string;
+  canonicalUrl: string;
+  field: string;
+  valueKey: string;
+  value: unknown;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  firstItemId: string | null;
+  lastItemId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One field value seen in a scrape
+export interface ObservedFieldValue {
+  field: string;
+  valueKey: string;
+  value: unknown;
+}
+
+export interface RecordObservationData {
+  userId: string;
+  canonicalUrl: string;
+  itemId: string;
+  observedAt: Date;
+  values: ObservedFieldValue[];
+}
+
+/**
+ * Compare JSON values regardless of object key order (jsonb does not keep it)
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  if (a === b) {
+    return true;
+  }
+  if (
+    typeof a !== "object" ||
+    typeof b !== "object" ||
+    a === null ||
+    b === null ||
+    Array.isArray(a) !== Array.isArray(b)
+  ) {
+    return false;
+  }
+
+  const aRecord = a as Record<string, unknown>;
+  const bRecord = b as Record<string, unknown>;
+  const aKeys = Object.keys(aRecord);
+  const bKeys = Object.keys(bRecord);
+
+  return (
+    aKeys.length === bKeys.length &&
+    aKeys.every((key) => isSameValue(aRecord[key], bRecord[key]))
+  );
+};
+
+@Injectable()
+export class CompanyFieldHistoryRepository extends BaseRepository<CompanyFieldHistoryEntity> {
+  /**
+   * Record the field values seen in one scrape of a canonical URL
+   * A value equal to the latest row for its field extends that row;
+   * anything else starts a new row. Observations of the same URL are
+   * serialized with an advisory lock so concurrent scrapes cannot interleave.
+   */
+  async recordObservation(data: RecordObservationData): Promise<void> {
+    this.logger.log(
+      `Recording ${data.values.length} field values for ${data.canonicalUrl} (item ${data.itemId})`,
+    );
+
+    try {
+      await this.db.transaction(async (tx) => {
+        await tx.execute(
+          sql`SELECT pg_advisory_xact_lock(hashtext(${`${data.userId}:${data.canonicalUrl}`}))`,
+        );
+
+        const latestRows = await tx
+          .selectDistinctOn(
+            [companyFieldHistory.field, companyFieldHistory.valueKey],
+            {
+              id: companyFieldHistory.id,
+              field: companyFieldHistory.field,
+              valueKey: companyFieldHistory.valueKey,
+              value: companyFieldHistory.value,
+            },
+          )
+          .from(companyFieldHistory)
+          .where(
+            and(
+              eq(companyFieldHistory.userId, data.userId),
+              eq(companyFieldHistory.canonicalUrl, data.canonicalUrl),
+            ),
+          )
+          .orderBy(
+            companyFieldHistory.field,
+            companyFieldHistory.valueKey,
+            sql`${companyFieldHistory.lastSeenAt} DESC`,
+          );
+
+        const latestByKey = new Map(
+          latestRows.map((row) => [`${row.field}\u0000${row.valueKey}`, row]),
+        );
+
+        const unchangedIds: string[] = [];
+        const inserts: (typeof companyFieldHistory.$inferInsert)[] = [];
+
+        for (const observed of data.values) {
+          const latest = latestByKey.get(
+            `${observed.field}\u0000${observed.valueKey}`,
+          );
+
+          if (latest && isSameValue(latest.value, observed.value)) {
+            unchangedIds.push(latest.id);
+            continue;
+          }
+
+          inserts.push({
+            userId: data.userId,
+            canonicalUrl: data.canonicalUrl,
+            field: observed.field,
+            valueKey: observed.valueKey,
+            value: observed.value,
+            firstSeenAt: data.observedAt,
+            lastSeenAt: data.observedAt,
+            firstItemId: data.itemId,
+            lastItemId: data.itemId,
+          });
+        }
+
+        if (unchangedIds.length > 0) {
+          await tx
+            .update(companyFieldHistory)
+            .set({
+              lastSeenAt: data.observedAt,
+              lastItemId: data.itemId,
+              updatedAt: new Date(),
+            })
+            .where(inArray(companyFieldHistory.id, unchangedIds));
+        }
+
+        if (inserts.length > 0) {
+          await tx.insert(companyFieldHistory).values(inserts);
+        }
+      });
+
+      this.logger.log(
+        `Recorded field values for ${data.canonicalUrl} (item ${data.itemId})`,
+      );
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error recording field values for ${data.canonicalUrl} (item ${data.itemId})`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the full value history of a canonical URL for a user
+   * Ordered by field, then oldest value first
+   */
+  async findHistory(
+    userId: string,
+    canonicalUrl: string,
+  ): Promise<CompanyFieldHistoryEntity[]> {
+    this.logger.log(`Finding field history of ${canonicalUrl} for ${userId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(companyFieldHistory)
+        .where(
+          and(
+            eq(companyFieldHistory.userId, userId),
+            eq(companyFieldHistory.canonicalUrl, canonicalUrl),
+          ),
+        )
+        .orderBy(
+          companyFieldHistory.field,
+          companyFieldHistory.valueKey,
+          companyFieldHistory.firstSeenAt,
+        );
+
+      this.logger.log(
+        `Found ${result.length} field history rows for ${canonicalUrl}`,
+      );
+      return result as CompanyFieldHistoryEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding field history of ${canonicalUrl} for ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import { CompanyFieldProvenance } from "../schema/companies";
+import {
+  mergeContacts,
+  mergePhones,
+  resolveCompanyMerge,
+  takesIndustryClassification,
+  takesPrecedence,
+} from "./company-merge";
+
+const scraped = (
+  confidence: number,
+  observedAt: string,
+  itemId = "item-1",
+): CompanyFieldProvenance => ({
+  source: "scrape",
+  itemId,
+  method: "selector",
+  confidence,
+  observedAt,
+});
+
+const manual: CompanyFieldProvenance = {
+  source: "manual",
+  itemId: null,
+  method: null,
+  confidence: 1,
+  observedAt: "2024-01-01T00:00:00.000Z",
+};
+
+const item = {
+  observedAt: new Date("2024-06-01T00:00:00.000Z"),
+  fields: {},
+  industryClassification: { industrySector: null, industryConfidence: null },
+  headcount: { headcountMin: null, headcountMax: null, headcountBucket: null },
+  hqAddress: {
+    hqStreet: null,
+    hqCity: null,
+    hqRegion: null,
+    hqPostalCode: null,
+    hqCountry: null,
+  },
+  contacts: [],
+  phones: [],
+};
+
+describe("takesPrecedence", () => {
+  it("never replaces a manual edit", () => {
+    expect(takesPrecedence(scraped(1, "2030-01-01"), manual)).toBe(false);
+  });
+
+  it("prefers the higher confidence, then the newer observation", () => {
+    const current = scraped(0.85, "2024-01-01");
+
+    expect(takesPrecedence(scraped(0.9, "2023-01-01"), current)).toBe(true);
+    expect(takesPrecedence(scraped(0.6, "2030-01-01"), current)).toBe(false);
+    expect(takesPrecedence(scraped(0.85, "2024-02-01"), current)).toBe(true);
+    expect(takesPrecedence(scraped(0.85, "2023-12-01"), current)).toBe(false);
+  });
+
+  it("fills a field without a value", () => {
+    expect(takesPrecedence(scraped(0.3, "2024-01-01"), undefined)).toBe(true);
+  });
+});
+
+describe("takesIndustryClassification", () => {
+  const bank = { industrySector: "52" as const, industryConfidence: 0.6 };
+
+  it("takes an equally or more confident sector", () => {
+    expect(
+      takesIndustryClassification(bank, { industryConfidence: 0.6 }, undefined),
+    ).toBe(true);
+    expect(
+      takesIndustryClassification(bank, { industryConfidence: 0.7 }, undefined),
+    ).toBe(false);
+    expect(takesIndustryClassification(bank, null, undefined)).toBe(true);
+  });
+
+  it("keeps the sector of a manually edited industry and ignores no sector", () => {
+    expect(
+      takesIndustryClassification(bank, { industryConfidence: 0.1 }, manual),
+    ).toBe(false);
+    expect(
+      takesIndustryClassification(
+        { industrySector: null, industryConfidence: null },
+        null,
+        undefined,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("mergeContacts", () => {
+  it("keys contacts by email or name, the incoming one replacing the stored", () => {
+    expect(
+      mergeContacts(
+        [
+          { name: "Jane Doe", title: null, email: "Jane@acme.com" },
+          { name: "John Smith", title: null, email: null },
+        ],
+        [
+          { name: "Jane Doe", title: "CEO", email: "jane@acme.com" },
+          { name: "Ann Lee", title: null, email: "ann@acme.com" },
+        ],
+      ),
+    ).toEqual([
+      { name: "Jane Doe", title: "CEO", email: "jane@acme.com" },
+      { name: "John Smith", title: null, email: null },
+      { name: "Ann Lee", title: null, email: "ann@acme.com" },
+    ]);
+    expect(mergeContacts(null, [])).toBeNull();
+  });
+});
+
+describe("mergePhones", () => {
+  it("keeps the union with stored numbers first", () => {
+    expect(
+      mergePhones(["+4930123", "+4930456"], ["+4930456", "+1415"]),
+    ).toEqual(["+4930123", "+4930456", "+1415"]);
+    expect(mergePhones(null, [])).toBeNull();
+  });
+});
+
+describe("resolveCompanyMerge", () => {
+  it("takes every observed field and the sector on first sight", () => {
+    const merge = resolveCompanyMerge(null, {
+      ...item,
+      fields: {
+        companyName: {
+          value: "Acme",
+          provenance: scraped(0.9, "2024-06-01"),
+        },
+        headcountRange: {
+          value: "51-200",
+          provenance: scraped(0.9, "2024-06-01"),
+        },
+      },
+      industryClassification: { industrySector: "51", industryConfidence: 0.5 },
+      headcount: {
+        headcountMin: 51,
+        headcountMax: 200,
+        headcountBucket: "51-200",
+      },
+      phones: ["+4930123"],
+    });
+
+    expect(merge).toEqual({
+      values: { companyName: "Acme", headcountRange: "51-200" },
+      fieldProvenance: {
+        companyName: scraped(0.9, "2024-06-01"),
+        headcountRange: scraped(0.9, "2024-06-01"),
+      },
+      parsed: {
+        industrySector: "51",
+        industryConfidence: 0.5,
+        headcountMin: 51,
+        headcountMax: 200,
+        headcountBucket: "51-200",
+      },
+      contacts: null,
+      phones: ["+4930123"],
+      lastScrapedAt: item.observedAt,
+    });
+  });
+
+  it("leaves manual and more confident fields, and the parsed columns they hold", () => {
+    const lastScrapedAt = new Date("2024-09-01T00:00:00.000Z");
+    const merge = resolveCompanyMerge(
+      {
+        fieldProvenance: {
+          companyName: manual,
+          hqLocation: scraped(0.9, "2024-01-01", "item-0"),
+        },
+        industryConfidence: 0.8,
+        contacts: null,
+        phones: ["+4930123"],
+        lastScrapedAt,
+      },
+      {
+        ...item,
+        fields: {
+          companyName: {
+            value: "ACME Inc",
+            provenance: scraped(0.9, "2024-06-01"),
+          },
+          hqLocation: {
+            value: "Berlin",
+            provenance: scraped(0.6, "2024-06-01"),
+          },
+        },
+        industryClassification: {
+          industrySector: "52",
+          industryConfidence: 0.4,
+        },
+        hqAddress: { ...item.hqAddress, hqCity: "Berlin", hqCountry: "DE" },
+        phones: ["+4930456"],
+      },
+    );
+
+    expect(merge.values).toEqual({});
+    expect(merge.parsed).toEqual({});
+    expect(merge.fieldProvenance.companyName).toBe(manual);
+    expect(merge.phones).toEqual(["+4930123", "+4930456"]);
+    // An older item does not move lastScrapedAt back
+    expect(merge.lastScrapedAt).toBe(lastScrapedAt);
+  });
+});
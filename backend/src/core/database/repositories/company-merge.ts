@@ -0,0 +1,143 @@
+import type { CompanyEntity, MergeItemData } from "./company.repository";
+import {
+  COMPANY_FIELDS,
+  CompanyField,
+  CompanyFieldProvenance,
+} from "../schema/companies";
+import {
+  Contact,
+  Headcount,
+  HqAddress,
+  IndustryClassification,
+} from "../schema/scraping-items";
+
+/**
+ * Columns a merge writes to the company
+ */
+export interface CompanyMerge {
+  // Fields whose observed value wins
+  values: Partial<Record<CompanyField, string>>;
+  fieldProvenance: Partial<Record<CompanyField, CompanyFieldProvenance>>;
+  // Industry sector, headcount and HQ address columns that change
+  parsed: Partial<IndustryClassification & Headcount & HqAddress>;
+  contacts: Contact[] | null;
+  phones: string[] | null;
+  lastScrapedAt: Date;
+}
+
+/**
+ * Field-level precedence: manual edits always win, then the higher
+ * confidence, then the more recent observation
+ */
+export const takesPrecedence = (
+  candidate: CompanyFieldProvenance,
+  current: CompanyFieldProvenance | undefined,
+): boolean => {
+  if (!current) {
+    return true;
+  }
+  if (current.source === "manual") {
+    return false;
+  }
+  if (candidate.confidence !== current.confidence) {
+    return candidate.confidence > current.confidence;
+  }
+  return candidate.observedAt >= current.observedAt;
+};
+
+/**
+ * Whether an item's industry classification replaces the company's: a
+ * manually edited industry keeps its own, otherwise the more confident wins
+ * (the newer one on ties)
+ */
+export const takesIndustryClassification = (
+  candidate: IndustryClassification,
+  current: { industryConfidence: number | null } | null,
+  industryProvenance: CompanyFieldProvenance | undefined,
+): boolean =>
+  candidate.industrySector !== null &&
+  industryProvenance?.source !== "manual" &&
+  (candidate.industryConfidence ?? 0) >= (current?.industryConfidence ?? 0);
+
+/**
+ * Merge contact lists keyed by lowercased email, falling back to name
+ * A contact from the incoming list replaces the stored one with the same key
+ */
+export const mergeContacts = (
+  current: Contact[] | null,
+  incoming: Contact[],
+): Contact[] | null => {
+  const byKey = new Map<string, Contact>();
+  for (const contact of [...(current ?? []), ...incoming]) {
+    const key = (contact.email || contact.name || "").trim().toLowerCase();
+    if (key) {
+      byKey.set(key, contact);
+    }
+  }
+  return byKey.size > 0 ? [...byKey.values()] : null;
+};
+
+/**
+ * Union of phone numbers, stored ones first
+ */
+export const mergePhones = (
+  current: string[] | null,
+  incoming: string[],
+): string[] | null => {
+  const phones = [...new Set([...(current ?? []), ...incoming])];
+  return phones.length > 0 ? phones : null;
+};
+
+/**
+ * Decide what merging an item changes on its company (null on first sight)
+ * Each field follows takesPrecedence; the industry sector follows
+ * takesIndustryClassification; the parsed headcount and HQ address follow
+ * their raw field; contacts and phones accumulate
+ */
+export const resolveCompanyMerge = (
+  existing: Pick<
+    CompanyEntity,
+    | "fieldProvenance"
+    | "industryConfidence"
+    | "contacts"
+    | "phones"
+    | "lastScrapedAt"
+  > | null,
+  data: Omit<MergeItemData, "userId" | "domain" | "itemId">,
+): CompanyMerge => {
+  const values: Partial<Record<CompanyField, string>> = {};
+  const fieldProvenance = { ...(existing?.fieldProvenance ?? {}) };
+
+  for (const field of COMPANY_FIELDS) {
+    const observed = data.fields[field];
+    if (
+      observed &&
+      takesPrecedence(observed.provenance, fieldProvenance[field])
+    ) {
+      values[field] = observed.value;
+      fieldProvenance[field] = observed.provenance;
+    }
+  }
+
+  return {
+    values,
+    fieldProvenance,
+    parsed: {
+      ...(takesIndustryClassification(
+        data.industryClassification,
+        existing,
+        fieldProvenance.industry,
+      )
+        ? data.industryClassification
+        : {}),
+      ...(values.headcountRange !== undefined ? data.headcount : {}),
+      ...(values.hqLocation !== undefined ? data.hqAddress : {}),
+    },
+    contacts: mergeContacts(existing?.contacts ?? null, data.contacts),
+    phones: mergePhones(existing?.phones ?? null, data.phones),
+    lastScrapedAt:
+      existing?.lastScrapedAt && existing.lastScrapedAt > data.observedAt
+        ? existing.lastScrapedAt
+        : data.observedAt,
+  };
+};
@@ -0,0 +1,438 @@
+import { Injectable } from "@nestjs/common";
+import {
+  BaseRepository,
+  CursorPage,
+  CursorPageOptions,
+  HeadcountFilters,
+  SortDirection,
+  escapeLike,
+  headcountConditions,
+} from "./base.repository";
+import { companies, scrapingItems } from "../schema";
+import { eq, and, gt, ilike, inArray, sql, SQL } from "drizzle-orm";
+import {
+  COMPANY_FIELDS,
+  CompanyField,
+  CompanyFieldProvenance,
+} from "../schema/companies";
+import {
+  Contact,
+  Headcount,
+  HeadcountBucket,
+  HqAddress,
+  IndustryClassification,
+  IndustrySector,
+} from "../schema/scraping-items";
+import { ScrapingItemEntity } from "./scraping.repository";
+import { resolveCompanyMerge } from "./company-merge";
+
+export interface CompanyEntity {
+  id: string;
+  userId: string;
+  domain: string;
+  companyName: string | null;
+  website: string | null;
+  industry: string | null;
+  industrySector: IndustrySector | null;
+  industryConfidence: number | null;
+  headcountRange: string | null;
+  headcountMin: number | null;
+  headcountMax: number | null;
+  headcountBucket: HeadcountBucket | null;
+  hqLocation: string | null;
+  hqStreet: string | null;
+  hqCity: string | null;
+  hqRegion: string | null;
+  hqPostalCode: string | null;
+  hqCountry: string | null;
+  contacts: Contact[] | null;
+  phones: string[] | null;
+  fieldProvenance: Partial<Record<CompanyField, CompanyFieldProvenance>>;
+  lastScrapedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Field values of one completed item, each with where it came from
+export interface MergeItemData {
+  userId: string;
+  domain: string;
+  itemId: string;
+  observedAt: Date;
+  fields: Partial<
+    Record<CompanyField, { value: string; provenance: CompanyFieldProvenance }>
+  >;
+  // Sector classified from the item's pages
+  industryClassification: IndustryClassification;
+  // Parsed from the observed headcountRange and hqLocation; each is stored
+  // whenever the value it was parsed from wins
+  headcount: Headcount;
+  hqAddress: HqAddress;
+  contacts: Contact[];
+  phones: string[];
+}
+
+export const COMPANY_SORT_FIELDS = [
+  "updatedAt",
+  "companyName",
+  "domain",
+] as const;
+export type CompanySortField = (typeof COMPANY_SORT_FIELDS)[number];
+
+const COMPANY_SORT_COLUMNS = {
+  updatedAt: companies.updatedAt,
+  companyName: companies.companyName,
+  domain: companies.domain,
+};
+
+export interface CompanyListFilters extends HeadcountFilters {
+  // Case-insensitive substring matches
+  domain?: string;
+  companyName?: string;
+  // ISO 3166 alpha-2, matched against the parsed HQ address
+  country?: string;
+  industrySectors?: IndustrySector[];
+}
+
+@Injectable()
+export class CompanyRepository extends BaseRepository<CompanyEntity> {
+  /**
+   * Merge a completed item into the company of its domain and link the item
+   * Creates the company on first sight. Merges for the same domain are
+   * serialized with an advisory lock so concurrent items cannot interleave.
+   */
+  async mergeItem(data: MergeItemData): Promise<CompanyEntity> {
+    this.logger.log(
+      `Merging item ${data.itemId} into company ${data.domain} for user ${data.userId}`,
+    );
+
+    try {
+      const company = await this.db.transaction(async (tx) => {
+        await tx.execute(
+          sql`SELECT pg_advisory_xact_lock(hashtext(${`company:${data.userId}:${data.domain}`}))`,
+        );
+
+        const [existing] = await tx
+          .select()
+          .from(companies)
+          .where(
+            and(
+              eq(companies.userId, data.userId),
+              eq(companies.domain, data.domain),
+            ),
+          )
+          .limit(1);
+
+        const {
+          values,
+          fieldProvenance,
+          parsed,
+          contacts,
+          phones,
+          lastScrapedAt,
+        } = resolveCompanyMerge(existing ?? null, data);
+
+        const [saved] = existing
+          ? await tx
+              .update(companies)
+              .set({
+                ...values,
+                ...parsed,
+                contacts,
+                phones,
+                fieldProvenance,
+                lastScrapedAt,
+                updatedAt: new Date(),
+              })
+              .where(eq(companies.id, existing.id))
+              .returning()
+          : await tx
+              .insert(companies)
+              .values({
+                userId: data.userId,
+                domain: data.domain,
+                ...values,
+                ...parsed,
+                contacts,
+                phones,
+                fieldProvenance,
+                lastScrapedAt,
+              })
+              .returning();
+
+        await tx
+          .update(scrapingItems)
+          .set({ companyId: saved.id })
+          .where(eq(scrapingItems.id, data.itemId));
+
+        return saved as CompanyEntity;
+      });
+
+      this.logger.log(
+        `Item ${data.itemId} merged into company ${company.id} (${data.domain})`,
+      );
+      return company;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error merging item ${data.itemId} into company ${data.domain}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a company by ID with userId filter for security
+   */
+  async findCompanyById(
+    companyId: string,
+    userId: string,
+  ): Promise<CompanyEntity | null> {
+    this.logger.log(`Finding company ${companyId} for user ${userId}`);
+
+    try {
+      return await this.findOne(
+        companies,
+        and(eq(companies.id, companyId), eq(companies.userId, userId)),
+      );
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding company ${companyId} for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find one page of a user's companies with optional filters
+   */
+  async findCompaniesByUserId(
+    userId: string,
+    filters: CompanyListFilters,
+    sort: { sortBy: CompanySortField; direction: SortDirection },
+    page: CursorPageOptions,
+  ): Promise<CursorPage<CompanyEntity>> {
+    this.logger.log(`Finding companies for user: ${userId}`);
+
+    try {
+      const conditions: SQL[] = [eq(companies.userId, userId)];
+      if (filters.domain) {
+        conditions.push(
+          ilike(companies.domain, `%${escapeLike(filters.domain)}%`),
+        );
+      }
+      if (filters.companyName) {
+        conditions.push(
+          ilike(companies.companyName, `%${escapeLike(filters.companyName)}%`),
+        );
+      }
+      if (filters.country) {
+        conditions.push(eq(companies.hqCountry, filters.country));
+      }
+      if (filters.industrySectors?.length) {
+        conditions.push(
+          inArray(companies.industrySector, filters.industrySectors),
+        );
+      }
+      conditions.push(...headcountConditions(companies, filters));
+
+      const result = await this.paginate<CompanyEntity>(
+        {
+          column: COMPANY_SORT_COLUMNS[sort.sortBy],
+          idColumn: companies.id,
+          direction: sort.direction,
+        },
+        page,
+        async ({ after, orderBy, limit, sortKey }) => {
+          const rows = await this.db
+            .select({ company: companies, sortKey })
+            .from(companies)
+            .where(and(...conditions, after))
+            .orderBy(...orderBy)
+            .limit(limit);
+
+          return rows.map((row) => ({
+            row: row.company as CompanyEntity,
+            id: row.company.id,
+            sortKey: row.sortKey,
+          }));
+        },
+      );
+
+      this.logger.log(
+        `Found ${result.items.length} companies for user ${userId}`,
+      );
+      return result;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding companies for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find the items merged into a company, most recently finished first
+   */
+  async findSourceItems(companyId: string): Promise<ScrapingItemEntity[]> {
+    this.logger.log(`Finding source items of company: ${companyId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(scrapingItems)
+        .where(eq(scrapingItems.companyId, companyId))
+        .orderBy(sql`${scrapingItems.finishedAt} DESC NULLS LAST`);
+
+      this.logger.log(
+        `Found ${result.length} source items of company ${companyId}`,
+      );
+      return result as ScrapingItemEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding source items of company ${companyId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Read all companies in batches ordered by ID (keyset pagination)
+   * Used by the backfill of the columns parsed from raw fields
+   */
+  async *streamCompanies(batchSize: number): AsyncGenerator<CompanyEntity[]> {
+    this.logger.log("Streaming companies");
+
+    let lastId: string | null = null;
+    let total = 0;
+
+    try {
+      for (;;) {
+        const batch = (await this.db
+          .select()
+          .from(companies)
+          .where(lastId ? gt(companies.id, lastId) : undefined)
+          .orderBy(companies.id)
+          .limit(batchSize)) as CompanyEntity[];
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        total += batch.length;
+        yield batch;
+
+        if (batch.length < batchSize) {
+          break;
+        }
+        lastId = batch[batch.length - 1].id;
+      }
+
+      this.logger.log(`Streamed ${total} companies`);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error("Error streaming companies", errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrite the columns parsed from a company's raw fields
+   * updatedAt is left alone: the company data itself did not change
+   */
+  async updateParsedFields(
+    companyId: string,
+    parsed: Partial<IndustryClassification & Headcount & HqAddress>,
+  ): Promise<void> {
+    try {
+      await this.db
+        .update(companies)
+        .set(parsed)
+        .where(eq(companies.id, companyId));
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error updating parsed fields of company ${companyId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Apply manual edits to a company
+   * A string value is locked as a manual edit; null clears the value and
+   * the lock so the next scrape can fill it again. parsed holds the columns
+   * re-derived from edited fields (industry sector, headcount, HQ address).
+   */
+  async updateManualFields(
+    companyId: string,
+    edits: Partial<Record<CompanyField, string | null>>,
+    parsed: Partial<IndustryClassification & Headcount & HqAddress> = {},
+  ): Promise<CompanyEntity | null> {
+    this.logger.log(`Applying manual edits to company: ${companyId}`);
+
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [existing] = await tx
+          .select()
+          .from(companies)
+          .where(eq(companies.id, companyId))
+          .limit(1)
+          .for("update");
+
+        if (!existing) {
+          return null;
+        }
+
+        const fieldProvenance: CompanyEntity["fieldProvenance"] = {};
+        const observedAt = new Date().toISOString();
+
+        for (const field of COMPANY_FIELDS) {
+          const value = edits[field];
+          if (value === undefined) {
+            const current = existing.fieldProvenance[field];
+            if (current) {
+              fieldProvenance[field] = current;
+            }
+          } else if (value !== null) {
+            fieldProvenance[field] = {
+              source: "manual",
+              itemId: null,
+              method: null,
+              confidence: 1,
+              observedAt,
+            };
+          }
+        }
+
+        const [saved] = await tx
+          .update(companies)
+          .set({
+            ...edits,
+            ...parsed,
+            fieldProvenance,
+            updatedAt: new Date(),
+          })
+          .where(eq(companies.id, companyId))
+          .returning();
+
+        return saved as CompanyEntity;
+      });
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error applying manual edits to company ${companyId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,394 @@
+import { Injectable } from "@nestjs/common";
+import {
+  BaseRepository,
+  CursorPage,
+  CursorPageOptions,
+  SortDirection,
+  escapeLike,
+} from "./base.repository";
+import { contacts, contactSightings } from "../schema";
+import { contactSearchDocument } from "../schema/contacts";
+import { eq, and, gte, ilike, inArray, sql, SQL } from "drizzle-orm";
+import { EmailType } from "../schema/scraping-items";
+
+export interface ContactEntity {
+  id: string;
+  userId: string;
+  email: string;
+  name: string | null;
+  title: string | null;
+  phone: string | null;
+  emailType: EmailType | null;
+  emailDomainMatch: boolean | null;
+  qualityScore: number | null;
+  companyId: string | null;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ContactSightingEntity {
+  id: string;
+  contactId: string;
+  itemId: string;
+  jobId: string;
+  sourceUrl: string;
+  rawEmail: string;
+  name: string | null;
+  title: string | null;
+  seenAt: Date;
+  createdAt: Date;
+}
+
+// One contact as found on one page of an item
+export interface ObservedContact {
+  // Normalized
+  email: string;
+  rawEmail: string;
+  name: string | null;
+  title: string | null;
+  phone: string | null;
+  sourceUrl: string;
+  emailType: EmailType;
+  emailDomainMatch: boolean | null;
+  qualityScore: number;
+}
+
+export interface RecordSightingsData {
+  userId: string;
+  itemId: string;
+  jobId: string;
+  companyId: string | null;
+  seenAt: Date;
+  contacts: ObservedContact[];
+}
+
+export interface ContactSearchResult {
+  rank: number;
+  contact: ContactEntity;
+}
+
+export const CONTACT_SORT_FIELDS = [
+  "lastSeenAt",
+  "name",
+  "email",
+  "qualityScore",
+] as const;
+export type ContactSortField = (typeof CONTACT_SORT_FIELDS)[number];
+
+const CONTACT_SORT_COLUMNS = {
+  lastSeenAt: contacts.lastSeenAt,
+  name: contacts.name,
+  email: contacts.email,
+  qualityScore: contacts.qualityScore,
+};
+
+export interface ContactListFilters {
+  // Case-insensitive substring matches
+  email?: string;
+  name?: string;
+  companyId?: string;
+  // Contacts seen at least once in this job
+  jobId?: string;
+  emailTypes?: EmailType[];
+  minQualityScore?: number;
+}
+
+/**
+ * Name, title, phone, email classification and company of a contact follow its most recent sighting;
+ * an older sighting only fills values that are still empty
+ */
+const fromLatestSighting = (column: string): SQL => {
+  const current = sql`${contacts}.${sql.identifier(column)}`;
+  const incoming = sql`excluded.${sql.identifier(column)}`;
+  return sql`CASE WHEN excluded.last_seen_at >= ${contacts}.last_seen_at THEN coalesce(${incoming}, ${current}) ELSE coalesce(${current}, ${incoming}) END`;
+};
+
+@Injectable()
+export class ContactRepository extends BaseRepository<ContactEntity> {
+  /**
+   * Record the contacts found on an item
+   * Contacts are upserted by normalized email; sightings already recorded
+   * for the same item and page are skipped, so re-processing is harmless
+   */
+  async recordSightings(data: RecordSightingsData): Promise<ContactEntity[]> {
+    this.logger.log(
+      `Recording ${data.contacts.length} contact sightings for item ${data.itemId}`,
+    );
+
+    try {
+      const saved = await this.db.transaction(async (tx) => {
+        // One upsert row per email; the first sighting with a value wins
+        const byEmail = new Map<string, ObservedContact>();
+        for (const contact of data.contacts) {
+          const current = byEmail.get(contact.email);
+          byEmail.set(contact.email, {
+            ...contact,
+            name: current?.name ?? contact.name,
+            title: current?.title ?? contact.title,
+            phone: current?.phone ?? contact.phone,
+          });
+        }
+
+        const upserted = await tx
+          .insert(contacts)
+          .values(
+            [...byEmail.values()].map((contact) => ({
+              userId: data.userId,
+              email: contact.email,
+              name: contact.name,
+              title: contact.title,
+              phone: contact.phone,
+              emailType: contact.emailType,
+              emailDomainMatch: contact.emailDomainMatch,
+              qualityScore: contact.qualityScore,
+              companyId: data.companyId,
+              firstSeenAt: data.seenAt,
+              lastSeenAt: data.seenAt,
+            })),
+          )
+          .onConflictDoUpdate({
+            target: [contacts.userId, contacts.email],
+            set: {
+              name: fromLatestSighting("name"),
+              title: fromLatestSighting("title"),
+              phone: fromLatestSighting("phone"),
+              emailType: fromLatestSighting("email_type"),
+              emailDomainMatch: fromLatestSighting("email_domain_match"),
+              qualityScore: fromLatestSighting("quality_score"),
+              companyId: fromLatestSighting("company_id"),
+              firstSeenAt: sql`least(${contacts}.first_seen_at, excluded.first_seen_at)`,
+              lastSeenAt: sql`greatest(${contacts}.last_seen_at, excluded.last_seen_at)`,
+              updatedAt: new Date(),
+            },
+          })
+          .returning();
+
+        const idByEmail = new Map(upserted.map((row) => [row.email, row.id]));
+
+        const sightings = data.contacts.flatMap((contact) => {
+          const contactId = idByEmail.get(contact.email);
+          return contactId
+            ? [
+                {
+                  contactId,
+                  itemId: data.itemId,
+                  jobId: data.jobId,
+                  sourceUrl: contact.sourceUrl,
+                  rawEmail: contact.rawEmail,
+                  name: contact.name,
+                  title: contact.title,
+                  seenAt: data.seenAt,
+                },
+              ]
+            : [];
+        });
+
+        await tx
+          .insert(contactSightings)
+          .values(sightings)
+          .onConflictDoNothing();
+
+        return upserted as ContactEntity[];
+      });
+
+      this.logger.log(
+        `Recorded ${saved.length} contacts for item ${data.itemId}`,
+      );
+      return saved;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error recording contact sightings for item ${data.itemId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a contact by ID with userId filter for security
+   */
+  async findContactById(
+    contactId: string,
+    userId: string,
+  ): Promise<ContactEntity | null> {
+    this.logger.log(`Finding contact ${contactId} for user ${userId}`);
+
+    try {
+      return await this.findOne(
+        contacts,
+        and(eq(contacts.id, contactId), eq(contacts.userId, userId)),
+      );
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding contact ${contactId} for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find one page of a user's contacts with optional filters
+   */
+  async findContactsByUserId(
+    userId: string,
+    filters: ContactListFilters,
+    sort: { sortBy: ContactSortField; direction: SortDirection },
+    page: CursorPageOptions,
+  ): Promise<CursorPage<ContactEntity>> {
+    this.logger.log(`Finding contacts for user: ${userId}`);
+
+    try {
+      const conditions: SQL[] = [eq(contacts.userId, userId)];
+      if (filters.email) {
+        conditions.push(
+          ilike(contacts.email, `%${escapeLike(filters.email)}%`),
+        );
+      }
+      if (filters.name) {
+        conditions.push(ilike(contacts.name, `%${escapeLike(filters.name)}%`));
+      }
+      if (filters.companyId) {
+        conditions.push(eq(contacts.companyId, filters.companyId));
+      }
+      if (filters.emailTypes?.length) {
+        conditions.push(inArray(contacts.emailType, filters.emailTypes));
+      }
+      if (filters.minQualityScore !== undefined) {
+        conditions.push(gte(contacts.qualityScore, filters.minQualityScore));
+      }
+      if (filters.jobId) {
+        conditions.push(
+          sql`EXISTS (SELECT 1 FROM ${contactSightings} WHERE ${contactSightings.contactId} = ${contacts.id} AND ${contactSightings.jobId} = ${filters.jobId})`,
+        );
+      }
+
+      const result = await this.paginate<ContactEntity>(
+        {
+          column: CONTACT_SORT_COLUMNS[sort.sortBy],
+          idColumn: contacts.id,
+          direction: sort.direction,
+        },
+        page,
+        async ({ after, orderBy, limit, sortKey }) => {
+          const rows = await this.db
+            .select({ contact: contacts, sortKey })
+            .from(contacts)
+            .where(and(...conditions, after))
+            .orderBy(...orderBy)
+            .limit(limit);
+
+          return rows.map((row) => ({
+            row: row.contact as ContactEntity,
+            id: row.contact.id,
+            sortKey: row.sortKey,
+          }));
+        },
+      );
+
+      this.logger.log(
+        `Found ${result.items.length} contacts for user ${userId}`,
+      );
+      return result;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding contacts for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search over a user's contacts by name, title and email,
+   * best matches first
+   */
+  async searchContacts(
+    userId: string,
+    text: string,
+    page: CursorPageOptions,
+  ): Promise<CursorPage<ContactSearchResult>> {
+    this.logger.log(`Searching contacts for user: ${userId}`);
+
+    try {
+      const query = sql`websearch_to_tsquery('english'::regconfig, ${text})`;
+      const rank = sql`ts_rank_cd(${contactSearchDocument(contacts)}, ${query})`;
+
+      const result = await this.paginate<ContactSearchResult>(
+        { column: rank, idColumn: contacts.id, direction: "desc" },
+        page,
+        async ({ after, orderBy, limit, sortKey }) => {
+          const rows = await this.db
+            .select({
+              contact: contacts,
+              rank: sql<number>`${rank}`.mapWith(Number),
+              sortKey,
+            })
+            .from(contacts)
+            .where(
+              and(
+                eq(contacts.userId, userId),
+                sql`${contactSearchDocument(contacts)} @@ ${query}`,
+                after,
+              ),
+            )
+            .orderBy(...orderBy)
+            .limit(limit);
+
+          return rows.map((row) => ({
+            row: { rank: row.rank, contact: row.contact as ContactEntity },
+            id: row.contact.id,
+            sortKey: row.sortKey,
+          }));
+        },
+      );
+
+      this.logger.log(
+        `Found ${result.items.length} contact search results for user ${userId}`,
+      );
+      return result;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error searching contacts for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find every page a contact was seen on, most recent first
+   */
+  async findSightings(contactId: string): Promise<ContactSightingEntity[]> {
+    this.logger.log(`Finding sightings of contact: ${contactId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(contactSightings)
+        .where(eq(contactSightings.contactId, contactId))
+        .orderBy(
+          sql`${contactSightings.seenAt} DESC`,
+          contactSightings.sourceUrl,
+        );
+
+      this.logger.log(
+        `Found ${result.length} sightings of contact ${contactId}`,
+      );
+      return result as ContactSightingEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding sightings of contact ${contactId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+}
@@ -5,3 +5,7 @@ export * from "./base.repository";
 export * from "./users.repository";
 export * from "./health-checking.repository";
 export * from "./scraping.repository";
+export * from "./scraping-schedule.repository";
+export * from "./company-field-history.repository";
+export * from "./company.repository";
+export * from "./contact.repository";
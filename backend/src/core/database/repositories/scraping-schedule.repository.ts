@@ -0,0 +1,235 @@
+import { Injectable } from "@nestjs/common";
+import { BaseRepository } from "./base.repository";
+import { scrapingSchedules } from "../schema";
+import { eq, and, lte, sql } from "drizzle-orm";
+
+export interface ScrapingScheduleEntity {
+  id: string;
+  jobId: string;
+  userId: string;
+  cronExpression: string;
+  timeZone: string;
+  enabled: boolean;
+  nextRunAt: Date | null;
+  lastRunAt: Date | null;
+  lastRunJobId: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface UpsertScheduleData {
+  jobId: string;
+  userId: string;
+  cronExpression: string;
+  timeZone: string;
+  nextRunAt: Date;
+}
+
+@Injectable()
+export class ScrapingScheduleRepository extends BaseRepository<ScrapingScheduleEntity> {
+  /**
+   * Create the schedule of a job, or replace and re-enable an existing one
+   */
+  async upsertSchedule(
+    data: UpsertScheduleData,
+  ): Promise<ScrapingScheduleEntity> {
+    this.logger.log(`Saving schedule for job: ${data.jobId}`);
+
+    try {
+      const result = await this.db
+        .insert(scrapingSchedules)
+        .values({
+          jobId: data.jobId,
+          userId: data.userId,
+          cronExpression: data.cronExpression,
+          timeZone: data.timeZone,
+          enabled: true,
+          nextRunAt: data.nextRunAt,
+        })
+        .onConflictDoUpdate({
+          target: scrapingSchedules.jobId,
+          set: {
+            cronExpression: data.cronExpression,
+            timeZone: data.timeZone,
+            enabled: true,
+            nextRunAt: data.nextRunAt,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+
+      this.logger.log(
+        `Schedule ${result[0].id} saved for job ${data.jobId}, next run at ${data.nextRunAt.toISOString()}`,
+      );
+      return result[0] as ScrapingScheduleEntity;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Failed to save schedule for job: ${data.jobId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find a schedule by ID with userId filter for security
+   */
+  async findScheduleById(
+    scheduleId: string,
+    userId: string,
+  ): Promise<ScrapingScheduleEntity | null> {
+    this.logger.log(`Finding schedule ${scheduleId} for user ${userId}`);
+
+    try {
+      return await this.findOne(
+        scrapingSchedules,
+        and(
+          eq(scrapingSchedules.id, scheduleId),
+          eq(scrapingSchedules.userId, userId),
+        ),
+      );
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding schedule ${scheduleId} for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find all schedules for a specific user
+   */
+  async findSchedulesByUserId(
+    userId: string,
+  ): Promise<ScrapingScheduleEntity[]> {
+    this.logger.log(`Finding schedules for user: ${userId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(scrapingSchedules)
+        .where(eq(scrapingSchedules.userId, userId))
+        .orderBy(sql`${scrapingSchedules.createdAt} DESC`);
+
+      this.logger.log(`Found ${result.length} schedules for user ${userId}`);
+      return result as ScrapingScheduleEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding schedules for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Disable a schedule; it keeps its run history and can be re-enabled
+   */
+  async disableSchedule(
+    scheduleId: string,
+  ): Promise<ScrapingScheduleEntity | null> {
+    this.logger.log(`Disabling schedule: ${scheduleId}`);
+
+    try {
+      const result = await this.db
+        .update(scrapingSchedules)
+        .set({ enabled: false, nextRunAt: null, updatedAt: new Date() })
+        .where(eq(scrapingSchedules.id, scheduleId))
+        .returning();
+
+      return (result[0] as ScrapingScheduleEntity | undefined) ?? null;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error disabling schedule ${scheduleId}`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find enabled schedules whose next run is due
+   */
+  async findDueSchedules(
+    now: Date,
+    limit: number,
+  ): Promise<ScrapingScheduleEntity[]> {
+    try {
+      const result = await this.db
+        .select()
+        .from(scrapingSchedules)
+        .where(
+          and(
+            eq(scrapingSchedules.enabled, true),
+            lte(scrapingSchedules.nextRunAt, now),
+          ),
+        )
+        .orderBy(scrapingSchedules.nextRunAt)
+        .limit(limit);
+
+      return result as ScrapingScheduleEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error finding due schedules`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Advance a due schedule to its next run time
+   * Only succeeds when nextRunAt is unchanged, so each run is claimed by one instance
+   *
+   * @returns True when this caller claimed the run
+   */
+  async claimScheduleRun(
+    scheduleId: string,
+    dueAt: Date,
+    nextRunAt: Date,
+  ): Promise<boolean> {
+    try {
+      const result = await this.db
+        .update(scrapingSchedules)
+        .set({ nextRunAt, lastRunAt: new Date(), updatedAt: new Date() })
+        .where(
+          and(
+            eq(scrapingSchedules.id, scheduleId),
+            eq(scrapingSchedules.enabled, true),
+            eq(scrapingSchedules.nextRunAt, dueAt),
+          ),
+        )
+        .returning({ id: scrapingSchedules.id });
+
+      return result.length > 0;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error claiming schedule run ${scheduleId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Record the job created by a schedule run
+   */
+  async recordRun(scheduleId: string, runJobId: string): Promise<void> {
+    this.logger.log(`Recording run ${runJobId} for schedule ${scheduleId}`);
+
+    try {
+      await this.db
+        .update(scrapingSchedules)
+        .set({ lastRunJobId: runJobId, updatedAt: new Date() })
+        .where(eq(scrapingSchedules.id, scheduleId));
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error recording run ${runJobId} for schedule ${scheduleId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+}
@@ -1,17 +1,53 @@
 import { Injectable } from "@nestjs/common";
-import { BaseRepository } from "./base.repository";
+import {
+  BaseRepository,
+  CursorPage,
+  CursorPageOptions,
+  HeadcountFilters,
+  SortDirection,
+  escapeLike,
+  headcountConditions,
+} from "./base.repository";
 import { scrapingJobs, scrapingItems } from "../schema";
-import { eq, and, inArray, sql } from "drizzle-orm";
-import { Contact } from "../schema/scraping-items";
+import {
+  eq,
+  and,
+  gt,
+  gte,
+  lte,
+  ilike,
+  inArray,
+  not,
+  notInArray,
+  sql,
+  SQL,
+} from "drizzle-orm";
+import {
+  Contact,
+  ErrorCategory,
+  FieldSource,
+  Headcount,
+  HeadcountBucket,
+  HqAddress,
+  IndustryClassification,
+  IndustrySector,
+  SocialProfiles,
+  StructuredCompanyData,
+  scrapingItemSearchDocument,
+} from "../schema/scraping-items";
+import { ScrapingJobOptions } from "../schema/scraping-jobs";
 
 // Type definitions for entities
 export interface ScrapingJobEntity {
   id: string;
   userId: string | null;
+  parentJobId: string | null;
   status: string;
   totalUrls: number;
   processedUrls: number;
   failedUrls: number;
+  cancelledUrls: number;
+  options: ScrapingJobOptions | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -20,16 +56,35 @@ export interface ScrapingItemEntity {
   id: string;
   jobId: string;
   url: string;
+  canonicalUrl: string | null;
+  companyId: string | null;
   status: string;
   lastError: string | null;
+  errorCategory: ErrorCategory | null;
   startedAt: Date | null;
   finishedAt: Date | null;
   companyName: string | null;
   website: string | null;
   industry: string | null;
+  industrySector: IndustrySector | null;
+  industryConfidence: number | null;
   headcountRange: string | null;
+  headcountMin: number | null;
+  headcountMax: number | null;
+  headcountBucket: HeadcountBucket | null;
   hqLocation: string | null;
+  hqStreet: string | null;
+  hqCity: string | null;
+  hqRegion: string | null;
+  hqPostalCode: string | null;
+  hqCountry: string | null;
   contacts: Contact[] | null;
+  phones: string[] | null;
+  socialProfiles: SocialProfiles | null;
+  structuredData: StructuredCompanyData | null;
+  fieldSources: Record<string, FieldSource> | null;
+  pageTextExcerpt: string | null;
+  metadata: Record<string, string> | null;
   rawData: Record<string, any> | null;
   createdAt: Date;
   updatedAt: Date;
@@ -38,14 +93,76 @@ export interface ScrapingItemEntity {
 // DTOs for creating records
 export interface CreateJobData {
   userId: string;
+  parentJobId?: string | null;
   totalUrls: number;
   status?: string;
+  options?: ScrapingJobOptions | null;
+}
+
+// Items waiting to be scraped for one user, for fair-share queue monitoring
+export interface UserBacklog {
+  userId: string | null;
+  pendingItems: number;
+  processingItems: number;
+  activeJobs: number;
+}
+
+export const JOB_SORT_FIELDS = ["createdAt", "updatedAt", "totalUrls"] as const;
+export type JobSortField = (typeof JOB_SORT_FIELDS)[number];
+
+export const ITEM_SORT_FIELDS = [
+  "createdAt",
+  "finishedAt",
+  "companyName",
+] as const;
+export type ItemSortField = (typeof ITEM_SORT_FIELDS)[number];
+
+const JOB_SORT_COLUMNS = {
+  createdAt: scrapingJobs.createdAt,
+  updatedAt: scrapingJobs.updatedAt,
+  totalUrls: scrapingJobs.totalUrls,
+};
+
+const ITEM_SORT_COLUMNS = {
+  createdAt: scrapingItems.createdAt,
+  finishedAt: scrapingItems.finishedAt,
+  companyName: scrapingItems.companyName,
+};
+
+export interface JobListFilters {
+  status?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+}
+
+export interface ItemListFilters extends HeadcountFilters {
+  status?: string;
+  jobId?: string;
+  createdFrom?: Date;
+  createdTo?: Date;
+  // Case-insensitive substring matches
+  industry?: string;
+  location?: string;
+  industrySectors?: IndustrySector[];
+  companyName?: string;
+  // ISO 3166 alpha-2, matched against the parsed HQ address
+  country?: string;
+  hasContacts?: boolean;
+}
+
+// One full-text search hit with its relevance and highlighted fragments
+export interface ItemSearchResult {
+  rank: number;
+  headline: string;
+  item: ScrapingItemEntity;
 }
 
 export interface CreateItemData {
   jobId: string;
   url: string;
+  canonicalUrl?: string | null;
   status?: string;
+  metadata?: Record<string, string> | null;
 }
 
 @Injectable()
@@ -61,10 +178,13 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
         .insert(scrapingJobs)
         .values({
           userId: data.userId,
+          parentJobId: data.parentJobId ?? null,
           totalUrls: data.totalUrls,
           status: data.status || "pending",
           processedUrls: 0,
           failedUrls: 0,
+          cancelledUrls: 0,
+          options: data.options ?? null,
         })
         .returning();
 
@@ -92,7 +212,9 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
       const values = items.map((item) => ({
         jobId: item.jobId,
         url: item.url,
+        canonicalUrl: item.canonicalUrl ?? null,
         status: item.status || "pending",
+        metadata: item.metadata ?? null,
       }));
 
       const result = await this.db
@@ -147,6 +269,61 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
     }
   }
 
+  /**
+   * Find the runs created from a job by its schedule, newest first
+   */
+  async findRunsByParentJobId(
+    parentJobId: string,
+    userId: string,
+  ): Promise<ScrapingJobEntity[]> {
+    this.logger.log(`Finding runs of job ${parentJobId} for user ${userId}`);
+
+    try {
+      const result = await this.db
+        .select()
+        .from(scrapingJobs)
+        .where(
+          and(
+            eq(scrapingJobs.parentJobId, parentJobId),
+            eq(scrapingJobs.userId, userId),
+          ),
+        )
+        .orderBy(sql`${scrapingJobs.createdAt} DESC`);
+
+      this.logger.log(`Found ${result.length} runs of job ${parentJobId}`);
+      return result as ScrapingJobEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding runs of job ${parentJobId} for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Check whether a job has a run that is still pending, processing or paused
+   */
+  async hasUnfinishedRun(parentJobId: string): Promise<boolean> {
+    try {
+      return await this.exists(
+        scrapingJobs,
+        and(
+          eq(scrapingJobs.parentJobId, parentJobId),
+          inArray(scrapingJobs.status, ["pending", "processing", "paused"]),
+        ),
+      );
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error checking unfinished runs of job ${parentJobId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Find all items for a specific job
    */
@@ -169,20 +346,240 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
   }
 
   /**
-   * Find all jobs for a specific user
+   * Read all items of a job in batches ordered by ID (keyset pagination)
+   * Used by exports so large jobs are never loaded into memory at once
    */
-  async findJobsByUserId(userId: string): Promise<ScrapingJobEntity[]> {
-    this.logger.log(`Finding jobs for user: ${userId}`);
+  async *streamItemsByJobId(
+    jobId: string,
+    batchSize: number,
+    filters: HeadcountFilters = {},
+  ): AsyncGenerator<ScrapingItemEntity[]> {
+    this.logger.log(`Streaming items for job: ${jobId}`);
+
+    let lastId: string | null = null;
+    let total = 0;
+    const conditions = [
+      eq(scrapingItems.jobId, jobId),
+      ...headcountConditions(scrapingItems, filters),
+    ];
+
+    try {
+      for (;;) {
+        const batch: ScrapingItemEntity[] = await this.db
+          .select()
+          .from(scrapingItems)
+          .where(
+            lastId
+              ? and(...conditions, gt(scrapingItems.id, lastId))
+              : and(...conditions),
+          )
+          .orderBy(scrapingItems.id)
+          .limit(batchSize);
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        total += batch.length;
+        yield batch;
+
+        if (batch.length < batchSize) {
+          break;
+        }
+        lastId = batch[batch.length - 1].id;
+      }
+
+      this.logger.log(`Streamed ${total} items for job ${jobId}`);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error streaming items for job ${jobId}`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Read all completed items in batches ordered by ID (keyset pagination)
+   * Used by the backfill of the columns parsed from raw fields
+   */
+  async *streamCompletedItems(
+    batchSize: number,
+  ): AsyncGenerator<ScrapingItemEntity[]> {
+    this.logger.log("Streaming completed items");
+
+    let lastId: string | null = null;
+    let total = 0;
+    const completed = eq(scrapingItems.status, "completed");
+
+    try {
+      for (;;) {
+        const batch: ScrapingItemEntity[] = await this.db
+          .select()
+          .from(scrapingItems)
+          .where(
+            lastId ? and(completed, gt(scrapingItems.id, lastId)) : completed,
+          )
+          .orderBy(scrapingItems.id)
+          .limit(batchSize);
+
+        if (batch.length === 0) {
+          break;
+        }
+
+        total += batch.length;
+        yield batch;
+
+        if (batch.length < batchSize) {
+          break;
+        }
+        lastId = batch[batch.length - 1].id;
+      }
+
+      this.logger.log(`Streamed ${total} completed items`);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error("Error streaming completed items", errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Overwrite the columns parsed from an item's raw fields
+   * updatedAt is left alone: the scraped data itself did not change
+   */
+  async updateItemParsedFields(
+    itemId: string,
+    parsed: Partial<IndustryClassification & Headcount & HqAddress>,
+  ): Promise<void> {
+    try {
+      await this.db
+        .update(scrapingItems)
+        .set(parsed)
+        .where(eq(scrapingItems.id, itemId));
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error updating parsed fields of item ${itemId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
 
+  /**
+   * Find an item together with the user who owns its job (no user filter, used by the worker)
+   */
+  async findItemWithOwner(
+    itemId: string,
+  ): Promise<{ item: ScrapingItemEntity; userId: string | null } | null> {
     try {
       const result = await this.db
-        .select()
-        .from(scrapingJobs)
-        .where(eq(scrapingJobs.userId, userId))
-        .orderBy(sql`${scrapingJobs.createdAt} DESC`);
+        .select({ item: scrapingItems, userId: scrapingJobs.userId })
+        .from(scrapingItems)
+        .innerJoin(scrapingJobs, eq(scrapingItems.jobId, scrapingJobs.id))
+        .where(eq(scrapingItems.id, itemId))
+        .limit(1);
 
-      this.logger.log(`Found ${result.length} jobs for user ${userId}`);
-      return result as ScrapingJobEntity[];
+      return (
+        (result[0] as
+          | { item: ScrapingItemEntity; userId: string | null }
+          | undefined) ?? null
+      );
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error finding owner of item ${itemId}`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Find a user's completed scrapes of a canonical URL, most recent first
+   */
+  async findCompletedItemsByCanonicalUrl(
+    userId: string,
+    canonicalUrl: string,
+    limit: number,
+  ): Promise<ScrapingItemEntity[]> {
+    this.logger.log(
+      `Finding completed scrapes of ${canonicalUrl} for user ${userId}`,
+    );
+
+    try {
+      const result = await this.db
+        .select({ item: scrapingItems })
+        .from(scrapingItems)
+        .innerJoin(scrapingJobs, eq(scrapingItems.jobId, scrapingJobs.id))
+        .where(
+          and(
+            eq(scrapingJobs.userId, userId),
+            eq(scrapingItems.canonicalUrl, canonicalUrl),
+            eq(scrapingItems.status, "completed"),
+          ),
+        )
+        .orderBy(sql`${scrapingItems.finishedAt} DESC NULLS LAST`)
+        .limit(limit);
+
+      this.logger.log(
+        `Found ${result.length} completed scrapes of ${canonicalUrl}`,
+      );
+      return result.map((row) => row.item as ScrapingItemEntity);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error finding completed scrapes of ${canonicalUrl} for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Find one page of a user's jobs with optional filters
+   */
+  async findJobsByUserId(
+    userId: string,
+    filters: JobListFilters,
+    sort: { sortBy: JobSortField; direction: SortDirection },
+    page: CursorPageOptions,
+  ): Promise<CursorPage<ScrapingJobEntity>> {
+    this.logger.log(`Finding jobs for user: ${userId}`);
+
+    try {
+      const conditions: SQL[] = [eq(scrapingJobs.userId, userId)];
+      if (filters.status) {
+        conditions.push(eq(scrapingJobs.status, filters.status));
+      }
+      if (filters.createdFrom) {
+        conditions.push(gte(scrapingJobs.createdAt, filters.createdFrom));
+      }
+      if (filters.createdTo) {
+        conditions.push(lte(scrapingJobs.createdAt, filters.createdTo));
+      }
+
+      const result = await this.paginate<ScrapingJobEntity>(
+        {
+          column: JOB_SORT_COLUMNS[sort.sortBy],
+          idColumn: scrapingJobs.id,
+          direction: sort.direction,
+        },
+        page,
+        async ({ after, orderBy, limit, sortKey }) => {
+          const rows = await this.db
+            .select({ job: scrapingJobs, sortKey })
+            .from(scrapingJobs)
+            .where(and(...conditions, after))
+            .orderBy(...orderBy)
+            .limit(limit);
+
+          return rows.map((row) => ({
+            row: row.job as ScrapingJobEntity,
+            id: row.job.id,
+            sortKey: row.sortKey,
+          }));
+        },
+      );
+
+      this.logger.log(`Found ${result.items.length} jobs for user ${userId}`);
+      return result;
     } catch (error) {
       const errorStack = error instanceof Error ? error.stack : "";
       this.logger.error(`Error finding jobs for user ${userId}`, errorStack);
@@ -191,36 +588,88 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
   }
 
   /**
-   * Find all items across all jobs for a specific user
+   * Find one page of items across all jobs of a user with optional filters
    */
-  async findItemsByUserId(userId: string): Promise<ScrapingItemEntity[]> {
+  async findItemsByUserId(
+    userId: string,
+    filters: ItemListFilters,
+    sort: { sortBy: ItemSortField; direction: SortDirection },
+    page: CursorPageOptions,
+  ): Promise<CursorPage<ScrapingItemEntity>> {
     this.logger.log(`Finding items for user: ${userId}`);
 
     try {
-      // First get all job IDs for the user
-      const userJobs = await this.db
-        .select({ id: scrapingJobs.id })
-        .from(scrapingJobs)
-        .where(eq(scrapingJobs.userId, userId));
-
-      if (userJobs.length === 0) {
-        this.logger.log(
-          `No jobs found for user ${userId}, returning empty array`,
+      const conditions: SQL[] = [eq(scrapingJobs.userId, userId)];
+      if (filters.status) {
+        conditions.push(eq(scrapingItems.status, filters.status));
+      }
+      if (filters.jobId) {
+        conditions.push(eq(scrapingItems.jobId, filters.jobId));
+      }
+      if (filters.createdFrom) {
+        conditions.push(gte(scrapingItems.createdAt, filters.createdFrom));
+      }
+      if (filters.createdTo) {
+        conditions.push(lte(scrapingItems.createdAt, filters.createdTo));
+      }
+      if (filters.industry) {
+        conditions.push(
+          ilike(scrapingItems.industry, `%${escapeLike(filters.industry)}%`),
         );
-        return [];
+      }
+      if (filters.industrySectors?.length) {
+        conditions.push(
+          inArray(scrapingItems.industrySector, filters.industrySectors),
+        );
+      }
+      if (filters.location) {
+        conditions.push(
+          ilike(scrapingItems.hqLocation, `%${escapeLike(filters.location)}%`),
+        );
+      }
+      if (filters.companyName) {
+        conditions.push(
+          ilike(
+            scrapingItems.companyName,
+            `%${escapeLike(filters.companyName)}%`,
+          ),
+        );
+      }
+      if (filters.country) {
+        conditions.push(eq(scrapingItems.hqCountry, filters.country));
+      }
+      conditions.push(...headcountConditions(scrapingItems, filters));
+      if (filters.hasContacts !== undefined) {
+        const hasContacts = sql`coalesce(jsonb_array_length(${scrapingItems.contacts}), 0) > 0`;
+        conditions.push(filters.hasContacts ? hasContacts : not(hasContacts));
       }
 
-      const jobIds = userJobs.map((job) => job.id);
+      const result = await this.paginate<ScrapingItemEntity>(
+        {
+          column: ITEM_SORT_COLUMNS[sort.sortBy],
+          idColumn: scrapingItems.id,
+          direction: sort.direction,
+        },
+        page,
+        async ({ after, orderBy, limit, sortKey }) => {
+          const rows = await this.db
+            .select({ item: scrapingItems, sortKey })
+            .from(scrapingItems)
+            .innerJoin(scrapingJobs, eq(scrapingItems.jobId, scrapingJobs.id))
+            .where(and(...conditions, after))
+            .orderBy(...orderBy)
+            .limit(limit);
 
-      // Then get all items for those jobs
-      const result = await this.db
-        .select()
-        .from(scrapingItems)
-        .where(inArray(scrapingItems.jobId, jobIds))
-        .orderBy(sql`${scrapingItems.createdAt} DESC`);
+          return rows.map((row) => ({
+            row: row.item as ScrapingItemEntity,
+            id: row.item.id,
+            sortKey: row.sortKey,
+          }));
+        },
+      );
 
-      this.logger.log(`Found ${result.length} items for user ${userId}`);
-      return result as ScrapingItemEntity[];
+      this.logger.log(`Found ${result.items.length} items for user ${userId}`);
+      return result;
     } catch (error) {
       const errorStack = error instanceof Error ? error.stack : "";
       this.logger.error(`Error finding items for user ${userId}`, errorStack);
@@ -228,6 +677,72 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
     }
   }
 
+  /**
+   * Full-text search over a user's items, best match first
+   * Uses websearch syntax ("quoted phrases", OR, -excluded) and the
+   * scraping_items_search_idx GIN index
+   */
+  async searchItems(
+    userId: string,
+    text: string,
+    filters: HeadcountFilters,
+    page: CursorPageOptions,
+  ): Promise<CursorPage<ItemSearchResult>> {
+    this.logger.log(`Searching items for user: ${userId}`);
+
+    try {
+      const query = sql`websearch_to_tsquery('english'::regconfig, ${text})`;
+      const rank = sql`ts_rank_cd(${scrapingItemSearchDocument(scrapingItems)}, ${query})`;
+      // HTML-escaped before highlighting so the only markup is <mark>
+      const headlineSource = sql`replace(replace(replace(concat_ws(' · ', ${scrapingItems.companyName}, ${scrapingItems.industry}, ${scrapingItems.hqLocation}, (SELECT string_agg(concat_ws(' ', contact->>'name', contact->>'title'), '; ') FROM jsonb_array_elements(coalesce(${scrapingItems.contacts}, '[]'::jsonb)) AS contact), ${scrapingItems.pageTextExcerpt}), '&', '&amp;'), '<', '&lt;'), '>', '&gt;')`;
+
+      const result = await this.paginate<ItemSearchResult>(
+        { column: rank, idColumn: scrapingItems.id, direction: "desc" },
+        page,
+        async ({ after, orderBy, limit, sortKey }) => {
+          const rows = await this.db
+            .select({
+              item: scrapingItems,
+              rank: sql<number>`${rank}`.mapWith(Number),
+              headline: sql<string>`ts_headline('english'::regconfig, ${headlineSource}, ${query}, 'StartSel=<mark>, StopSel=</mark>, MaxFragments=3, MaxWords=25, MinWords=8, FragmentDelimiter=" … "')`,
+              sortKey,
+            })
+            .from(scrapingItems)
+            .innerJoin(scrapingJobs, eq(scrapingItems.jobId, scrapingJobs.id))
+            .where(
+              and(
+                eq(scrapingJobs.userId, userId),
+                sql`${scrapingItemSearchDocument(scrapingItems)} @@ ${query}`,
+                ...headcountConditions(scrapingItems, filters),
+                after,
+              ),
+            )
+            .orderBy(...orderBy)
+            .limit(limit);
+
+          return rows.map((row) => ({
+            row: {
+              rank: row.rank,
+              headline: row.headline,
+              item: row.item as ScrapingItemEntity,
+            },
+            id: row.item.id,
+            sortKey: row.sortKey,
+          }));
+        },
+      );
+
+      this.logger.log(
+        `Found ${result.items.length} search results for user ${userId}`,
+      );
+      return result;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error searching items for user ${userId}`, errorStack);
+      throw error;
+    }
+  }
+
   /**
    * Update item status and related fields
    */
@@ -263,27 +778,317 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
     }
   }
 
+  /**
+   * Get the current status of a job (no user filter, used by the worker)
+   */
+  async findJobStatus(jobId: string): Promise<string | null> {
+    try {
+      const result = await this.db
+        .select({ status: scrapingJobs.status })
+        .from(scrapingJobs)
+        .where(eq(scrapingJobs.id, jobId))
+        .limit(1);
+
+      return result[0]?.status ?? null;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error finding status for job ${jobId}`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Set a job's status
+   */
+  async updateJobStatus(jobId: string, status: string): Promise<void> {
+    this.logger.log(`Updating job ${jobId} status to: ${status}`);
+
+    try {
+      await this.db
+        .update(scrapingJobs)
+        .set({ status, updatedAt: new Date() })
+        .where(eq(scrapingJobs.id, jobId));
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error updating job ${jobId} to status ${status}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Mark an item as processing unless it was cancelled or parked in the meantime
+   *
+   * @returns true if the item was claimed, false if it is cancelled or paused
+   */
+  async claimItemForProcessing(itemId: string): Promise<boolean> {
+    this.logger.log(`Claiming item ${itemId} for processing`);
+
+    try {
+      const result = await this.db
+        .update(scrapingItems)
+        .set({
+          status: "processing",
+          startedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(scrapingItems.id, itemId),
+            notInArray(scrapingItems.status, ["cancelled", "paused"]),
+          ),
+        )
+        .returning({ id: scrapingItems.id });
+
+      return result.length > 0;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error claiming item ${itemId}`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Mark all items of a job that have not started yet (including parked ones) as cancelled
+   *
+   * @returns IDs of the cancelled items
+   */
+  async cancelPendingItems(jobId: string): Promise<string[]> {
+    this.logger.log(`Cancelling pending items for job: ${jobId}`);
+
+    try {
+      const result = await this.db
+        .update(scrapingItems)
+        .set({
+          status: "cancelled",
+          finishedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(scrapingItems.jobId, jobId),
+            inArray(scrapingItems.status, ["pending", "queued", "paused"]),
+          ),
+        )
+        .returning({ id: scrapingItems.id });
+
+      this.logger.log(
+        `Cancelled ${result.length} pending items for job ${jobId}`,
+      );
+      return result.map((item) => item.id);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error cancelling pending items for job ${jobId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Park all items of a job that have not started yet
+   *
+   * @returns IDs of the parked items
+   */
+  async parkPendingItems(jobId: string): Promise<string[]> {
+    this.logger.log(`Parking pending items for job: ${jobId}`);
+
+    try {
+      const result = await this.db
+        .update(scrapingItems)
+        .set({ status: "paused", updatedAt: new Date() })
+        .where(
+          and(
+            eq(scrapingItems.jobId, jobId),
+            inArray(scrapingItems.status, ["pending", "queued"]),
+          ),
+        )
+        .returning({ id: scrapingItems.id });
+
+      this.logger.log(`Parked ${result.length} pending items for job ${jobId}`);
+      return result.map((item) => item.id);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error parking pending items for job ${jobId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Move a job's parked items back to pending
+   *
+   * @returns The unparked items, ready to be re-enqueued
+   */
+  async unparkItems(jobId: string): Promise<ScrapingItemEntity[]> {
+    this.logger.log(`Unparking items for job: ${jobId}`);
+
+    try {
+      const result = await this.db
+        .update(scrapingItems)
+        .set({ status: "pending", updatedAt: new Date() })
+        .where(
+          and(
+            eq(scrapingItems.jobId, jobId),
+            eq(scrapingItems.status, "paused"),
+          ),
+        )
+        .returning();
+
+      this.logger.log(`Unparked ${result.length} items for job ${jobId}`);
+      return result as ScrapingItemEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error unparking items for job ${jobId}`, errorStack);
+      throw error;
+    }
+  }
+
+  /**
+   * Reset a job's failed items to pending so they can be enqueued again
+   *
+   * @param jobId - The job's unique identifier
+   * @param categories - Only reset items with these error categories (all when omitted)
+   * @returns The reset items
+   */
+  async resetFailedItems(
+    jobId: string,
+    categories?: ErrorCategory[],
+  ): Promise<ScrapingItemEntity[]> {
+    this.logger.log(
+      `Resetting failed items for job: ${jobId}${categories?.length ? ` (categories: ${categories.join(", ")})` : ""}`,
+    );
+
+    try {
+      const conditions = [
+        eq(scrapingItems.jobId, jobId),
+        eq(scrapingItems.status, "failed"),
+      ];
+      if (categories?.length) {
+        conditions.push(inArray(scrapingItems.errorCategory, categories));
+      }
+
+      const result = await this.db
+        .update(scrapingItems)
+        .set({
+          status: "pending",
+          lastError: null,
+          errorCategory: null,
+          startedAt: null,
+          finishedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(and(...conditions))
+        .returning();
+
+      this.logger.log(`Reset ${result.length} failed items for job ${jobId}`);
+      return result as ScrapingItemEntity[];
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error resetting failed items for job ${jobId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Count a user's items that are waiting in the queue (not yet started)
+   * Used to rank new queue entries behind the user's existing backlog
+   */
+  async countUserBacklog(userId: string): Promise<number> {
+    try {
+      const result = await this.db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(scrapingItems)
+        .innerJoin(scrapingJobs, eq(scrapingItems.jobId, scrapingJobs.id))
+        .where(
+          and(
+            eq(scrapingJobs.userId, userId),
+            inArray(scrapingItems.status, ["pending", "queued"]),
+          ),
+        );
+
+      return result[0]?.count ?? 0;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Error counting backlog for user ${userId}`,
+        errorStack,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Waiting and in-progress item counts per user, largest backlog first
+   */
+  async findBacklogByUser(): Promise<UserBacklog[]> {
+    this.logger.log(`Finding scraping backlog per user`);
+
+    try {
+      const result = await this.db
+        .select({
+          userId: scrapingJobs.userId,
+          pendingItems: sql<number>`count(*) FILTER (WHERE ${scrapingItems.status} IN ('pending', 'queued'))::int`,
+          processingItems: sql<number>`count(*) FILTER (WHERE ${scrapingItems.status} = 'processing')::int`,
+          activeJobs: sql<number>`count(DISTINCT ${scrapingJobs.id})::int`,
+        })
+        .from(scrapingItems)
+        .innerJoin(scrapingJobs, eq(scrapingItems.jobId, scrapingJobs.id))
+        .where(
+          inArray(scrapingItems.status, ["pending", "queued", "processing"]),
+        )
+        .groupBy(scrapingJobs.userId)
+        .orderBy(
+          sql`count(*) FILTER (WHERE ${scrapingItems.status} IN ('pending', 'queued')) DESC`,
+        );
+
+      this.logger.log(`Found scraping backlog for ${result.length} users`);
+      return result;
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(`Error finding scraping backlog per user`, errorStack);
+      throw error;
+    }
+  }
+
   /**
    * Recalculate and update job progress statistics
+   * A cancelled or paused job keeps its status; only its counters are refreshed
    */
   async updateJobProgress(jobId: string): Promise<void> {
     this.logger.log(`Updating job progress for: ${jobId}`);
 
     try {
-      // Count completed and failed items
+      // Count finished items (disallowed by robots.txt counts as processed, not failed)
       const items = await this.db
         .select()
         .from(scrapingItems)
         .where(eq(scrapingItems.jobId, jobId));
 
       const completedCount = items.filter(
-        (item) => item.status === "completed" || item.status === "failed",
+        (item) =>
+          item.status === "completed" ||
+          item.status === "failed" ||
+          item.status === "disallowed",
       ).length;
 
       const failedCount = items.filter(
         (item) => item.status === "failed",
       ).length;
 
+      // Cancelled items will never finish; counted apart from processed
+      const cancelledCount = items.filter(
+        (item) => item.status === "cancelled",
+      ).length;
+
       const totalCount = items.length;
 
       // Determine job status
@@ -297,19 +1102,20 @@ export class ScrapingRepository extends BaseRepository<ScrapingJobEntity> {
         }
       }
 
-      // Update job
+      // Update job (in one statement so a concurrent cancel or pause is never overwritten)
       await this.db
         .update(scrapingJobs)
         .set({
           processedUrls: completedCount,
           failedUrls: failedCount,
-          status: jobStatus,
+          cancelledUrls: cancelledCount,
+          status: sql`CASE WHEN ${scrapingJobs.status} IN ('cancelled', 'paused') THEN ${scrapingJobs.status} ELSE ${jobStatus} END`,
           updatedAt: new Date(),
         })
         .where(eq(scrapingJobs.id, jobId));
 
       this.logger.log(
-        `Job ${jobId} progress updated: ${completedCount}/${totalCount} processed, ${failedCount} failed, status: ${jobStatus}`,
+        `Job ${jobId} progress updated: ${completedCount}/${totalCount} processed, ${failedCount} failed, ${cancelledCount} cancelled, status: ${jobStatus}`,
       );
     } catch (error) {
       const errorStack = error instanceof Error ? error.stack : "";
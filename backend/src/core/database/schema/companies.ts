@@ -0,0 +1,104 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  jsonb,
+  uniqueIndex,
+  index,
+  integer,
+  real,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+import type {
+  Contact,
+  ExtractionMethod,
+  HeadcountBucket,
+  IndustrySector,
+} from "./scraping-items";
+
+/**
+ * Company fields merged from scraped items (and editable by hand)
+ */
+export const COMPANY_FIELDS = [
+  "companyName",
+  "website",
+  "industry",
+  "headcountRange",
+  "hqLocation",
+] as const;
+
+export type CompanyField = (typeof COMPANY_FIELDS)[number];
+
+/**
+ * Where the current value of a company field came from
+ */
+export interface CompanyFieldProvenance {
+  source: "scrape" | "manual";
+  // Item the value was taken from; null for manual edits
+  itemId: string | null;
+  method: ExtractionMethod | null;
+  // 0..1; manual edits are 1
+  confidence: number;
+  observedAt: string;
+}
+
+/**
+ * One company per registrable domain and user, merged from every completed
+ * item that resolved to that domain
+ */
+export const companies = pgTable(
+  "companies",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Registrable domain, e.g. acme.co.uk
+    domain: text("domain").notNull(),
+
+    companyName: text("company_name"),
+    website: text("website"),
+    industry: text("industry"),
+    // The most confident classification of any merged item, or of the
+    // manually edited industry
+    industrySector: text("industry_sector").$type<IndustrySector | null>(),
+    industryConfidence: real("industry_confidence"),
+    headcountRange: text("headcount_range"),
+    // Parsed from headcountRange; follows it on every merge and manual edit
+    headcountMin: integer("headcount_min"),
+    headcountMax: integer("headcount_max"),
+    headcountBucket: text("headcount_bucket").$type<HeadcountBucket | null>(),
+    hqLocation: text("hq_location"),
+    // Parsed from hqLocation; follows it on every merge and manual edit
+    hqStreet: text("hq_street"),
+    hqCity: text("hq_city"),
+    hqRegion: text("hq_region"),
+    hqPostalCode: text("hq_postal_code"),
+    hqCountry: text("hq_country"),
+    contacts: jsonb("contacts").$type<Contact[] | null>(),
+    // E.164, from every merged item
+    phones: jsonb("phones").$type<string[] | null>(),
+    fieldProvenance: jsonb("field_provenance")
+      .$type<Partial<Record<CompanyField, CompanyFieldProvenance>>>()
+      .notNull()
+      .default({}),
+
+    lastScrapedAt: timestamp("last_scraped_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("companies_user_id_domain_idx").on(table.userId, table.domain),
+    index("companies_user_id_industry_sector_idx").on(
+      table.userId,
+      table.industrySector,
+    ),
+    index("companies_user_id_hq_country_idx").on(table.userId, table.hqCountry),
+    index("companies_user_id_headcount_min_max_idx").on(
+      table.userId,
+      table.headcountMin,
+      table.headcountMax,
+    ),
+  ],
+);
@@ -0,0 +1,49 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  jsonb,
+  index,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+import { scrapingItems } from "./scraping-items";
+
+/**
+ * Observed values of company fields across scrapes of the same canonical URL
+ * A row covers one value from the scrape it was first seen in to the scrape
+ * it was last seen in; a different value starts a new row
+ */
+export const companyFieldHistory = pgTable(
+  "company_field_history",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    canonicalUrl: text("canonical_url").notNull(),
+    // companyName | website | industry | headcountRange | hqLocation | contact
+    field: text("field").notNull(),
+    // Tells list entries apart (contact email or name); empty for single-value fields
+    valueKey: text("value_key").notNull().default(""),
+    value: jsonb("value").notNull(),
+    firstSeenAt: timestamp("first_seen_at").notNull(),
+    lastSeenAt: timestamp("last_seen_at").notNull(),
+    firstItemId: uuid("first_item_id").references(() => scrapingItems.id, {
+      onDelete: "set null",
+    }),
+    lastItemId: uuid("last_item_id").references(() => scrapingItems.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("company_field_history_lookup_idx").on(
+      table.userId,
+      table.canonicalUrl,
+      table.field,
+      table.valueKey,
+    ),
+  ],
+);
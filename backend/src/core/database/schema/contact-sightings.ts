@@ -0,0 +1,48 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  index,
+  uniqueIndex,
+} from "drizzle-orm/pg-core";
+import { contacts } from "./contacts";
+import { scrapingItems } from "./scraping-items";
+import { scrapingJobs } from "./scraping-jobs";
+
+/**
+ * Every page a contact was found on, with the name and title shown there
+ */
+export const contactSightings = pgTable(
+  "contact_sightings",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    contactId: uuid("contact_id")
+      .notNull()
+      .references(() => contacts.id, { onDelete: "cascade" }),
+    itemId: uuid("item_id")
+      .notNull()
+      .references(() => scrapingItems.id, { onDelete: "cascade" }),
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => scrapingJobs.id, { onDelete: "cascade" }),
+    // Page the contact was found on (the item URL when not recorded)
+    sourceUrl: text("source_url").notNull(),
+    // Email as written on the page, before normalization
+    rawEmail: text("raw_email").notNull(),
+    name: text("name"),
+    title: text("title"),
+    seenAt: timestamp("seen_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [
+    // Re-processing an item does not add duplicate sightings
+    uniqueIndex("contact_sightings_contact_item_source_idx").on(
+      table.contactId,
+      table.itemId,
+      table.sourceUrl,
+    ),
+    index("contact_sightings_item_id_idx").on(table.itemId),
+    index("contact_sightings_job_id_idx").on(table.jobId),
+  ],
+);
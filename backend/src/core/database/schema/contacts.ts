@@ -0,0 +1,77 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  boolean,
+  real,
+  index,
+  uniqueIndex,
+  AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { sql, SQL } from "drizzle-orm";
+import { users } from "./users";
+import { companies } from "./companies";
+import type { EmailType } from "./scraping-items";
+
+/**
+ * One person per normalized email and user, deduplicated across every
+ * item, page and job the email was seen on
+ */
+export const contacts = pgTable(
+  "contacts",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    // Normalized (see email-normalizer)
+    email: text("email").notNull(),
+    // Name and title from the most recent sighting that had them
+    name: text("name"),
+    title: text("title"),
+    // E.164, from the most recent sighting that had one
+    phone: text("phone"),
+    // Classification of the email (see email-classifier) as of the most recent
+    // sighting; null until a contact is seen again after classification existed
+    emailType: text("email_type").$type<EmailType | null>(),
+    emailDomainMatch: boolean("email_domain_match"),
+    qualityScore: real("quality_score"),
+    // Company of the most recent sighting's item
+    companyId: uuid("company_id").references(() => companies.id, {
+      onDelete: "set null",
+    }),
+
+    firstSeenAt: timestamp("first_seen_at").notNull(),
+    lastSeenAt: timestamp("last_seen_at").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    uniqueIndex("contacts_user_id_email_idx").on(table.userId, table.email),
+    index("contacts_company_id_idx").on(table.companyId),
+    index("contacts_user_id_quality_score_idx").on(
+      table.userId,
+      table.qualityScore,
+    ),
+    // Paginated listing, most recently seen first
+    index("contacts_user_id_last_seen_at_idx").on(
+      table.userId,
+      table.lastSeenAt,
+    ),
+    index("contacts_search_idx").using("gin", contactSearchDocument(table)),
+  ],
+);
+
+/**
+ * Weighted full-text document of a contact: name (A), title (B) and the
+ * email split into words (C)
+ * Search queries must use this exact expression to hit the GIN index
+ */
+export function contactSearchDocument(columns: {
+  name: AnyPgColumn;
+  title: AnyPgColumn;
+  email: AnyPgColumn;
+}): SQL {
+  return sql`(setweight(to_tsvector('english'::regconfig, coalesce(${columns.name}, '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce(${columns.title}, '')), 'B') || setweight(to_tsvector('english'::regconfig, translate(${columns.email}, '@._-+', '     ')), 'C'))`;
+}
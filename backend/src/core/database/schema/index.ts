@@ -2,6 +2,11 @@ import { healthChecking } from "./health-checking";
 import { users } from "./users";
 import { scrapingJobs } from "./scraping-jobs";
 import { scrapingItems } from "./scraping-items";
+import { scrapingSchedules } from "./scraping-schedules";
+import { companyFieldHistory } from "./company-field-history";
+import { companies } from "./companies";
+import { contacts } from "./contacts";
+import { contactSightings } from "./contact-sightings";
 
 // Schema exports
 export const schema = {
@@ -9,7 +14,22 @@ export const schema = {
   users,
   scrapingJobs,
   scrapingItems,
+  scrapingSchedules,
+  companyFieldHistory,
+  companies,
+  contacts,
+  contactSightings,
 };
 
 // Export individual tables for convenience
-export { healthChecking, users, scrapingJobs, scrapingItems };
+export {
+  healthChecking,
+  users,
+  scrapingJobs,
+  scrapingItems,
+  scrapingSchedules,
+  companyFieldHistory,
+  companies,
+  contacts,
+  contactSightings,
+};
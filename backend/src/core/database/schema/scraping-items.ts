@@ -1,36 +1,276 @@
-import { pgTable, text, timestamp, uuid, jsonb } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  jsonb,
+  index,
+  integer,
+  real,
+  AnyPgColumn,
+} from "drizzle-orm/pg-core";
+import { sql, SQL } from "drizzle-orm";
 import { scrapingJobs } from "./scraping-jobs";
+import { companies } from "./companies";
+
+/**
+ * personal: a person's mailbox; role: a shared mailbox like info@ or sales@;
+ * invalid: not a deliverable address (noreply@, image file names, placeholders);
+ * disposable: a throwaway mailbox provider
+ */
+export const EMAIL_TYPES = [
+  "personal",
+  "role",
+  "invalid",
+  "disposable",
+] as const;
+
+export type EmailType = (typeof EMAIL_TYPES)[number];
 
 export interface Contact {
   name: string;
-  title: string;
-  email: string;
+  title: string | null;
+  // Null for people found on the page without a matching email
+  email: string | null;
+  // E.164; set when a valid number was found next to the person or in their schema.org markup
+  phone?: string;
+  // Page the contact was found on (set for every crawled page, including the start URL)
+  sourceUrl?: string;
+  // Email classification; unset on items scraped before classification existed
+  emailType?: EmailType;
+  // Whether the email is on the company's domain; null when the company domain is unknown
+  emailDomainMatch?: boolean | null;
+  // 0..1, from the email type and domain match
+  qualityScore?: number;
+  // 0..1, how confidently the email was paired with the name (see contact-matcher)
+  matchScore?: number;
 }
 
-export const scrapingItems = pgTable("scraping_items", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  jobId: uuid("job_id")
-    .notNull()
-    .references(() => scrapingJobs.id, { onDelete: "cascade" }),
+export const SOCIAL_NETWORKS = [
+  "linkedin",
+  "twitter",
+  "github",
+  "facebook",
+  "instagram",
+  "youtube",
+] as const;
+
+export type SocialNetwork = (typeof SOCIAL_NETWORKS)[number];
+
+/**
+ * Normalized profile URL per network (see social-profiles extractor)
+ */
+export type SocialProfiles = Partial<Record<SocialNetwork, string>>;
 
-  url: text("url").notNull(),
+/**
+ * Extraction layer that produced a field value
+ */
+export type ExtractionMethod = "selector" | "structured" | "fallback" | "ner";
 
-  status: text("status").notNull().default("pending"),
-  // pending | queued | processing | completed | failed
+/**
+ * Organization properties from schema.org markup with no dedicated column
+ */
+export interface StructuredCompanyData {
+  // Profile and registry URLs the organization lists as itself
+  sameAs: string[];
+  // As published, usually ISO 8601 (e.g. "2012" or "2012-04-01")
+  foundingDate: string | null;
+}
+
+/**
+ * HQ location split into postal address parts (see address-parser)
+ * The raw text stays in hqLocation
+ */
+export interface HqAddress {
+  hqStreet: string | null;
+  hqCity: string | null;
+  hqRegion: string | null;
+  hqPostalCode: string | null;
+  // ISO 3166 alpha-2
+  hqCountry: string | null;
+}
 
-  lastError: text("last_error"),
-  startedAt: timestamp("started_at"),
-  finishedAt: timestamp("finished_at"),
+/**
+ * Standard company size scale (employees), as used by LinkedIn
+ */
+export const HEADCOUNT_BUCKETS = [
+  "1-10",
+  "11-50",
+  "51-200",
+  "201-500",
+  "501-1000",
+  "1001-5000",
+  "5001-10000",
+  "10001+",
+] as const;
 
-  companyName: text("company_name"),
-  website: text("website"),
-  industry: text("industry"),
-  headcountRange: text("headcount_range"),
-  hqLocation: text("hq_location"),
+export type HeadcountBucket = (typeof HEADCOUNT_BUCKETS)[number];
 
-  contacts: jsonb("contacts").$type<Contact[] | null>(),
-  rawData: jsonb("raw_data").$type<Record<string, any> | null>(),
+/**
+ * Employee count range parsed from headcountRange (see headcount-parser)
+ * The raw text stays in headcountRange
+ */
+export interface Headcount {
+  headcountMin: number | null;
+  // Null for open-ended ranges ("10,000+")
+  headcountMax: number | null;
+  headcountBucket: HeadcountBucket | null;
+}
+
+/**
+ * NAICS sectors (2-digit codes; ranges for sectors spanning several codes)
+ */
+export const INDUSTRY_SECTORS = {
+  "11": "Agriculture, Forestry, Fishing and Hunting",
+  "21": "Mining, Quarrying, and Oil and Gas Extraction",
+  "22": "Utilities",
+  "23": "Construction",
+  "31-33": "Manufacturing",
+  "42": "Wholesale Trade",
+  "44-45": "Retail Trade",
+  "48-49": "Transportation and Warehousing",
+  "51": "Information",
+  "52": "Finance and Insurance",
+  "53": "Real Estate and Rental and Leasing",
+  "54": "Professional, Scientific, and Technical Services",
+  "55": "Management of Companies and Enterprises",
+  "56": "Administrative and Support and Waste Management and Remediation Services",
+  "61": "Educational Services",
+  "62": "Health Care and Social Assistance",
+  "71": "Arts, Entertainment, and Recreation",
+  "72": "Accommodation and Food Services",
+  "81": "Other Services (except Public Administration)",
+  "92": "Public Administration",
+} as const;
+
+export type IndustrySector = keyof typeof INDUSTRY_SECTORS;
+
+export const INDUSTRY_SECTOR_CODES = Object.keys(
+  INDUSTRY_SECTORS,
+) as IndustrySector[];
+
+/**
+ * Sector classified from the raw industry, page text, keywords and
+ * schema.org markup (see industry-classifier); the raw text stays in industry
+ */
+export interface IndustryClassification {
+  industrySector: IndustrySector | null;
+  // 0..1; null when no sector was found
+  industryConfidence: number | null;
+}
 
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+/**
+ * Coarse classification of why an item failed, used to filter retries
+ */
+export const ERROR_CATEGORIES = [
+  "timeout",
+  "dns",
+  "connection",
+  "http_4xx",
+  "http_5xx",
+  "other",
+] as const;
+
+export type ErrorCategory = (typeof ERROR_CATEGORIES)[number];
+
+/**
+ * Provenance of an extracted company field
+ */
+export interface FieldSource {
+  url: string;
+  method: ExtractionMethod;
+}
+
+export const scrapingItems = pgTable(
+  "scraping_items",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    jobId: uuid("job_id")
+      .notNull()
+      .references(() => scrapingJobs.id, { onDelete: "cascade" }),
+
+    url: text("url").notNull(),
+    // Normalized form used for deduplication (see url-canonicalizer)
+    canonicalUrl: text("canonical_url"),
+    // Company the completed item was merged into (by registrable domain)
+    companyId: uuid("company_id").references(() => companies.id, {
+      onDelete: "set null",
+    }),
+
+    status: text("status").notNull().default("pending"),
+    // pending | queued | processing | completed | failed | disallowed
+
+    lastError: text("last_error"),
+    errorCategory: text("error_category").$type<ErrorCategory | null>(),
+    startedAt: timestamp("started_at"),
+    finishedAt: timestamp("finished_at"),
+
+    companyName: text("company_name"),
+    website: text("website"),
+    industry: text("industry"),
+    industrySector: text("industry_sector").$type<IndustrySector | null>(),
+    industryConfidence: real("industry_confidence"),
+    headcountRange: text("headcount_range"),
+    // Parsed from headcountRange
+    headcountMin: integer("headcount_min"),
+    headcountMax: integer("headcount_max"),
+    headcountBucket: text("headcount_bucket").$type<HeadcountBucket | null>(),
+    hqLocation: text("hq_location"),
+    // Parsed from hqLocation
+    hqStreet: text("hq_street"),
+    hqCity: text("hq_city"),
+    hqRegion: text("hq_region"),
+    hqPostalCode: text("hq_postal_code"),
+    hqCountry: text("hq_country"),
+
+    contacts: jsonb("contacts").$type<Contact[] | null>(),
+    // Company phone numbers (E.164) not attached to a contact
+    phones: jsonb("phones").$type<string[] | null>(),
+    // Company profiles on LinkedIn, X/Twitter, GitHub, Facebook, Instagram and YouTube
+    socialProfiles: jsonb("social_profiles").$type<SocialProfiles | null>(),
+    // sameAs and foundingDate from JSON-LD, microdata or RDFa
+    structuredData: jsonb(
+      "structured_data",
+    ).$type<StructuredCompanyData | null>(),
+    // Page and extraction layer each company field came from
+    fieldSources: jsonb("field_sources").$type<Record<
+      string,
+      FieldSource
+    > | null>(),
+    // Whitespace-normalized visible text of the crawled pages, for full-text search
+    pageTextExcerpt: text("page_text_excerpt"),
+    // Passthrough columns from CSV/XLSX uploads (e.g. owner, company name)
+    metadata: jsonb("metadata").$type<Record<string, string> | null>(),
+    rawData: jsonb("raw_data").$type<Record<string, any> | null>(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("scraping_items_canonical_url_idx").on(table.canonicalUrl),
+    // Keyset pagination over a job's items (exports)
+    index("scraping_items_job_id_id_idx").on(table.jobId, table.id),
+    index("scraping_items_company_id_idx").on(table.companyId),
+    // Paginated item listing, newest first
+    index("scraping_items_created_at_idx").on(table.createdAt),
+    index("scraping_items_search_idx").using(
+      "gin",
+      scrapingItemSearchDocument(table),
+    ),
+  ],
+);
+
+/**
+ * Weighted full-text document of an item: company name (A), industry and
+ * HQ location (B), contact names and titles (C), page text excerpt (D)
+ * Search queries must use this exact expression to hit the GIN index
+ */
+export function scrapingItemSearchDocument(columns: {
+  companyName: AnyPgColumn;
+  industry: AnyPgColumn;
+  hqLocation: AnyPgColumn;
+  contacts: AnyPgColumn;
+  pageTextExcerpt: AnyPgColumn;
+}): SQL {
+  return sql`(setweight(to_tsvector('english'::regconfig, coalesce(${columns.companyName}, '')), 'A') || setweight(to_tsvector('english'::regconfig, coalesce(${columns.industry}, '') || ' ' || coalesce(${columns.hqLocation}, '')), 'B') || setweight(to_tsvector('english'::regconfig, coalesce(jsonb_path_query_array(${columns.contacts}, '$[*].name'::jsonpath)::text || ' ' || jsonb_path_query_array(${columns.contacts}, '$[*].title'::jsonpath)::text, '')), 'C') || setweight(to_tsvector('english'::regconfig, coalesce(${columns.pageTextExcerpt}, '')), 'D'))`;
+}
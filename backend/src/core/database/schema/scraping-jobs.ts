@@ -1,14 +1,71 @@
-import { pgTable, text, timestamp, uuid, integer } from "drizzle-orm/pg-core";
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  integer,
+  jsonb,
+  index,
+  type AnyPgColumn,
+} from "drizzle-orm/pg-core";
 import { users } from "./users";
 
-export const scrapingJobs = pgTable("scraping_jobs", {
-  id: uuid("id").primaryKey().defaultRandom(),
-  userId: uuid("user_id").references(() => users.id, { onDelete: "cascade" }),
-  status: text("status").notNull().default("pending"),
-  // pending | processing | completed | failed
-  totalUrls: integer("total_urls").notNull().default(0),
-  processedUrls: integer("processed_urls").notNull().default(0),
-  failedUrls: integer("failed_urls").notNull().default(0),
-  createdAt: timestamp("created_at").defaultNow().notNull(),
-  updatedAt: timestamp("updated_at").defaultNow().notNull(),
-});
+/**
+ * Multi-page crawl settings: follow same-domain about/team/contact links
+ */
+export interface CrawlOptions {
+  enabled: boolean;
+  maxDepth: number;
+  maxPages: number;
+}
+
+/**
+ * Queue priority classes; within a class users are served round-robin
+ */
+export const JOB_PRIORITIES = ["high", "normal", "low"] as const;
+
+export type JobPriority = (typeof JOB_PRIORITIES)[number];
+
+/**
+ * Per-job options supplied at creation time
+ */
+export interface ScrapingJobOptions {
+  label?: string;
+  crawl?: CrawlOptions;
+  priority?: JobPriority;
+  // Admin-only override; robots.txt is obeyed unless this is true
+  ignoreRobotsTxt?: boolean;
+}
+
+export const scrapingJobs = pgTable(
+  "scraping_jobs",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    userId: uuid("user_id").references(() => users.id, {
+      onDelete: "cascade",
+    }),
+    // Set on runs created by a schedule; points at the job whose URLs are re-scraped
+    parentJobId: uuid("parent_job_id").references(
+      (): AnyPgColumn => scrapingJobs.id,
+      { onDelete: "set null" },
+    ),
+    status: text("status").notNull().default("pending"),
+    // pending | processing | paused | completed | failed | cancelled
+    totalUrls: integer("total_urls").notNull().default(0),
+    processedUrls: integer("processed_urls").notNull().default(0),
+    failedUrls: integer("failed_urls").notNull().default(0),
+    // Items stopped by a cancel; neither processed nor failed
+    cancelledUrls: integer("cancelled_urls").notNull().default(0),
+    options: jsonb("options").$type<ScrapingJobOptions | null>(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [
+    index("scraping_jobs_parent_job_id_idx").on(table.parentJobId),
+    // Paginated job listing per user
+    index("scraping_jobs_user_id_created_at_idx").on(
+      table.userId,
+      table.createdAt,
+    ),
+  ],
+);
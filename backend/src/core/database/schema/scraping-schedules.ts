@@ -0,0 +1,39 @@
+import {
+  pgTable,
+  text,
+  timestamp,
+  uuid,
+  boolean,
+  index,
+} from "drizzle-orm/pg-core";
+import { users } from "./users";
+import { scrapingJobs } from "./scraping-jobs";
+
+/**
+ * Recurring re-scrape of a job's URL set
+ * Each run creates a new scraping job whose parentJobId is the scheduled job
+ */
+export const scrapingSchedules = pgTable(
+  "scraping_schedules",
+  {
+    id: uuid("id").primaryKey().defaultRandom(),
+    jobId: uuid("job_id")
+      .notNull()
+      .unique()
+      .references(() => scrapingJobs.id, { onDelete: "cascade" }),
+    userId: uuid("user_id")
+      .notNull()
+      .references(() => users.id, { onDelete: "cascade" }),
+    cronExpression: text("cron_expression").notNull(),
+    timeZone: text("time_zone").notNull().default("UTC"),
+    enabled: boolean("enabled").notNull().default(true),
+    nextRunAt: timestamp("next_run_at"),
+    lastRunAt: timestamp("last_run_at"),
+    lastRunJobId: uuid("last_run_job_id").references(() => scrapingJobs.id, {
+      onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("scraping_schedules_next_run_at_idx").on(table.nextRunAt)],
+);
@@ -3,6 +3,7 @@ import { loadEnvironment } from "./config/env.loader";
 loadEnvironment();
 
 import { NestFactory } from "@nestjs/core";
+import { NestExpressApplication } from "@nestjs/platform-express";
 import { AppModule } from "./app.module";
 import { SwaggerModule, DocumentBuilder } from "@nestjs/swagger";
 import basicAuth from "express-basic-auth";
@@ -16,7 +17,10 @@ async function bootstrap() {
 
   try {
     logger.log("Starting application bootstrap...");
-    const app = await NestFactory.create(AppModule);
+    const app = await NestFactory.create<NestExpressApplication>(AppModule);
+
+    // Allow large JSON job submissions (up to 10k URLs per request)
+    app.useBodyParser("json", { limit: "5mb" });
 
     // Global prefix
     app.setGlobalPrefix("api");
@@ -0,0 +1,313 @@
+import {
+  Controller,
+  Get,
+  Patch,
+  Param,
+  Body,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  ValidationPipe,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiInternalServerErrorResponse,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../../common/guards/auth.guard";
+import { CurrentUser } from "../../common/decorators/current-user.decorator";
+import { CompanyService } from "./services/company.service";
+import {
+  CompanyDto,
+  CompanyWithItemsDto,
+  ListCompaniesQueryDto,
+  UpdateCompanyDto,
+} from "./dto";
+import { DEFAULT_PAGE_SIZE } from "../scraping/dto/list-scraping-query.dto";
+import {
+  paginatedResponse,
+  successResponse,
+} from "../../common/helpers/api-response.helper";
+import { validationExceptionFactory } from "../../common/helpers/validation-errors.helper";
+
+/**
+ * Controller for canonical companies deduplicated across scraping jobs
+ * All endpoints require authentication via AuthGuard
+ */
+@ApiTags("Companies")
+@Controller("companies")
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+export class CompaniesController {
+  private readonly logger = new Logger(CompaniesController.name);
+
+  constructor(private readonly companyService: CompanyService) {}
+
+  /**
+   * List the user's companies
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "List companies",
+    description:
+      "Retrieve one page of the authenticated user's companies, one per registrable domain, merged from every job that scraped the domain. Pass nextCursor from the response to get the next page.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Companies retrieved successfully",
+    type: [CompanyDto],
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid filter, sort or cursor",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving companies",
+  })
+  async listCompanies(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: ListCompaniesQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("List companies request received", {
+      operation: "listCompanies",
+      requestId,
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.companyService.listCompanies(userId, query);
+
+      this.logger.log("Companies retrieved successfully", {
+        operation: "listCompanies",
+        requestId,
+        userId,
+        companyCount: page.items.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return paginatedResponse(
+        page.items,
+        {
+          limit: query.limit ?? DEFAULT_PAGE_SIZE,
+          nextCursor: page.nextCursor,
+        },
+        "Companies retrieved successfully",
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve companies",
+        {
+          operation: "listCompanies",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Get a company with its source items
+   */
+  @Get(":id")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Get company by ID",
+    description:
+      "Retrieve a merged company with the source of each field and every scraped item that contributed to it.",
+  })
+  @ApiParam({
+    name: "id",
+    description: "Company unique identifier",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Company retrieved successfully",
+    type: CompanyWithItemsDto,
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid company ID format",
+  })
+  @ApiNotFoundResponse({
+    description: "Company not found or access denied",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving company",
+  })
+  async getCompany(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Get company request received", {
+      operation: "getCompany",
+      requestId,
+      userId,
+      companyId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.companyService.getCompany(id, userId);
+
+      this.logger.log("Company retrieved successfully", {
+        operation: "getCompany",
+        requestId,
+        userId,
+        companyId: id,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Company retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve company",
+        {
+          operation: "getCompany",
+          requestId,
+          userId,
+          companyId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Manually edit company fields
+   */
+  @Patch(":id")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Edit company fields",
+    description:
+      "Set company fields by hand. Edited values are never overwritten by later scrapes; send null for a field to clear the edit and let the next scrape fill it again.",
+  })
+  @ApiParam({
+    name: "id",
+    description: "Company unique identifier",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Company updated successfully",
+    type: CompanyDto,
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid company ID format or request body",
+  })
+  @ApiNotFoundResponse({
+    description: "Company not found or access denied",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while updating company",
+  })
+  async updateCompany(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    dto: UpdateCompanyDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Update company request received", {
+      operation: "updateCompany",
+      requestId,
+      userId,
+      companyId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const company = await this.companyService.updateCompany(id, userId, dto);
+
+      this.logger.log("Company updated successfully", {
+        operation: "updateCompany",
+        requestId,
+        userId,
+        companyId: id,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(company, "Company updated successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to update company",
+        {
+          operation: "updateCompany",
+          requestId,
+          userId,
+          companyId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+}
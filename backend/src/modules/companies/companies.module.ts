@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { DatabaseModule } from "../../core/database/database.module";
+import { SupabaseModule } from "../../core/supabase/supabase.module";
+import { CompaniesController } from "./companies.controller";
+import { CompanyService } from "./services/company.service";
+
+/**
+ * Module for canonical companies deduplicated across scraping jobs
+ * The scraping worker uses CompanyService to merge completed items
+ */
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [CompaniesController],
+  providers: [CompanyService],
+  exports: [CompanyService],
+})
+export class CompaniesModule {}
@@ -0,0 +1,244 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  ContactDto,
+  ScrapingItemDto,
+} from "../../scraping/dto/scraping-responses.dto";
+import {
+  HEADCOUNT_BUCKETS,
+  HeadcountBucket,
+  INDUSTRY_SECTOR_CODES,
+  IndustrySector,
+} from "../../../core/database/schema/scraping-items";
+
+// Where the current value of a company field came from
+export class CompanyFieldProvenanceDto {
+  @ApiProperty({
+    description: "scrape for merged values, manual for hand edits",
+    enum: ["scrape", "manual"],
+    example: "scrape",
+  })
+  source!: "scrape" | "manual";
+
+  @ApiProperty({
+    description: "Item the value was taken from (null for manual edits)",
+    format: "uuid",
+    nullable: true,
+  })
+  itemId!: string | null;
+
+  @ApiProperty({
+    description: "Extraction layer that produced the value",
+    enum: ["selector", "structured", "fallback", "ner"],
+    nullable: true,
+    example: "selector",
+  })
+  method!: string | null;
+
+  @ApiProperty({
+    description: "Confidence from 0 to 1 (manual edits are 1)",
+    example: 0.9,
+  })
+  confidence!: number;
+
+  @ApiProperty({
+    description: "When the value was scraped or edited",
+    format: "date-time",
+  })
+  observedAt!: string;
+}
+
+// Response DTO for a company
+export class CompanyDto {
+  @ApiProperty({
+    description: "Unique identifier for the company",
+    example: "8c1e5f0a-2f4b-4c39-9f41-2d8f0c3b7a11",
+    format: "uuid",
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: "Registrable domain the company is keyed by",
+    example: "acme.com",
+  })
+  domain!: string;
+
+  @ApiProperty({
+    description: "Company name",
+    example: "Acme Corporation",
+    nullable: true,
+  })
+  companyName!: string | null;
+
+  @ApiProperty({
+    description: "Company website",
+    example: "https://www.acme.com",
+    nullable: true,
+  })
+  website!: string | null;
+
+  @ApiProperty({
+    description: "Industry as written on the source page or edited by hand",
+    example: "Technology",
+    nullable: true,
+  })
+  industry!: string | null;
+
+  @ApiProperty({
+    description:
+      "NAICS sector classified from the industry, page text, keywords and schema.org markup",
+    enum: INDUSTRY_SECTOR_CODES,
+    example: "51",
+    nullable: true,
+  })
+  industrySector!: IndustrySector | null;
+
+  @ApiProperty({
+    description: "Confidence of the industry sector, 0 to 1",
+    example: 0.68,
+    nullable: true,
+  })
+  industryConfidence!: number | null;
+
+  @ApiProperty({
+    description: "Headcount range",
+    example: "100-500",
+    nullable: true,
+  })
+  headcountRange!: string | null;
+
+  @ApiProperty({
+    description: "Lowest employee count of the parsed headcount range",
+    example: 100,
+    nullable: true,
+  })
+  headcountMin!: number | null;
+
+  @ApiProperty({
+    description:
+      "Highest employee count of the parsed headcount range; null when open-ended (e.g. 10,000+)",
+    example: 500,
+    nullable: true,
+  })
+  headcountMax!: number | null;
+
+  @ApiProperty({
+    description: "Standard company size bucket of the parsed headcount range",
+    enum: HEADCOUNT_BUCKETS,
+    example: "201-500",
+    nullable: true,
+  })
+  headcountBucket!: HeadcountBucket | null;
+
+  @ApiProperty({
+    description: "Headquarters location",
+    example: "San Francisco, CA",
+    nullable: true,
+  })
+  hqLocation!: string | null;
+
+  @ApiProperty({
+    description: "Street line of the parsed HQ address",
+    example: "548 Market St",
+    nullable: true,
+  })
+  hqStreet!: string | null;
+
+  @ApiProperty({
+    description: "City of the parsed HQ address",
+    example: "San Francisco",
+    nullable: true,
+  })
+  hqCity!: string | null;
+
+  @ApiProperty({
+    description:
+      "State or region of the parsed HQ address; US, Canadian and Australian states as their postal code",
+    example: "CA",
+    nullable: true,
+  })
+  hqRegion!: string | null;
+
+  @ApiProperty({
+    description: "Postal code of the parsed HQ address",
+    example: "94104",
+    nullable: true,
+  })
+  hqPostalCode!: string | null;
+
+  @ApiProperty({
+    description: "ISO 3166 alpha-2 country of the parsed HQ address",
+    example: "US",
+    nullable: true,
+  })
+  hqCountry!: string | null;
+
+  @ApiProperty({
+    description: "Contacts from every source item, deduplicated by email",
+    type: [ContactDto],
+    nullable: true,
+  })
+  contacts!: ContactDto[] | null;
+
+  @ApiProperty({
+    description: "Phone numbers in E.164 from every source item",
+    example: ["+14155552671"],
+    type: [String],
+    nullable: true,
+  })
+  phones!: string[] | null;
+
+  @ApiProperty({
+    description: "Source of each field's current value, keyed by field name",
+    example: {
+      companyName: {
+        source: "scrape",
+        itemId: "456e7890-e89b-12d3-a456-426614174000",
+        method: "selector",
+        confidence: 0.9,
+        observedAt: "2023-12-01T10:05:00.000Z",
+      },
+      industry: {
+        source: "manual",
+        itemId: null,
+        method: null,
+        confidence: 1,
+        observedAt: "2023-12-02T09:00:00.000Z",
+      },
+    },
+  })
+  fieldProvenance!: Record<string, CompanyFieldProvenanceDto>;
+
+  @ApiProperty({
+    description: "When the most recent source item finished",
+    format: "date-time",
+    nullable: true,
+  })
+  lastScrapedAt!: Date | null;
+
+  @ApiProperty({
+    description: "Timestamp when the company was first seen",
+    format: "date-time",
+  })
+  createdAt!: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the company was last merged or edited",
+    format: "date-time",
+  })
+  updatedAt!: Date;
+}
+
+// Response DTO for a company with its source items
+export class CompanyWithItemsDto {
+  @ApiProperty({
+    description: "The merged company",
+    type: CompanyDto,
+  })
+  company!: CompanyDto;
+
+  @ApiProperty({
+    description: "Items merged into the company, most recent first",
+    type: [ScrapingItemDto],
+  })
+  items!: ScrapingItemDto[];
+}
@@ -0,0 +1,3 @@
+export * from "./company-responses.dto";
+export * from "./list-companies-query.dto";
+export * from "./update-company.dto";
@@ -0,0 +1,134 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  INDUSTRY_SECTOR_CODES,
+  IndustrySector,
+} from "../../../core/database/schema/scraping-items";
+import {
+  COMPANY_SORT_FIELDS,
+  CompanySortField,
+} from "../../../core/database/repositories/company.repository";
+import { SortDirection } from "../../../core/database/repositories/base.repository";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "../../scraping/dto/list-scraping-query.dto";
+import { HeadcountFilterQueryDto } from "../../scraping/dto/headcount-filter-query.dto";
+
+export class ListCompaniesQueryDto extends HeadcountFilterQueryDto {
+  @ApiProperty({
+    description: "Page size",
+    default: DEFAULT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(MAX_PAGE_SIZE, { message: `limit must be at most ${MAX_PAGE_SIZE}` })
+  limit?: number;
+
+  @ApiProperty({
+    description:
+      "nextCursor from the previous page. Keep the same filters and sort when paging",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "cursor must be a string" })
+  @MaxLength(500, { message: "cursor is too long" })
+  cursor?: string;
+
+  @ApiProperty({
+    description: "Sort field",
+    enum: COMPANY_SORT_FIELDS,
+    default: "updatedAt",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(COMPANY_SORT_FIELDS, {
+    message: `sortBy must be one of: ${COMPANY_SORT_FIELDS.join(", ")}`,
+  })
+  sortBy?: CompanySortField;
+
+  @ApiProperty({
+    description: "Sort direction; empty values always come last",
+    enum: ["asc", "desc"],
+    default: "desc",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(["asc", "desc"], { message: "sortOrder must be asc or desc" })
+  sortOrder?: SortDirection;
+
+  @ApiProperty({
+    description: "Domain contains this text (case-insensitive)",
+    example: "acme",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "domain must be a string" })
+  @MaxLength(253, { message: "domain must be at most 253 characters" })
+  domain?: string;
+
+  @ApiProperty({
+    description: "Company name contains this text (case-insensitive)",
+    example: "acme",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "companyName must be a string" })
+  @MaxLength(200, { message: "companyName must be at most 200 characters" })
+  companyName?: string;
+
+  @ApiProperty({
+    description: `Comma-separated NAICS sector codes of the classified industry: ${INDUSTRY_SECTOR_CODES.join(", ")}`,
+    example: "51,54",
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((sector) => sector.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray({ message: "industrySectors must be a comma-separated list" })
+  @ArrayNotEmpty({ message: "industrySectors must not be empty" })
+  @IsIn(INDUSTRY_SECTOR_CODES, {
+    each: true,
+    message: `each value in industrySectors must be one of: ${INDUSTRY_SECTOR_CODES.join(", ")}`,
+  })
+  industrySectors?: IndustrySector[];
+
+  @ApiProperty({
+    description:
+      "ISO 3166 alpha-2 country of the parsed HQ address (case-insensitive)",
+    example: "DE",
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string" ? value.trim().toUpperCase() : value,
+  )
+  @Matches(/^[A-Z]{2}$/, {
+    message: "country must be an ISO 3166 alpha-2 code (e.g. DE)",
+  })
+  country?: string;
+}
@@ -0,0 +1,63 @@
+import { IsOptional, IsString, MaxLength } from "class-validator";
+import { ApiProperty } from "@nestjs/swagger";
+
+/**
+ * Manual edits to a company
+ * A value is kept over any scraped value until it is set to null
+ */
+export class UpdateCompanyDto {
+  @ApiProperty({
+    description: "Company name; null clears the manual value",
+    example: "Acme Corporation",
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "companyName must be a string" })
+  @MaxLength(500, { message: "companyName must be at most 500 characters" })
+  companyName?: string | null;
+
+  @ApiProperty({
+    description: "Website; null clears the manual value",
+    example: "https://www.acme.com",
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "website must be a string" })
+  @MaxLength(500, { message: "website must be at most 500 characters" })
+  website?: string | null;
+
+  @ApiProperty({
+    description: "Industry; null clears the manual value",
+    example: "Technology",
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "industry must be a string" })
+  @MaxLength(500, { message: "industry must be at most 500 characters" })
+  industry?: string | null;
+
+  @ApiProperty({
+    description: "Headcount range; null clears the manual value",
+    example: "100-500",
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "headcountRange must be a string" })
+  @MaxLength(500, { message: "headcountRange must be at most 500 characters" })
+  headcountRange?: string | null;
+
+  @ApiProperty({
+    description: "HQ location; null clears the manual value",
+    example: "San Francisco, CA",
+    nullable: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "hqLocation must be a string" })
+  @MaxLength(500, { message: "hqLocation must be at most 500 characters" })
+  hqLocation?: string | null;
+}
@@ -0,0 +1,399 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  CompanyRepository,
+  CompanyEntity,
+  MergeItemData,
+} from "../../../core/database/repositories/company.repository";
+import {
+  ScrapingRepository,
+  ScrapingItemEntity,
+} from "../../../core/database/repositories/scraping.repository";
+import { CursorPage } from "../../../core/database/repositories/base.repository";
+import {
+  COMPANY_FIELDS,
+  CompanyField,
+} from "../../../core/database/schema/companies";
+import { ExtractionMethod } from "../../../core/database/schema/scraping-items";
+import { DEFAULT_PAGE_SIZE } from "../../scraping/dto/list-scraping-query.dto";
+import { ListCompaniesQueryDto } from "../dto/list-companies-query.dto";
+import { UpdateCompanyDto } from "../dto/update-company.dto";
+import { getCompanyDomain } from "../utils/registrable-domain";
+import { toHqAddress } from "../../scraping/utils/address-parser";
+import { toHeadcount } from "../../scraping/utils/headcount-parser";
+import { classifyIndustry } from "../../scraping/utils/industry-classifier";
+
+/**
+ * Confidence of a merged value by the extraction layer that produced it
+ */
+const EXTRACTION_METHOD_CONFIDENCE: Record<ExtractionMethod, number> = {
+  selector: 0.9,
+  structured: 0.85,
+  fallback: 0.6,
+  ner: 0.3,
+};
+
+/**
+ * Confidence for values of items scraped before field sources were recorded
+ */
+const UNKNOWN_METHOD_CONFIDENCE = 0.5;
+
+/**
+ * Service for canonical companies deduplicated across jobs
+ * The worker merges every completed item into the company of its registrable
+ * domain; the API lists companies and applies manual edits
+ */
+@Injectable()
+export class CompanyService {
+  private readonly logger = new Logger(CompanyService.name);
+
+  constructor(
+    private readonly companyRepository: CompanyRepository,
+    private readonly scrapingRepository: ScrapingRepository,
+  ) {}
+
+  /**
+   * Merge a completed item into its company, creating the company if needed
+   * Items without an owner or a resolvable domain are skipped
+   *
+   * @param itemId - Completed scraping item
+   * @returns The merged company, or null if the item was skipped
+   */
+  async linkItem(itemId: string): Promise<CompanyEntity | null> {
+    const found = await this.scrapingRepository.findItemWithOwner(itemId);
+    if (!found?.userId) {
+      return null;
+    }
+
+    const { item, userId } = found;
+    const domain = getCompanyDomain(
+      item.canonicalUrl ?? item.url,
+      item.website,
+      item.fieldSources?.website,
+    );
+    if (!domain) {
+      return null;
+    }
+
+    const observedAt = item.finishedAt ?? new Date();
+    return this.companyRepository.mergeItem({
+      userId,
+      domain,
+      itemId,
+      observedAt,
+      fields: this.toMergeFields(item, observedAt),
+      // Derived again for items scraped before classification and parsing existed
+      industryClassification: item.industrySector
+        ? {
+            industrySector: item.industrySector,
+            industryConfidence: item.industryConfidence,
+          }
+        : classifyIndustry({
+            industry: item.industry,
+            pageText: item.pageTextExcerpt,
+          }),
+      headcount: toHeadcount(item.headcountRange),
+      hqAddress: toHqAddress(item.hqLocation),
+      contacts: item.contacts ?? [],
+      phones: item.phones ?? [],
+    });
+  }
+
+  /**
+   * Get one page of the user's companies
+   *
+   * @param userId - The authenticated user's ID
+   * @param query - Filters, sort and pagination
+   * @returns Companies and the cursor of the next page
+   * @throws BadRequestException if the cursor is invalid
+   */
+  async listCompanies(
+    userId: string,
+    query: ListCompaniesQueryDto,
+  ): Promise<CursorPage<CompanyEntity>> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Listing companies for user", {
+      operation: "listCompanies",
+      requestId,
+      userId,
+      sortBy: query.sortBy,
+      hasCursor: Boolean(query.cursor),
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.companyRepository.findCompaniesByUserId(
+        userId,
+        {
+          domain: query.domain,
+          companyName: query.companyName,
+          country: query.country,
+          industrySectors: query.industrySectors,
+          minHeadcount: query.minHeadcount,
+          maxHeadcount: query.maxHeadcount,
+          headcountBuckets: query.headcountBuckets,
+        },
+        {
+          sortBy: query.sortBy ?? "updatedAt",
+          direction: query.sortOrder ?? "desc",
+        },
+        { limit: query.limit ?? DEFAULT_PAGE_SIZE, cursor: query.cursor },
+      );
+
+      this.logger.log("Companies retrieved successfully", {
+        operation: "listCompanies",
+        requestId,
+        userId,
+        companyCount: page.items.length,
+        hasMore: page.nextCursor !== null,
+        timestamp: new Date().toISOString(),
+      });
+
+      return page;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to list companies",
+        {
+          operation: "listCompanies",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retrieve companies");
+    }
+  }
+
+  /**
+   * Get a company with every item merged into it
+   *
+   * @param companyId - The company's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns The company and its source items, most recent first
+   * @throws NotFoundException if company not found or user doesn't have access
+   */
+  async getCompany(
+    companyId: string,
+    userId: string,
+  ): Promise<{ company: CompanyEntity; items: ScrapingItemEntity[] }> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Retrieving company", {
+      operation: "getCompany",
+      requestId,
+      userId,
+      companyId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const company = await this.companyRepository.findCompanyById(
+        companyId,
+        userId,
+      );
+
+      if (!company) {
+        throw new NotFoundException(
+          "Company not found or you do not have access to this company",
+        );
+      }
+
+      const items = await this.companyRepository.findSourceItems(companyId);
+
+      this.logger.log("Company retrieved successfully", {
+        operation: "getCompany",
+        requestId,
+        userId,
+        companyId,
+        itemCount: items.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return { company, items };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve company",
+        {
+          operation: "getCompany",
+          requestId,
+          userId,
+          companyId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retrieve company");
+    }
+  }
+
+  /**
+   * Manually edit company fields
+   * Edited values are kept over scraped values until they are cleared with null
+   *
+   * @param companyId - The company's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @param dto - Fields to set or clear
+   * @returns The updated company
+   * @throws BadRequestException if no field is given
+   * @throws NotFoundException if company not found or user doesn't have access
+   */
+  async updateCompany(
+    companyId: string,
+    userId: string,
+    dto: UpdateCompanyDto,
+  ): Promise<CompanyEntity> {
+    const requestId = crypto.randomUUID();
+    const edits: Partial<Record<CompanyField, string | null>> = {};
+    for (const field of COMPANY_FIELDS) {
+      if (dto[field] !== undefined) {
+        edits[field] = dto[field]?.trim() || null;
+      }
+    }
+
+    this.logger.log("Updating company", {
+      operation: "updateCompany",
+      requestId,
+      userId,
+      companyId,
+      fields: Object.keys(edits),
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      if (Object.keys(edits).length === 0) {
+        throw new BadRequestException("At least one field must be provided");
+      }
+
+      const company = await this.companyRepository.findCompanyById(
+        companyId,
+        userId,
+      );
+
+      if (!company) {
+        throw new NotFoundException(
+          "Company not found or you do not have access to this company",
+        );
+      }
+
+      const updated = await this.companyRepository.updateManualFields(
+        companyId,
+        edits,
+        {
+          ...(edits.industry !== undefined
+            ? classifyIndustry({ industry: edits.industry })
+            : {}),
+          ...(edits.headcountRange !== undefined
+            ? toHeadcount(edits.headcountRange)
+            : {}),
+          ...(edits.hqLocation !== undefined
+            ? toHqAddress(edits.hqLocation)
+            : {}),
+        },
+      );
+
+      if (!updated) {
+        throw new NotFoundException(
+          "Company not found or you do not have access to this company",
+        );
+      }
+
+      this.logger.log("Company updated successfully", {
+        operation: "updateCompany",
+        requestId,
+        userId,
+        companyId,
+        timestamp: new Date().toISOString(),
+      });
+
+      return updated;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to update company",
+        {
+          operation: "updateCompany",
+          requestId,
+          userId,
+          companyId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to update company");
+    }
+  }
+
+  /**
+   * Non-empty field values of an item with their provenance
+   * Confidence comes from the extraction layer recorded for each field
+   *
+   * @private
+   */
+  private toMergeFields(
+    item: ScrapingItemEntity,
+    observedAt: Date,
+  ): MergeItemData["fields"] {
+    const fields: MergeItemData["fields"] = {};
+
+    for (const field of COMPANY_FIELDS) {
+      const value = item[field]?.trim();
+      if (!value) {
+        continue;
+      }
+
+      const method = item.fieldSources?.[field]?.method ?? null;
+      fields[field] = {
+        value,
+        provenance: {
+          source: "scrape",
+          itemId: item.id,
+          method,
+          confidence: method
+            ? EXTRACTION_METHOD_CONFIDENCE[method]
+            : UNKNOWN_METHOD_CONFIDENCE,
+          observedAt: observedAt.toISOString(),
+        },
+      };
+    }
+
+    return fields;
+  }
+}
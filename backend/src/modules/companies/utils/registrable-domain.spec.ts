@@ -0,0 +1,56 @@
+import { getCompanyDomain, getRegistrableDomain } from "./registrable-domain";
+
+describe("getRegistrableDomain", () => {
+  it("reduces URLs and hosts to their registrable domain", () => {
+    expect(getRegistrableDomain("https://www.shop.acme.co.uk/about")).toBe(
+      "acme.co.uk",
+    );
+    expect(getRegistrableDomain("acme.github.io")).toBe("acme.github.io");
+    expect(getRegistrableDomain("http://127.0.0.1/")).toBeNull();
+    expect(getRegistrableDomain("  ")).toBeNull();
+  });
+});
+
+describe("getCompanyDomain", () => {
+  const page = "https://www.acme.com/about";
+
+  it("takes a website named by a selector or schema.org markup", () => {
+    expect(
+      getCompanyDomain(page, "https://acme-group.de", {
+        url: page,
+        method: "selector",
+      }),
+    ).toBe("acme-group.de");
+    expect(
+      getCompanyDomain(page, "https://acme-group.de", {
+        url: page,
+        method: "structured",
+      }),
+    ).toBe("acme-group.de");
+  });
+
+  it("ignores a fallback website on another domain", () => {
+    expect(
+      getCompanyDomain(page, "https://apps.apple.com/app/id123", {
+        url: page,
+        method: "fallback",
+      }),
+    ).toBe("acme.com");
+    expect(getCompanyDomain(page, "https://cdn.google.com/x.js", null)).toBe(
+      "acme.com",
+    );
+  });
+
+  it("keeps a fallback website on the scraped site", () => {
+    expect(
+      getCompanyDomain(page, "https://shop.acme.com", {
+        url: page,
+        method: "fallback",
+      }),
+    ).toBe("acme.com");
+  });
+
+  it("returns null when neither has a registrable domain", () => {
+    expect(getCompanyDomain("http://10.0.0.1/", null, undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,50 @@
+import { getDomain } from "tldts";
+import {
+  ExtractionMethod,
+  FieldSource,
+} from "../../../core/database/schema/scraping-items";
+
+/**
+ * Registrable domain of a URL or host (e.g. "https://www.shop.acme.co.uk" -> "acme.co.uk")
+ * Private suffixes count, so "acme.github.io" stays separate from other GitHub Pages sites.
+ * Returns null for empty input, IP addresses, localhost and hosts without a public suffix
+ */
+export function getRegistrableDomain(
+  urlOrHost: string | null | undefined,
+): string | null {
+  if (!urlOrHost?.trim()) {
+    return null;
+  }
+  const domain = getDomain(urlOrHost.trim(), { allowPrivateDomains: true });
+  return domain ? domain.toLowerCase() : null;
+}
+
+// Extraction layers that name the company's own website; the fallback layer
+// takes the first absolute link on the page, often a CDN, partner or app store
+const RELIABLE_WEBSITE_METHODS: ReadonlySet<ExtractionMethod> = new Set([
+  "selector",
+  "structured",
+]);
+
+/**
+ * Registrable domain of the company behind a scraped page
+ * The extracted website counts when a selector or schema.org markup named
+ * it, or when it is on the scraped site itself; otherwise the scraped URL
+ * decides. Returns null when neither has a registrable domain
+ */
+export function getCompanyDomain(
+  scrapedUrl: string | null | undefined,
+  website: string | null | undefined,
+  websiteSource: FieldSource | null | undefined,
+): string | null {
+  const scrapedDomain = getRegistrableDomain(scrapedUrl);
+  const websiteDomain = getRegistrableDomain(website);
+  if (
+    websiteDomain &&
+    (websiteDomain === scrapedDomain ||
+      (websiteSource && RELIABLE_WEBSITE_METHODS.has(websiteSource.method)))
+  ) {
+    return websiteDomain;
+  }
+  return scrapedDomain;
+}
@@ -0,0 +1,309 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ParseUUIDPipe,
+  ValidationPipe,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiInternalServerErrorResponse,
+  ApiParam,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../../common/guards/auth.guard";
+import { CurrentUser } from "../../common/decorators/current-user.decorator";
+import { ContactService } from "./services/contact.service";
+import {
+  ContactDto,
+  ContactSearchResultDto,
+  ContactWithSightingsDto,
+  ListContactsQueryDto,
+  SearchContactsQueryDto,
+} from "./dto";
+import { DEFAULT_PAGE_SIZE } from "../scraping/dto/list-scraping-query.dto";
+import { DEFAULT_SEARCH_PAGE_SIZE } from "../scraping/dto/search-items-query.dto";
+import {
+  paginatedResponse,
+  successResponse,
+} from "../../common/helpers/api-response.helper";
+import { validationExceptionFactory } from "../../common/helpers/validation-errors.helper";
+
+/**
+ * Controller for contacts deduplicated by email across scraping jobs
+ * All endpoints require authentication via AuthGuard
+ */
+@ApiTags("Contacts")
+@Controller("contacts")
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+export class ContactsController {
+  private readonly logger = new Logger(ContactsController.name);
+
+  constructor(private readonly contactService: ContactService) {}
+
+  /**
+   * List the user's contacts
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "List contacts",
+    description:
+      "Retrieve one page of the authenticated user's contacts, one per normalized email across all jobs. Pass nextCursor from the response to get the next page.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Contacts retrieved successfully",
+    type: [ContactDto],
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid filter, sort or cursor",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving contacts",
+  })
+  async listContacts(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: ListContactsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("List contacts request received", {
+      operation: "listContacts",
+      requestId,
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.contactService.listContacts(userId, query);
+
+      this.logger.log("Contacts retrieved successfully", {
+        operation: "listContacts",
+        requestId,
+        userId,
+        contactCount: page.items.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return paginatedResponse(
+        page.items,
+        {
+          limit: query.limit ?? DEFAULT_PAGE_SIZE,
+          nextCursor: page.nextCursor,
+        },
+        "Contacts retrieved successfully",
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve contacts",
+        {
+          operation: "listContacts",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Full-text search over the user's contacts
+   */
+  @Get("search")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Search contacts",
+    description:
+      "Search the authenticated user's contacts by name, title and email. Name matches rank highest, then title, then email.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Search results retrieved successfully",
+    type: [ContactSearchResultDto],
+  })
+  @ApiBadRequestResponse({
+    description: "Missing q, or invalid limit or cursor",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while searching",
+  })
+  async searchContacts(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: SearchContactsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Contact search request received", {
+      operation: "searchContacts",
+      requestId,
+      userId,
+      q: query.q,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.contactService.searchContacts(userId, query);
+
+      this.logger.log("Contact search completed", {
+        operation: "searchContacts",
+        requestId,
+        userId,
+        resultCount: page.items.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return paginatedResponse(
+        page.items,
+        {
+          limit: query.limit ?? DEFAULT_SEARCH_PAGE_SIZE,
+          nextCursor: page.nextCursor,
+        },
+        "Search results retrieved successfully",
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Contact search failed",
+        {
+          operation: "searchContacts",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Get a contact with every page and job it was seen on
+   */
+  @Get(":id")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Get contact by ID",
+    description:
+      "Retrieve a contact with every page it was found on, including the item and job of each sighting and the name and title shown there.",
+  })
+  @ApiParam({
+    name: "id",
+    description: "Contact unique identifier",
+    type: "string",
+    format: "uuid",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Contact retrieved successfully",
+    type: ContactWithSightingsDto,
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid contact ID format",
+  })
+  @ApiNotFoundResponse({
+    description: "Contact not found or access denied",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving contact",
+  })
+  async getContact(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Get contact request received", {
+      operation: "getContact",
+      requestId,
+      userId,
+      contactId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.contactService.getContact(id, userId);
+
+      this.logger.log("Contact retrieved successfully", {
+        operation: "getContact",
+        requestId,
+        userId,
+        contactId: id,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Contact retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve contact",
+        {
+          operation: "getContact",
+          requestId,
+          userId,
+          contactId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+}
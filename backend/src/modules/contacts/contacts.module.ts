@@ -0,0 +1,17 @@
+import { Module } from "@nestjs/common";
+import { DatabaseModule } from "../../core/database/database.module";
+import { SupabaseModule } from "../../core/supabase/supabase.module";
+import { ContactsController } from "./contacts.controller";
+import { ContactService } from "./services/contact.service";
+
+/**
+ * Module for contacts deduplicated by email across scraping jobs
+ * The scraping worker uses ContactService to record each item's contacts
+ */
+@Module({
+  imports: [DatabaseModule, SupabaseModule],
+  controllers: [ContactsController],
+  providers: [ContactService],
+  exports: [ContactService],
+})
+export class ContactsModule {}
@@ -0,0 +1,183 @@
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  EMAIL_TYPES,
+  EmailType,
+} from "../../../core/database/schema/scraping-items";
+
+// Response DTO for a deduplicated contact
+export class ContactDto {
+  @ApiProperty({
+    description: "Unique identifier for the contact",
+    example: "5d7f2c1e-8a43-4b6e-9c0d-1f2e3a4b5c6d",
+    format: "uuid",
+  })
+  id!: string;
+
+  @ApiProperty({
+    description:
+      "Normalized email (lowercased; dots and +tags removed for Gmail)",
+    example: "jane.doe@acme.com",
+  })
+  email!: string;
+
+  @ApiProperty({
+    description: "Name from the most recent sighting that had one",
+    example: "Jane Doe",
+    nullable: true,
+  })
+  name!: string | null;
+
+  @ApiProperty({
+    description: "Title from the most recent sighting that had one",
+    example: "VP of Sales",
+    nullable: true,
+  })
+  title!: string | null;
+
+  @ApiProperty({
+    description:
+      "Phone number in E.164 from the most recent sighting that had one",
+    example: "+14155552671",
+    nullable: true,
+  })
+  phone!: string | null;
+
+  @ApiProperty({
+    description:
+      "personal, role (shared mailbox like info@) or disposable; null if not seen since classification was added",
+    enum: EMAIL_TYPES,
+    example: "personal",
+    nullable: true,
+  })
+  emailType!: EmailType | null;
+
+  @ApiProperty({
+    description:
+      "Whether the email is on the company's domain; null when the company domain is unknown",
+    example: true,
+    nullable: true,
+  })
+  emailDomainMatch!: boolean | null;
+
+  @ApiProperty({
+    description:
+      "Email quality from 0 to 1, from the email type and domain match",
+    example: 1,
+    nullable: true,
+  })
+  qualityScore!: number | null;
+
+  @ApiProperty({
+    description: "Company of the most recent sighting",
+    format: "uuid",
+    nullable: true,
+  })
+  companyId!: string | null;
+
+  @ApiProperty({
+    description: "When the contact was first seen",
+    format: "date-time",
+  })
+  firstSeenAt!: Date;
+
+  @ApiProperty({
+    description: "When the contact was last seen",
+    format: "date-time",
+  })
+  lastSeenAt!: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the contact was created",
+    format: "date-time",
+  })
+  createdAt!: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the contact was last updated",
+    format: "date-time",
+  })
+  updatedAt!: Date;
+}
+
+// Response DTO for one page a contact was found on
+export class ContactSightingDto {
+  @ApiProperty({
+    description: "Unique identifier for the sighting",
+    format: "uuid",
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: "Item the contact was extracted from",
+    format: "uuid",
+  })
+  itemId!: string;
+
+  @ApiProperty({
+    description: "Job of the item",
+    format: "uuid",
+  })
+  jobId!: string;
+
+  @ApiProperty({
+    description: "Page the contact was found on",
+    example: "https://www.acme.com/team",
+  })
+  sourceUrl!: string;
+
+  @ApiProperty({
+    description: "Email as written on the page",
+    example: "Jane.Doe@Acme.com",
+  })
+  rawEmail!: string;
+
+  @ApiProperty({
+    description: "Name shown on the page",
+    example: "Jane Doe",
+    nullable: true,
+  })
+  name!: string | null;
+
+  @ApiProperty({
+    description: "Title shown on the page",
+    example: "VP of Sales",
+    nullable: true,
+  })
+  title!: string | null;
+
+  @ApiProperty({
+    description: "When the item finished",
+    format: "date-time",
+  })
+  seenAt!: Date;
+}
+
+// Response DTO for a contact with every page and job it was seen on
+export class ContactWithSightingsDto {
+  @ApiProperty({
+    description: "The contact",
+    type: ContactDto,
+  })
+  contact!: ContactDto;
+
+  @ApiProperty({
+    description: "Pages the contact was found on, most recent first",
+    type: [ContactSightingDto],
+  })
+  sightings!: ContactSightingDto[];
+}
+
+// Response DTO for one contact search result
+export class ContactSearchResultDto {
+  @ApiProperty({
+    description: "Relevance score; higher is better",
+    example: 0.4,
+  })
+  rank!: number;
+
+  @ApiProperty({
+    description: "The matching contact",
+    type: ContactDto,
+  })
+  contact!: ContactDto;
+}
@@ -0,0 +1,3 @@
+export * from "./contact-responses.dto";
+export * from "./list-contacts-query.dto";
+export * from "./search-contacts-query.dto";
@@ -0,0 +1,152 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  CONTACT_SORT_FIELDS,
+  ContactSortField,
+} from "../../../core/database/repositories/contact.repository";
+import { SortDirection } from "../../../core/database/repositories/base.repository";
+import {
+  EMAIL_TYPES,
+  EmailType,
+} from "../../../core/database/schema/scraping-items";
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+} from "../../scraping/dto/list-scraping-query.dto";
+
+export class ListContactsQueryDto {
+  @ApiProperty({
+    description: "Page size",
+    default: DEFAULT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(MAX_PAGE_SIZE, { message: `limit must be at most ${MAX_PAGE_SIZE}` })
+  limit?: number;
+
+  @ApiProperty({
+    description:
+      "nextCursor from the previous page. Keep the same filters and sort when paging",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "cursor must be a string" })
+  @MaxLength(500, { message: "cursor is too long" })
+  cursor?: string;
+
+  @ApiProperty({
+    description: "Sort field",
+    enum: CONTACT_SORT_FIELDS,
+    default: "lastSeenAt",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(CONTACT_SORT_FIELDS, {
+    message: `sortBy must be one of: ${CONTACT_SORT_FIELDS.join(", ")}`,
+  })
+  sortBy?: ContactSortField;
+
+  @ApiProperty({
+    description: "Sort direction; empty values always come last",
+    enum: ["asc", "desc"],
+    default: "desc",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(["asc", "desc"], { message: "sortOrder must be asc or desc" })
+  sortOrder?: SortDirection;
+
+  @ApiProperty({
+    description: "Email contains this text (case-insensitive)",
+    example: "acme.com",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "email must be a string" })
+  @MaxLength(320, { message: "email must be at most 320 characters" })
+  email?: string;
+
+  @ApiProperty({
+    description: "Name contains this text (case-insensitive)",
+    example: "jane",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "name must be a string" })
+  @MaxLength(200, { message: "name must be at most 200 characters" })
+  name?: string;
+
+  @ApiProperty({
+    description: "Only contacts of this company",
+    format: "uuid",
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID("all", { message: "companyId must be a UUID" })
+  companyId?: string;
+
+  @ApiProperty({
+    description: "Only contacts seen at least once in this job",
+    format: "uuid",
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID("all", { message: "jobId must be a UUID" })
+  jobId?: string;
+
+  @ApiProperty({
+    description: "Comma-separated email types to include",
+    example: "personal,role",
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((type) => type.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray({ message: "emailTypes must be a comma-separated list" })
+  @ArrayNotEmpty({ message: "emailTypes must not be empty" })
+  @IsIn(EMAIL_TYPES, {
+    each: true,
+    message: `each value in emailTypes must be one of: ${EMAIL_TYPES.join(", ")}`,
+  })
+  emailTypes?: EmailType[];
+
+  @ApiProperty({
+    description:
+      "Only contacts with at least this email quality score (0 to 1); contacts not yet scored are excluded",
+    example: 0.5,
+    minimum: 0,
+    maximum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "minQualityScore must be a number" })
+  @Min(0, { message: "minQualityScore must be at least 0" })
+  @Max(1, { message: "minQualityScore must be at most 1" })
+  minQualityScore?: number;
+}
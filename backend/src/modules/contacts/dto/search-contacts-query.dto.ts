@@ -0,0 +1,7 @@
+import { SearchQueryDto } from "../../scraping/dto/search-items-query.dto";
+
+/**
+ * Contact search: text and pagination only, since contacts carry no company
+ * size to filter by
+ */
+export class SearchContactsQueryDto extends SearchQueryDto {}
@@ -0,0 +1,315 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from "@nestjs/common";
+import {
+  ContactRepository,
+  ContactEntity,
+  ContactSearchResult,
+  ContactSightingEntity,
+  ObservedContact,
+} from "../../../core/database/repositories/contact.repository";
+import { ScrapingRepository } from "../../../core/database/repositories/scraping.repository";
+import { CursorPage } from "../../../core/database/repositories/base.repository";
+import { DEFAULT_PAGE_SIZE } from "../../scraping/dto/list-scraping-query.dto";
+import { DEFAULT_SEARCH_PAGE_SIZE } from "../../scraping/dto/search-items-query.dto";
+import { ListContactsQueryDto } from "../dto/list-contacts-query.dto";
+import { SearchContactsQueryDto } from "../dto/search-contacts-query.dto";
+import { normalizeEmail } from "../utils/email-normalizer";
+import { getContactClassification } from "../utils/email-classifier";
+import { getCompanyDomain } from "../../companies/utils/registrable-domain";
+
+/**
+ * Service for contacts deduplicated by normalized email across all jobs
+ * The worker records the contacts of every completed item; the API lists,
+ * searches and shows where each contact was seen
+ */
+@Injectable()
+export class ContactService {
+  private readonly logger = new Logger(ContactService.name);
+
+  constructor(
+    private readonly contactRepository: ContactRepository,
+    private readonly scrapingRepository: ScrapingRepository,
+  ) {}
+
+  /**
+   * Record the contacts of a completed item
+   * Name-only contacts and emails classified invalid are skipped;
+   * items without an owner or contacts are ignored
+   *
+   * @param itemId - Completed scraping item
+   * @returns Number of contacts recorded
+   */
+  async recordItem(itemId: string): Promise<number> {
+    const found = await this.scrapingRepository.findItemWithOwner(itemId);
+    if (!found?.userId || !found.item.contacts?.length) {
+      return 0;
+    }
+
+    const { item, userId } = found;
+    const observed: ObservedContact[] = [];
+    for (const contact of item.contacts ?? []) {
+      const email = normalizeEmail(contact.email);
+      const classification = getContactClassification(
+        contact,
+        getCompanyDomain(
+          item.canonicalUrl ?? item.url,
+          item.website,
+          item.fieldSources?.website,
+        ),
+      );
+      if (
+        !email ||
+        !contact.email ||
+        !classification ||
+        classification.emailType === "invalid"
+      ) {
+        continue;
+      }
+      observed.push({
+        email,
+        rawEmail: contact.email.trim(),
+        name: contact.name?.trim() || null,
+        title: contact.title?.trim() || null,
+        phone: contact.phone ?? null,
+        sourceUrl: contact.sourceUrl ?? item.url,
+        ...classification,
+      });
+    }
+
+    if (observed.length === 0) {
+      return 0;
+    }
+
+    const saved = await this.contactRepository.recordSightings({
+      userId,
+      itemId,
+      jobId: item.jobId,
+      companyId: item.companyId,
+      seenAt: item.finishedAt ?? new Date(),
+      contacts: observed,
+    });
+    return saved.length;
+  }
+
+  /**
+   * Get one page of the user's contacts
+   *
+   * @param userId - The authenticated user's ID
+   * @param query - Filters, sort and pagination
+   * @returns Contacts and the cursor of the next page
+   * @throws BadRequestException if the cursor is invalid
+   */
+  async listContacts(
+    userId: string,
+    query: ListContactsQueryDto,
+  ): Promise<CursorPage<ContactEntity>> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Listing contacts for user", {
+      operation: "listContacts",
+      requestId,
+      userId,
+      companyId: query.companyId,
+      jobId: query.jobId,
+      sortBy: query.sortBy,
+      hasCursor: Boolean(query.cursor),
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.contactRepository.findContactsByUserId(
+        userId,
+        {
+          email: query.email,
+          name: query.name,
+          companyId: query.companyId,
+          jobId: query.jobId,
+          emailTypes: query.emailTypes,
+          minQualityScore: query.minQualityScore,
+        },
+        {
+          sortBy: query.sortBy ?? "lastSeenAt",
+          direction: query.sortOrder ?? "desc",
+        },
+        { limit: query.limit ?? DEFAULT_PAGE_SIZE, cursor: query.cursor },
+      );
+
+      this.logger.log("Contacts retrieved successfully", {
+        operation: "listContacts",
+        requestId,
+        userId,
+        contactCount: page.items.length,
+        hasMore: page.nextCursor !== null,
+        timestamp: new Date().toISOString(),
+      });
+
+      return page;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to list contacts",
+        {
+          operation: "listContacts",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retrieve contacts");
+    }
+  }
+
+  /**
+   * Search the user's contacts by name, title and email
+   *
+   * @param userId - The authenticated user's ID
+   * @param query - Search text and pagination
+   * @returns Ranked results and the cursor of the next page
+   * @throws BadRequestException if the cursor is invalid
+   */
+  async searchContacts(
+    userId: string,
+    query: SearchContactsQueryDto,
+  ): Promise<CursorPage<ContactSearchResult>> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Searching contacts", {
+      operation: "searchContacts",
+      requestId,
+      userId,
+      q: query.q,
+      hasCursor: Boolean(query.cursor),
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.contactRepository.searchContacts(
+        userId,
+        query.q,
+        {
+          limit: query.limit ?? DEFAULT_SEARCH_PAGE_SIZE,
+          cursor: query.cursor,
+        },
+      );
+
+      this.logger.log("Contact search completed", {
+        operation: "searchContacts",
+        requestId,
+        userId,
+        resultCount: page.items.length,
+        hasMore: page.nextCursor !== null,
+        timestamp: new Date().toISOString(),
+      });
+
+      return page;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to search contacts",
+        {
+          operation: "searchContacts",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to search contacts");
+    }
+  }
+
+  /**
+   * Get a contact with every page and job it was seen on
+   *
+   * @param contactId - The contact's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns The contact and its sightings, most recent first
+   * @throws NotFoundException if contact not found or user doesn't have access
+   */
+  async getContact(
+    contactId: string,
+    userId: string,
+  ): Promise<{ contact: ContactEntity; sightings: ContactSightingEntity[] }> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Retrieving contact", {
+      operation: "getContact",
+      requestId,
+      userId,
+      contactId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const contact = await this.contactRepository.findContactById(
+        contactId,
+        userId,
+      );
+
+      if (!contact) {
+        throw new NotFoundException(
+          "Contact not found or you do not have access to this contact",
+        );
+      }
+
+      const sightings = await this.contactRepository.findSightings(contactId);
+
+      this.logger.log("Contact retrieved successfully", {
+        operation: "getContact",
+        requestId,
+        userId,
+        contactId,
+        sightingCount: sightings.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return { contact, sightings };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve contact",
+        {
+          operation: "getContact",
+          requestId,
+          userId,
+          contactId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retrieve contact");
+    }
+  }
+}
@@ -0,0 +1,120 @@
+import { classifyEmail, getContactClassification } from "./email-classifier";
+
+describe("classifyEmail", () => {
+  it("marks no-reply and automated mailboxes invalid", () => {
+    for (const email of [
+      "noreply@acme.com",
+      "no-reply@acme.com",
+      "do_not_reply@acme.com",
+      "mailer-daemon@acme.com",
+    ]) {
+      expect(classifyEmail(email, "https://acme.com")).toEqual({
+        emailType: "invalid",
+        emailDomainMatch: null,
+        qualityScore: 0,
+      });
+    }
+  });
+
+  it("marks image names, placeholders and generated IDs invalid", () => {
+    expect(classifyEmail("logo@2x.png", "acme.com").emailType).toBe("invalid");
+    expect(classifyEmail("hero-image@3x.webp", null).emailType).toBe("invalid");
+    expect(classifyEmail("you@example.com", null).emailType).toBe("invalid");
+    expect(
+      classifyEmail("3f2a9c0d1e4b5a6f7c8d@o123.ingest.sentry.io", null)
+        .emailType,
+    ).toBe("invalid");
+    expect(classifyEmail("not-an-email", null).emailType).toBe("invalid");
+  });
+
+  it("marks throwaway mailbox providers disposable", () => {
+    expect(classifyEmail("jane@mailinator.com", "acme.com")).toEqual({
+      emailType: "disposable",
+      emailDomainMatch: false,
+      qualityScore: 0.05,
+    });
+  });
+
+  it("tells shared role mailboxes from personal ones", () => {
+    expect(classifyEmail("info@acme.com", null).emailType).toBe("role");
+    expect(classifyEmail("Sales+EU@acme.com", null).emailType).toBe("role");
+    expect(classifyEmail("customer.service@acme.com", null).emailType).toBe(
+      "role",
+    );
+    expect(classifyEmail("jane.doe@acme.com", null).emailType).toBe("personal");
+  });
+
+  it("scores addresses on the company's domain higher than elsewhere", () => {
+    expect(classifyEmail("jane.doe@acme.com", "https://www.acme.com")).toEqual({
+      emailType: "personal",
+      emailDomainMatch: true,
+      qualityScore: 1,
+    });
+    // Subdomains share the registrable domain
+    expect(classifyEmail("info@mail.acme.co.uk", "acme.co.uk")).toEqual({
+      emailType: "role",
+      emailDomainMatch: true,
+      qualityScore: 0.7,
+    });
+    expect(classifyEmail("jane.doe@gmail.com", "acme.com")).toEqual({
+      emailType: "personal",
+      emailDomainMatch: false,
+      qualityScore: 0.5,
+    });
+    expect(classifyEmail("info@gmail.com", "acme.com")).toEqual({
+      emailType: "role",
+      emailDomainMatch: false,
+      qualityScore: 0.2,
+    });
+  });
+
+  it("leaves the domain match unknown without a company domain", () => {
+    expect(classifyEmail("jane.doe@acme.com", null)).toEqual({
+      emailType: "personal",
+      emailDomainMatch: null,
+      qualityScore: 0.7,
+    });
+  });
+});
+
+describe("getContactClassification", () => {
+  it("keeps a stored classification and classifies older contacts", () => {
+    expect(
+      getContactClassification(
+        {
+          name: "Jane Doe",
+          title: null,
+          email: "jane@acme.com",
+          emailType: "role",
+          emailDomainMatch: true,
+          qualityScore: 0.42,
+        },
+        "acme.com",
+      ),
+    ).toEqual({
+      emailType: "role",
+      emailDomainMatch: true,
+      qualityScore: 0.42,
+    });
+
+    expect(
+      getContactClassification(
+        { name: "Jane Doe", title: null, email: "jane@acme.com" },
+        "acme.com",
+      ),
+    ).toEqual({
+      emailType: "personal",
+      emailDomainMatch: true,
+      qualityScore: 1,
+    });
+  });
+
+  it("returns null for name-only contacts", () => {
+    expect(
+      getContactClassification(
+        { name: "Jane Doe", title: null, email: null },
+        "acme.com",
+      ),
+    ).toBeNull();
+  });
+});
@@ -0,0 +1,245 @@
+import disposableDomains from "disposable-email-domains";
+import {
+  Contact,
+  EmailType,
+} from "../../../core/database/schema/scraping-items";
+import { getRegistrableDomain } from "../../companies/utils/registrable-domain";
+
+/**
+ * Throwaway mailbox providers, from the offline disposable-email-domains list
+ */
+const DISPOSABLE_DOMAINS = new Set<string>(disposableDomains);
+
+/**
+ * Local parts of shared mailboxes (compared without "+tag" and separators)
+ */
+const ROLE_LOCAL_PARTS = new Set([
+  "accounts",
+  "accounting",
+  "admin",
+  "administrator",
+  "billing",
+  "booking",
+  "bookings",
+  "business",
+  "careers",
+  "community",
+  "compliance",
+  "contact",
+  "contactus",
+  "customercare",
+  "customerservice",
+  "dev",
+  "enquiries",
+  "enquiry",
+  "events",
+  "feedback",
+  "finance",
+  "general",
+  "hello",
+  "help",
+  "helpdesk",
+  "hi",
+  "hr",
+  "info",
+  "inquiries",
+  "inquiry",
+  "investors",
+  "ir",
+  "jobs",
+  "legal",
+  "mail",
+  "marketing",
+  "media",
+  "office",
+  "orders",
+  "partners",
+  "partnerships",
+  "press",
+  "privacy",
+  "recruiting",
+  "recruitment",
+  "reception",
+  "sales",
+  "security",
+  "service",
+  "services",
+  "shop",
+  "social",
+  "support",
+  "team",
+  "webmaster",
+]);
+
+/**
+ * Local parts of mailboxes that do not accept replies or only receive
+ * automated mail
+ */
+const UNDELIVERABLE_LOCAL_PARTS = new Set([
+  "abuse",
+  "bounce",
+  "bounces",
+  "donotreply",
+  "hostmaster",
+  "mailerdaemon",
+  "noreply",
+  "postmaster",
+]);
+
+/**
+ * Placeholder domains from templates and docs, and error-tracking hosts
+ * whose addresses are embedded in page scripts
+ */
+const PLACEHOLDER_DOMAINS = new Set([
+  "domain.com",
+  "email.com",
+  "example.com",
+  "example.net",
+  "example.org",
+  "sentry.io",
+  "test.com",
+  "wixpress.com",
+  "yourcompany.com",
+  "yourdomain.com",
+]);
+
+/**
+ * File extensions that show up as a "TLD" when retina image names like
+ * logo@2x.png match the email regex
+ */
+const FILE_EXTENSION_TLDS = new Set([
+  "avif",
+  "bmp",
+  "css",
+  "gif",
+  "ico",
+  "jpeg",
+  "jpg",
+  "js",
+  "png",
+  "svg",
+  "tif",
+  "tiff",
+  "webp",
+]);
+
+// Long hex strings are generated identifiers (e.g. Sentry DSN keys), not mailboxes
+const GENERATED_LOCAL_PART = /^[0-9a-f]{16,}$/;
+
+const TYPE_SCORES: Record<EmailType, number> = {
+  personal: 0.7,
+  role: 0.4,
+  disposable: 0.05,
+  invalid: 0,
+};
+
+// Added when the email is on the company's domain, subtracted when it is not
+const DOMAIN_MATCH_ADJUSTMENT = 0.3;
+const DOMAIN_MISMATCH_ADJUSTMENT = -0.2;
+
+/**
+ * Type of an address from its local part and domain
+ */
+const getEmailType = (
+  local: string,
+  host: string,
+  emailDomain: string | null,
+): EmailType => {
+  const tld = host.slice(host.lastIndexOf(".") + 1);
+  if (
+    !local ||
+    !emailDomain ||
+    FILE_EXTENSION_TLDS.has(tld) ||
+    PLACEHOLDER_DOMAINS.has(emailDomain) ||
+    GENERATED_LOCAL_PART.test(local)
+  ) {
+    return "invalid";
+  }
+
+  const mailbox = local.split("+")[0].replace(/[._-]/g, "");
+  if (UNDELIVERABLE_LOCAL_PARTS.has(mailbox)) {
+    return "invalid";
+  }
+  if (DISPOSABLE_DOMAINS.has(emailDomain) || DISPOSABLE_DOMAINS.has(host)) {
+    return "disposable";
+  }
+  if (ROLE_LOCAL_PARTS.has(mailbox)) {
+    return "role";
+  }
+  return "personal";
+};
+
+export interface EmailClassification {
+  emailType: EmailType;
+  emailDomainMatch: boolean | null;
+  qualityScore: number;
+}
+
+/**
+ * Classify an email address as personal, role-based, invalid or disposable,
+ * check whether it is on the company's domain, and score it from 0 to 1
+ *
+ * Invalid and disposable addresses score (near) zero whatever their domain.
+ * Otherwise personal addresses start at 0.7 and role addresses at 0.4,
+ * +0.3 on the company's domain and -0.2 on another domain.
+ *
+ * @param email - Email as extracted
+ * @param companyDomain - Company website or URL; null when unknown
+ */
+export const classifyEmail = (
+  email: string,
+  companyDomain: string | null,
+): EmailClassification => {
+  const address = email.trim().toLowerCase();
+  const at = address.lastIndexOf("@");
+  const local = at > 0 ? address.slice(0, at) : "";
+  const host = at > 0 ? address.slice(at + 1) : "";
+  const emailDomain = getRegistrableDomain(host);
+
+  const emailType = getEmailType(local, host, emailDomain);
+  const companyRegistrableDomain = getRegistrableDomain(companyDomain);
+  const emailDomainMatch =
+    emailType === "invalid" || !companyRegistrableDomain
+      ? null
+      : emailDomain === companyRegistrableDomain;
+
+  let qualityScore = TYPE_SCORES[emailType];
+  if (emailType === "personal" || emailType === "role") {
+    if (emailDomainMatch === true) {
+      qualityScore += DOMAIN_MATCH_ADJUSTMENT;
+    } else if (emailDomainMatch === false) {
+      qualityScore += DOMAIN_MISMATCH_ADJUSTMENT;
+    }
+  }
+
+  return {
+    emailType,
+    emailDomainMatch,
+    qualityScore:
+      Math.round(Math.min(1, Math.max(0, qualityScore)) * 100) / 100,
+  };
+};
+
+/**
+ * Classification stored on an extracted contact, or computed now for
+ * contacts scraped before classification existed
+ *
+ * @param contact - Contact from an item's contacts
+ * @param companyDomain - Company website or URL; null when unknown
+ * @returns null for name-only contacts
+ */
+export const getContactClassification = (
+  contact: Contact,
+  companyDomain: string | null,
+): EmailClassification | null => {
+  if (!contact.email) {
+    return null;
+  }
+  return contact.emailType
+    ? {
+        emailType: contact.emailType,
+        emailDomainMatch: contact.emailDomainMatch ?? null,
+        qualityScore: contact.qualityScore ?? 0,
+      }
+    : classifyEmail(contact.email, companyDomain);
+};
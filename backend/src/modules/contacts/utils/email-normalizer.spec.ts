@@ -0,0 +1,39 @@
+import { normalizeEmail } from "./email-normalizer";
+
+describe("normalizeEmail", () => {
+  it("strips mailto: and query strings, and lowercases", () => {
+    expect(normalizeEmail("mailto:Jane.Doe@Acme.com?subject=Hi")).toBe(
+      "jane.doe@acme.com",
+    );
+    expect(normalizeEmail("  MAILTO:info@acme.com ")).toBe("info@acme.com");
+  });
+
+  it("decodes percent-encoding and keeps undecodable text as is", () => {
+    expect(normalizeEmail("mailto:jane%2Bsales@acme.com")).toBe(
+      "jane+sales@acme.com",
+    );
+    expect(normalizeEmail("100%@acme.com")).toBe("100%@acme.com");
+  });
+
+  it("trims brackets and punctuation scraped along with the address", () => {
+    expect(normalizeEmail("<jane@acme.com>,")).toBe("jane@acme.com");
+    expect(normalizeEmail("(jane@acme.com).")).toBe("jane@acme.com");
+    expect(normalizeEmail('"jane@acme.com";')).toBe("jane@acme.com");
+  });
+
+  it("folds Gmail dots, +tags and googlemail.com into one key", () => {
+    expect(normalizeEmail("J.Doe+news@GoogleMail.com")).toBe("jdoe@gmail.com");
+    expect(normalizeEmail("jdoe@gmail.com")).toBe("jdoe@gmail.com");
+    // Other providers treat dots and tags as part of the mailbox
+    expect(normalizeEmail("j.doe+news@acme.com")).toBe("j.doe+news@acme.com");
+    expect(normalizeEmail("+news@gmail.com")).toBeNull();
+  });
+
+  it("returns null for values that are not email addresses", () => {
+    expect(normalizeEmail(null)).toBeNull();
+    expect(normalizeEmail("")).toBeNull();
+    expect(normalizeEmail("jane")).toBeNull();
+    expect(normalizeEmail("jane@acme")).toBeNull();
+    expect(normalizeEmail("jane doe@acme.com")).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * Shape check for a normalized email; deliberately loose, real validation
+ * happens when mail is sent
+ */
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@.]+$/;
+
+/**
+ * Characters scraped along with an email that are never part of it
+ */
+const SURROUNDING_PUNCTUATION = /^[<("'[]+|[>)"'\].,;:!?]+$/g;
+
+/**
+ * Gmail ignores dots and "+tag" suffixes in the local part, and
+ * googlemail.com is the same mailbox
+ */
+const GMAIL_DOMAINS = new Set(["gmail.com", "googlemail.com"]);
+
+/**
+ * Normalize an email address so the same mailbox always has the same key
+ *
+ * - Strips "mailto:", query strings and surrounding brackets or punctuation
+ * - Decodes percent-encoding from mailto links
+ * - Lowercases the whole address
+ * - For Gmail, drops dots and "+tag" from the local part
+ *
+ * Returns null when the value does not look like an email address
+ */
+export const normalizeEmail = (
+  raw: string | null | undefined,
+): string | null => {
+  if (!raw) {
+    return null;
+  }
+
+  let email = raw.trim().replace(/^mailto:/i, "");
+  email = email.split("?")[0];
+  try {
+    email = decodeURIComponent(email);
+  } catch {
+    // Not percent-encoded; keep as is
+  }
+  email = email.replace(SURROUNDING_PUNCTUATION, "").trim().toLowerCase();
+
+  if (!EMAIL_PATTERN.test(email)) {
+    return null;
+  }
+
+  const at = email.lastIndexOf("@");
+  let local = email.slice(0, at);
+  let domain = email.slice(at + 1);
+
+  if (GMAIL_DOMAINS.has(domain)) {
+    local = local.split("+")[0].replace(/\./g, "");
+    domain = "gmail.com";
+  }
+
+  return local ? `${local}@${domain}` : null;
+};
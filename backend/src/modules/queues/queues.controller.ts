@@ -7,9 +7,20 @@ import {
   HttpStatus,
   HttpCode,
   Param,
+  UseGuards,
+  ForbiddenException,
 } from "@nestjs/common";
-import { ApiTags, ApiOperation, ApiResponse, ApiBody } from "@nestjs/swagger";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBody,
+  ApiBearerAuth,
+} from "@nestjs/swagger";
 import { successResponse } from "../../common/helpers/api-response.helper";
+import { AuthGuard } from "../../common/guards/auth.guard";
+import { CurrentUser } from "../../common/decorators/current-user.decorator";
+import { USER_ROLES } from "../../common/constants/string-const";
 import { EmailQueueService } from "./services/email-queue.service";
 import { WorkflowQueueService } from "./services/workflow-queue.service";
 import { QueueMonitoringService } from "./services/queue-monitoring.service";
@@ -581,6 +592,46 @@ export class QueuesController {
     }
   }
 
+  @Get("monitoring/scrape/backlog")
+  @UseGuards(AuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      "Get scrape queue backlog per user (fair-share scheduling, admin only)",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Scrape backlog retrieved successfully",
+  })
+  @ApiResponse({ status: 401, description: "Authentication required" })
+  @ApiResponse({ status: 403, description: "Admin role required" })
+  async getScrapeBacklog(
+    @CurrentUser("id") userId: string,
+    @CurrentUser("role") userRole: string,
+  ) {
+    this.logger.log("Retrieving scrape queue backlog per user");
+
+    // Lists every user's ID and backlog, so only admins may see it
+    if (userRole !== (USER_ROLES.ADMIN as string)) {
+      this.logger.warn(
+        `Scrape backlog rejected for non-admin user ${userId} (${userRole})`,
+      );
+      throw new ForbiddenException("Only admins can view the scrape backlog");
+    }
+
+    try {
+      const backlog = await this.monitoringService.getScrapeBacklog();
+      this.logger.log("Scrape backlog retrieved successfully");
+
+      return successResponse(backlog, "Scrape backlog retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      this.logger.error(`Failed to retrieve scrape backlog: ${errorMessage}`);
+      throw error;
+    }
+  }
+
   @Get("monitoring/health")
   @ApiOperation({
     summary: "Get health status of all queues with detailed metrics",
@@ -1,6 +1,8 @@
 import { Module, OnModuleDestroy } from "@nestjs/common";
 import { BullModule, InjectQueue } from "@nestjs/bullmq";
 import { Queue } from "bullmq";
+import { DatabaseModule } from "../../core/database/database.module";
+import { SupabaseModule } from "../../core/supabase/supabase.module";
 
 import { EmailProcessor } from "./processors/email.processor";
 import { WorkflowProcessor } from "./processors/workflow.processor";
@@ -20,7 +22,12 @@ import { QueuesController } from "./queues.controller";
       {
         name: "workflow",
       },
+      {
+        name: "scrape-queue",
+      },
     ),
+    DatabaseModule,
+    SupabaseModule,
   ],
   controllers: [QueuesController],
   providers: [
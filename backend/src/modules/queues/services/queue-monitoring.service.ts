@@ -1,6 +1,10 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { InjectQueue } from "@nestjs/bullmq";
 import { Queue, Job } from "bullmq";
+import {
+  ScrapingRepository,
+  UserBacklog,
+} from "../../../core/database/repositories/scraping.repository";
 
 export interface QueueMetrics {
   name: string;
@@ -43,6 +47,17 @@ export interface DashboardStats {
   timestamp: string;
 }
 
+export interface ScrapeBacklog {
+  queue: {
+    waiting: number;
+    prioritized: number;
+    active: number;
+    delayed: number;
+  };
+  users: UserBacklog[];
+  timestamp: string;
+}
+
 @Injectable()
 export class QueueMonitoringService {
   private readonly logger = new Logger(QueueMonitoringService.name);
@@ -50,6 +65,8 @@ export class QueueMonitoringService {
   constructor(
     @InjectQueue("email") private readonly emailQueue: Queue,
     @InjectQueue("workflow") private readonly workflowQueue: Queue,
+    @InjectQueue("scrape-queue") private readonly scrapeQueue: Queue,
+    private readonly scrapingRepository: ScrapingRepository,
   ) {}
 
   async getComprehensiveMetrics(): Promise<DashboardStats> {
@@ -267,6 +284,29 @@ export class QueueMonitoringService {
     };
   }
 
+  async getScrapeBacklog(): Promise<ScrapeBacklog> {
+    this.logger.debug("Fetching scrape queue backlog per user");
+
+    const counts = await this.scrapeQueue.getJobCounts(
+      "waiting",
+      "prioritized",
+      "active",
+      "delayed",
+    );
+    const users = await this.scrapingRepository.findBacklogByUser();
+
+    return {
+      queue: {
+        waiting: counts.waiting,
+        prioritized: counts.prioritized,
+        active: counts.active,
+        delayed: counts.delayed,
+      },
+      users,
+      timestamp: new Date().toISOString(),
+    };
+  }
+
   private getHealthStatus(failureRate: number): string {
     if (failureRate === 0) return "excellent";
     if (failureRate <= 5) return "good";
@@ -0,0 +1,271 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiInternalServerErrorResponse,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../../common/guards/auth.guard";
+import { CurrentUser } from "../../common/decorators/current-user.decorator";
+import { CompanyHistoryService } from "./services/company-history.service";
+import { CompanyHistoryQueryDto } from "./dto/company-history-query.dto";
+import {
+  CompanyChangesDto,
+  CompanyHistoryDto,
+} from "./dto/scraping-responses.dto";
+import { successResponse } from "../../common/helpers/api-response.helper";
+import { validationExceptionFactory } from "../../common/helpers/validation-errors.helper";
+
+/**
+ * Controller for field-level history across scrapes of the same company URL
+ * All endpoints require authentication via AuthGuard
+ */
+@ApiTags("Company History")
+@Controller("company-history")
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+export class CompanyHistoryController {
+  private readonly logger = new Logger(CompanyHistoryController.name);
+
+  constructor(private readonly companyHistoryService: CompanyHistoryService) {}
+
+  /**
+   * Full value history of a company URL
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Get field history of a company",
+    description:
+      "Retrieve every value observed for a company's fields across the authenticated user's scrapes of the same canonical URL, with when each value was first and last seen.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Company history retrieved successfully",
+    type: CompanyHistoryDto,
+  })
+  @ApiBadRequestResponse({
+    description: "Missing or invalid url query parameter",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "url must be a valid http(s) URL",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/company-history?url=acme",
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: "The URL has no recorded history",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving history",
+  })
+  async getHistory(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: CompanyHistoryQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Company history request received", {
+      operation: "getHistory",
+      requestId,
+      userId,
+      url: query.url,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.companyHistoryService.getHistory(
+        userId,
+        query.url,
+      );
+
+      this.logger.log("Company history retrieved successfully", {
+        operation: "getHistory",
+        requestId,
+        userId,
+        canonicalUrl: result.canonicalUrl,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Company history retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve company history",
+        {
+          operation: "getHistory",
+          requestId,
+          userId,
+          url: query.url,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * What changed for a company since its previous scrape
+   */
+  @Get("changes")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Get changes since the previous scrape",
+    description:
+      "Compare the latest completed scrape of a company URL with the one before it: new contacts, contacts whose title changed or who are no longer listed, and new or changed headcount, HQ, industry, name or website.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Company changes retrieved successfully",
+    type: CompanyChangesDto,
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Company changes retrieved successfully",
+        data: {
+          canonicalUrl: "https://acme.com",
+          currentItemId: "456e7890-e89b-12d3-a456-426614174000",
+          currentObservedAt: "2023-12-01T06:10:00.000Z",
+          previousItemId: "321e7890-e89b-12d3-a456-426614174000",
+          previousObservedAt: "2023-11-01T06:10:00.000Z",
+          changes: [
+            {
+              field: "headcountRange",
+              key: null,
+              type: "changed",
+              previousValue: "50-100",
+              currentValue: "100-500",
+              previousSeenAt: "2023-11-01T06:10:00.000Z",
+            },
+            {
+              field: "contact",
+              key: "sam.lee@acme.com",
+              type: "added",
+              previousValue: null,
+              currentValue: {
+                name: "Sam Lee",
+                title: "Head of Marketing",
+                email: "sam.lee@acme.com",
+              },
+              previousSeenAt: null,
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: "Missing or invalid url query parameter",
+  })
+  @ApiNotFoundResponse({
+    description: "The URL was never scraped successfully",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "No completed scrape found for this URL",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/company-history/changes?url=https://acme.com",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving changes",
+  })
+  async getChanges(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: CompanyHistoryQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Company changes request received", {
+      operation: "getChanges",
+      requestId,
+      userId,
+      url: query.url,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.companyHistoryService.getChanges(
+        userId,
+        query.url,
+      );
+
+      this.logger.log("Company changes retrieved successfully", {
+        operation: "getChanges",
+        requestId,
+        userId,
+        canonicalUrl: result.canonicalUrl,
+        changeCount: result.changes.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Company changes retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve company changes",
+        {
+          operation: "getChanges",
+          requestId,
+          userId,
+          url: query.url,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,21 @@
+import { IsNotEmpty, IsUrl } from "class-validator";
+import { ApiProperty } from "@nestjs/swagger";
+
+export class CompanyHistoryQueryDto {
+  @ApiProperty({
+    description:
+      "Company URL as submitted in any job; it is canonicalized before lookup",
+    example: "https://www.acme.com/",
+  })
+  @IsNotEmpty({ message: "url is required" })
+  @IsUrl(
+    {
+      protocols: ["http", "https"],
+      require_protocol: true,
+      require_valid_protocol: true,
+      require_tld: false,
+    },
+    { message: "url must be a valid http(s) URL" },
+  )
+  url!: string;
+}
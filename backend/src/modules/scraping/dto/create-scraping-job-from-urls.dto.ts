@@ -0,0 +1,50 @@
+import {
+  ArrayMaxSize,
+  ArrayNotEmpty,
+  IsArray,
+  IsOptional,
+  IsUrl,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import { ScrapingJobOptionsDto } from "./scraping-job-options.dto";
+
+/**
+ * Maximum number of URLs accepted in a single JSON job submission
+ */
+export const MAX_JSON_JOB_URLS = 10000;
+
+export class CreateScrapingJobFromUrlsDto {
+  @ApiProperty({
+    description: "URLs to scrape. Each must be a valid http:// or https:// URL",
+    example: ["https://acme.com", "https://example.org/about"],
+    type: [String],
+    maxItems: MAX_JSON_JOB_URLS,
+  })
+  @IsArray({ message: "urls must be an array" })
+  @ArrayNotEmpty({ message: "urls must contain at least one URL" })
+  @ArrayMaxSize(MAX_JSON_JOB_URLS, {
+    message: `urls must contain at most ${MAX_JSON_JOB_URLS} URLs`,
+  })
+  @IsUrl(
+    {
+      protocols: ["http", "https"],
+      require_protocol: true,
+      require_valid_protocol: true,
+      require_tld: false,
+    },
+    { each: true, message: "each value in urls must be a valid http(s) URL" },
+  )
+  urls!: string[];
+
+  @ApiProperty({
+    description: "Optional per-job options",
+    type: ScrapingJobOptionsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ScrapingJobOptionsDto)
+  options?: ScrapingJobOptionsDto;
+}
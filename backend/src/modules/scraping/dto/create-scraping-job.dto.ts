@@ -1,4 +1,4 @@
-import { IsBoolean, IsOptional } from "class-validator";
+import { IsBoolean, IsOptional, IsString, MaxLength } from "class-validator";
 import { ApiProperty } from "@nestjs/swagger";
 
 export class CreateScrapingJobDto {
@@ -12,4 +12,36 @@ export class CreateScrapingJobDto {
   @IsOptional()
   @IsBoolean({ message: "useMockServer must be a boolean value" })
   useMockServer?: boolean;
+
+  @ApiProperty({
+    description:
+      "CSV/XLSX only: header of the column holding the URL to scrape. Other columns are kept as item metadata",
+    example: "Website",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "urlColumn must be a string" })
+  @MaxLength(200)
+  urlColumn?: string;
+
+  @ApiProperty({
+    description:
+      "CSV/XLSX only: header of the column holding a bare domain (e.g. acme.com). Cannot be combined with urlColumn",
+    example: "Domain",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "domainColumn must be a string" })
+  @MaxLength(200)
+  domainColumn?: string;
+
+  @ApiProperty({
+    description:
+      'Optional JSON-encoded job options, e.g. {"label":"Q4 fintech leads"}',
+    example: '{"label":"Q4 fintech leads"}',
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "options must be a JSON string" })
+  options?: string;
 }
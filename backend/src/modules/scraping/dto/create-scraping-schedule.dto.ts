@@ -0,0 +1,31 @@
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  MaxLength,
+} from "class-validator";
+import { ApiProperty } from "@nestjs/swagger";
+
+export class CreateScrapingScheduleDto {
+  @ApiProperty({
+    description:
+      "Cron expression for the re-scrape (5 fields, or 6 with seconds). Runs must be at least one hour apart",
+    example: "0 6 1 * *",
+    maxLength: 100,
+  })
+  @IsString({ message: "cron must be a string" })
+  @IsNotEmpty({ message: "cron is required" })
+  @MaxLength(100, { message: "cron must be at most 100 characters" })
+  cron!: string;
+
+  @ApiProperty({
+    description: "IANA time zone the cron expression is evaluated in",
+    example: "Europe/Berlin",
+    default: "UTC",
+    required: false,
+  })
+  @IsOptional()
+  @IsTimeZone({ message: "timeZone must be a valid IANA time zone" })
+  timeZone?: string;
+}
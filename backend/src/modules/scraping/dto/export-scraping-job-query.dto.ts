@@ -0,0 +1,175 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  EMAIL_TYPES,
+  EmailType,
+} from "../../../core/database/schema/scraping-items";
+import { HeadcountFilterQueryDto } from "./headcount-filter-query.dto";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json", "ndjson"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+/**
+ * company: one row per scraped URL, contacts combined in one column
+ * contact: one row per contact, company columns repeated on each row
+ */
+export const EXPORT_LAYOUTS = ["company", "contact"] as const;
+
+export type ExportLayout = (typeof EXPORT_LAYOUTS)[number];
+
+/**
+ * Columns available in both layouts
+ */
+export const COMPANY_EXPORT_COLUMNS = [
+  "url",
+  "canonicalUrl",
+  "status",
+  "companyName",
+  "website",
+  "industry",
+  "industrySector",
+  "industrySectorName",
+  "industryConfidence",
+  "headcountRange",
+  "headcountMin",
+  "headcountMax",
+  "headcountBucket",
+  "hqLocation",
+  "hqStreet",
+  "hqCity",
+  "hqRegion",
+  "hqPostalCode",
+  "hqCountry",
+  "phones",
+  "socialProfiles",
+  "errorCategory",
+  "lastError",
+  "finishedAt",
+  "metadata",
+] as const;
+
+/**
+ * Columns only available in the company layout
+ */
+export const COMPANY_LAYOUT_COLUMNS = ["contactCount", "contacts"] as const;
+
+/**
+ * Columns only available in the contact layout
+ */
+export const CONTACT_LAYOUT_COLUMNS = [
+  "contactName",
+  "contactTitle",
+  "contactEmail",
+  "contactPhone",
+  "contactMatchScore",
+  "contactEmailType",
+  "contactEmailDomainMatch",
+  "contactQualityScore",
+  "contactSourceUrl",
+] as const;
+
+export const EXPORT_COLUMNS = [
+  ...COMPANY_EXPORT_COLUMNS,
+  ...COMPANY_LAYOUT_COLUMNS,
+  ...CONTACT_LAYOUT_COLUMNS,
+] as const;
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+export class ExportScrapingJobQueryDto extends HeadcountFilterQueryDto {
+  @ApiProperty({
+    description: "Output format",
+    enum: EXPORT_FORMATS,
+    example: "csv",
+  })
+  @IsIn(EXPORT_FORMATS, {
+    message: `format must be one of: ${EXPORT_FORMATS.join(", ")}`,
+  })
+  format!: ExportFormat;
+
+  @ApiProperty({
+    description:
+      "One row per company (contacts combined in one column) or one row per contact",
+    enum: EXPORT_LAYOUTS,
+    default: "company",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(EXPORT_LAYOUTS, {
+    message: `layout must be one of: ${EXPORT_LAYOUTS.join(", ")}`,
+  })
+  layout?: ExportLayout;
+
+  @ApiProperty({
+    description:
+      "Comma-separated columns to include, in output order. Defaults to every column of the chosen layout",
+    example: "companyName,website,contactName,contactEmail",
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((column) => column.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray({ message: "columns must be a comma-separated list" })
+  @ArrayNotEmpty({ message: "columns must not be empty" })
+  @IsIn(EXPORT_COLUMNS, {
+    each: true,
+    message: `each value in columns must be one of: ${EXPORT_COLUMNS.join(", ")}`,
+  })
+  columns?: ExportColumn[];
+
+  @ApiProperty({
+    description:
+      "Comma-separated email types of the contacts to include. Other contacts are left out of the contacts column and get no row in the contact layout",
+    example: "personal,role",
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((type) => type.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray({ message: "emailTypes must be a comma-separated list" })
+  @ArrayNotEmpty({ message: "emailTypes must not be empty" })
+  @IsIn(EMAIL_TYPES, {
+    each: true,
+    message: `each value in emailTypes must be one of: ${EMAIL_TYPES.join(", ")}`,
+  })
+  emailTypes?: EmailType[];
+
+  @ApiProperty({
+    description:
+      "Only include contacts with at least this email quality score (0 to 1)",
+    example: 0.5,
+    minimum: 0,
+    maximum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber({}, { message: "minQualityScore must be a number" })
+  @Min(0, { message: "minQualityScore must be at least 0" })
+  @Max(1, { message: "minQualityScore must be at most 1" })
+  minQualityScore?: number;
+}
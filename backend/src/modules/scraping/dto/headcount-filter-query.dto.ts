@@ -0,0 +1,70 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsIn,
+  IsInt,
+  IsOptional,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  HEADCOUNT_BUCKETS,
+  HeadcountBucket,
+} from "../../../core/database/schema/scraping-items";
+
+/**
+ * Company size filters shared by the item, company, export and search queries
+ */
+export class HeadcountFilterQueryDto {
+  @ApiProperty({
+    description:
+      "Only companies whose headcount range reaches at least this many employees",
+    example: 50,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "minHeadcount must be an integer" })
+  @Min(1, { message: "minHeadcount must be at least 1" })
+  minHeadcount?: number;
+
+  @ApiProperty({
+    description:
+      "Only companies whose headcount range starts at no more than this many employees",
+    example: 500,
+    minimum: 1,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "maxHeadcount must be an integer" })
+  @Min(1, { message: "maxHeadcount must be at least 1" })
+  maxHeadcount?: number;
+
+  @ApiProperty({
+    description: `Comma-separated company size buckets: ${HEADCOUNT_BUCKETS.join(", ")}`,
+    example: "11-50,51-200",
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((bucket) => bucket.trim())
+          .filter(Boolean)
+          // An unencoded "+" in the query string arrives as a space
+          .map((bucket) => (/^\d+$/.test(bucket) ? `${bucket}+` : bucket))
+      : value,
+  )
+  @IsArray({ message: "headcountBuckets must be a comma-separated list" })
+  @ArrayNotEmpty({ message: "headcountBuckets must not be empty" })
+  @IsIn(HEADCOUNT_BUCKETS, {
+    each: true,
+    message: `each value in headcountBuckets must be one of: ${HEADCOUNT_BUCKETS.join(", ")}`,
+  })
+  headcountBuckets?: HeadcountBucket[];
+}
@@ -1,2 +1,11 @@
 export * from "./create-scraping-job.dto";
+export * from "./create-scraping-job-from-urls.dto";
+export * from "./scraping-job-options.dto";
 export * from "./scraping-responses.dto";
+export * from "./retry-scraping-job.dto";
+export * from "./create-scraping-schedule.dto";
+export * from "./company-history-query.dto";
+export * from "./export-scraping-job-query.dto";
+export * from "./list-scraping-query.dto";
+export * from "./search-items-query.dto";
+export * from "./headcount-filter-query.dto";
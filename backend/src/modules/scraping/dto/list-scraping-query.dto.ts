@@ -0,0 +1,255 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsISO8601,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { Transform, Type } from "class-transformer";
+import { ApiProperty, IntersectionType } from "@nestjs/swagger";
+import {
+  INDUSTRY_SECTOR_CODES,
+  IndustrySector,
+} from "../../../core/database/schema/scraping-items";
+import {
+  ITEM_SORT_FIELDS,
+  ItemSortField,
+  JOB_SORT_FIELDS,
+  JobSortField,
+} from "../../../core/database/repositories/scraping.repository";
+import { SortDirection } from "../../../core/database/repositories/base.repository";
+import { HeadcountFilterQueryDto } from "./headcount-filter-query.dto";
+
+/**
+ * Default and maximum page size of list endpoints
+ */
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+export const JOB_STATUSES = [
+  "pending",
+  "processing",
+  "paused",
+  "completed",
+  "failed",
+  "cancelled",
+] as const;
+
+export const ITEM_STATUSES = [
+  "pending",
+  "queued",
+  "processing",
+  "paused",
+  "completed",
+  "failed",
+  "disallowed",
+  "cancelled",
+] as const;
+
+const SORT_DIRECTIONS = ["asc", "desc"] as const;
+
+/**
+ * Cursor pagination and date range shared by the job and item listings
+ */
+class ListQueryDto {
+  @ApiProperty({
+    description: "Page size",
+    default: DEFAULT_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_PAGE_SIZE,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(MAX_PAGE_SIZE, { message: `limit must be at most ${MAX_PAGE_SIZE}` })
+  limit?: number;
+
+  @ApiProperty({
+    description:
+      "nextCursor from the previous page. Keep the same filters and sort when paging",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "cursor must be a string" })
+  @MaxLength(500, { message: "cursor is too long" })
+  cursor?: string;
+
+  @ApiProperty({
+    description: "Sort direction; empty values always come last",
+    enum: SORT_DIRECTIONS,
+    default: "desc",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(SORT_DIRECTIONS, { message: "sortOrder must be asc or desc" })
+  sortOrder?: SortDirection;
+
+  @ApiProperty({
+    description: "Only include records created at or after this time",
+    example: "2025-01-01T00:00:00Z",
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601({}, { message: "createdFrom must be an ISO 8601 date" })
+  createdFrom?: string;
+
+  @ApiProperty({
+    description: "Only include records created at or before this time",
+    example: "2025-01-31T23:59:59Z",
+    required: false,
+  })
+  @IsOptional()
+  @IsISO8601({}, { message: "createdTo must be an ISO 8601 date" })
+  createdTo?: string;
+}
+
+export class ListScrapingJobsQueryDto extends ListQueryDto {
+  @ApiProperty({
+    description: "Only include jobs with this status",
+    enum: JOB_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(JOB_STATUSES, {
+    message: `status must be one of: ${JOB_STATUSES.join(", ")}`,
+  })
+  status?: string;
+
+  @ApiProperty({
+    description: "Sort field",
+    enum: JOB_SORT_FIELDS,
+    default: "createdAt",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(JOB_SORT_FIELDS, {
+    message: `sortBy must be one of: ${JOB_SORT_FIELDS.join(", ")}`,
+  })
+  sortBy?: JobSortField;
+}
+
+export class ListScrapingItemsQueryDto extends IntersectionType(
+  ListQueryDto,
+  HeadcountFilterQueryDto,
+) {
+  @ApiProperty({
+    description: "Only include items with this status",
+    enum: ITEM_STATUSES,
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(ITEM_STATUSES, {
+    message: `status must be one of: ${ITEM_STATUSES.join(", ")}`,
+  })
+  status?: string;
+
+  @ApiProperty({
+    description: "Only include items of this job",
+    example: "123e4567-e89b-12d3-a456-426614174000",
+    required: false,
+  })
+  @IsOptional()
+  @IsUUID("all", { message: "jobId must be a UUID" })
+  jobId?: string;
+
+  @ApiProperty({
+    description: "Industry contains this text (case-insensitive)",
+    example: "software",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "industry must be a string" })
+  @MaxLength(200, { message: "industry must be at most 200 characters" })
+  industry?: string;
+
+  @ApiProperty({
+    description: `Comma-separated NAICS sector codes of the classified industry: ${INDUSTRY_SECTOR_CODES.join(", ")}`,
+    example: "51,54",
+    type: String,
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string"
+      ? value
+          .split(",")
+          .map((sector) => sector.trim())
+          .filter(Boolean)
+      : value,
+  )
+  @IsArray({ message: "industrySectors must be a comma-separated list" })
+  @ArrayNotEmpty({ message: "industrySectors must not be empty" })
+  @IsIn(INDUSTRY_SECTOR_CODES, {
+    each: true,
+    message: `each value in industrySectors must be one of: ${INDUSTRY_SECTOR_CODES.join(", ")}`,
+  })
+  industrySectors?: IndustrySector[];
+
+  @ApiProperty({
+    description: "HQ location contains this text (case-insensitive)",
+    example: "berlin",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "location must be a string" })
+  @MaxLength(200, { message: "location must be at most 200 characters" })
+  location?: string;
+
+  @ApiProperty({
+    description: "Company name contains this text (case-insensitive)",
+    example: "acme",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "companyName must be a string" })
+  @MaxLength(200, { message: "companyName must be at most 200 characters" })
+  companyName?: string;
+
+  @ApiProperty({
+    description:
+      "ISO 3166 alpha-2 country of the parsed HQ address (case-insensitive)",
+    example: "DE",
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    typeof value === "string" ? value.trim().toUpperCase() : value,
+  )
+  @Matches(/^[A-Z]{2}$/, {
+    message: "country must be an ISO 3166 alpha-2 code (e.g. DE)",
+  })
+  country?: string;
+
+  @ApiProperty({
+    description: "Only items with (true) or without (false) contacts",
+    required: false,
+  })
+  @IsOptional()
+  @Transform(({ value }: { value: unknown }) =>
+    value === "true" ? true : value === "false" ? false : value,
+  )
+  @IsBoolean({ message: "hasContacts must be true or false" })
+  hasContacts?: boolean;
+
+  @ApiProperty({
+    description: "Sort field",
+    enum: ITEM_SORT_FIELDS,
+    default: "createdAt",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(ITEM_SORT_FIELDS, {
+    message: `sortBy must be one of: ${ITEM_SORT_FIELDS.join(", ")}`,
+  })
+  sortBy?: ItemSortField;
+}
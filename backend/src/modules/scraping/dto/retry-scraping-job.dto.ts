@@ -0,0 +1,24 @@
+import { IsArray, IsIn, IsOptional } from "class-validator";
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  ERROR_CATEGORIES,
+  ErrorCategory,
+} from "../../../core/database/schema/scraping-items";
+
+export class RetryScrapingJobDto {
+  @ApiProperty({
+    description:
+      "Only retry failed items with these error categories. Retries every failed item when omitted",
+    example: ["timeout", "http_5xx"],
+    enum: ERROR_CATEGORIES,
+    isArray: true,
+    required: false,
+  })
+  @IsOptional()
+  @IsArray({ message: "errorCategories must be an array" })
+  @IsIn(ERROR_CATEGORIES, {
+    each: true,
+    message: `each value in errorCategories must be one of: ${ERROR_CATEGORIES.join(", ")}`,
+  })
+  errorCategories?: ErrorCategory[];
+}
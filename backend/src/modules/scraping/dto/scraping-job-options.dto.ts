@@ -0,0 +1,125 @@
+import {
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty } from "@nestjs/swagger";
+import {
+  JOB_PRIORITIES,
+  JobPriority,
+} from "../../../core/database/schema/scraping-jobs";
+
+/**
+ * Default and maximum crawl limits per scraping item
+ */
+export const CRAWL_DEFAULT_MAX_DEPTH = 1;
+export const CRAWL_LIMIT_MAX_DEPTH = 3;
+export const CRAWL_DEFAULT_MAX_PAGES = 5;
+export const CRAWL_LIMIT_MAX_PAGES = 20;
+
+/**
+ * Largest job (in accepted URLs) that may use the "high" priority
+ */
+export const HIGH_PRIORITY_MAX_URLS = 100;
+
+/**
+ * Multi-page crawl settings for a job
+ */
+export class CrawlOptionsDto {
+  @ApiProperty({
+    description:
+      "Follow same-domain links that look like about/team/contact pages and merge their data into the item",
+    example: true,
+  })
+  @IsBoolean({ message: "crawl.enabled must be a boolean value" })
+  enabled!: boolean;
+
+  @ApiProperty({
+    description: "How many link hops to follow from the submitted URL",
+    example: CRAWL_DEFAULT_MAX_DEPTH,
+    default: CRAWL_DEFAULT_MAX_DEPTH,
+    minimum: 1,
+    maximum: CRAWL_LIMIT_MAX_DEPTH,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: "crawl.maxDepth must be an integer" })
+  @Min(1, { message: "crawl.maxDepth must be at least 1" })
+  @Max(CRAWL_LIMIT_MAX_DEPTH, {
+    message: `crawl.maxDepth must be at most ${CRAWL_LIMIT_MAX_DEPTH}`,
+  })
+  maxDepth?: number;
+
+  @ApiProperty({
+    description: "Maximum pages fetched per item, including the submitted URL",
+    example: CRAWL_DEFAULT_MAX_PAGES,
+    default: CRAWL_DEFAULT_MAX_PAGES,
+    minimum: 1,
+    maximum: CRAWL_LIMIT_MAX_PAGES,
+    required: false,
+  })
+  @IsOptional()
+  @IsInt({ message: "crawl.maxPages must be an integer" })
+  @Min(1, { message: "crawl.maxPages must be at least 1" })
+  @Max(CRAWL_LIMIT_MAX_PAGES, {
+    message: `crawl.maxPages must be at most ${CRAWL_LIMIT_MAX_PAGES}`,
+  })
+  maxPages?: number;
+}
+
+/**
+ * Per-job options shared by the multipart and JSON job creation endpoints
+ */
+export class ScrapingJobOptionsDto {
+  @ApiProperty({
+    description: "Human-readable label to identify the job",
+    example: "Q4 fintech leads",
+    required: false,
+    maxLength: 200,
+  })
+  @IsOptional()
+  @IsString({ message: "label must be a string" })
+  @MaxLength(200, { message: "label must be at most 200 characters" })
+  label?: string;
+
+  @ApiProperty({
+    description: "Optional multi-page crawl mode",
+    type: CrawlOptionsDto,
+    required: false,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CrawlOptionsDto)
+  crawl?: CrawlOptionsDto;
+
+  @ApiProperty({
+    description:
+      "Fetch pages even when robots.txt disallows them (admins only)",
+    example: false,
+    default: false,
+    required: false,
+  })
+  @IsOptional()
+  @IsBoolean({ message: "ignoreRobotsTxt must be a boolean value" })
+  ignoreRobotsTxt?: boolean;
+
+  @ApiProperty({
+    description: `Queue priority; "high" lets small urgent jobs (up to ${HIGH_PRIORITY_MAX_URLS} URLs) jump ahead of normal work`,
+    enum: JOB_PRIORITIES,
+    example: "normal",
+    default: "normal",
+    required: false,
+  })
+  @IsOptional()
+  @IsIn(JOB_PRIORITIES, {
+    message: `priority must be one of: ${JOB_PRIORITIES.join(", ")}`,
+  })
+  priority?: JobPriority;
+}
@@ -1,4 +1,14 @@
 import { ApiProperty } from "@nestjs/swagger";
+import {
+  EMAIL_TYPES,
+  EmailType,
+  HEADCOUNT_BUCKETS,
+  HeadcountBucket,
+  INDUSTRY_SECTOR_CODES,
+  IndustrySector,
+  SocialNetwork,
+} from "../../../core/database/schema/scraping-items";
+import { ScrapingJobOptions } from "../../../core/database/schema/scraping-jobs";
 
 // Contact interface for nested data
 export class ContactDto {
@@ -11,15 +21,124 @@ export class ContactDto {
   @ApiProperty({
     description: "Contact person's job title",
     example: "Chief Technology Officer",
+    nullable: true,
   })
-  title!: string;
+  title!: string | null;
 
   @ApiProperty({
-    description: "Contact person's email address",
+    description:
+      "Contact person's email address; null when no email could be matched to the name",
     example: "john.smith@company.com",
     format: "email",
+    nullable: true,
+  })
+  email!: string | null;
+
+  @ApiProperty({
+    description:
+      "Contact person's phone number in E.164, when one was found next to their name",
+    example: "+14155552671",
+    required: false,
+  })
+  phone?: string;
+
+  @ApiProperty({
+    description: "Page the contact was found on",
+    example: "https://www.acme.com/team",
+    required: false,
+  })
+  sourceUrl?: string;
+
+  @ApiProperty({
+    description:
+      "personal, role (shared mailbox like info@), invalid (noreply@, file names, placeholders) or disposable",
+    enum: EMAIL_TYPES,
+    example: "personal",
+    required: false,
+  })
+  emailType?: EmailType;
+
+  @ApiProperty({
+    description:
+      "Whether the email is on the company's domain; null when the company domain is unknown",
+    example: true,
+    nullable: true,
+    required: false,
+  })
+  emailDomainMatch?: boolean | null;
+
+  @ApiProperty({
+    description:
+      "Email quality from 0 to 1, from the email type and domain match",
+    example: 1,
+    required: false,
+  })
+  qualityScore?: number;
+
+  @ApiProperty({
+    description:
+      "How confidently the email was paired with the name, from 0 to 1 (1 for structured contact cards)",
+    example: 0.9,
+    required: false,
   })
-  email!: string;
+  matchScore?: number;
+}
+
+// Provenance of an extracted company field
+export class FieldSourceDto {
+  @ApiProperty({
+    description: "Page the value was extracted from",
+    example: "https://www.acme.com/about",
+  })
+  url!: string;
+
+  @ApiProperty({
+    description: "Extraction layer that produced the value",
+    enum: ["selector", "structured", "fallback", "ner"],
+    example: "selector",
+  })
+  method!: string;
+}
+
+// Organization properties from schema.org markup
+export class StructuredCompanyDataDto {
+  @ApiProperty({
+    description:
+      "Profile and registry URLs listed in the organization's sameAs",
+    example: ["https://www.linkedin.com/company/acme"],
+    type: [String],
+  })
+  sameAs!: string[];
+
+  @ApiProperty({
+    description: "Founding date as published, usually ISO 8601",
+    example: "2012-04-01",
+    nullable: true,
+  })
+  foundingDate!: string | null;
+}
+
+// URL dropped during job intake
+export class DroppedUrlDto {
+  @ApiProperty({
+    description: "URL as submitted",
+    example: "https://www.acme.com/?utm_source=x",
+  })
+  url!: string;
+
+  @ApiProperty({
+    description: "Why the URL was dropped",
+    enum: ["invalid", "duplicate"],
+    example: "duplicate",
+  })
+  reason!: string;
+
+  @ApiProperty({
+    description: "First submitted URL with the same canonical form",
+    example: "http://acme.com",
+    required: false,
+  })
+  duplicateOf?: string;
 }
 
 // Response DTO for job creation
@@ -30,6 +149,212 @@ export class CreateScrapingJobResponseDto {
     format: "uuid",
   })
   jobId!: string;
+
+  @ApiProperty({
+    description: "Number of URLs accepted as scraping items",
+    example: 8,
+  })
+  acceptedUrls!: number;
+
+  @ApiProperty({
+    description: "Number of submitted URLs that were dropped during intake",
+    example: 3,
+  })
+  droppedUrls!: number;
+
+  @ApiProperty({
+    description: "Dropped URL counts by reason",
+    example: { invalid: 1, duplicate: 2 },
+  })
+  dropReasons!: Record<"invalid" | "duplicate", number>;
+
+  @ApiProperty({
+    description:
+      "Up to 100 dropped URLs with their reason (duplicates reference the URL they collapsed into)",
+    type: [DroppedUrlDto],
+  })
+  droppedSamples!: DroppedUrlDto[];
+}
+
+// Response DTO for job cancellation
+export class CancelScrapingJobResponseDto {
+  @ApiProperty({
+    description: "Cancelled job identifier",
+    example: "123e4567-e89b-12d3-a456-426614174000",
+    format: "uuid",
+  })
+  jobId!: string;
+
+  @ApiProperty({
+    description: "New job status",
+    example: "cancelled",
+  })
+  status!: string;
+
+  @ApiProperty({
+    description: "Items that had not started and were cancelled immediately",
+    example: 42,
+  })
+  cancelledItems!: number;
+
+  @ApiProperty({
+    description:
+      "Items that were already being fetched; they stop before their next request",
+    example: 3,
+  })
+  inFlightItems!: number;
+}
+
+// Response DTO for pausing a job
+export class PauseScrapingJobResponseDto {
+  @ApiProperty({
+    description: "Paused job identifier",
+    example: "123e4567-e89b-12d3-a456-426614174000",
+    format: "uuid",
+  })
+  jobId!: string;
+
+  @ApiProperty({
+    description: "New job status",
+    example: "paused",
+  })
+  status!: string;
+
+  @ApiProperty({
+    description: "Items that had not started and were parked",
+    example: 42,
+  })
+  pausedItems!: number;
+
+  @ApiProperty({
+    description: "Items that were already being fetched; they finish normally",
+    example: 3,
+  })
+  inFlightItems!: number;
+}
+
+// Response DTO for resuming a job
+export class ResumeScrapingJobResponseDto {
+  @ApiProperty({
+    description: "Resumed job identifier",
+    example: "123e4567-e89b-12d3-a456-426614174000",
+    format: "uuid",
+  })
+  jobId!: string;
+
+  @ApiProperty({
+    description: "Job status after resuming",
+    example: "processing",
+  })
+  status!: string;
+
+  @ApiProperty({
+    description: "Parked items that were re-enqueued",
+    example: 42,
+  })
+  resumedItems!: number;
+}
+
+// Response DTO for retrying failed items
+export class RetryScrapingJobResponseDto {
+  @ApiProperty({
+    description: "Job identifier",
+    example: "123e4567-e89b-12d3-a456-426614174000",
+    format: "uuid",
+  })
+  jobId!: string;
+
+  @ApiProperty({
+    description: "Job status after retrying",
+    example: "processing",
+  })
+  status!: string;
+
+  @ApiProperty({
+    description: "Failed items that were reset and re-enqueued",
+    example: 7,
+  })
+  retriedItems!: number;
+}
+
+// Response DTO for a recurring re-scrape schedule
+export class ScrapingScheduleDto {
+  @ApiProperty({
+    description: "Unique schedule identifier",
+    example: "0b7e6f2a-5c1d-4e8f-9a3b-2d4c6e8f0a1b",
+    format: "uuid",
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: "Scheduled job whose URLs are re-scraped",
+    example: "123e4567-e89b-12d3-a456-426614174000",
+    format: "uuid",
+  })
+  jobId!: string;
+
+  @ApiProperty({
+    description: "User ID who owns the schedule",
+    example: "987e6543-e21b-12d3-a456-426614174000",
+    format: "uuid",
+  })
+  userId!: string;
+
+  @ApiProperty({
+    description: "Cron expression of the schedule",
+    example: "0 6 1 * *",
+  })
+  cronExpression!: string;
+
+  @ApiProperty({
+    description: "Time zone the cron expression is evaluated in",
+    example: "UTC",
+  })
+  timeZone!: string;
+
+  @ApiProperty({
+    description: "Whether the schedule creates new runs",
+    example: true,
+  })
+  enabled!: boolean;
+
+  @ApiProperty({
+    description: "When the next run is due (null when disabled)",
+    example: "2024-01-01T06:00:00.000Z",
+    format: "date-time",
+    nullable: true,
+  })
+  nextRunAt!: Date | null;
+
+  @ApiProperty({
+    description: "When the schedule last fired",
+    example: "2023-12-01T06:00:00.000Z",
+    format: "date-time",
+    nullable: true,
+  })
+  lastRunAt!: Date | null;
+
+  @ApiProperty({
+    description: "Job created by the most recent run",
+    example: "456e7890-e89b-12d3-a456-426614174000",
+    format: "uuid",
+    nullable: true,
+  })
+  lastRunJobId!: string | null;
+
+  @ApiProperty({
+    description: "Timestamp when the schedule was created",
+    example: "2023-11-20T10:00:00.000Z",
+    format: "date-time",
+  })
+  createdAt!: Date;
+
+  @ApiProperty({
+    description: "Timestamp when the schedule was last updated",
+    example: "2023-12-01T06:00:00.000Z",
+    format: "date-time",
+  })
+  updatedAt!: Date;
 }
 
 // Response DTO for scraping job details
@@ -49,10 +374,26 @@ export class ScrapingJobDto {
   })
   userId!: string | null;
 
+  @ApiProperty({
+    description:
+      "Scheduled job this run was created from (null for jobs submitted directly)",
+    example: null,
+    format: "uuid",
+    nullable: true,
+  })
+  parentJobId!: string | null;
+
   @ApiProperty({
     description: "Current status of the scraping job",
     example: "processing",
-    enum: ["pending", "processing", "completed", "failed"],
+    enum: [
+      "pending",
+      "processing",
+      "paused",
+      "completed",
+      "failed",
+      "cancelled",
+    ],
   })
   status!: string;
 
@@ -75,6 +416,20 @@ export class ScrapingJobDto {
   })
   failedUrls!: number;
 
+  @ApiProperty({
+    description:
+      "Number of URLs stopped by a cancel (not counted as processed or failed)",
+    example: 0,
+  })
+  cancelledUrls!: number;
+
+  @ApiProperty({
+    description: "Per-job options supplied at creation time",
+    example: { label: "Q4 fintech leads" },
+    nullable: true,
+  })
+  options!: ScrapingJobOptions | null;
+
   @ApiProperty({
     description: "Timestamp when the job was created",
     example: "2023-12-01T10:00:00.000Z",
@@ -112,10 +467,27 @@ export class ScrapingItemDto {
   })
   url!: string;
 
+  @ApiProperty({
+    description:
+      "Canonical form of the URL used for deduplication (https, lowercase host without www, no tracking parameters or trailing slash)",
+    example: "https://example.com/company",
+    nullable: true,
+  })
+  canonicalUrl!: string | null;
+
   @ApiProperty({
     description: "Current status of the scraping item",
     example: "completed",
-    enum: ["pending", "queued", "processing", "completed", "failed"],
+    enum: [
+      "pending",
+      "queued",
+      "processing",
+      "paused",
+      "completed",
+      "failed",
+      "disallowed",
+      "cancelled",
+    ],
   })
   status!: string;
 
@@ -126,6 +498,14 @@ export class ScrapingItemDto {
   })
   lastError!: string | null;
 
+  @ApiProperty({
+    description: "Category of the failure, used to filter retries",
+    example: "http_5xx",
+    enum: ["timeout", "dns", "connection", "http_4xx", "http_5xx", "other"],
+    nullable: true,
+  })
+  errorCategory!: string | null;
+
   @ApiProperty({
     description: "Timestamp when processing started",
     example: "2023-12-01T10:05:00.000Z",
@@ -157,12 +537,28 @@ export class ScrapingItemDto {
   website!: string | null;
 
   @ApiProperty({
-    description: "Extracted company industry",
+    description: "Extracted company industry, as written on the page",
     example: "Technology",
     nullable: true,
   })
   industry!: string | null;
 
+  @ApiProperty({
+    description:
+      "NAICS sector classified from the industry, page text, keywords and schema.org markup",
+    enum: INDUSTRY_SECTOR_CODES,
+    example: "51",
+    nullable: true,
+  })
+  industrySector!: IndustrySector | null;
+
+  @ApiProperty({
+    description: "Confidence of the industry sector, 0 to 1",
+    example: 0.68,
+    nullable: true,
+  })
+  industryConfidence!: number | null;
+
   @ApiProperty({
     description: "Extracted company headcount range",
     example: "100-500",
@@ -170,6 +566,29 @@ export class ScrapingItemDto {
   })
   headcountRange!: string | null;
 
+  @ApiProperty({
+    description: "Lowest employee count of the parsed headcount range",
+    example: 100,
+    nullable: true,
+  })
+  headcountMin!: number | null;
+
+  @ApiProperty({
+    description:
+      "Highest employee count of the parsed headcount range; null when open-ended (e.g. 10,000+)",
+    example: 500,
+    nullable: true,
+  })
+  headcountMax!: number | null;
+
+  @ApiProperty({
+    description: "Standard company size bucket of the parsed headcount range",
+    enum: HEADCOUNT_BUCKETS,
+    example: "201-500",
+    nullable: true,
+  })
+  headcountBucket!: HeadcountBucket | null;
+
   @ApiProperty({
     description: "Extracted company headquarters location",
     example: "San Francisco, CA",
@@ -177,6 +596,42 @@ export class ScrapingItemDto {
   })
   hqLocation!: string | null;
 
+  @ApiProperty({
+    description: "Street line of the parsed HQ address",
+    example: "548 Market St",
+    nullable: true,
+  })
+  hqStreet!: string | null;
+
+  @ApiProperty({
+    description: "City of the parsed HQ address",
+    example: "San Francisco",
+    nullable: true,
+  })
+  hqCity!: string | null;
+
+  @ApiProperty({
+    description:
+      "State or region of the parsed HQ address; US, Canadian and Australian states as their postal code",
+    example: "CA",
+    nullable: true,
+  })
+  hqRegion!: string | null;
+
+  @ApiProperty({
+    description: "Postal code of the parsed HQ address",
+    example: "94104",
+    nullable: true,
+  })
+  hqPostalCode!: string | null;
+
+  @ApiProperty({
+    description: "ISO 3166 alpha-2 country of the parsed HQ address",
+    example: "US",
+    nullable: true,
+  })
+  hqCountry!: string | null;
+
   @ApiProperty({
     description: "Array of extracted contact information",
     type: [ContactDto],
@@ -184,6 +639,70 @@ export class ScrapingItemDto {
   })
   contacts!: ContactDto[] | null;
 
+  @ApiProperty({
+    description:
+      "Company phone numbers in E.164 from tel: links, page text and structured data; numbers next to a person are on the contact instead",
+    example: ["+14155552671"],
+    type: [String],
+    nullable: true,
+  })
+  phones!: string[] | null;
+
+  @ApiProperty({
+    description:
+      "Company social profiles keyed by network (linkedin, twitter, github, facebook, instagram, youtube), normalized to the profile URL",
+    example: {
+      linkedin: "https://www.linkedin.com/company/acme",
+      twitter: "https://x.com/acme",
+    },
+    nullable: true,
+  })
+  socialProfiles!: Partial<Record<SocialNetwork, string>> | null;
+
+  @ApiProperty({
+    description:
+      "sameAs and foundingDate from the page's JSON-LD, microdata or RDFa",
+    type: StructuredCompanyDataDto,
+    nullable: true,
+  })
+  structuredData!: StructuredCompanyDataDto | null;
+
+  @ApiProperty({
+    description:
+      "Page and extraction layer for each extracted company field, keyed by field name",
+    example: {
+      companyName: { url: "https://www.acme.com/about", method: "selector" },
+      hqLocation: { url: "https://www.acme.com/contact", method: "fallback" },
+    },
+    nullable: true,
+  })
+  fieldSources!: Record<string, FieldSourceDto> | null;
+
+  @ApiProperty({
+    description:
+      "Passthrough columns from the uploaded CSV/XLSX row (everything except the URL column)",
+    example: { "Company Name": "Acme Corporation", Owner: "jane@sales.com" },
+    nullable: true,
+  })
+  metadata!: Record<string, string> | null;
+
+  @ApiProperty({
+    description:
+      "Start of the visible text of the crawled pages, used for full-text search",
+    example: "Acme builds payment infrastructure for fintech teams in Berlin",
+    nullable: true,
+  })
+  pageTextExcerpt!: string | null;
+
+  @ApiProperty({
+    description:
+      "Company this item was merged into (set once the item completes)",
+    example: "8c1e5f0a-2f4b-4c39-9f41-2d8f0c3b7a11",
+    format: "uuid",
+    nullable: true,
+  })
+  companyId!: string | null;
+
   @ApiProperty({
     description: "Raw metadata from the scraping process",
     example: { url: "https://example.com", htmlLength: 5000 },
@@ -238,3 +757,202 @@ export class ListScrapingItemsResponseDto {
   })
   items!: ScrapingItemDto[];
 }
+
+// A value of a company field and the scrapes it was seen in
+export class CompanyFieldHistoryDto {
+  @ApiProperty({
+    description: "History row identifier",
+    example: "7c1e2d3f-4a5b-6c7d-8e9f-0a1b2c3d4e5f",
+    format: "uuid",
+  })
+  id!: string;
+
+  @ApiProperty({
+    description: "Field name",
+    enum: [
+      "companyName",
+      "website",
+      "industry",
+      "headcountRange",
+      "hqLocation",
+      "contact",
+    ],
+    example: "headcountRange",
+  })
+  field!: string;
+
+  @ApiProperty({
+    description:
+      "Contact key (lowercased email, or name when there is no email); empty for single-value fields",
+    example: "",
+  })
+  valueKey!: string;
+
+  @ApiProperty({
+    description: "Observed value (a string, or a contact object)",
+    example: "100-500",
+  })
+  value!: unknown;
+
+  @ApiProperty({
+    description: "When the value was first seen",
+    example: "2023-11-01T06:10:00.000Z",
+    format: "date-time",
+  })
+  firstSeenAt!: Date;
+
+  @ApiProperty({
+    description: "When the value was last seen",
+    example: "2023-12-01T06:10:00.000Z",
+    format: "date-time",
+  })
+  lastSeenAt!: Date;
+
+  @ApiProperty({
+    description: "Item of the scrape that first saw the value",
+    format: "uuid",
+    nullable: true,
+  })
+  firstItemId!: string | null;
+
+  @ApiProperty({
+    description: "Item of the scrape that last saw the value",
+    format: "uuid",
+    nullable: true,
+  })
+  lastItemId!: string | null;
+}
+
+// Response DTO for a company's field history
+export class CompanyHistoryDto {
+  @ApiProperty({
+    description: "Canonical URL the history is keyed by",
+    example: "https://acme.com",
+  })
+  canonicalUrl!: string;
+
+  @ApiProperty({
+    description: "History rows, oldest value first per field",
+    type: [CompanyFieldHistoryDto],
+  })
+  history!: CompanyFieldHistoryDto[];
+}
+
+// A field difference between two scrapes
+export class FieldChangeDto {
+  @ApiProperty({
+    description: "Field name",
+    example: "contact",
+  })
+  field!: string;
+
+  @ApiProperty({
+    description: "Contact key; null for single-value fields",
+    example: "jane.doe@acme.com",
+    nullable: true,
+  })
+  key!: string | null;
+
+  @ApiProperty({
+    description: "Kind of change",
+    enum: ["added", "changed", "removed"],
+    example: "changed",
+  })
+  type!: string;
+
+  @ApiProperty({
+    description: "Value before the change",
+    example: {
+      name: "Jane Doe",
+      title: "VP Sales",
+      email: "jane.doe@acme.com",
+    },
+    nullable: true,
+  })
+  previousValue!: unknown;
+
+  @ApiProperty({
+    description: "Value in the latest scrape",
+    example: {
+      name: "Jane Doe",
+      title: "Chief Revenue Officer",
+      email: "jane.doe@acme.com",
+    },
+    nullable: true,
+  })
+  currentValue!: unknown;
+
+  @ApiProperty({
+    description: "When the previous value was last seen",
+    example: "2023-11-01T06:10:00.000Z",
+    format: "date-time",
+    nullable: true,
+  })
+  previousSeenAt!: Date | null;
+}
+
+// Response DTO for changes since the previous scrape
+export class CompanyChangesDto {
+  @ApiProperty({
+    description: "Canonical URL the history is keyed by",
+    example: "https://acme.com",
+  })
+  canonicalUrl!: string;
+
+  @ApiProperty({
+    description: "Item of the latest completed scrape",
+    format: "uuid",
+  })
+  currentItemId!: string;
+
+  @ApiProperty({
+    description: "When the latest scrape finished",
+    format: "date-time",
+    nullable: true,
+  })
+  currentObservedAt!: Date | null;
+
+  @ApiProperty({
+    description: "Item of the scrape before it (null after the first scrape)",
+    format: "uuid",
+    nullable: true,
+  })
+  previousItemId!: string | null;
+
+  @ApiProperty({
+    description: "When the previous scrape finished",
+    format: "date-time",
+    nullable: true,
+  })
+  previousObservedAt!: Date | null;
+
+  @ApiProperty({
+    description:
+      "New or changed values, and contacts no longer listed. Empty after the first scrape",
+    type: [FieldChangeDto],
+  })
+  changes!: FieldChangeDto[];
+}
+
+// One full-text search hit
+export class SearchResultDto {
+  @ApiProperty({
+    description: "Relevance score; higher is better",
+    example: 0.4,
+  })
+  rank!: number;
+
+  @ApiProperty({
+    description:
+      "Matching fragments as HTML-escaped text with matches wrapped in <mark>",
+    example:
+      "Acme Pay · Financial Services · Berlin, Germany … payments for <mark>fintech</mark> teams",
+  })
+  headline!: string;
+
+  @ApiProperty({
+    description: "The matching item",
+    type: ScrapingItemDto,
+  })
+  item!: ScrapingItemDto;
+}
@@ -0,0 +1,63 @@
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from "class-validator";
+import { Type } from "class-transformer";
+import { ApiProperty, IntersectionType } from "@nestjs/swagger";
+import { HeadcountFilterQueryDto } from "./headcount-filter-query.dto";
+
+/**
+ * Default and maximum number of search results per page
+ */
+export const DEFAULT_SEARCH_PAGE_SIZE = 20;
+export const MAX_SEARCH_PAGE_SIZE = 100;
+
+/**
+ * Search text and pagination shared by the item and contact searches
+ */
+export class SearchQueryDto {
+  @ApiProperty({
+    description:
+      'Search text in web search syntax: words are ANDed, "quoted phrases", OR, and -word to exclude',
+    example: "fintech berlin",
+  })
+  @IsString({ message: "q must be a string" })
+  @IsNotEmpty({ message: "q is required" })
+  @MaxLength(200, { message: "q must be at most 200 characters" })
+  q!: string;
+
+  @ApiProperty({
+    description: "Page size",
+    default: DEFAULT_SEARCH_PAGE_SIZE,
+    minimum: 1,
+    maximum: MAX_SEARCH_PAGE_SIZE,
+    required: false,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt({ message: "limit must be an integer" })
+  @Min(1, { message: "limit must be at least 1" })
+  @Max(MAX_SEARCH_PAGE_SIZE, {
+    message: `limit must be at most ${MAX_SEARCH_PAGE_SIZE}`,
+  })
+  limit?: number;
+
+  @ApiProperty({
+    description: "nextCursor from the previous page of the same search",
+    required: false,
+  })
+  @IsOptional()
+  @IsString({ message: "cursor must be a string" })
+  @MaxLength(500, { message: "cursor is too long" })
+  cursor?: string;
+}
+
+export class SearchItemsQueryDto extends IntersectionType(
+  SearchQueryDto,
+  HeadcountFilterQueryDto,
+) {}
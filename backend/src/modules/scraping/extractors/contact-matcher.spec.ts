@@ -0,0 +1,160 @@
+import * as cheerio from "cheerio";
+import {
+  matchContacts,
+  matchPhones,
+  nameEmailSimilarity,
+} from "./contact-matcher";
+import { extractPhoneCandidates } from "./phone-numbers";
+
+const load = (body: string): cheerio.CheerioAPI =>
+  cheerio.load(
+    `<html><body>${body}</body></html>`,
+  ) as unknown as cheerio.CheerioAPI;
+
+const anyEmail = () => true;
+
+describe("nameEmailSimilarity", () => {
+  it("scores full-name local parts 1 and a single name 0.5", () => {
+    expect(nameEmailSimilarity("Jane Doe", "jane.doe@acme.com")).toBe(1);
+    expect(nameEmailSimilarity("Jane Doe", "doe_jane@acme.com")).toBe(1);
+    expect(nameEmailSimilarity("Jane Doe", "jdoe@acme.com")).toBe(1);
+    expect(nameEmailSimilarity("José Núñez", "jose.nunez@acme.com")).toBe(1);
+    expect(nameEmailSimilarity("Jane Doe", "jane@acme.com")).toBe(0.5);
+    expect(nameEmailSimilarity("Jane Doe", "info@acme.com")).toBe(0);
+  });
+});
+
+describe("matchContacts", () => {
+  it("pairs names with the email and title of their own card", () => {
+    const $ = load(`
+      <div class="team">
+        <div class="member">
+          <h3>Jane Doe</h3>
+          <p>Chief Executive Officer</p>
+          <footer><p>Reach me at jane@acme.com</p></footer>
+        </div>
+        <div class="member">
+          <h3>John Smith</h3>
+          <p>Head of Sales</p>
+          <footer><p>Reach me at sales@acme.com</p></footer>
+        </div>
+      </div>
+    `);
+
+    expect(matchContacts($, ["Jane Doe", "John Smith"], anyEmail)).toEqual([
+      {
+        name: "Jane Doe",
+        title: "Chief Executive Officer",
+        email: "jane@acme.com",
+        matchScore: 0.8,
+      },
+      {
+        name: "John Smith",
+        title: "Head of Sales",
+        email: "sales@acme.com",
+        matchScore: 0.8,
+      },
+    ]);
+  });
+
+  it("pairs a name with a sibling mailto link and takes the title after the name", () => {
+    const $ = load(`
+      <ul>
+        <li><strong>Jane Doe, CTO</strong> <a href="mailto:JDoe@Acme.com">Email</a></li>
+      </ul>
+    `);
+
+    expect(matchContacts($, ["Jane Doe"], anyEmail)).toEqual([
+      {
+        name: "Jane Doe",
+        title: "CTO",
+        email: "jdoe@acme.com",
+        matchScore: 1,
+      },
+    ]);
+  });
+
+  it("does not pair emails inside a container shared by two people", () => {
+    const $ = load(`
+      <p>Our founders Jane Doe and John Smith can be reached at team@acme.com</p>
+    `);
+
+    expect(matchContacts($, ["Jane Doe", "John Smith"], anyEmail)).toEqual([
+      { name: "Jane Doe", title: null, email: null },
+      { name: "John Smith", title: null, email: null },
+    ]);
+  });
+
+  it("uses each email once and keeps the unmatched person name-only", () => {
+    const $ = load(`
+      <div><span>Jane Doe</span> <a href="mailto:jane.doe@acme.com">jane.doe@acme.com</a></div>
+      <section><h2>Advisors</h2><p>John Smith</p></section>
+    `);
+
+    expect(matchContacts($, ["Jane Doe", "John Smith"], anyEmail)).toEqual([
+      {
+        name: "Jane Doe",
+        title: null,
+        email: "jane.doe@acme.com",
+        matchScore: 1,
+      },
+      { name: "John Smith", title: null, email: null },
+    ]);
+  });
+
+  it("keeps people name-only on a page without emails", () => {
+    const $ = load(`<div><h3>Jane Doe</h3><p>Founder</p></div>`);
+
+    expect(matchContacts($, ["Jane Doe"], anyEmail)).toEqual([
+      { name: "Jane Doe", title: "Founder", email: null },
+    ]);
+  });
+
+  it("ignores emails the caller rejects", () => {
+    const $ = load(
+      `<div><h3>Jane Doe</h3><a href="mailto:noreply@acme.com">noreply@acme.com</a></div>`,
+    );
+
+    expect(
+      matchContacts($, ["Jane Doe"], (email) => !email.startsWith("noreply")),
+    ).toEqual([{ name: "Jane Doe", title: null, email: null }]);
+  });
+});
+
+describe("matchPhones", () => {
+  it("links each person to the number in their own card", () => {
+    const $ = load(`
+      <div class="member">
+        <h3>Jane Doe</h3>
+        <p>Tel: +49 30 1234567</p>
+      </div>
+      <div class="member">
+        <h3>John Smith</h3>
+        <a href="tel:+49307654321">Call John</a>
+      </div>
+    `);
+
+    expect(
+      matchPhones($, ["Jane Doe", "John Smith"], extractPhoneCandidates($)),
+    ).toEqual(
+      new Map([
+        ["Jane Doe", "+49 30 1234567"],
+        ["John Smith", "+49307654321"],
+      ]),
+    );
+  });
+
+  it("leaves numbers in a container shared by several people unassigned", () => {
+    const $ = load(`
+      <div>
+        <p>Jane Doe</p>
+        <p>John Smith</p>
+        <p>Office: +49 30 1234567</p>
+      </div>
+    `);
+
+    expect(
+      matchPhones($, ["Jane Doe", "John Smith"], extractPhoneCandidates($)),
+    ).toEqual(new Map());
+  });
+});
@@ -0,0 +1,474 @@
+import { Contact } from "../../../core/database/schema/scraping-items";
+
+/**
+ * Email addresses in page text
+ */
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g;
+
+/**
+ * Words that mark a short text as a job title
+ */
+const TITLE_PATTERN =
+  /\b(ceo|cto|cfo|coo|cmo|cio|cpo|founder|co-founder|cofounder|owner|partner|president|chair(man|woman|person)?|chief|officer|director|head|vp|vice president|manager|lead|principal|engineer|developer|designer|architect|analyst|consultant|specialist|coordinator|executive|associate|advisor|adviser|counsel|attorney|accountant|recruiter|representative|administrator|editor|producer|scientist|researcher|intern)\b/i;
+
+// Longest text still treated as a title rather than a paragraph
+const MAX_TITLE_LENGTH = 80;
+
+// Elements whose text is never visible page content
+const SKIPPED_TAGS = new Set([
+  "script",
+  "style",
+  "noscript",
+  "template",
+  "svg",
+]);
+
+// Occurrences of one name or email considered, in document order
+const MAX_OCCURRENCES = 5;
+
+// Furthest tree distance (edges via the closest shared ancestor) for a DOM link
+const MAX_PAIR_DISTANCE = 6;
+const MAX_TITLE_DISTANCE = 4;
+
+/**
+ * Pairs scoring below this are not linked; the person is kept without an email
+ */
+export const MIN_MATCH_SCORE = 0.5;
+
+interface Occurrence {
+  element: cheerio.Element;
+  // The element followed by its ancestors up to the root
+  path: cheerio.Element[];
+}
+
+interface EmailOccurrence extends Occurrence {
+  email: string;
+  // Text of the mailto link, when the email came from one
+  linkText: string | null;
+}
+
+interface PersonOccurrence extends Occurrence {
+  // Text of the element with the name removed (e.g. ", CEO" in "Jane Doe, CEO")
+  rest: string;
+}
+
+interface Candidate {
+  person: string;
+  email: string;
+  score: number;
+}
+
+const normalizeText = (text: string): string =>
+  text.replace(/\s+/g, " ").trim();
+
+/**
+ * Lowercase ASCII letters of a name or mailbox, for comparing the two
+ */
+const toLetters = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z]/g, "");
+
+/**
+ * How strongly an email's local part looks like a person's name:
+ * 1 for full-name forms (jane.doe, janedoe, jdoe, doe.jane), 0.5 for the
+ * first or last name alone, 0 otherwise
+ */
+export const nameEmailSimilarity = (name: string, email: string): number => {
+  const parts = name.split(/\s+/).map(toLetters).filter(Boolean);
+  const local = toLetters(email.slice(0, email.lastIndexOf("@")));
+  if (parts.length === 0 || !local) {
+    return 0;
+  }
+
+  const first = parts[0];
+  const last = parts[parts.length - 1];
+  if (parts.length > 1) {
+    const fullForms = [
+      first + last,
+      last + first,
+      first[0] + last,
+      first + last[0],
+    ];
+    if (fullForms.includes(local)) {
+      return 1;
+    }
+  }
+  return local === first || local === last ? 0.5 : 0;
+};
+
+/**
+ * Pair people names with emails and titles by their position in the page
+ *
+ * Each name and email is located in the DOM. A pair is scored by how close
+ * the two are: a mailto link whose text is the name or the same element
+ * scores 1, siblings 0.9, and a shared container that holds no other
+ * person (a "card") 0.8 falling off with distance. A local part that looks
+ * like the name adds 0.1, and alone scores 0.55. Pairs are assigned best
+ * first, each name and email at most once. Titles are taken from the text
+ * next to the name or the closest short title-like text in the same card.
+ *
+ * @param $ - Loaded page
+ * @param people - Person names found on the page (e.g. by NER)
+ * @param isUsableEmail - Emails failing this check are ignored
+ * @returns One contact per name: with an email and matchScore when a pair
+ *          scored at least MIN_MATCH_SCORE, name-only otherwise
+ */
+export const matchContacts = (
+  $: cheerio.CheerioAPI,
+  people: string[],
+  isUsableEmail: (email: string) => boolean,
+): Contact[] => {
+  const elements = collectTextElements($);
+  const names = [
+    ...new Set(people.map(normalizeText).filter((name) => name.length > 1)),
+  ];
+  const lowerNames = names.map((name) => name.toLowerCase());
+
+  const personOccurrences = new Map<string, PersonOccurrence[]>();
+  names.forEach((name, index) => {
+    const occurrences: PersonOccurrence[] = [];
+    for (const { element, text } of elements) {
+      const at = text.toLowerCase().indexOf(lowerNames[index]);
+      if (at === -1) {
+        continue;
+      }
+      occurrences.push({
+        element,
+        path: getPath($, element),
+        rest: normalizeText(text.slice(0, at) + text.slice(at + name.length)),
+      });
+      if (occurrences.length >= MAX_OCCURRENCES) {
+        break;
+      }
+    }
+    personOccurrences.set(name, occurrences);
+  });
+
+  const emailOccurrences = collectEmails($, elements).filter((occurrence) =>
+    isUsableEmail(occurrence.email),
+  );
+
+  // Number of listed people whose name appears in an element's text
+  const peopleCounts = new Map<cheerio.Element, number>();
+  const countPeople = (element: cheerio.Element): number => {
+    let count = peopleCounts.get(element);
+    if (count === undefined) {
+      const text = $(element).text().toLowerCase();
+      count = lowerNames.filter((name) => text.includes(name)).length;
+      peopleCounts.set(element, count);
+    }
+    return count;
+  };
+
+  const candidates: Candidate[] = [];
+  for (const name of names) {
+    const byEmail = new Map<string, Candidate>();
+
+    for (const person of personOccurrences.get(name) ?? []) {
+      for (const occurrence of emailOccurrences) {
+        const score = scoreProximity(name, person, occurrence, countPeople);
+        const similarity = nameEmailSimilarity(name, occurrence.email);
+        const total =
+          score > 0
+            ? Math.min(1, score + (similarity === 1 ? 0.1 : 0))
+            : similarity === 1
+              ? 0.55
+              : 0;
+
+        const best = byEmail.get(occurrence.email);
+        if (total >= MIN_MATCH_SCORE && (!best || total > best.score)) {
+          byEmail.set(occurrence.email, {
+            person: name,
+            email: occurrence.email,
+            score: Math.round(total * 100) / 100,
+          });
+        }
+      }
+    }
+
+    candidates.push(...byEmail.values());
+  }
+
+  // Best pairs first; each person and email is used once
+  candidates.sort((a, b) => b.score - a.score);
+  const matched = new Map<string, Candidate>();
+  const usedEmails = new Set<string>();
+  for (const candidate of candidates) {
+    if (matched.has(candidate.person) || usedEmails.has(candidate.email)) {
+      continue;
+    }
+    matched.set(candidate.person, candidate);
+    usedEmails.add(candidate.email);
+  }
+
+  const titleElements = elements
+    .filter(
+      ({ text }) =>
+        text.length <= MAX_TITLE_LENGTH &&
+        !text.includes("@") &&
+        TITLE_PATTERN.test(text),
+    )
+    .map(({ element, text }) => ({ text, path: getPath($, element) }));
+
+  return names.map((name) => {
+    const match = matched.get(name);
+    const title = findTitle(
+      personOccurrences.get(name) ?? [],
+      titleElements,
+      countPeople,
+    );
+    return match
+      ? { name, title, email: match.email, matchScore: match.score }
+      : { name, title, email: null };
+  });
+};
+
+/**
+ * Pair people with the phone numbers closest to their name
+ *
+ * A number is linked when it shares a container with one occurrence of the
+ * name and no other listed person, within the same distance as emails. The
+ * closest pairs are assigned first, each person and number at most once.
+ *
+ * @param $ - Loaded page
+ * @param people - Names of the page's contacts
+ * @param phones - Phone numbers with the element each was found in
+ * @returns Raw phone number by person name, for the people that got one
+ */
+export const matchPhones = (
+  $: cheerio.CheerioAPI,
+  people: string[],
+  phones: { raw: string; element: cheerio.Element }[],
+): Map<string, string> => {
+  const names = [
+    ...new Set(people.map(normalizeText).filter((name) => name.length > 1)),
+  ];
+  const lowerNames = names.map((name) => name.toLowerCase());
+  if (names.length === 0 || phones.length === 0) {
+    return new Map();
+  }
+
+  const peopleCounts = new Map<cheerio.Element, number>();
+  const countPeople = (element: cheerio.Element): number => {
+    let count = peopleCounts.get(element);
+    if (count === undefined) {
+      const text = $(element).text().toLowerCase();
+      count = lowerNames.filter((name) => text.includes(name)).length;
+      peopleCounts.set(element, count);
+    }
+    return count;
+  };
+
+  const elements = collectTextElements($);
+  const phonePaths = phones.map((phone) => getPath($, phone.element));
+  const candidates: { person: string; phone: number; distance: number }[] = [];
+
+  names.forEach((name, index) => {
+    const occurrences = elements
+      .filter(({ text }) => text.toLowerCase().includes(lowerNames[index]))
+      .slice(0, MAX_OCCURRENCES)
+      .map(({ element }) => getPath($, element));
+
+    phonePaths.forEach((phonePath, phone) => {
+      const ancestors = new Set(phonePath);
+      let best = Infinity;
+      for (const path of occurrences) {
+        const depth = path.findIndex((element) => ancestors.has(element));
+        if (depth === -1 || countPeople(path[depth]) > 1) {
+          continue;
+        }
+        best = Math.min(best, depth + phonePath.indexOf(path[depth]));
+      }
+      if (best <= MAX_PAIR_DISTANCE) {
+        candidates.push({ person: name, phone, distance: best });
+      }
+    });
+  });
+
+  candidates.sort((a, b) => a.distance - b.distance);
+  const matched = new Map<string, string>();
+  const usedPhones = new Set<number>();
+  for (const { person, phone } of candidates) {
+    if (!matched.has(person) && !usedPhones.has(phone)) {
+      matched.set(person, phones[phone].raw);
+      usedPhones.add(phone);
+    }
+  }
+  return matched;
+};
+
+/**
+ * Visible elements with their own (direct) text, in document order
+ */
+export const collectTextElements = (
+  $: cheerio.CheerioAPI,
+): { element: cheerio.Element; text: string }[] => {
+  const result: { element: cheerio.Element; text: string }[] = [];
+
+  $("body")
+    .find("*")
+    .each((_, element) => {
+      const node = element as cheerio.TagElement;
+      if (
+        SKIPPED_TAGS.has(node.tagName?.toLowerCase()) ||
+        $(element).closest(Array.from(SKIPPED_TAGS).join(",")).length > 0
+      ) {
+        return;
+      }
+
+      const text = normalizeText(
+        (node.children ?? [])
+          .filter((child) => child.type === "text")
+          .map((child) => child.data ?? "")
+          .join(" "),
+      );
+      if (text) {
+        result.push({ element, text });
+      }
+    });
+
+  return result;
+};
+
+/**
+ * Emails in mailto links and in element text, in document order
+ */
+const collectEmails = (
+  $: cheerio.CheerioAPI,
+  elements: { element: cheerio.Element; text: string }[],
+): EmailOccurrence[] => {
+  const occurrences: EmailOccurrence[] = [];
+  const counts = new Map<string, number>();
+  const add = (occurrence: EmailOccurrence) => {
+    const count = counts.get(occurrence.email) ?? 0;
+    if (count < MAX_OCCURRENCES) {
+      counts.set(occurrence.email, count + 1);
+      occurrences.push(occurrence);
+    }
+  };
+
+  $('a[href^="mailto:" i]').each((_, element) => {
+    const href = $(element).attr("href") ?? "";
+    let address = href.replace(/^mailto:/i, "").split("?")[0];
+    try {
+      address = decodeURIComponent(address);
+    } catch {
+      // Not percent-encoded; keep as is
+    }
+    const email = address.trim().toLowerCase();
+    if (email.includes("@")) {
+      add({
+        element,
+        path: getPath($, element),
+        email,
+        linkText: normalizeText($(element).text()),
+      });
+    }
+  });
+
+  for (const { element, text } of elements) {
+    for (const match of text.match(EMAIL_PATTERN) ?? []) {
+      const email = match.toLowerCase();
+      // The text of a mailto link is already covered by the link
+      const isLinkText =
+        element.type === "tag" &&
+        element.tagName === "a" &&
+        /^mailto:/i.test($(element).attr("href") ?? "");
+      if (!isLinkText) {
+        add({ element, path: getPath($, element), email, linkText: null });
+      }
+    }
+  }
+
+  return occurrences;
+};
+
+/**
+ * Element followed by its ancestors
+ */
+const getPath = (
+  $: cheerio.CheerioAPI,
+  element: cheerio.Element,
+): cheerio.Element[] => [element, ...$(element).parents().toArray()];
+
+/**
+ * DOM closeness of a name and an email occurrence, from 0 (unrelated) to 1
+ */
+const scoreProximity = (
+  name: string,
+  person: PersonOccurrence,
+  email: EmailOccurrence,
+  countPeople: (element: cheerio.Element) => number,
+): number => {
+  if (email.linkText?.toLowerCase().includes(name.toLowerCase())) {
+    return 1;
+  }
+
+  const emailAncestors = new Set(email.path);
+  const personDepth = person.path.findIndex((element) =>
+    emailAncestors.has(element),
+  );
+  if (personDepth === -1) {
+    return 0;
+  }
+
+  const container = person.path[personDepth];
+  // Another person in the shared container makes the pairing ambiguous
+  if (countPeople(container) > 1) {
+    return 0;
+  }
+
+  const distance = personDepth + email.path.indexOf(container);
+  if (distance === 0) {
+    return 1;
+  }
+  if (distance <= 2) {
+    return 0.9;
+  }
+  if (distance <= MAX_PAIR_DISTANCE) {
+    return 0.8 - 0.05 * (distance - 3);
+  }
+  return 0;
+};
+
+/**
+ * Title of a person: the rest of the name's own text when it reads like a
+ * title ("Jane Doe, CEO"), else the closest title-like text that shares a
+ * container with the name and no other person
+ */
+const findTitle = (
+  occurrences: PersonOccurrence[],
+  titleElements: { text: string; path: cheerio.Element[] }[],
+  countPeople: (element: cheerio.Element) => number,
+): string | null => {
+  for (const occurrence of occurrences) {
+    const rest = occurrence.rest.replace(/^[\s,|·–—-]+|[\s,|·–—-]+$/g, "");
+    if (rest && rest.length <= MAX_TITLE_LENGTH && TITLE_PATTERN.test(rest)) {
+      return rest;
+    }
+  }
+
+  let best: { text: string; distance: number } | null = null;
+  for (const occurrence of occurrences) {
+    const ancestors = new Set(occurrence.path);
+    for (const { text, path } of titleElements) {
+      const shared = path.findIndex((ancestor) => ancestors.has(ancestor));
+      if (shared === -1 || countPeople(path[shared]) > 1) {
+        continue;
+      }
+      const distance = shared + occurrence.path.indexOf(path[shared]);
+      if (
+        distance > 0 &&
+        distance <= MAX_TITLE_DISTANCE &&
+        (!best || distance < best.distance)
+      ) {
+        best = { text, distance };
+      }
+    }
+  }
+
+  return best?.text ?? null;
+};
@@ -0,0 +1,82 @@
+/**
+ * Path patterns of pages that usually hold company, team and contact details
+ */
+const CRAWL_PATH_PATTERNS = [
+  /about/i,
+  /team/i,
+  /contact/i,
+  /people/i,
+  /leadership/i,
+  /management/i,
+  /company/i,
+  /who-we-are/i,
+  /impressum/i,
+  /imprint/i,
+];
+
+/**
+ * File extensions that are never HTML pages
+ */
+const NON_HTML_EXTENSIONS =
+  /\.(pdf|jpe?g|png|gif|svg|webp|ico|zip|gz|docx?|xlsx?|pptx?|mp4|mp3|css|js|xml|json)$/i;
+
+/**
+ * Host without a leading "www." so www and apex links count as the same domain
+ */
+export const normalizeHost = (hostname: string): string =>
+  hostname.toLowerCase().replace(/^www\./, "");
+
+/**
+ * Discover same-domain links on a page whose path looks like an
+ * about/team/contact page
+ *
+ * @param $ - Loaded page
+ * @param pageUrl - Absolute URL of the page (used to resolve relative links)
+ * @param rootHost - Normalized host of the item's start URL
+ * @returns Absolute URLs without fragments, in document order, de-duplicated
+ */
+export const discoverCrawlLinks = (
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  rootHost: string,
+): string[] => {
+  const links = new Set<string>();
+
+  $("a[href]").each((_, element) => {
+    const href = $(element).attr("href")?.trim();
+    if (
+      !href ||
+      href.startsWith("#") ||
+      /^(mailto|tel|javascript):/i.test(href)
+    ) {
+      return;
+    }
+
+    let resolved: URL;
+    try {
+      resolved = new URL(href, pageUrl);
+    } catch {
+      return;
+    }
+
+    if (resolved.protocol !== "http:" && resolved.protocol !== "https:") {
+      return;
+    }
+    if (normalizeHost(resolved.hostname) !== rootHost) {
+      return;
+    }
+    if (NON_HTML_EXTENSIONS.test(resolved.pathname)) {
+      return;
+    }
+    if (
+      !CRAWL_PATH_PATTERNS.some((pattern) => pattern.test(resolved.pathname))
+    ) {
+      return;
+    }
+
+    resolved.hash = "";
+    links.add(resolved.toString());
+  });
+
+  return [...links];
+};
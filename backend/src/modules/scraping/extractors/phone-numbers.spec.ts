@@ -0,0 +1,88 @@
+import * as cheerio from "cheerio";
+import {
+  extractPhoneCandidates,
+  inferPhoneCountry,
+  normalizePhoneNumber,
+} from "./phone-numbers";
+
+const load = (body: string): cheerio.CheerioAPI =>
+  cheerio.load(
+    `<html><body>${body}</body></html>`,
+  ) as unknown as cheerio.CheerioAPI;
+
+describe("inferPhoneCountry", () => {
+  it("takes the HQ country first, then the website's country-code TLD", () => {
+    expect(inferPhoneCountry("Berlin, Germany", "https://acme.co.uk")).toBe(
+      "DE",
+    );
+    expect(inferPhoneCountry(null, "https://www.acme.co.uk/contact")).toBe(
+      "GB",
+    );
+    expect(inferPhoneCountry("Contact us", "https://acme.com")).toBeUndefined();
+  });
+});
+
+describe("normalizePhoneNumber", () => {
+  it("reads national numbers in the inferred country", () => {
+    expect(
+      normalizePhoneNumber(
+        "030 1234567",
+        inferPhoneCountry("Berlin, Germany", null),
+      ),
+    ).toBe("+49301234567");
+    expect(
+      normalizePhoneNumber(
+        "020 7946 0018",
+        inferPhoneCountry(null, "https://acme.co.uk"),
+      ),
+    ).toBe("+442079460018");
+  });
+
+  it("keeps the country code of international numbers, 00 prefix included", () => {
+    expect(normalizePhoneNumber("+1 (512) 555-0100", "DE")).toBe(
+      "+15125550100",
+    );
+    expect(normalizePhoneNumber("0049 30 1234567", undefined)).toBe(
+      "+49301234567",
+    );
+    expect(normalizePhoneNumber("tel:+442079460018", undefined)).toBe(
+      "+442079460018",
+    );
+  });
+
+  it("returns null for numbers invalid for their country or without one", () => {
+    expect(normalizePhoneNumber("030 1234567", undefined)).toBeNull();
+    expect(normalizePhoneNumber("512 555 01", "US")).toBeNull();
+  });
+});
+
+describe("extractPhoneCandidates", () => {
+  it("reads tel: links and phone-like text in document order", () => {
+    const $ = load(`
+      <a href="tel:%2B49%2030%201234567">Call us</a>
+      <p>Sales: +49 30 7654321</p>
+    `);
+
+    expect(extractPhoneCandidates($).map((candidate) => candidate.raw)).toEqual(
+      ["+49 30 1234567", "+49 30 7654321"],
+    );
+  });
+
+  it("skips fax numbers, dates and year ranges", () => {
+    const $ = load(`
+      <p>Tel. 030 1234567 / Fax: 030 1234568</p>
+      <p>Updated 2024-01-15, founded 12.03.1998</p>
+      <p>Serving clients 1998 - 2024</p>
+    `);
+
+    expect(extractPhoneCandidates($).map((candidate) => candidate.raw)).toEqual(
+      ["030 1234567"],
+    );
+  });
+
+  it("does not count a tel: link's own text twice", () => {
+    const $ = load(`<a href="tel:+4930123456">+49 30 123456</a>`);
+
+    expect(extractPhoneCandidates($)).toHaveLength(1);
+  });
+});
@@ -0,0 +1,122 @@
+import { CountryCode, parsePhoneNumberFromString } from "libphonenumber-js";
+import { collectTextElements } from "./contact-matcher";
+import { parseAddress } from "../utils/address-parser";
+import { findTldCountry } from "../utils/gazetteer";
+
+/**
+ * A phone number as written on a page, before normalization
+ */
+export interface PhoneCandidate {
+  raw: string;
+  element: cheerio.Element;
+}
+
+/**
+ * Phone-like runs of digits and separators in page text, optionally
+ * international (+49 or 0049); checked against the numbering plan later
+ */
+const PHONE_PATTERN = /(?:\+|\b00)?\(?\d[\d\s()./-]{5,}\d/g;
+
+// Runs that look like dates or year ranges rather than numbers
+const DATE_PATTERN =
+  /^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}|\d{4}\s*[-–]\s*\d{4})$/;
+
+// Digits in the shortest and longest numbers considered (E.164 allows 15)
+const MIN_DIGITS = 7;
+const MAX_DIGITS = 15;
+
+// Text right before a number that marks it as a fax line
+const FAX_LABEL = /fax\W{0,3}$/i;
+
+// Characters before a number searched for a fax label
+const LABEL_LOOKBEHIND = 12;
+
+/**
+ * Country for numbers written in national format: the country of the HQ
+ * location (see parseAddress), else the website's country-code TLD
+ *
+ * @param hqLocation - Extracted HQ location, e.g. "Berlin, Germany"
+ * @param website - Company website or page URL
+ * @returns ISO 3166 alpha-2 code, or undefined when neither gives a country
+ */
+export const inferPhoneCountry = (
+  hqLocation: string | null,
+  website: string | null,
+): CountryCode | undefined =>
+  parseAddress(hqLocation)?.countryCode ??
+  (website ? findTldCountry(website) : null) ??
+  undefined;
+
+/**
+ * Normalize a phone number to E.164 (e.g. "+493012345678")
+ *
+ * @param raw - Number as written, international or national format
+ * @param defaultCountry - Country for numbers without a country code
+ * @returns E.164 form, or null when the number is not valid for its country
+ */
+export const normalizePhoneNumber = (
+  raw: string,
+  defaultCountry: CountryCode | undefined,
+): string | null => {
+  const cleaned = raw.replace(/^tel:/i, "").replace(/^00/, "+").trim();
+  const parsed = parsePhoneNumberFromString(cleaned, defaultCountry);
+  return parsed?.isValid() ? parsed.number : null;
+};
+
+/**
+ * Phone numbers on a page from tel: links and visible text, in document order
+ * Fax numbers and date-like digit runs are skipped; numbers are validated
+ * when they are normalized (see normalizePhoneNumber)
+ *
+ * @param $ - Loaded page
+ * @returns Raw numbers with the element they were found in
+ */
+export const extractPhoneCandidates = (
+  $: cheerio.CheerioAPI,
+): PhoneCandidate[] => {
+  const candidates: PhoneCandidate[] = [];
+
+  $('a[href^="tel:" i]').each((_, element) => {
+    let raw = ($(element).attr("href") ?? "").replace(/^tel:/i, "");
+    try {
+      raw = decodeURIComponent(raw);
+    } catch {
+      // Not percent-encoded; keep as is
+    }
+    if (countDigits(raw) >= MIN_DIGITS) {
+      candidates.push({ raw: raw.trim(), element });
+    }
+  });
+
+  for (const { element, text } of collectTextElements($)) {
+    // The text of a tel: link is already covered by the link
+    if (
+      element.type === "tag" &&
+      element.tagName === "a" &&
+      /^tel:/i.test($(element).attr("href") ?? "")
+    ) {
+      continue;
+    }
+
+    for (const match of text.matchAll(PHONE_PATTERN)) {
+      const raw = match[0].trim();
+      const digits = countDigits(raw);
+      const before = text.slice(
+        Math.max(0, (match.index ?? 0) - LABEL_LOOKBEHIND),
+        match.index,
+      );
+      if (
+        digits >= MIN_DIGITS &&
+        digits <= MAX_DIGITS &&
+        !DATE_PATTERN.test(raw) &&
+        !FAX_LABEL.test(before)
+      ) {
+        candidates.push({ raw, element });
+      }
+    }
+  }
+
+  return candidates;
+};
+
+const countDigits = (text: string): number => text.replace(/\D/g, "").length;
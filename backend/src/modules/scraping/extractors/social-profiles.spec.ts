@@ -0,0 +1,146 @@
+import * as cheerio from "cheerio";
+import {
+  extractSocialProfiles,
+  isSocialUrl,
+  parseSocialProfileUrl,
+} from "./social-profiles";
+
+describe("parseSocialProfileUrl", () => {
+  it("normalizes profile URLs to https, the canonical host and the profile path", () => {
+    expect(
+      parseSocialProfileUrl(
+        "http://de.linkedin.com/company/Acme-Inc/about?trk=nav",
+      ),
+    ).toEqual({
+      network: "linkedin",
+      url: "https://www.linkedin.com/company/acme-inc",
+    });
+    expect(parseSocialProfileUrl("https://twitter.com/@AcmeHQ")).toEqual({
+      network: "twitter",
+      url: "https://x.com/acmehq",
+    });
+    expect(parseSocialProfileUrl("//m.facebook.com/acme.inc/")).toEqual({
+      network: "facebook",
+      url: "https://www.facebook.com/acme.inc",
+    });
+    expect(
+      parseSocialProfileUrl("https://www.instagram.com/acme_inc/?hl=en"),
+    ).toEqual({
+      network: "instagram",
+      url: "https://www.instagram.com/acme_inc",
+    });
+  });
+
+  it("keeps the case of YouTube channel IDs and handles", () => {
+    expect(
+      parseSocialProfileUrl("https://youtube.com/channel/UCabcDEF123/videos"),
+    ).toEqual({
+      network: "youtube",
+      url: "https://www.youtube.com/channel/UCabcDEF123",
+    });
+    expect(parseSocialProfileUrl("https://m.youtube.com/@AcmeTV")).toEqual({
+      network: "youtube",
+      url: "https://www.youtube.com/@AcmeTV",
+    });
+  });
+
+  it("maps GitHub repositories and organization pages to the owner", () => {
+    expect(parseSocialProfileUrl("https://github.com/Acme/widgets")).toEqual({
+      network: "github",
+      url: "https://github.com/acme",
+    });
+    expect(
+      parseSocialProfileUrl("https://github.com/orgs/acme/people"),
+    ).toEqual({ network: "github", url: "https://github.com/acme" });
+    expect(parseSocialProfileUrl("https://github.com/orgs")).toBeNull();
+  });
+
+  it("keeps numeric Facebook profiles and legacy pages URLs", () => {
+    expect(
+      parseSocialProfileUrl(
+        "https://www.facebook.com/profile.php?id=100012345&ref=x",
+      ),
+    ).toEqual({
+      network: "facebook",
+      url: "https://www.facebook.com/profile.php?id=100012345",
+    });
+    expect(
+      parseSocialProfileUrl("https://facebook.com/pages/Acme/123456/photos"),
+    ).toEqual({
+      network: "facebook",
+      url: "https://www.facebook.com/pages/Acme/123456",
+    });
+  });
+
+  it.each([
+    "https://twitter.com/intent/tweet?text=hi",
+    "https://x.com/share?url=https://acme.com",
+    "https://www.facebook.com/sharer/sharer.php?u=https://acme.com",
+    "https://www.linkedin.com/shareArticle?mini=true",
+    "https://www.linkedin.com/posts/jane_doe-activity-123",
+    "https://www.linkedin.com/in/jane-doe",
+    "https://www.instagram.com/p/CxYz123/",
+    "https://www.youtube.com/watch?v=dQw4w9WgXcQ",
+    "https://youtu.be/dQw4w9WgXcQ",
+    "https://github.com/features/actions",
+    "https://twitter.com/",
+    "https://acme.com/twitter",
+    "mailto:info@acme.com",
+  ])("rejects %s as not a profile", (url) => {
+    expect(parseSocialProfileUrl(url)).toBeNull();
+  });
+});
+
+describe("isSocialUrl", () => {
+  it("matches any link on a social host, profiles or not", () => {
+    expect(isSocialUrl("https://x.com/intent/tweet")).toBe(true);
+    expect(isSocialUrl("https://acme.com/about")).toBe(false);
+    expect(isSocialUrl("not a url")).toBe(false);
+  });
+});
+
+describe("extractSocialProfiles", () => {
+  it("prefers sameAs, then twitter:site, then links, one per network", () => {
+    const $ = cheerio.load(`
+      <html><head><meta name="twitter:site" content="@AcmeNews"></head>
+      <body>
+        <a href="https://twitter.com/someoneelse">Tweet</a>
+        <a href="https://www.linkedin.com/company/other">Partner</a>
+        <a href="/github">Not social</a>
+        <a href="https://github.com/acme">GitHub</a>
+      </body></html>
+    `) as unknown as cheerio.CheerioAPI;
+
+    expect(
+      extractSocialProfiles($, "https://acme.com", [
+        "https://www.linkedin.com/company/acme",
+      ]),
+    ).toEqual({
+      linkedin: "https://www.linkedin.com/company/acme",
+      twitter: "https://x.com/acmenews",
+      github: "https://github.com/acme",
+    });
+  });
+
+  it("skips employees' personal LinkedIn profiles on a team page", () => {
+    const $ = cheerio.load(`
+      <html><body>
+        <div class="member">
+          <h3>Jane Doe</h3>
+          <a href="https://www.linkedin.com/in/jane-doe">LinkedIn</a>
+        </div>
+        <div class="member">
+          <h3>John Smith</h3>
+          <a href="https://de.linkedin.com/in/john-smith/">LinkedIn</a>
+        </div>
+        <footer>
+          <a href="https://www.linkedin.com/company/acme">Follow us</a>
+        </footer>
+      </body></html>
+    `) as unknown as cheerio.CheerioAPI;
+
+    expect(extractSocialProfiles($, "https://acme.com/team", [])).toEqual({
+      linkedin: "https://www.linkedin.com/company/acme",
+    });
+  });
+});
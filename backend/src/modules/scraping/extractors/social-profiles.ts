@@ -0,0 +1,277 @@
+import {
+  SocialNetwork,
+  SocialProfiles,
+} from "../../../core/database/schema/scraping-items";
+import { normalizeHost } from "./crawl-links";
+
+/**
+ * Hosts of each network, without "www."; mobile and country subdomains
+ * (m.facebook.com, de.linkedin.com) are matched too
+ */
+const NETWORK_HOSTS: Record<SocialNetwork, string[]> = {
+  linkedin: ["linkedin.com", "lnkd.in"],
+  twitter: ["twitter.com", "x.com"],
+  github: ["github.com"],
+  facebook: ["facebook.com", "fb.com", "fb.me"],
+  instagram: ["instagram.com", "instagr.am"],
+  youtube: ["youtube.com", "youtu.be"],
+};
+
+// First path segments that are site features rather than profiles
+const RESERVED_PATHS: Record<SocialNetwork, Set<string>> = {
+  linkedin: new Set(),
+  twitter: new Set([
+    "intent",
+    "share",
+    "home",
+    "search",
+    "hashtag",
+    "i",
+    "login",
+    "signup",
+    "explore",
+    "settings",
+    "tos",
+    "privacy",
+    "notifications",
+    "messages",
+  ]),
+  github: new Set([
+    "features",
+    "about",
+    "pricing",
+    "login",
+    "join",
+    "marketplace",
+    "sponsors",
+    "topics",
+    "explore",
+    "settings",
+    "site",
+    "contact",
+    "enterprise",
+  ]),
+  facebook: new Set([
+    "sharer",
+    "sharer.php",
+    "share",
+    "share.php",
+    "dialog",
+    "plugins",
+    "tr",
+    "login",
+    "login.php",
+    "watch",
+    "events",
+    "groups",
+    "hashtag",
+    "privacy",
+    "policies",
+  ]),
+  instagram: new Set([
+    "p",
+    "reel",
+    "reels",
+    "explore",
+    "accounts",
+    "stories",
+    "about",
+    "legal",
+  ]),
+  youtube: new Set([
+    "watch",
+    "embed",
+    "shorts",
+    "playlist",
+    "results",
+    "feed",
+    "live",
+    "redirect",
+  ]),
+};
+
+const HANDLE_PATTERN: Record<
+  Exclude<SocialNetwork, "linkedin" | "youtube">,
+  RegExp
+> = {
+  twitter: /^[a-z0-9_]{1,15}$/,
+  github: /^[a-z0-9](?:[a-z0-9-]{0,38})$/,
+  facebook: /^[a-z0-9.-]{2,}$/,
+  instagram: /^[a-z0-9._]{1,30}$/,
+};
+
+// Personal profiles (/in/jane-doe) belong to employees, not the company
+const LINKEDIN_PROFILE_TYPES = new Set(["company", "school", "showcase"]);
+
+const YOUTUBE_PROFILE_TYPES = new Set(["channel", "c", "user"]);
+
+/**
+ * Network of a URL on one of the known social hosts, or null
+ */
+const getNetwork = (hostname: string): SocialNetwork | null => {
+  const host = normalizeHost(hostname);
+  for (const [network, hosts] of Object.entries(NETWORK_HOSTS)) {
+    if (hosts.some((base) => host === base || host.endsWith(`.${base}`))) {
+      return network as SocialNetwork;
+    }
+  }
+  return null;
+};
+
+/**
+ * Whether a URL points at a social network (a profile, a share link or a post)
+ * Such links are never the company's own website
+ */
+export const isSocialUrl = (url: string): boolean => {
+  try {
+    return getNetwork(new URL(url).hostname) !== null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Recognize a company or person profile URL and normalize it
+ *
+ * The result uses https, the network's canonical host and only the path
+ * segments that identify the profile, e.g. "http://de.linkedin.com/company/Acme/about?trk=x"
+ * becomes "https://www.linkedin.com/company/acme". Share links, posts,
+ * videos and short links are not profiles.
+ *
+ * @returns The network and normalized URL, or null when the URL is not a profile
+ */
+export const parseSocialProfileUrl = (
+  url: string,
+): { network: SocialNetwork; url: string } | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim().replace(/^\/\//, "https://"));
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+
+  const network = getNetwork(parsed.hostname);
+  if (!network) {
+    return null;
+  }
+
+  const segments = parsed.pathname
+    .split("/")
+    .filter(Boolean)
+    .map((segment) => {
+      try {
+        return decodeURIComponent(segment);
+      } catch {
+        return segment;
+      }
+    });
+  const [first = "", second = ""] = segments;
+  const lowerFirst = first.toLowerCase();
+  if (!first || RESERVED_PATHS[network].has(lowerFirst)) {
+    return null;
+  }
+
+  switch (network) {
+    case "linkedin":
+      return LINKEDIN_PROFILE_TYPES.has(lowerFirst) && second
+        ? {
+            network,
+            url: `https://www.linkedin.com/${lowerFirst}/${second.toLowerCase()}`,
+          }
+        : null;
+
+    case "youtube":
+      if (first.startsWith("@") && first.length > 1) {
+        return { network, url: `https://www.youtube.com/${first}` };
+      }
+      // Channel IDs are case-sensitive
+      return YOUTUBE_PROFILE_TYPES.has(lowerFirst) && second
+        ? { network, url: `https://www.youtube.com/${lowerFirst}/${second}` }
+        : null;
+
+    case "facebook":
+      if (lowerFirst === "profile.php") {
+        const id = parsed.searchParams.get("id");
+        return id && /^\d+$/.test(id)
+          ? {
+              network,
+              url: `https://www.facebook.com/profile.php?id=${id}`,
+            }
+          : null;
+      }
+      if (lowerFirst === "pages" && segments.length >= 3) {
+        return {
+          network,
+          url: `https://www.facebook.com/pages/${segments[1]}/${segments[2]}`,
+        };
+      }
+      break;
+  }
+
+  // Organization pages (github.com/orgs/acme/people) belong to the org's profile
+  const handle = (
+    network === "github" && lowerFirst === "orgs"
+      ? second.toLowerCase()
+      : lowerFirst
+  ).replace(/^@/, "");
+  if (!HANDLE_PATTERN[network].test(handle)) {
+    return null;
+  }
+
+  const canonicalHosts: Record<typeof network, string> = {
+    twitter: "x.com",
+    github: "github.com",
+    facebook: "www.facebook.com",
+    instagram: "www.instagram.com",
+  };
+  return { network, url: `https://${canonicalHosts[network]}/${handle}` };
+};
+
+/**
+ * Social profiles linked from a page, at most one per network
+ *
+ * Profiles the page's schema.org markup lists in sameAs come first, then
+ * the twitter:site meta tag, then links in document order.
+ *
+ * @param $ - Loaded page
+ * @param pageUrl - Absolute URL of the page (used to resolve relative links)
+ * @param sameAs - sameAs URLs from the page's structured data
+ * @returns Normalized profile URLs keyed by network
+ */
+export const extractSocialProfiles = (
+  $: cheerio.CheerioAPI,
+  pageUrl: string,
+  sameAs: string[],
+): SocialProfiles => {
+  const profiles: SocialProfiles = {};
+  const add = (url: string) => {
+    const profile = parseSocialProfileUrl(url);
+    if (profile && !profiles[profile.network]) {
+      profiles[profile.network] = profile.url;
+    }
+  };
+
+  sameAs.forEach(add);
+
+  const twitterSite = $('meta[name="twitter:site"]').attr("content")?.trim();
+  if (twitterSite && /^@?[A-Za-z0-9_]{1,15}$/.test(twitterSite)) {
+    add(`https://x.com/${twitterSite.replace(/^@/, "")}`);
+  }
+
+  $("a[href]").each((_, element) => {
+    const href = $(element).attr("href")?.trim();
+    if (!href) {
+      return;
+    }
+    try {
+      add(new URL(href, pageUrl).toString());
+    } catch {
+      // Unresolvable href; skip
+    }
+  });
+
+  return profiles;
+};
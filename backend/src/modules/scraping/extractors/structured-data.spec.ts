@@ -0,0 +1,218 @@
+import * as cheerio from "cheerio";
+import { extractStructuredData } from "./structured-data";
+
+const load = (body: string): cheerio.CheerioAPI =>
+  cheerio.load(
+    `<html><body>${body}</body></html>`,
+  ) as unknown as cheerio.CheerioAPI;
+
+const jsonLd = (data: unknown): string =>
+  `<script type="application/ld+json">${JSON.stringify(data)}</script>`;
+
+describe("extractStructuredData", () => {
+  it("returns no organization for a page without markup", () => {
+    expect(extractStructuredData(load("<p>Hello</p>"))).toEqual({
+      organization: null,
+      people: [],
+    });
+  });
+
+  describe("JSON-LD", () => {
+    it("resolves @graph nodes and @id references to nodes defined elsewhere", () => {
+      const $ = load(
+        jsonLd({
+          "@context": "https://schema.org",
+          "@graph": [
+            { "@type": "WebSite", "@id": "#website", name: "Acme site" },
+            {
+              "@type": "Organization",
+              "@id": "#org",
+              name: "Acme Inc",
+              url: "https://acme.com",
+              address: { "@id": "#hq" },
+              founder: { "@id": "#jane" },
+              sameAs: ["https://www.linkedin.com/company/acme", "not a url"],
+            },
+            {
+              "@type": "PostalAddress",
+              "@id": "#hq",
+              streetAddress: "1 Main St",
+              addressLocality: "Austin",
+              addressRegion: "TX",
+              postalCode: "78701",
+              addressCountry: { "@type": "Country", name: "US" },
+            },
+            {
+              "@type": "Person",
+              "@id": "#jane",
+              name: "Jane Doe",
+              jobTitle: "CEO",
+              email: "mailto:Jane@Acme.com",
+            },
+          ],
+        }),
+      );
+
+      const { organization, people } = extractStructuredData($);
+
+      expect(organization).toMatchObject({
+        name: "Acme Inc",
+        url: "https://acme.com",
+        address: "1 Main St, Austin, TX, 78701, US",
+        sameAs: ["https://www.linkedin.com/company/acme"],
+        types: ["Organization"],
+      });
+      expect(people).toEqual([
+        {
+          name: "Jane Doe",
+          title: "CEO",
+          email: "jane@acme.com",
+          matchScore: 1,
+        },
+      ]);
+    });
+
+    it("reads a QuantitativeValue numberOfEmployees as a value or a range", () => {
+      const org = (numberOfEmployees: unknown) =>
+        extractStructuredData(
+          load(
+            jsonLd({
+              "@context": "https://schema.org",
+              "@type": "Corporation",
+              name: "Acme",
+              numberOfEmployees,
+            }),
+          ),
+        ).organization?.numberOfEmployees;
+
+      expect(org(250)).toBe("250");
+      expect(org({ "@type": "QuantitativeValue", value: 120 })).toBe("120");
+      expect(
+        org({ "@type": "QuantitativeValue", minValue: 51, maxValue: 200 }),
+      ).toBe("51-200");
+      expect(org({ "@type": "QuantitativeValue", minValue: 1000 })).toBe(
+        "1000+",
+      );
+    });
+
+    it("picks the organization with the most fields and skips malformed blocks", () => {
+      const $ = load(
+        `<script type="application/ld+json">{ not json</script>` +
+          jsonLd([
+            { "@type": "Organization", name: "Publisher" },
+            {
+              "@type": "LocalBusiness",
+              name: "Acme Bakery",
+              url: "https://acme.com",
+              telephone: "+1 512 555 0100",
+              contactPoint: {
+                "@type": "ContactPoint",
+                telephone: "+1 512 555 0199",
+              },
+            },
+          ]),
+      );
+
+      expect(extractStructuredData($).organization).toMatchObject({
+        name: "Acme Bakery",
+        telephones: ["+1 512 555 0100", "+1 512 555 0199"],
+      });
+    });
+
+    it("adds standalone Person nodes that work for the organization", () => {
+      const $ = load(
+        jsonLd({
+          "@context": "https://schema.org",
+          "@type": "Organization",
+          name: "Acme Inc",
+          url: "https://acme.com",
+        }) +
+          jsonLd({
+            "@context": "https://schema.org",
+            "@type": "Person",
+            givenName: "John",
+            familyName: "Smith",
+            jobTitle: { "@type": "DefinedTerm", name: "CTO" },
+            telephone: "+1 512 555 0101",
+            worksFor: { "@type": "Organization", name: "Acme Inc" },
+          }) +
+          jsonLd({
+            "@context": "https://schema.org",
+            "@type": "Person",
+            name: "Someone Else",
+            worksFor: { "@type": "Organization", name: "Other Corp" },
+          }),
+      );
+
+      expect(extractStructuredData($).people).toEqual([
+        {
+          name: "John Smith",
+          title: "CTO",
+          email: null,
+          phone: "+1 512 555 0101",
+        },
+      ]);
+    });
+  });
+
+  describe("microdata", () => {
+    it("reads nested scopes into the organization and its employees", () => {
+      const $ = load(`
+        <div itemscope itemtype="https://schema.org/Organization">
+          <h1 itemprop="name">Acme GmbH</h1>
+          <a itemprop="url" href="https://acme.de">Website</a>
+          <div itemprop="address" itemscope itemtype="https://schema.org/PostalAddress">
+            <span itemprop="streetAddress">Hauptstr. 1</span>
+            <span itemprop="postalCode">10115</span>
+            <span itemprop="addressLocality">Berlin</span>
+          </div>
+          <meta itemprop="foundingDate" content="1998">
+          <div itemprop="employee" itemscope itemtype="https://schema.org/Person">
+            <span itemprop="name">Erika Mustermann</span>
+            <span itemprop="jobTitle">Managing Director</span>
+            <a itemprop="email" href="mailto:erika@acme.de">erika@acme.de</a>
+          </div>
+        </div>
+      `);
+
+      const { organization, people } = extractStructuredData($);
+
+      expect(organization).toMatchObject({
+        name: "Acme GmbH",
+        url: "https://acme.de",
+        // Nested scope properties stay with their own node
+        address: "Hauptstr. 1, Berlin, 10115",
+        foundingDate: "1998",
+      });
+      expect(people).toEqual([
+        {
+          name: "Erika Mustermann",
+          title: "Managing Director",
+          email: "erika@acme.de",
+          matchScore: 1,
+        },
+      ]);
+    });
+  });
+
+  describe("RDFa", () => {
+    it("reads typeof scopes with prefixed types and properties", () => {
+      const $ = load(`
+        <div vocab="https://schema.org/" typeof="schema:Restaurant">
+          <span property="name">Chez Acme</span>
+          <span property="description">French bistro</span>
+          <div property="numberOfEmployees" typeof="QuantitativeValue">
+            <span property="value">12</span>
+          </div>
+        </div>
+      `);
+
+      expect(extractStructuredData($).organization).toMatchObject({
+        name: "Chez Acme",
+        description: "French bistro",
+        numberOfEmployees: "12",
+        types: ["Restaurant"],
+      });
+    });
+  });
+});
@@ -0,0 +1,587 @@
+import { Contact } from "../../../core/database/schema/scraping-items";
+
+/**
+ * Company fields read from schema.org markup
+ */
+export interface StructuredOrganization {
+  name: string | null;
+  url: string | null;
+  // PostalAddress parts joined as one line
+  address: string | null;
+  // A number, or "min-max" for a QuantitativeValue range
+  numberOfEmployees: string | null;
+  sameAs: string[];
+  foundingDate: string | null;
+  // As written, from telephone and contactPoint telephones; normalized by the caller
+  telephones: string[];
+  // schema.org types (e.g. "Restaurant"), description and NAICS code, for
+  // industry classification
+  types: string[];
+  description: string | null;
+  naics: string | null;
+}
+
+export interface StructuredDataResult {
+  organization: StructuredOrganization | null;
+  // Employee, founder and member Person nodes of the organization;
+  // phone is as written, not yet E.164
+  people: Contact[];
+}
+
+/**
+ * A schema.org node, whichever syntax (JSON-LD, microdata, RDFa) it came from
+ */
+interface SchemaNode {
+  types: string[];
+  properties: Map<string, SchemaValue[]>;
+}
+
+type SchemaValue = string | SchemaNode;
+
+const ORGANIZATION_TYPES = new Set([
+  "Organization",
+  "Corporation",
+  "LocalBusiness",
+  "NGO",
+  "GovernmentOrganization",
+  "EducationalOrganization",
+  "MedicalOrganization",
+  "NewsMediaOrganization",
+  "ProfessionalService",
+  "OnlineBusiness",
+  "OnlineStore",
+  "Store",
+  "Restaurant",
+  "FinancialService",
+  "LegalService",
+  "HealthAndBeautyBusiness",
+  "HomeAndConstructionBusiness",
+  "AutomotiveBusiness",
+  "SportsOrganization",
+  "ResearchOrganization",
+  "FoodEstablishment",
+  "CafeOrCoffeeShop",
+  "Bakery",
+  "BarOrPub",
+  "LodgingBusiness",
+  "Hotel",
+  "Hospital",
+  "MedicalClinic",
+  "Dentist",
+  "CollegeOrUniversity",
+  "School",
+  "BankOrCreditUnion",
+  "InsuranceAgency",
+  "AccountingService",
+  "Attorney",
+  "GeneralContractor",
+  "RealEstateAgent",
+  "EmploymentAgency",
+  "TravelAgency",
+  "EntertainmentBusiness",
+]);
+
+// Organization properties whose Person values are treated as contacts
+const PEOPLE_PROPERTIES = [
+  "employee",
+  "employees",
+  "founder",
+  "founders",
+  "member",
+  "members",
+];
+
+const ADDRESS_PARTS = [
+  "streetAddress",
+  "addressLocality",
+  "addressRegion",
+  "postalCode",
+  "addressCountry",
+];
+
+// Nesting depth followed when walking JSON-LD objects and @id references
+const MAX_DEPTH = 8;
+
+const normalizeText = (text: string): string =>
+  text.replace(/\s+/g, " ").trim();
+
+/**
+ * Local name of a schema.org term: "http://schema.org/Organization",
+ * "schema:Organization" and "Organization" all become "Organization"
+ */
+const localName = (term: string): string => term.trim().replace(/^.*[/#:]/, "");
+
+const isOrganization = (node: SchemaNode): boolean =>
+  node.types.some((type) => ORGANIZATION_TYPES.has(type));
+
+const isPerson = (node: SchemaNode): boolean => node.types.includes("Person");
+
+/**
+ * Read company fields and people from the page's JSON-LD, microdata and RDFa
+ *
+ * All three syntaxes are read into the same node shape. The organization
+ * node with the most populated fields wins; its employees and founders,
+ * and standalone Person nodes that work for it, become contacts.
+ *
+ * @param $ - Loaded page
+ * @returns The organization (null when the page has none) and its people
+ */
+export const extractStructuredData = (
+  $: cheerio.CheerioAPI,
+): StructuredDataResult => {
+  const roots = [...readJsonLd($), ...readMicrodata($), ...readRdfa($)];
+  const nodes = collectNodes(roots);
+
+  const organizations = nodes
+    .filter(isOrganization)
+    .map((node) => ({ node, fields: toOrganization(node) }));
+  if (organizations.length === 0) {
+    return { organization: null, people: [] };
+  }
+
+  const best = organizations.reduce((current, candidate) =>
+    countFields(candidate.fields) > countFields(current.fields)
+      ? candidate
+      : current,
+  );
+
+  const personNodes = PEOPLE_PROPERTIES.flatMap((property) =>
+    getNodes(best.node, property).filter(isPerson),
+  );
+  for (const node of nodes) {
+    if (
+      isPerson(node) &&
+      getNodes(node, "worksFor").some(
+        (employer) =>
+          employer === best.node ||
+          (!!best.fields.name &&
+            getText(employer, "name") === best.fields.name),
+      )
+    ) {
+      personNodes.push(node);
+    }
+  }
+
+  const people: Contact[] = [];
+  const seen = new Set<string>();
+  for (const node of personNodes) {
+    const contact = toContact(node);
+    const key = contact && (contact.email || contact.name).toLowerCase();
+    if (contact && key && !seen.has(key)) {
+      seen.add(key);
+      people.push(contact);
+    }
+  }
+
+  return { organization: best.fields, people };
+};
+
+/**
+ * Nodes of every <script type="application/ld+json"> block
+ * Top-level arrays and @graph lists are flattened; @id references to nodes
+ * defined elsewhere in the page are resolved
+ */
+const readJsonLd = ($: cheerio.CheerioAPI): SchemaNode[] => {
+  const objects: Record<string, unknown>[] = [];
+
+  $('script[type="application/ld+json" i]').each((_, element) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse($(element).html() ?? "");
+    } catch {
+      // Malformed blocks are common; skip them
+      return;
+    }
+
+    const pending = Array.isArray(parsed) ? parsed : [parsed];
+    while (pending.length > 0) {
+      const value = pending.shift();
+      if (!value || typeof value !== "object") {
+        continue;
+      }
+      if (Array.isArray(value)) {
+        pending.push(...value);
+        continue;
+      }
+      const object = value as Record<string, unknown>;
+      if (Array.isArray(object["@graph"])) {
+        pending.push(...(object["@graph"] as unknown[]));
+      }
+      if (object["@type"]) {
+        objects.push(object);
+      }
+    }
+  });
+
+  // Index every identified object, nested ones included, for @id references
+  const byId = new Map<string, Record<string, unknown>>();
+  const index = (value: unknown, depth: number) => {
+    if (!value || typeof value !== "object" || depth > MAX_DEPTH) {
+      return;
+    }
+    if (Array.isArray(value)) {
+      value.forEach((entry) => {
+        index(entry, depth + 1);
+      });
+      return;
+    }
+    const object = value as Record<string, unknown>;
+    if (typeof object["@id"] === "string" && object["@type"]) {
+      byId.set(object["@id"], object);
+    }
+    Object.values(object).forEach((entry) => {
+      index(entry, depth + 1);
+    });
+  };
+  objects.forEach((object) => {
+    index(object, 0);
+  });
+
+  const converted = new Map<Record<string, unknown>, SchemaNode>();
+  const toNode = (
+    object: Record<string, unknown>,
+    depth: number,
+  ): SchemaNode => {
+    const existing = converted.get(object);
+    if (existing) {
+      return existing;
+    }
+
+    const type = object["@type"];
+    const node: SchemaNode = {
+      types: (Array.isArray(type) ? type : [type])
+        .filter((entry): entry is string => typeof entry === "string")
+        .map(localName),
+      properties: new Map(),
+    };
+    converted.set(object, node);
+
+    for (const [key, raw] of Object.entries(object)) {
+      if (key.startsWith("@")) {
+        continue;
+      }
+      const values: SchemaValue[] = [];
+      for (const entry of Array.isArray(raw) ? raw : [raw]) {
+        const value = toValue(entry, depth + 1);
+        if (value !== null) {
+          values.push(value);
+        }
+      }
+      if (values.length > 0) {
+        node.properties.set(localName(key), values);
+      }
+    }
+    return node;
+  };
+
+  const toValue = (entry: unknown, depth: number): SchemaValue | null => {
+    if (typeof entry === "string") {
+      return normalizeText(entry) || null;
+    }
+    if (typeof entry === "number" || typeof entry === "boolean") {
+      return String(entry);
+    }
+    if (!entry || typeof entry !== "object" || depth > MAX_DEPTH) {
+      return null;
+    }
+
+    const object = entry as Record<string, unknown>;
+    if (object["@type"]) {
+      return toNode(object, depth);
+    }
+    const reference =
+      typeof object["@id"] === "string" ? byId.get(object["@id"]) : undefined;
+    if (reference) {
+      return toNode(reference, depth);
+    }
+    // Typed literal ({"@value": ...}) or bare @id link
+    const literal = object["@value"] ?? object["@id"];
+    return typeof literal === "string" || typeof literal === "number"
+      ? normalizeText(String(literal)) || null
+      : null;
+  };
+
+  return objects.map((object) => toNode(object, 0));
+};
+
+/**
+ * Top-level itemscope elements (those not themselves a property value)
+ */
+const readMicrodata = ($: cheerio.CheerioAPI): SchemaNode[] =>
+  $("[itemscope]")
+    .filter((_, element) => $(element).attr("itemprop") === undefined)
+    .toArray()
+    .map((element) =>
+      readScope($, element, {
+        scope: "[itemscope]",
+        type: "itemtype",
+        property: "itemprop",
+      }),
+    );
+
+/**
+ * Top-level RDFa typeof elements (those not themselves a property value)
+ */
+const readRdfa = ($: cheerio.CheerioAPI): SchemaNode[] =>
+  $("[typeof]")
+    .filter(
+      (_, element) =>
+        $(element).attr("property") === undefined &&
+        $(element).parent().closest("[typeof]").length === 0,
+    )
+    .toArray()
+    .map((element) =>
+      readScope($, element, {
+        scope: "[typeof]",
+        type: "typeof",
+        property: "property",
+      }),
+    );
+
+/**
+ * Read one microdata or RDFa scope: its properties are the descendants whose
+ * closest enclosing scope is this element
+ */
+const readScope = (
+  $: cheerio.CheerioAPI,
+  element: cheerio.Element,
+  attributes: { scope: string; type: string; property: string },
+  depth = 0,
+): SchemaNode => {
+  const node: SchemaNode = {
+    types: ($(element).attr(attributes.type) ?? "")
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(localName),
+    properties: new Map(),
+  };
+
+  $(element)
+    .find(`[${attributes.property}]`)
+    .each((_, child) => {
+      if ($(child).parent().closest(attributes.scope)[0] !== element) {
+        return;
+      }
+
+      const value: SchemaValue | null =
+        $(child).is(attributes.scope) && depth < MAX_DEPTH
+          ? readScope($, child, attributes, depth + 1)
+          : readPropertyValue($, child);
+      if (value === null) {
+        return;
+      }
+
+      for (const name of ($(child).attr(attributes.property) ?? "")
+        .split(/\s+/)
+        .filter(Boolean)
+        .map(localName)) {
+        node.properties.set(name, [
+          ...(node.properties.get(name) ?? []),
+          value,
+        ]);
+      }
+    });
+
+  return node;
+};
+
+/**
+ * Literal value of a microdata or RDFa property element
+ */
+const readPropertyValue = (
+  $: cheerio.CheerioAPI,
+  element: cheerio.Element,
+): string | null => {
+  const $element = $(element);
+  const tagName = (element as cheerio.TagElement).tagName?.toLowerCase();
+
+  let value: string | undefined = $element.attr("content");
+  if (value === undefined) {
+    if (tagName === "a" || tagName === "link" || tagName === "area") {
+      value = $element.attr("href");
+    } else if (
+      ["img", "audio", "video", "source", "iframe"].includes(tagName)
+    ) {
+      value = $element.attr("src");
+    } else if (tagName === "time") {
+      value = $element.attr("datetime");
+    } else if (tagName === "data" || tagName === "meter") {
+      value = $element.attr("value");
+    }
+  }
+  value ??= $element.attr("resource") ?? $element.text();
+
+  return normalizeText(value) || null;
+};
+
+/**
+ * Every node reachable from the roots, each once, in document order
+ */
+const collectNodes = (roots: SchemaNode[]): SchemaNode[] => {
+  const nodes: SchemaNode[] = [];
+  const seen = new Set<SchemaNode>();
+  const visit = (node: SchemaNode) => {
+    if (seen.has(node)) {
+      return;
+    }
+    seen.add(node);
+    nodes.push(node);
+    for (const values of node.properties.values()) {
+      for (const value of values) {
+        if (typeof value !== "string") {
+          visit(value);
+        }
+      }
+    }
+  };
+  roots.forEach(visit);
+  return nodes;
+};
+
+const getText = (node: SchemaNode, property: string): string | null => {
+  const value = node.properties
+    .get(property)
+    ?.find((entry): entry is string => typeof entry === "string");
+  return value ?? null;
+};
+
+const getNodes = (node: SchemaNode, property: string): SchemaNode[] =>
+  (node.properties.get(property) ?? []).filter(
+    (entry): entry is SchemaNode => typeof entry !== "string",
+  );
+
+/**
+ * Text of a property that may be a literal or a node with a name
+ * (e.g. addressCountry "DE" or {"@type": "Country", "name": "Germany"})
+ */
+const getTextOrName = (node: SchemaNode, property: string): string | null =>
+  getText(node, property) ??
+  getNodes(node, property)
+    .map((value) => getText(value, "name"))
+    .find((name) => !!name) ??
+  null;
+
+const toOrganization = (node: SchemaNode): StructuredOrganization => ({
+  name: getText(node, "name") ?? getText(node, "legalName"),
+  url: getText(node, "url"),
+  address: getAddress(node),
+  numberOfEmployees: getNumberOfEmployees(node),
+  sameAs: [
+    ...new Set(
+      (node.properties.get("sameAs") ?? []).filter(
+        (value): value is string =>
+          typeof value === "string" && /^https?:\/\//i.test(value),
+      ),
+    ),
+  ],
+  foundingDate: getText(node, "foundingDate"),
+  telephones: [
+    ...new Set(
+      [node, ...getNodes(node, "contactPoint")].flatMap((entry) =>
+        (entry.properties.get("telephone") ?? []).filter(
+          (value): value is string => typeof value === "string",
+        ),
+      ),
+    ),
+  ],
+  types: node.types,
+  description: getText(node, "description"),
+  naics: getText(node, "naics"),
+});
+
+const countFields = (organization: StructuredOrganization): number =>
+  [
+    organization.name,
+    organization.url,
+    organization.address,
+    organization.numberOfEmployees,
+    organization.foundingDate,
+  ].filter(Boolean).length +
+  (organization.sameAs.length > 0 ? 1 : 0) +
+  (organization.telephones.length > 0 ? 1 : 0);
+
+/**
+ * Address of an organization: a text address, a PostalAddress joined as
+ * "street, city, region, postal code, country", or the address of its location
+ */
+const getAddress = (node: SchemaNode, depth = 0): string | null => {
+  const text = getText(node, "address");
+  if (text) {
+    return text;
+  }
+
+  for (const address of getNodes(node, "address")) {
+    const parts = ADDRESS_PARTS.map((part) =>
+      getTextOrName(address, part),
+    ).filter((part): part is string => !!part);
+    if (parts.length > 0) {
+      return parts.join(", ");
+    }
+  }
+
+  if (depth === 0) {
+    for (const location of getNodes(node, "location")) {
+      const address = getAddress(location, depth + 1);
+      if (address) {
+        return address;
+      }
+    }
+    return getText(node, "location");
+  }
+  return null;
+};
+
+/**
+ * numberOfEmployees as a number, or a QuantitativeValue's value or min-max range
+ */
+const getNumberOfEmployees = (node: SchemaNode): string | null => {
+  const text = getText(node, "numberOfEmployees");
+  if (text) {
+    return text;
+  }
+
+  for (const quantity of getNodes(node, "numberOfEmployees")) {
+    const value = getText(quantity, "value");
+    if (value) {
+      return value;
+    }
+    const min = getText(quantity, "minValue");
+    const max = getText(quantity, "maxValue");
+    if (min && max) {
+      return `${min}-${max}`;
+    }
+    if (min) {
+      return `${min}+`;
+    }
+  }
+  return null;
+};
+
+/**
+ * Contact from a Person node; nodes without a name are skipped
+ */
+const toContact = (node: SchemaNode): Contact | null => {
+  const name =
+    getText(node, "name") ??
+    (normalizeText(
+      [getText(node, "givenName"), getText(node, "familyName")]
+        .filter(Boolean)
+        .join(" "),
+    ) ||
+      null);
+  if (!name) {
+    return null;
+  }
+
+  const email = getText(node, "email")
+    ?.replace(/^mailto:/i, "")
+    .trim()
+    .toLowerCase();
+  const title = getTextOrName(node, "jobTitle") ?? getText(node, "roleName");
+  const phone = getText(node, "telephone");
+
+  const contact: Contact = email?.includes("@")
+    ? { name, title, email, matchScore: 1 }
+    : { name, title, email: null };
+  return phone ? { ...contact, phone } : contact;
+};
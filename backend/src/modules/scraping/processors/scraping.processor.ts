@@ -1,7 +1,7 @@
 import { Processor, WorkerHost, OnWorkerEvent } from "@nestjs/bullmq";
 import { Logger } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
-import { Job } from "bullmq";
+import { DelayedError, Job } from "bullmq";
 import axios, { AxiosError } from "axios";
 import * as cheerio from "cheerio";
 import nlp from "compromise";
@@ -10,8 +10,55 @@ import { Agent as HttpAgent } from "http";
 import { Agent as HttpsAgent } from "https";
 import { ScrapingRepository } from "../../../core/database/repositories/scraping.repository";
 import { ScrapeJobData } from "../services/scraping-queue.service";
-import { Contact } from "../../../core/database/schema/scraping-items";
+import {
+  Contact,
+  ErrorCategory,
+  ExtractionMethod,
+  FieldSource,
+  IndustryClassification,
+  SOCIAL_NETWORKS,
+  SocialProfiles,
+  StructuredCompanyData,
+} from "../../../core/database/schema/scraping-items";
+import { CrawlOptions } from "../../../core/database/schema/scraping-jobs";
 import { ENV } from "../../../common/constants/string-const";
+import { discoverCrawlLinks, normalizeHost } from "../extractors/crawl-links";
+import { matchContacts, matchPhones } from "../extractors/contact-matcher";
+import {
+  extractStructuredData,
+  StructuredOrganization,
+} from "../extractors/structured-data";
+import {
+  extractPhoneCandidates,
+  inferPhoneCountry,
+  normalizePhoneNumber,
+  PhoneCandidate,
+} from "../extractors/phone-numbers";
+import {
+  extractSocialProfiles,
+  isSocialUrl,
+} from "../extractors/social-profiles";
+import { canonicalizeUrl } from "../utils/url-canonicalizer";
+import { toHqAddress } from "../utils/address-parser";
+import { toHeadcount } from "../utils/headcount-parser";
+import {
+  classifyIndustry,
+  IndustrySignals,
+} from "../utils/industry-classifier";
+import {
+  RobotsTxtService,
+  RobotsDisallowedError,
+} from "../services/robots-txt.service";
+import {
+  HostThrottleService,
+  HostLease,
+  HostPolicy,
+} from "../services/host-throttle.service";
+import { CompanyHistoryService } from "../services/company-history.service";
+import { CompanyService } from "../../companies/services/company.service";
+import { ContactService } from "../../contacts/services/contact.service";
+import { classifyEmail } from "../../contacts/utils/email-classifier";
+import { getCompanyDomain } from "../../companies/utils/registrable-domain";
 
 /**
  * Interface for extracted company data
@@ -24,6 +71,85 @@ interface CompanyData {
   hqLocation: string | null;
 }
 
+/**
+ * Company data with the extraction layer used for each populated field
+ */
+interface ParsedCompanyData {
+  data: CompanyData;
+  methods: Partial<Record<keyof CompanyData, ExtractionMethod>>;
+}
+
+/**
+ * A fetched page, loaded once and shared by link discovery and extraction
+ */
+interface FetchedPage {
+  url: string;
+  depth: number;
+  html: string;
+  $: cheerio.CheerioAPI;
+}
+
+/**
+ * Thrown before a fetch when the item's job has been cancelled
+ * The processor maps it to the "cancelled" item status
+ */
+class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = "JobCancelledError";
+  }
+}
+
+/**
+ * Thrown by fetchHtml with the failure classified for retry filtering
+ */
+class FetchError extends Error {
+  constructor(
+    message: string,
+    public readonly category: ErrorCategory,
+  ) {
+    super(message);
+    this.name = "FetchError";
+  }
+}
+
+/**
+ * Host lease held while processing an item, with the policy it was granted under
+ */
+interface HostThrottle {
+  lease: HostLease;
+  policy: HostPolicy;
+}
+
+const COMPANY_FIELDS: (keyof CompanyData)[] = [
+  "companyName",
+  "website",
+  "industry",
+  "headcountRange",
+  "hqLocation",
+];
+
+/**
+ * Preference order when the same field is found on several crawled pages
+ * Lower rank wins; ties go to the page crawled first
+ */
+const EXTRACTION_METHOD_RANK: Record<ExtractionMethod, number> = {
+  selector: 0,
+  structured: 1,
+  fallback: 2,
+  ner: 3,
+};
+
+/**
+ * Company phone numbers kept per item, in page order
+ */
+const MAX_COMPANY_PHONES = 10;
+
+/**
+ * Characters of visible page text stored per item for full-text search
+ */
+const PAGE_TEXT_EXCERPT_LENGTH = 5000;
+
 /**
  * CSS selectors for HTML parsing with fallback patterns
  */
@@ -50,7 +176,6 @@ const FALLBACK_SELECTORS = {
     'meta[name="application-name"]',
     ".company-title",
     ".business-name",
-    '[itemtype*="Organization"] [itemprop="name"]',
   ],
   WEBSITE: [
     'a[href*="http"]',
@@ -98,6 +223,11 @@ export class ScrapingProcessor extends WorkerHost {
   constructor(
     private readonly scrapingRepository: ScrapingRepository,
     private readonly configService: ConfigService,
+    private readonly robotsTxtService: RobotsTxtService,
+    private readonly hostThrottleService: HostThrottleService,
+    private readonly companyHistoryService: CompanyHistoryService,
+    private readonly companyService: CompanyService,
+    private readonly contactService: ContactService,
   ) {
     super();
 
@@ -119,9 +249,11 @@ export class ScrapingProcessor extends WorkerHost {
   /**
    * Main process method called by BullMQ for each job
    * Processes a single URL per job for parallel execution
+   * Jobs for a host that is at its concurrency cap or rate limit are moved
+   * back to the delayed set instead of holding a worker slot
    */
-  async process(job: Job<ScrapeJobData>): Promise<void> {
-    const { itemId, url, jobId } = job.data;
+  async process(job: Job<ScrapeJobData>, token?: string): Promise<void> {
+    const { itemId, url, jobId, crawl, ignoreRobotsTxt } = job.data;
     const requestId = crypto.randomUUID();
 
     this.logger.log("Processing single URL job", {
@@ -135,7 +267,34 @@ export class ScrapingProcessor extends WorkerHost {
     });
 
     try {
-      await this.processItem(itemId, url, jobId);
+      const host = normalizeHost(new URL(url).hostname);
+      const policy = await this.getHostPolicy(url, ignoreRobotsTxt);
+      const acquired = await this.hostThrottleService.tryAcquire(host, policy);
+
+      if (!acquired.granted) {
+        this.logger.log("Host throttled, delaying job", {
+          operation: "process",
+          requestId,
+          itemId,
+          host,
+          jobId,
+          bullmqJobId: job.id,
+          retryAfterMs: acquired.retryAfterMs,
+          timestamp: new Date().toISOString(),
+        });
+
+        await job.moveToDelayed(Date.now() + acquired.retryAfterMs, token);
+        throw new DelayedError();
+      }
+
+      try {
+        await this.processItem(itemId, url, jobId, crawl, ignoreRobotsTxt, {
+          lease: acquired.lease,
+          policy,
+        });
+      } finally {
+        await this.hostThrottleService.release(acquired.lease);
+      }
 
       this.logger.log("URL processing completed successfully", {
         operation: "process",
@@ -147,6 +306,10 @@ export class ScrapingProcessor extends WorkerHost {
         timestamp: new Date().toISOString(),
       });
     } catch (error) {
+      if (error instanceof DelayedError) {
+        throw error;
+      }
+
       const errorStack = error instanceof Error ? error.stack : "";
       this.logger.error(
         "URL processing failed",
@@ -199,12 +362,17 @@ export class ScrapingProcessor extends WorkerHost {
 
   /**
    * Process a single scraping item
-   * Fetches HTML, parses data, and updates database
+   * Fetches HTML (plus linked about/team/contact pages in crawl mode),
+   * parses data, and updates database
+   * URLs blocked by robots.txt are marked "disallowed" rather than "failed"
    */
   private async processItem(
     itemId: string,
     url: string,
     jobId: string,
+    crawl: CrawlOptions | undefined,
+    ignoreRobotsTxt: boolean | undefined,
+    throttle: HostThrottle,
   ): Promise<void> {
     const requestId = crypto.randomUUID();
 
@@ -218,10 +386,24 @@ export class ScrapingProcessor extends WorkerHost {
     });
 
     try {
-      // Update item status to "processing"
-      await this.scrapingRepository.updateItemStatus(itemId, "processing", {
-        startedAt: new Date(),
-      });
+      // Update item status to "processing" unless the job was cancelled meanwhile
+      const claimed =
+        await this.scrapingRepository.claimItemForProcessing(itemId);
+
+      if (!claimed) {
+        this.logger.log(
+          "Item was cancelled or paused before processing, skipping",
+          {
+            operation: "processItem",
+            requestId,
+            itemId,
+            url,
+            jobId,
+            timestamp: new Date().toISOString(),
+          },
+        );
+        return;
+      }
 
       this.logger.log("Item status updated to processing", {
         operation: "processItem",
@@ -231,28 +413,36 @@ export class ScrapingProcessor extends WorkerHost {
         timestamp: new Date().toISOString(),
       });
 
-      // Apply rate limiting before fetching
-      await this.applyRateLimit();
-
-      // Fetch HTML content
-      const html = await this.fetchHtml(url);
+      // Fetch the submitted page and, in crawl mode, linked pages
+      const pages = await this.fetchPages(
+        url,
+        jobId,
+        crawl,
+        !!ignoreRobotsTxt,
+        throttle,
+      );
 
       this.logger.log("HTML fetched successfully", {
         operation: "processItem",
         requestId,
         itemId,
         url,
-        htmlLength: html.length,
+        pageCount: pages.length,
+        htmlLength: pages[0].html.length,
         timestamp: new Date().toISOString(),
       });
 
-      // Parse company data and contacts with shared cheerio instance
-      const $ = cheerio.load(html) as unknown as cheerio.CheerioAPI;
-      const companyData = this.parseCompanyData($, itemId);
-      const contacts = this.parseContacts($, itemId);
-
-      // Clear NER cache for this item after processing
-      this.nerCache.delete(itemId);
+      // Parse company data and contacts from every page and merge them
+      const {
+        companyData,
+        contacts,
+        phones,
+        socialProfiles,
+        structuredData,
+        industryClassification,
+        fieldSources,
+        pageTextExcerpt,
+      } = this.extractFromPages(pages, itemId);
 
       this.logger.log("Data parsed successfully", {
         operation: "processItem",
@@ -267,14 +457,24 @@ export class ScrapingProcessor extends WorkerHost {
       // Update item with extracted data
       await this.scrapingRepository.updateItemStatus(itemId, "completed", {
         ...companyData,
+        ...industryClassification,
+        ...toHeadcount(companyData.headcountRange),
+        ...toHqAddress(companyData.hqLocation),
         contacts,
+        phones,
+        socialProfiles,
+        structuredData,
+        fieldSources,
+        pageTextExcerpt,
         rawData: {
           url,
-          htmlLength: html.length,
+          htmlLength: pages[0].html.length,
+          pagesCrawled: pages.map((page) => page.url),
           scrapedAt: new Date().toISOString(),
         },
         finishedAt: new Date(),
         lastError: null,
+        errorCategory: null,
       });
 
       this.logger.log("Item completed successfully", {
@@ -284,11 +484,48 @@ export class ScrapingProcessor extends WorkerHost {
         url,
         timestamp: new Date().toISOString(),
       });
+
+      await this.recordFieldHistory(itemId, requestId);
+      await this.linkCompany(itemId, requestId);
+      // After linkCompany so contacts pick up the item's company
+      await this.recordContacts(itemId, requestId);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       const errorStack = error instanceof Error ? error.stack : "";
 
+      if (error instanceof JobCancelledError) {
+        this.logger.log("Item stopped because its job was cancelled", {
+          operation: "processItem",
+          requestId,
+          itemId,
+          url,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+
+        await this.scrapingRepository.updateItemStatus(itemId, "cancelled", {
+          finishedAt: new Date(),
+        });
+        return;
+      }
+
+      if (error instanceof RobotsDisallowedError) {
+        this.logger.warn("Item disallowed by robots.txt", {
+          operation: "processItem",
+          requestId,
+          itemId,
+          url,
+          timestamp: new Date().toISOString(),
+        });
+
+        await this.scrapingRepository.updateItemStatus(itemId, "disallowed", {
+          lastError: errorMessage,
+          finishedAt: new Date(),
+        });
+        return;
+      }
+
       this.logger.error(
         "Item processing failed",
         {
@@ -302,9 +539,10 @@ export class ScrapingProcessor extends WorkerHost {
         errorStack,
       );
 
-      // Update item status to "failed" with error message
+      // Update item status to "failed" with error message and category
       await this.scrapingRepository.updateItemStatus(itemId, "failed", {
         lastError: errorMessage,
+        errorCategory: error instanceof FetchError ? error.category : "other",
         finishedAt: new Date(),
       });
 
@@ -346,6 +584,426 @@ export class ScrapingProcessor extends WorkerHost {
     }
   }
 
+  /**
+   * Add a completed item's values to its URL's field history
+   * Failures are logged only; the item itself is already completed
+   */
+  private async recordFieldHistory(
+    itemId: string,
+    requestId: string,
+  ): Promise<void> {
+    try {
+      await this.companyHistoryService.recordItem(itemId);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        "Failed to record field history",
+        {
+          operation: "recordFieldHistory",
+          requestId,
+          itemId,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+    }
+  }
+
+  /**
+   * Merge a completed item into the canonical company of its domain
+   * Failures are logged only; the item itself is already completed
+   */
+  private async linkCompany(itemId: string, requestId: string): Promise<void> {
+    try {
+      await this.companyService.linkItem(itemId);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        "Failed to link item to company",
+        {
+          operation: "linkCompany",
+          requestId,
+          itemId,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+    }
+  }
+
+  /**
+   * Add a completed item's contacts to the deduplicated contacts table
+   * Failures are logged only; the item itself is already completed
+   */
+  private async recordContacts(
+    itemId: string,
+    requestId: string,
+  ): Promise<void> {
+    try {
+      await this.contactService.recordItem(itemId);
+    } catch (error) {
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        "Failed to record contacts",
+        {
+          operation: "recordContacts",
+          requestId,
+          itemId,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+    }
+  }
+
+  /**
+   * Fetch the submitted URL and, when crawl mode is enabled, follow same-domain
+   * about/team/contact links breadth-first within the depth and page budget
+   * A failing start URL fails the item; failing or disallowed linked pages are skipped
+   * The start URL uses the rate token claimed with the host lease; each linked
+   * page waits for its own token
+   * Stops with JobCancelledError as soon as the job is cancelled
+   */
+  private async fetchPages(
+    url: string,
+    jobId: string,
+    crawl: CrawlOptions | undefined,
+    ignoreRobotsTxt: boolean,
+    throttle: HostThrottle,
+  ): Promise<FetchedPage[]> {
+    const html = await this.fetchPage(url, jobId, ignoreRobotsTxt, null);
+    const pages: FetchedPage[] = [
+      { url, depth: 0, html, $: this.loadHtml(html) },
+    ];
+
+    if (!crawl?.enabled || crawl.maxPages <= 1) {
+      return pages;
+    }
+
+    const rootHost = normalizeHost(new URL(url).hostname);
+    const visited = new Set<string>([canonicalizeUrl(url) ?? url]);
+    const frontier: { url: string; depth: number }[] = [];
+
+    const enqueueLinks = (page: FetchedPage) => {
+      if (page.depth >= crawl.maxDepth) {
+        return;
+      }
+      for (const link of discoverCrawlLinks(page.$, page.url, rootHost)) {
+        const key = canonicalizeUrl(link) ?? link;
+        if (!visited.has(key)) {
+          visited.add(key);
+          frontier.push({ url: link, depth: page.depth + 1 });
+        }
+      }
+    };
+
+    enqueueLinks(pages[0]);
+
+    while (pages.length < crawl.maxPages) {
+      const next = frontier.shift();
+      if (!next) {
+        break;
+      }
+
+      try {
+        const pageHtml = await this.fetchPage(
+          next.url,
+          jobId,
+          ignoreRobotsTxt,
+          throttle,
+        );
+        const page: FetchedPage = {
+          ...next,
+          html: pageHtml,
+          $: this.loadHtml(pageHtml),
+        };
+        pages.push(page);
+        enqueueLinks(page);
+      } catch (error) {
+        if (error instanceof JobCancelledError) {
+          throw error;
+        }
+
+        this.logger.warn("Skipping crawled page that failed to load", {
+          operation: "fetchPages",
+          url: next.url,
+          startUrl: url,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+
+    this.logger.log("Crawl finished", {
+      operation: "fetchPages",
+      url,
+      pageCount: pages.length,
+      pendingLinks: frontier.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    return pages;
+  }
+
+  /**
+   * Fetch a single page after checking robots.txt
+   * When a throttle is given, waits for the host's next rate token first
+   *
+   * @throws JobCancelledError if the job was cancelled
+   * @throws RobotsDisallowedError if robots.txt disallows the URL
+   */
+  private async fetchPage(
+    url: string,
+    jobId: string,
+    ignoreRobotsTxt: boolean,
+    throttle: HostThrottle | null,
+  ): Promise<string> {
+    if (!ignoreRobotsTxt) {
+      const robots = await this.robotsTxtService.check(url);
+      if (!robots.allowed) {
+        throw new RobotsDisallowedError(url);
+      }
+    }
+
+    if (throttle) {
+      await this.hostThrottleService.waitForTurn(
+        throttle.lease,
+        throttle.policy,
+      );
+    }
+
+    // Checked right before the request so a cancel during a throttle wait is honoured
+    const jobStatus = await this.scrapingRepository.findJobStatus(jobId);
+    if (jobStatus === "cancelled") {
+      throw new JobCancelledError(jobId);
+    }
+
+    return this.fetchHtml(url);
+  }
+
+  /**
+   * Load HTML into a cheerio instance
+   */
+  private loadHtml(html: string): cheerio.CheerioAPI {
+    return cheerio.load(html) as unknown as cheerio.CheerioAPI;
+  }
+
+  /**
+   * Extract company data and contacts from every fetched page into one record
+   * Each field keeps the value from the most reliable extraction layer
+   * (earliest page on ties) and records which page it came from
+   */
+  private extractFromPages(
+    pages: FetchedPage[],
+    itemId: string,
+  ): {
+    companyData: CompanyData;
+    contacts: Contact[] | null;
+    phones: string[] | null;
+    socialProfiles: SocialProfiles | null;
+    structuredData: StructuredCompanyData | null;
+    industryClassification: IndustryClassification;
+    fieldSources: Record<string, FieldSource>;
+    pageTextExcerpt: string | null;
+  } {
+    const companyData: CompanyData = {
+      companyName: null,
+      website: null,
+      industry: null,
+      headcountRange: null,
+      hqLocation: null,
+    };
+    const fieldSources: Record<string, FieldSource> = {};
+    const contacts: Contact[] = [];
+    const seenContacts = new Set<string>();
+    // Numbers as written; normalized once the HQ country is known
+    const rawPhones: string[] = [];
+    const sameAs = new Set<string>();
+    // The first page linking a network's profile wins
+    const socialProfiles: SocialProfiles = {};
+    let foundingDate: string | null = null;
+    // Industry hints beyond the raw industry field
+    const industrySignals: Required<
+      Omit<IndustrySignals, "industry" | "pageText">
+    > = {
+      keywords: null,
+      descriptions: [],
+      schemaTypes: [],
+      naics: null,
+    };
+
+    for (const page of pages) {
+      const cacheKey = `${itemId}:${page.url}`;
+      const structured = extractStructuredData(page.$);
+      const { data, methods } = this.parseCompanyData(
+        page.$,
+        cacheKey,
+        structured.organization,
+      );
+
+      structured.organization?.sameAs.forEach((url) => sameAs.add(url));
+      foundingDate ??= structured.organization?.foundingDate ?? null;
+
+      industrySignals.keywords ??=
+        page.$('meta[name="keywords"]').attr("content")?.trim() || null;
+      industrySignals.naics ??= structured.organization?.naics ?? null;
+      industrySignals.schemaTypes.push(
+        ...(structured.organization?.types ?? []),
+      );
+      industrySignals.descriptions.push(
+        ...[
+          page.$("title").first().text(),
+          page.$('meta[name="description"]').attr("content"),
+          page.$('meta[property="og:description"]').attr("content"),
+          structured.organization?.description,
+        ].flatMap((text) => text?.trim() || []),
+      );
+
+      const pageProfiles = extractSocialProfiles(
+        page.$,
+        page.url,
+        structured.organization?.sameAs ?? [],
+      );
+      for (const network of SOCIAL_NETWORKS) {
+        socialProfiles[network] ??= pageProfiles[network];
+      }
+
+      for (const field of COMPANY_FIELDS) {
+        const value = data[field];
+        const method = methods[field];
+        if (value === null || !method) {
+          continue;
+        }
+
+        const current = fieldSources[field];
+        if (
+          !current ||
+          EXTRACTION_METHOD_RANK[method] <
+            EXTRACTION_METHOD_RANK[current.method]
+        ) {
+          companyData[field] = value;
+          fieldSources[field] = { url: page.url, method };
+        }
+      }
+
+      const phoneCandidates = extractPhoneCandidates(page.$);
+      const pageContacts =
+        this.parseContacts(
+          page.$,
+          cacheKey,
+          structured.people,
+          phoneCandidates,
+        ) ?? [];
+      for (const contact of pageContacts) {
+        const key = (contact.email || contact.name).toLowerCase();
+        if (!seenContacts.has(key)) {
+          seenContacts.add(key);
+          contacts.push({ ...contact, sourceUrl: page.url });
+        }
+      }
+
+      // Numbers next to a person are theirs, not the company's
+      const personalPhones = new Set(
+        pageContacts.map((contact) => contact.phone),
+      );
+      rawPhones.push(
+        ...(structured.organization?.telephones ?? []),
+        ...phoneCandidates
+          .map((candidate) => candidate.raw)
+          .filter((raw) => !personalPhones.has(raw)),
+      );
+
+      // Clear NER cache for this page after processing
+      this.nerCache.delete(cacheKey);
+    }
+
+    // Classified once the company domain is known, for the domain match
+    const companyDomain = getCompanyDomain(
+      pages[0]?.url,
+      companyData.website,
+      fieldSources.website,
+    );
+    // National-format numbers are read in the HQ (or TLD) country
+    const phoneCountry = inferPhoneCountry(
+      companyData.hqLocation,
+      companyDomain,
+    );
+
+    const finalContacts = contacts.map((contact) => {
+      const { phone: rawPhone, ...rest } = contact;
+      const phone = rawPhone && normalizePhoneNumber(rawPhone, phoneCountry);
+      const classified: Contact = contact.email
+        ? { ...rest, ...classifyEmail(contact.email, companyDomain) }
+        : rest;
+      return phone ? { ...classified, phone } : classified;
+    });
+
+    const contactPhones = new Set(
+      finalContacts.map((contact) => contact.phone),
+    );
+    const phones = [
+      ...new Set(
+        rawPhones.flatMap((raw) => {
+          const phone = normalizePhoneNumber(raw, phoneCountry);
+          return phone && !contactPhones.has(phone) ? [phone] : [];
+        }),
+      ),
+    ].slice(0, MAX_COMPANY_PHONES);
+
+    const pageTextExcerpt = this.extractPageText(pages);
+    const industryClassification = classifyIndustry({
+      ...industrySignals,
+      industry: companyData.industry,
+      pageText: pageTextExcerpt,
+      // Shared titles and descriptions across pages count once
+      descriptions: [...new Set(industrySignals.descriptions)],
+      schemaTypes: [...new Set(industrySignals.schemaTypes)],
+    });
+
+    return {
+      companyData,
+      contacts: finalContacts.length > 0 ? finalContacts : null,
+      phones: phones.length > 0 ? phones : null,
+      socialProfiles: SOCIAL_NETWORKS.some((network) => socialProfiles[network])
+        ? socialProfiles
+        : null,
+      structuredData:
+        sameAs.size > 0 || foundingDate
+          ? { sameAs: [...sameAs], foundingDate }
+          : null,
+      industryClassification,
+      fieldSources,
+      pageTextExcerpt,
+    };
+  }
+
+  /**
+   * Visible text of the crawled pages in crawl order, whitespace-normalized
+   * and truncated to PAGE_TEXT_EXCERPT_LENGTH characters
+   */
+  private extractPageText(pages: FetchedPage[]): string | null {
+    let excerpt = "";
+
+    for (const page of pages) {
+      if (excerpt.length >= PAGE_TEXT_EXCERPT_LENGTH) {
+        break;
+      }
+
+      const body = page.$("body").clone();
+      body.find("script, style, noscript, template, svg").remove();
+      const text = body.text().replace(/\s+/g, " ").trim();
+
+      if (text) {
+        excerpt = excerpt ? `${excerpt} ${text}` : text;
+      }
+    }
+
+    return excerpt.slice(0, PAGE_TEXT_EXCERPT_LENGTH) || null;
+  }
+
   /**
    * Fetch HTML content from URL using axios
    * Includes timeout and User-Agent header
@@ -366,8 +1024,7 @@ export class ScrapingProcessor extends WorkerHost {
         httpAgent: this.httpAgent,
         httpsAgent: this.httpsAgent,
         headers: {
-          "User-Agent":
-            "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/131.0.0.0 Safari/537.36",
+          "User-Agent": this.robotsTxtService.getUserAgent(),
           Accept:
             "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
           "Accept-Language": "en-US,en;q=0.9",
@@ -392,6 +1049,7 @@ export class ScrapingProcessor extends WorkerHost {
       return response.data;
     } catch (error) {
       let errorMessage = "Unknown error";
+      let errorCategory: ErrorCategory = "other";
       let statusCode: number | undefined;
 
       if (axios.isAxiosError(error)) {
@@ -400,14 +1058,25 @@ export class ScrapingProcessor extends WorkerHost {
 
         if (statusCode && statusCode >= 400) {
           errorMessage = `HTTP ${statusCode}`;
-        } else if (axiosError.code === "ECONNABORTED") {
+          errorCategory = statusCode >= 500 ? "http_5xx" : "http_4xx";
+        } else if (
+          axiosError.code === "ECONNABORTED" ||
+          axiosError.code === "ETIMEDOUT"
+        ) {
           errorMessage = "Request timeout";
+          errorCategory = "timeout";
         } else if (axiosError.code === "ECONNREFUSED") {
           errorMessage = "Connection refused";
-        } else if (axiosError.code === "ENOTFOUND") {
+          errorCategory = "connection";
+        } else if (
+          axiosError.code === "ENOTFOUND" ||
+          axiosError.code === "EAI_AGAIN"
+        ) {
           errorMessage = "DNS resolution failed";
+          errorCategory = "dns";
         } else if (axiosError.code === "ECONNRESET") {
           errorMessage = "Connection reset by server";
+          errorCategory = "connection";
         } else {
           errorMessage = axiosError.message;
         }
@@ -424,22 +1093,25 @@ export class ScrapingProcessor extends WorkerHost {
           url,
           statusCode,
           error: errorMessage,
+          errorCategory,
           timestamp: new Date().toISOString(),
         },
         errorStack,
       );
 
-      throw new Error(errorMessage);
+      throw new FetchError(errorMessage, errorCategory);
     }
   }
 
   /**
    * Try fallback selectors to extract value
    * Fixed logic to properly handle different selector types
+   * Values rejected by accept are skipped; for anchors the next matching link is tried
    */
   private tryFallbackSelectors(
     $: cheerio.CheerioAPI,
     selectors: string[],
+    accept: (value: string) => boolean = () => true,
   ): string | null {
     for (const selector of selectors) {
       let value: string | undefined;
@@ -456,7 +1128,10 @@ export class ScrapingProcessor extends WorkerHost {
           value = $(selector).attr("href");
         } else if (selector.includes("[href")) {
           // Anchor tags with href in selector
-          value = $(selector).first().attr("href");
+          value = $(selector)
+            .toArray()
+            .map((element) => $(element).attr("href")?.trim())
+            .find((href) => !!href && accept(href));
         } else {
           // Regular selectors use text content
           value = $(selector).first().text();
@@ -464,7 +1139,7 @@ export class ScrapingProcessor extends WorkerHost {
 
         if (value) {
           const cleaned = value.trim();
-          if (cleaned.length > 0 && cleaned.length < 500) {
+          if (cleaned.length > 0 && cleaned.length < 500 && accept(cleaned)) {
             // Avoid extremely long extractions
             return cleaned;
           }
@@ -544,9 +1219,14 @@ export class ScrapingProcessor extends WorkerHost {
   /**
    * Parse company data from HTML using Cheerio
    * Extracts company name, website, industry, headcount, and location
-   * Now accepts CheerioAPI instance for better performance
+   * Returns the extraction layer used for each populated field
+   * Schema.org markup is used after the structured selectors and before the fallbacks
    */
-  private parseCompanyData($: cheerio.CheerioAPI, itemId: string): CompanyData {
+  private parseCompanyData(
+    $: cheerio.CheerioAPI,
+    itemId: string,
+    organization: StructuredOrganization | null,
+  ): ParsedCompanyData {
     const requestId = crypto.randomUUID();
 
     this.logger.log("Parsing company data", {
@@ -563,7 +1243,37 @@ export class ScrapingProcessor extends WorkerHost {
       let headcountRange = $(SELECTORS.HEADCOUNT).text().trim() || null;
       let hqLocation = $(SELECTORS.LOCATION).text().trim() || null;
 
-      // Layer 2: Try fallback selectors for missing data
+      const methods: ParsedCompanyData["methods"] = {};
+      const markFound = (
+        field: keyof CompanyData,
+        value: string | null,
+        method: ExtractionMethod,
+      ) => {
+        if (value && !methods[field]) {
+          methods[field] = method;
+        }
+      };
+      markFound("companyName", companyName, "selector");
+      markFound("website", website, "selector");
+      markFound("industry", industry, "selector");
+      markFound("headcountRange", headcountRange, "selector");
+      markFound("hqLocation", hqLocation, "selector");
+
+      // Layer 2: Use schema.org markup (JSON-LD, microdata, RDFa) for missing data
+      if (organization) {
+        companyName ||= organization.name;
+        if (organization.url && !isSocialUrl(organization.url)) {
+          website ||= organization.url;
+        }
+        headcountRange ||= organization.numberOfEmployees;
+        hqLocation ||= organization.address;
+        markFound("companyName", companyName, "structured");
+        markFound("website", website, "structured");
+        markFound("headcountRange", headcountRange, "structured");
+        markFound("hqLocation", hqLocation, "structured");
+      }
+
+      // Layer 3: Try fallback selectors for missing data
       if (!companyName) {
         companyName = this.tryFallbackSelectors(
           $,
@@ -571,7 +1281,12 @@ export class ScrapingProcessor extends WorkerHost {
         );
       }
       if (!website) {
-        website = this.tryFallbackSelectors($, FALLBACK_SELECTORS.WEBSITE);
+        // Social profile links are never the company's own website
+        website = this.tryFallbackSelectors(
+          $,
+          FALLBACK_SELECTORS.WEBSITE,
+          (value) => !isSocialUrl(value),
+        );
       }
       if (!industry) {
         industry = this.tryFallbackSelectors($, FALLBACK_SELECTORS.INDUSTRY);
@@ -585,12 +1300,18 @@ export class ScrapingProcessor extends WorkerHost {
       if (!hqLocation) {
         hqLocation = this.tryFallbackSelectors($, FALLBACK_SELECTORS.LOCATION);
       }
+      markFound("companyName", companyName, "fallback");
+      markFound("website", website, "fallback");
+      markFound("industry", industry, "fallback");
+      markFound("headcountRange", headcountRange, "fallback");
+      markFound("hqLocation", hqLocation, "fallback");
 
-      // Layer 3: Try NER extraction for company name and location if still missing
+      // Layer 4: Try NER extraction for company name and location if still missing
       if (!companyName || !hqLocation) {
         const nerData = this.extractWithNER($, itemId);
         if (!companyName && nerData.companyName) {
           companyName = nerData.companyName;
+          markFound("companyName", companyName, "ner");
           this.logger.log("Company name extracted using NER", {
             operation: "parseCompanyData",
             requestId,
@@ -600,6 +1321,7 @@ export class ScrapingProcessor extends WorkerHost {
         }
         if (!hqLocation && nerData.hqLocation) {
           hqLocation = nerData.hqLocation;
+          markFound("hqLocation", hqLocation, "ner");
           this.logger.log("Location extracted using NER", {
             operation: "parseCompanyData",
             requestId,
@@ -627,7 +1349,7 @@ export class ScrapingProcessor extends WorkerHost {
         timestamp: new Date().toISOString(),
       });
 
-      return companyData;
+      return { data: companyData, methods };
     } catch (error) {
       const errorStack = error instanceof Error ? error.stack : "";
       this.logger.error(
@@ -643,11 +1365,14 @@ export class ScrapingProcessor extends WorkerHost {
 
       // Return null values on parsing failure (graceful degradation)
       return {
-        companyName: null,
-        website: null,
-        industry: null,
-        headcountRange: null,
-        hqLocation: null,
+        data: {
+          companyName: null,
+          website: null,
+          industry: null,
+          headcountRange: null,
+          hqLocation: null,
+        },
+        methods: {},
       };
     }
   }
@@ -667,12 +1392,15 @@ export class ScrapingProcessor extends WorkerHost {
 
   /**
    * Parse contact information from HTML using Cheerio
-   * Extracts contact cards with name, title, and email
+   * Extracts contact cards with name, title, and email, then schema.org Person nodes
+   * Phone numbers next to a contact's name are attached as written
    * Now accepts CheerioAPI instance for better performance
    */
   private parseContacts(
     $: cheerio.CheerioAPI,
     itemId: string,
+    structuredPeople: Contact[],
+    phoneCandidates: PhoneCandidate[],
   ): Contact[] | null {
     const requestId = crypto.randomUUID();
 
@@ -693,42 +1421,46 @@ export class ScrapingProcessor extends WorkerHost {
 
         // Only add contact if all fields are present
         if (name && title && email) {
-          contacts.push({ name, title, email });
+          contacts.push({ name, title, email, matchScore: 1 });
         }
       });
 
-      // Layer 2: If no structured contacts found, try extracting people names using NER
+      // Layer 2: Employee and founder Person nodes from schema.org markup
+      const cardKeys = new Set(
+        contacts.map((contact) =>
+          (contact.email || contact.name).toLowerCase(),
+        ),
+      );
+      contacts.push(
+        ...structuredPeople.filter(
+          (person) =>
+            !cardKeys.has((person.email || person.name).toLowerCase()),
+        ),
+      );
+
+      // Layer 3: If no structured contacts found, try extracting people names using NER
       if (contacts.length === 0) {
         const nerData = this.extractWithNER($, itemId);
 
-        if (nerData.people.length > 0 && nerData.emails.length > 0) {
-          // Improved matching: create unique email set and match with people
-          const uniqueEmails = [...new Set(nerData.emails)];
-          const maxMatches = Math.min(
-            nerData.people.length,
-            uniqueEmails.length,
+        if (nerData.people.length > 0) {
+          // Pair names with emails and titles by DOM proximity; people without
+          // a confident match (or on a page without emails) are kept as
+          // name-only contacts
+          const matched = matchContacts(
+            $,
+            nerData.people.filter(
+              (person) => person.length > 1 && person.length < 100,
+            ),
+            (email) => classifyEmail(email, null).emailType !== "invalid",
           );
-
-          // Match first N people with first N unique emails
-          for (let i = 0; i < maxMatches; i++) {
-            const person = nerData.people[i];
-            const email = uniqueEmails[i];
-
-            // Basic validation: person name should be reasonable length
-            if (person && person.length > 1 && person.length < 100) {
-              contacts.push({
-                name: person,
-                title: "Unknown",
-                email: email,
-              });
-            }
-          }
+          contacts.push(...matched);
 
           if (contacts.length > 0) {
             this.logger.log("Contacts extracted using NER", {
               operation: "parseContacts",
               requestId,
               contactCount: contacts.length,
+              matchedCount: matched.filter((contact) => contact.email).length,
               peopleFound: nerData.people.length,
               emailsFound: nerData.emails.length,
               timestamp: new Date().toISOString(),
@@ -737,16 +1469,28 @@ export class ScrapingProcessor extends WorkerHost {
         }
       }
 
+      // Phone numbers sitting next to a person; schema.org phones are kept
+      const phonesByName = matchPhones(
+        $,
+        contacts.filter((contact) => !contact.phone).map((c) => c.name),
+        phoneCandidates,
+      );
+      const withPhones = contacts.map((contact) => {
+        const phone = contact.phone ?? phonesByName.get(contact.name);
+        return phone ? { ...contact, phone } : contact;
+      });
+
       this.logger.log("Contacts parsed successfully", {
         operation: "parseContacts",
         requestId,
         contactCount: contacts.length,
+        phoneCount: phonesByName.size,
         extractionMethod: contacts.length > 0 ? "structured or NER" : "none",
         timestamp: new Date().toISOString(),
       });
 
       // Return null instead of empty array if no contacts found
-      return contacts.length > 0 ? contacts : null;
+      return withPhones.length > 0 ? withPhones : null;
     } catch (error) {
       const errorStack = error instanceof Error ? error.stack : "";
       this.logger.error(
@@ -766,20 +1510,29 @@ export class ScrapingProcessor extends WorkerHost {
   }
 
   /**
-   * Apply rate limiting delay between requests
-   * Uses REQUEST_DELAY_MS environment variable
+   * Build the politeness policy for a URL's host
+   * REQUEST_DELAY_MS is the per-host spacing; a longer robots.txt Crawl-delay wins
    */
-  private async applyRateLimit(): Promise<void> {
-    const delayMs = this.configService.get<number>(ENV.REQUEST_DELAY_MS, 500);
-
-    if (delayMs > 0) {
-      this.logger.log("Applying rate limit", {
-        operation: "applyRateLimit",
-        delayMs,
-        timestamp: new Date().toISOString(),
-      });
-
-      await new Promise((resolve) => setTimeout(resolve, delayMs));
+  private async getHostPolicy(
+    url: string,
+    ignoreRobotsTxt?: boolean,
+  ): Promise<HostPolicy> {
+    let intervalMs = this.configService.get<number>(ENV.REQUEST_DELAY_MS, 500);
+
+    if (!ignoreRobotsTxt) {
+      const { crawlDelayMs } = await this.robotsTxtService.check(url);
+      if (crawlDelayMs && crawlDelayMs > intervalMs) {
+        intervalMs = crawlDelayMs;
+      }
     }
+
+    return {
+      intervalMs,
+      burst: this.configService.get<number>(ENV.HOST_BURST, 1),
+      maxConcurrency: this.configService.get<number>(
+        ENV.HOST_MAX_CONCURRENCY,
+        2,
+      ),
+    };
   }
 }
@@ -5,12 +5,15 @@ import {
   HttpCode,
   HttpStatus,
   Logger,
+  Query,
+  ValidationPipe,
 } from "@nestjs/common";
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiBadRequestResponse,
   ApiUnauthorizedResponse,
   ApiInternalServerErrorResponse,
 } from "@nestjs/swagger";
@@ -18,7 +21,12 @@ import { AuthGuard } from "../../common/guards/auth.guard";
 import { CurrentUser } from "../../common/decorators/current-user.decorator";
 import { ScrapingService } from "./services/scraping.service";
 import { ScrapingItemDto } from "./dto/scraping-responses.dto";
-import { successResponse } from "../../common/helpers/api-response.helper";
+import {
+  DEFAULT_PAGE_SIZE,
+  ListScrapingItemsQueryDto,
+} from "./dto/list-scraping-query.dto";
+import { paginatedResponse } from "../../common/helpers/api-response.helper";
+import { validationExceptionFactory } from "../../common/helpers/validation-errors.helper";
 
 /**
  * Controller for managing scraping items
@@ -34,14 +42,14 @@ export class ScrapingItemsController {
   constructor(private readonly scrapingService: ScrapingService) {}
 
   /**
-   * List all scraping items across all jobs for the authenticated user
+   * List scraping items across all jobs for the authenticated user, one page at a time
    */
   @Get()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: "List all scraping items",
+    summary: "List scraping items",
     description:
-      "Retrieve a list of all scraping items from all jobs created by the authenticated user, ordered by creation date (newest first). Includes extracted company data and contact information.",
+      "Retrieve one page of the scraping items from all jobs created by the authenticated user, newest first by default. Includes extracted company data and contact information. Filter by status, job, creation date, industry, location, company name and whether contacts were found; sort by createdAt, finishedAt or companyName; pass pagination.nextCursor as cursor to get the next page.",
   })
   @ApiResponse({
     status: 200,
@@ -57,6 +65,7 @@ export class ScrapingItemsController {
             id: "456e7890-e89b-12d3-a456-426614174000",
             jobId: "123e4567-e89b-12d3-a456-426614174000",
             url: "https://example.com/company",
+            canonicalUrl: "https://example.com/company",
             status: "completed",
             lastError: null,
             startedAt: "2023-12-01T10:05:00.000Z",
@@ -73,14 +82,22 @@ export class ScrapingItemsController {
                 email: "john.smith@acme.com",
               },
             ],
+            metadata: { Owner: "jane@sales.com" },
             rawData: { url: "https://example.com/company", htmlLength: 5000 },
             createdAt: "2023-12-01T10:00:00.000Z",
             updatedAt: "2023-12-01T10:06:00.000Z",
           },
         ],
+        pagination: {
+          limit: 50,
+          nextCursor: "WyIyMDIzLTEyLTAxIDEwOjAwOjAwLjEyMyIsIjQ1NmU3ODkwIl0",
+        },
       },
     },
   })
+  @ApiBadRequestResponse({
+    description: "Invalid filter, sort or cursor",
+  })
   @ApiUnauthorizedResponse({
     description: "Invalid or missing authentication token",
     schema: {
@@ -95,7 +112,18 @@ export class ScrapingItemsController {
   @ApiInternalServerErrorResponse({
     description: "Internal server error while retrieving items",
   })
-  async listItems(@CurrentUser("id") userId: string) {
+  async listItems(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: ListScrapingItemsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
     const requestId = crypto.randomUUID();
 
     this.logger.log("List items request received", {
@@ -106,17 +134,24 @@ export class ScrapingItemsController {
     });
 
     try {
-      const items = await this.scrapingService.listItems(userId);
+      const page = await this.scrapingService.listItems(userId, query);
 
       this.logger.log("Items retrieved successfully", {
         operation: "listItems",
         requestId,
         userId,
-        itemCount: items.length,
+        itemCount: page.items.length,
         timestamp: new Date().toISOString(),
       });
 
-      return successResponse(items, "Items retrieved successfully");
+      return paginatedResponse(
+        page.items,
+        {
+          limit: query.limit ?? DEFAULT_PAGE_SIZE,
+          nextCursor: page.nextCursor,
+        },
+        "Items retrieved successfully",
+      );
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
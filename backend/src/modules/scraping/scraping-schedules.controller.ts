@@ -0,0 +1,235 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  ParseUUIDPipe,
+  HttpCode,
+  HttpStatus,
+  Logger,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiBadRequestResponse,
+  ApiNotFoundResponse,
+  ApiInternalServerErrorResponse,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../../common/guards/auth.guard";
+import { CurrentUser } from "../../common/decorators/current-user.decorator";
+import { ScrapingScheduleService } from "./services/scraping-schedule.service";
+import { ScrapingScheduleDto } from "./dto/scraping-responses.dto";
+import { successResponse } from "../../common/helpers/api-response.helper";
+
+/**
+ * Controller for managing recurring re-scrape schedules
+ * Schedules are created via POST /scraping-jobs/:id/schedule
+ * All endpoints require authentication via AuthGuard
+ */
+@ApiTags("Scraping Schedules")
+@Controller("scraping-schedules")
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+export class ScrapingSchedulesController {
+  private readonly logger = new Logger(ScrapingSchedulesController.name);
+
+  constructor(
+    private readonly scrapingScheduleService: ScrapingScheduleService,
+  ) {}
+
+  /**
+   * List all schedules of the authenticated user
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "List all scraping schedules",
+    description:
+      "Retrieve all re-scrape schedules of the authenticated user, including disabled ones, ordered by creation date (newest first).",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Schedules retrieved successfully",
+    type: [ScrapingScheduleDto],
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Schedules retrieved successfully",
+        data: [
+          {
+            id: "0b7e6f2a-5c1d-4e8f-9a3b-2d4c6e8f0a1b",
+            jobId: "123e4567-e89b-12d3-a456-426614174000",
+            userId: "987e6543-e21b-12d3-a456-426614174000",
+            cronExpression: "0 6 1 * *",
+            timeZone: "UTC",
+            enabled: true,
+            nextRunAt: "2024-01-01T06:00:00.000Z",
+            lastRunAt: "2023-12-01T06:00:00.000Z",
+            lastRunJobId: "456e7890-e89b-12d3-a456-426614174000",
+            createdAt: "2023-11-20T10:00:00.000Z",
+            updatedAt: "2023-12-01T06:00:00.000Z",
+          },
+        ],
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-schedules",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving schedules",
+  })
+  async listSchedules(@CurrentUser("id") userId: string) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("List schedules request received", {
+      operation: "listSchedules",
+      requestId,
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const schedules =
+        await this.scrapingScheduleService.listSchedules(userId);
+
+      this.logger.log("Schedules retrieved successfully", {
+        operation: "listSchedules",
+        requestId,
+        userId,
+        scheduleCount: schedules.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(schedules, "Schedules retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve schedules",
+        {
+          operation: "listSchedules",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Disable a schedule so it creates no further runs
+   */
+  @Post(":id/disable")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Disable a scraping schedule",
+    description:
+      "Stop a schedule from creating new runs. Existing runs and their history are kept; re-enable by scheduling the job again. Only accessible by the schedule owner.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Schedule disabled successfully",
+    type: ScrapingScheduleDto,
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid UUID format",
+  })
+  @ApiNotFoundResponse({
+    description: "Schedule not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message:
+          "Schedule not found or you do not have access to this schedule",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-schedules/0b7e6f2a-5c1d-4e8f-9a3b-2d4c6e8f0a1b/disable",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-schedules/0b7e6f2a-5c1d-4e8f-9a3b-2d4c6e8f0a1b/disable",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while disabling the schedule",
+  })
+  async disableSchedule(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Disable schedule request received", {
+      operation: "disableSchedule",
+      requestId,
+      userId,
+      scheduleId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const schedule = await this.scrapingScheduleService.disableSchedule(
+        id,
+        userId,
+      );
+
+      this.logger.log("Schedule disabled successfully", {
+        operation: "disableSchedule",
+        requestId,
+        userId,
+        scheduleId: id,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(schedule, "Schedule disabled successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to disable schedule",
+        {
+          operation: "disableSchedule",
+          requestId,
+          userId,
+          scheduleId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+}
@@ -11,7 +11,12 @@ import {
   HttpCode,
   HttpStatus,
   Logger,
+  ValidationPipe,
+  Query,
+  Res,
+  StreamableFile,
 } from "@nestjs/common";
+import { Response } from "express";
 import { FileInterceptor } from "@nestjs/platform-express";
 import {
   ApiTags,
@@ -20,24 +25,43 @@ import {
   ApiConsumes,
   ApiBody,
   ApiBearerAuth,
+  ApiProduces,
   ApiUnauthorizedResponse,
   ApiBadRequestResponse,
+  ApiForbiddenResponse,
   ApiNotFoundResponse,
   ApiInternalServerErrorResponse,
 } from "@nestjs/swagger";
 import { AuthGuard } from "../../common/guards/auth.guard";
 import { CurrentUser } from "../../common/decorators/current-user.decorator";
 import { ScrapingService } from "./services/scraping.service";
+import { ScrapingScheduleService } from "./services/scraping-schedule.service";
+import { ScrapingExportService } from "./services/scraping-export.service";
 import { CreateScrapingJobDto } from "./dto/create-scraping-job.dto";
+import { CreateScrapingJobFromUrlsDto } from "./dto/create-scraping-job-from-urls.dto";
+import { RetryScrapingJobDto } from "./dto/retry-scraping-job.dto";
+import { CreateScrapingScheduleDto } from "./dto/create-scraping-schedule.dto";
+import { ExportScrapingJobQueryDto } from "./dto/export-scraping-job-query.dto";
 import {
+  DEFAULT_PAGE_SIZE,
+  ListScrapingJobsQueryDto,
+} from "./dto/list-scraping-query.dto";
+import {
+  CancelScrapingJobResponseDto,
   CreateScrapingJobResponseDto,
+  PauseScrapingJobResponseDto,
+  ResumeScrapingJobResponseDto,
+  RetryScrapingJobResponseDto,
   JobWithItemsDto,
   ScrapingJobDto,
+  ScrapingScheduleDto,
 } from "./dto/scraping-responses.dto";
 import {
   successResponse,
   createdResponse,
+  paginatedResponse,
 } from "../../common/helpers/api-response.helper";
+import { validationExceptionFactory } from "../../common/helpers/validation-errors.helper";
 
 /**
  * Controller for managing scraping jobs
@@ -50,7 +74,11 @@ import {
 export class ScrapingController {
   private readonly logger = new Logger(ScrapingController.name);
 
-  constructor(private readonly scrapingService: ScrapingService) { }
+  constructor(
+    private readonly scrapingService: ScrapingService,
+    private readonly scrapingScheduleService: ScrapingScheduleService,
+    private readonly scrapingExportService: ScrapingExportService,
+  ) {}
 
   /**
    * Create a new scraping job
@@ -63,7 +91,7 @@ export class ScrapingController {
   @ApiOperation({
     summary: "Create a new scraping job",
     description:
-      "Create a new scraping job by uploading a text file with URLs (one per line) or using the mock server mode. Only one input method can be used at a time.",
+      "Create a new scraping job by uploading a text file with URLs (one per line), a CSV/XLSX spreadsheet, or using the mock server mode. For spreadsheets, choose the URL or domain column with urlColumn/domainColumn (auto-detected from headers like Website or Domain when omitted); all other columns are kept as item metadata. URLs are canonicalized (https, lowercase host without www, tracking parameters and trailing slash removed) and duplicates are collapsed; the response reports how many URLs were dropped and why. Only one input method can be used at a time.",
   })
   @ApiBody({
     schema: {
@@ -72,7 +100,26 @@ export class ScrapingController {
         file: {
           type: "string",
           format: "binary",
-          description: "Text file containing URLs (one per line)",
+          description:
+            "Text file containing URLs (one per line), or a CSV/XLSX file with a header row",
+        },
+        urlColumn: {
+          type: "string",
+          description:
+            "CSV/XLSX only: header of the column holding the URL to scrape",
+          example: "Website",
+        },
+        domainColumn: {
+          type: "string",
+          description:
+            "CSV/XLSX only: header of the column holding a bare domain (cannot be combined with urlColumn)",
+          example: "Domain",
+        },
+        options: {
+          type: "string",
+          description:
+            "Optional JSON-encoded job options (same shape as the JSON endpoint's options)",
+          example: '{"label":"Q4 fintech leads"}',
         },
         useMockServer: {
           type: "boolean",
@@ -94,6 +141,21 @@ export class ScrapingController {
         message: "Scraping job created successfully",
         data: {
           jobId: "123e4567-e89b-12d3-a456-426614174000",
+          acceptedUrls: 1,
+          droppedUrls: 2,
+          dropReasons: { invalid: 0, duplicate: 2 },
+          droppedSamples: [
+            {
+              url: "https://www.acme.com/",
+              reason: "duplicate",
+              duplicateOf: "http://acme.com",
+            },
+            {
+              url: "https://acme.com/?utm_source=x",
+              reason: "duplicate",
+              duplicateOf: "http://acme.com",
+            },
+          ],
         },
       },
     },
@@ -110,6 +172,17 @@ export class ScrapingController {
       },
     },
   })
+  @ApiForbiddenResponse({
+    description: "ignoreRobotsTxt option set by a non-admin user",
+    schema: {
+      example: {
+        statusCode: 403,
+        message: "Only admins can disable robots.txt compliance for a job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs",
+      },
+    },
+  })
   @ApiUnauthorizedResponse({
     description: "Invalid or missing authentication token",
     schema: {
@@ -128,6 +201,7 @@ export class ScrapingController {
     @UploadedFile() file: Express.Multer.File,
     @Body() dto: CreateScrapingJobDto,
     @CurrentUser("id") userId: string,
+    @CurrentUser("role") userRole: string,
   ) {
     const requestId = crypto.randomUUID();
 
@@ -147,6 +221,9 @@ export class ScrapingController {
         userId,
         file,
         dto.useMockServer,
+        { urlColumn: dto.urlColumn, domainColumn: dto.domainColumn },
+        dto.options,
+        userRole,
       );
 
       this.logger.log("Scraping job created successfully", {
@@ -183,14 +260,154 @@ export class ScrapingController {
   }
 
   /**
-   * List all scraping jobs for the authenticated user
+   * Create a new scraping job from a JSON list of URLs
+   * Intended for backend integrations that cannot send multipart uploads
+   */
+  @Post("urls")
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: "Create a scraping job from a JSON list of URLs",
+    description:
+      "Create a new scraping job by posting an array of URLs with optional per-job options. Uses the same validation, canonicalization, item creation and queueing as the file upload endpoint.",
+  })
+  @ApiBody({ type: CreateScrapingJobFromUrlsDto })
+  @ApiResponse({
+    status: 201,
+    description: "Scraping job created successfully",
+    type: CreateScrapingJobResponseDto,
+    schema: {
+      example: {
+        statusCode: 201,
+        success: true,
+        message: "Scraping job created successfully",
+        data: {
+          jobId: "123e4567-e89b-12d3-a456-426614174000",
+          acceptedUrls: 1,
+          droppedUrls: 2,
+          dropReasons: { invalid: 0, duplicate: 2 },
+          droppedSamples: [
+            {
+              url: "https://www.acme.com/",
+              reason: "duplicate",
+              duplicateOf: "http://acme.com",
+            },
+            {
+              url: "https://acme.com/?utm_source=x",
+              reason: "duplicate",
+              duplicateOf: "http://acme.com",
+            },
+          ],
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid request body - missing, empty or invalid URLs",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "each value in urls must be a valid http(s) URL",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/urls",
+      },
+    },
+  })
+  @ApiForbiddenResponse({
+    description: "ignoreRobotsTxt option set by a non-admin user",
+    schema: {
+      example: {
+        statusCode: 403,
+        message: "Only admins can disable robots.txt compliance for a job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/urls",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/urls",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error during job creation",
+  })
+  async createJobFromUrls(
+    @Body(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    dto: CreateScrapingJobFromUrlsDto,
+    @CurrentUser("id") userId: string,
+    @CurrentUser("role") userRole: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Create scraping job from URLs request received", {
+      operation: "createJobFromUrls",
+      requestId,
+      userId,
+      urlCount: dto.urls.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.scrapingService.createJobFromUrls(
+        userId,
+        dto,
+        userRole,
+      );
+
+      this.logger.log("Scraping job created successfully", {
+        operation: "createJobFromUrls",
+        requestId,
+        userId,
+        jobId: result.jobId,
+        timestamp: new Date().toISOString(),
+      });
+
+      return createdResponse(result, "Scraping job created successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to create scraping job from URLs",
+        {
+          operation: "createJobFromUrls",
+          requestId,
+          userId,
+          urlCount: dto.urls.length,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * List scraping jobs for the authenticated user, one page at a time
    */
   @Get()
   @HttpCode(HttpStatus.OK)
   @ApiOperation({
-    summary: "List all scraping jobs",
+    summary: "List scraping jobs",
     description:
-      "Retrieve a list of all scraping jobs created by the authenticated user, ordered by creation date (newest first).",
+      "Retrieve one page of the scraping jobs created by the authenticated user, newest first by default. Filter by status and creation date, sort by createdAt, updatedAt or totalUrls, and pass pagination.nextCursor as cursor to get the next page.",
   })
   @ApiResponse({
     status: 200,
@@ -209,13 +426,21 @@ export class ScrapingController {
             totalUrls: 10,
             processedUrls: 5,
             failedUrls: 1,
+            cancelledUrls: 0,
             createdAt: "2023-12-01T10:00:00.000Z",
             updatedAt: "2023-12-01T10:30:00.000Z",
           },
         ],
+        pagination: {
+          limit: 50,
+          nextCursor: "WyIyMDIzLTEyLTAxIDEwOjAwOjAwLjEyMyIsIjEyM2U0NTY3Il0",
+        },
       },
     },
   })
+  @ApiBadRequestResponse({
+    description: "Invalid filter, sort or cursor",
+  })
   @ApiUnauthorizedResponse({
     description: "Invalid or missing authentication token",
     schema: {
@@ -230,7 +455,18 @@ export class ScrapingController {
   @ApiInternalServerErrorResponse({
     description: "Internal server error while retrieving jobs",
   })
-  async listJobs(@CurrentUser("id") userId: string) {
+  async listJobs(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: ListScrapingJobsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
     const requestId = crypto.randomUUID();
 
     this.logger.log("List jobs request received", {
@@ -241,17 +477,24 @@ export class ScrapingController {
     });
 
     try {
-      const jobs = await this.scrapingService.listJobs(userId);
+      const page = await this.scrapingService.listJobs(userId, query);
 
       this.logger.log("Jobs retrieved successfully", {
         operation: "listJobs",
         requestId,
         userId,
-        jobCount: jobs.length,
+        jobCount: page.items.length,
         timestamp: new Date().toISOString(),
       });
 
-      return successResponse(jobs, "Jobs retrieved successfully");
+      return paginatedResponse(
+        page.items,
+        {
+          limit: query.limit ?? DEFAULT_PAGE_SIZE,
+          nextCursor: page.nextCursor,
+        },
+        "Jobs retrieved successfully",
+      );
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -301,6 +544,7 @@ export class ScrapingController {
             totalUrls: 10,
             processedUrls: 5,
             failedUrls: 1,
+            cancelledUrls: 0,
             createdAt: "2023-12-01T10:00:00.000Z",
             updatedAt: "2023-12-01T10:30:00.000Z",
           },
@@ -309,6 +553,7 @@ export class ScrapingController {
               id: "456e7890-e89b-12d3-a456-426614174000",
               jobId: "123e4567-e89b-12d3-a456-426614174000",
               url: "https://example.com/company",
+              canonicalUrl: "https://example.com/company",
               status: "completed",
               lastError: null,
               startedAt: "2023-12-01T10:05:00.000Z",
@@ -325,6 +570,7 @@ export class ScrapingController {
                   email: "john.smith@acme.com",
                 },
               ],
+              metadata: { Owner: "jane@sales.com" },
               rawData: { url: "https://example.com/company", htmlLength: 5000 },
               createdAt: "2023-12-01T10:00:00.000Z",
               updatedAt: "2023-12-01T10:06:00.000Z",
@@ -419,4 +665,830 @@ export class ScrapingController {
       throw error;
     }
   }
+
+  /**
+   * Download a job's results as a file
+   * Items are streamed from the database, so large jobs are not built in memory
+   */
+  @Get(":id/export")
+  @HttpCode(HttpStatus.OK)
+  @ApiProduces(
+    "text/csv",
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+    "application/json",
+    "application/x-ndjson",
+  )
+  @ApiOperation({
+    summary: "Export scraping job results",
+    description:
+      "Download the items of a job as CSV, XLSX, JSON or NDJSON without the API response envelope. Use layout=contact for one row per contact (companies without contacts keep one row) and columns to choose and order the columns. Only accessible by the job owner.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "File download of the job results",
+  })
+  @ApiBadRequestResponse({
+    description:
+      "Invalid job ID format, unknown format or layout, or columns not available in the chosen layout",
+  })
+  @ApiUnauthorizedResponse({
+    description: "Missing or invalid authentication token",
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or user does not have access to this job",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while exporting job results",
+  })
+  async exportJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: ExportScrapingJobQueryDto,
+    @CurrentUser("id") userId: string,
+    @Res({ passthrough: true }) res: Response,
+  ): Promise<StreamableFile> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Export job request received", {
+      operation: "exportJob",
+      requestId,
+      userId,
+      jobId: id,
+      format: query.format,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.scrapingExportService.exportJob(
+        id,
+        userId,
+        query,
+      );
+
+      // Stop reading from the database when the client disconnects early
+      res.once("close", () => result.stream.destroy());
+
+      this.logger.log("Job export started", {
+        operation: "exportJob",
+        requestId,
+        userId,
+        jobId: id,
+        format: query.format,
+        timestamp: new Date().toISOString(),
+      });
+
+      return new StreamableFile(result.stream, {
+        type: result.contentType,
+        disposition: `attachment; filename="${result.filename}"`,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to export job",
+        {
+          operation: "exportJob",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Cancel a running scraping job
+   */
+  @Post(":id/cancel")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Cancel a scraping job",
+    description:
+      "Stop a pending or processing job. Items that have not started are marked `cancelled` and removed from the queue; items already being fetched stop before their next request. Only accessible by the job owner.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Job cancelled successfully",
+    type: CancelScrapingJobResponseDto,
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Job cancelled successfully",
+        data: {
+          jobId: "123e4567-e89b-12d3-a456-426614174000",
+          status: "cancelled",
+          cancelledItems: 42,
+          inFlightItems: 3,
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid UUID format or job already finished",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "Job is already completed and cannot be cancelled",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/cancel",
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "Job not found or you do not have access to this job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/cancel",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/cancel",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while cancelling the job",
+  })
+  async cancelJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Cancel job request received", {
+      operation: "cancelJob",
+      requestId,
+      userId,
+      jobId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.scrapingService.cancelJob(id, userId);
+
+      this.logger.log("Job cancelled successfully", {
+        operation: "cancelJob",
+        requestId,
+        userId,
+        jobId: id,
+        cancelledItems: result.cancelledItems,
+        inFlightItems: result.inFlightItems,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Job cancelled successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to cancel job",
+        {
+          operation: "cancelJob",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Pause a running scraping job
+   */
+  @Post(":id/pause")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Pause a scraping job",
+    description:
+      "Stop picking up new items of one job without affecting other users. Items that have not started are parked and removed from the queue; items already being fetched finish normally. Only accessible by the job owner.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Job paused successfully",
+    type: PauseScrapingJobResponseDto,
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Job paused successfully",
+        data: {
+          jobId: "123e4567-e89b-12d3-a456-426614174000",
+          status: "paused",
+          pausedItems: 42,
+          inFlightItems: 3,
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid UUID format or job not pending/processing",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "Job is completed and cannot be paused",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/pause",
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "Job not found or you do not have access to this job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/pause",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/pause",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while pausing the job",
+  })
+  async pauseJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Pause job request received", {
+      operation: "pauseJob",
+      requestId,
+      userId,
+      jobId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.scrapingService.pauseJob(id, userId);
+
+      this.logger.log("Job paused successfully", {
+        operation: "pauseJob",
+        requestId,
+        userId,
+        jobId: id,
+        pausedItems: result.pausedItems,
+        inFlightItems: result.inFlightItems,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Job paused successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to pause job",
+        {
+          operation: "pauseJob",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Resume a paused scraping job
+   */
+  @Post(":id/resume")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Resume a scraping job",
+    description:
+      "Re-enqueue the parked items of a paused job. Only accessible by the job owner.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Job resumed successfully",
+    type: ResumeScrapingJobResponseDto,
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Job resumed successfully",
+        data: {
+          jobId: "123e4567-e89b-12d3-a456-426614174000",
+          status: "processing",
+          resumedItems: 42,
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid UUID format or job not paused",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "Job is processing and cannot be resumed",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/resume",
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "Job not found or you do not have access to this job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/resume",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/resume",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while resuming the job",
+  })
+  async resumeJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Resume job request received", {
+      operation: "resumeJob",
+      requestId,
+      userId,
+      jobId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.scrapingService.resumeJob(id, userId);
+
+      this.logger.log("Job resumed successfully", {
+        operation: "resumeJob",
+        requestId,
+        userId,
+        jobId: id,
+        resumedItems: result.resumedItems,
+        status: result.status,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Job resumed successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to resume job",
+        {
+          operation: "resumeJob",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Retry the failed items of a scraping job
+   */
+  @Post(":id/retry")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Retry failed items of a scraping job",
+    description:
+      "Reset failed items to `pending` and re-enqueue them, optionally only those with the given `errorCategories`. The job's counters are recalculated and a failed or completed job moves back to `processing`. Only accessible by the job owner.",
+  })
+  @ApiBody({ type: RetryScrapingJobDto, required: false })
+  @ApiResponse({
+    status: 200,
+    description: "Failed items re-enqueued successfully",
+    type: RetryScrapingJobResponseDto,
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Failed items re-enqueued successfully",
+        data: {
+          jobId: "123e4567-e89b-12d3-a456-426614174000",
+          status: "processing",
+          retriedItems: 7,
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description:
+      "Invalid UUID or error category, job paused/cancelled, or no failed items match",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "No failed items match the given error categories",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/retry",
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "Job not found or you do not have access to this job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/retry",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/retry",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrying the job",
+  })
+  async retryJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    dto: RetryScrapingJobDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Retry job request received", {
+      operation: "retryJob",
+      requestId,
+      userId,
+      jobId: id,
+      errorCategories: dto.errorCategories,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const result = await this.scrapingService.retryJob(id, userId, dto);
+
+      this.logger.log("Failed items re-enqueued successfully", {
+        operation: "retryJob",
+        requestId,
+        userId,
+        jobId: id,
+        retriedItems: result.retriedItems,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(result, "Failed items re-enqueued successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retry job",
+        {
+          operation: "retryJob",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * Attach a recurring re-scrape schedule to a job
+   */
+  @Post(":id/schedule")
+  @HttpCode(HttpStatus.CREATED)
+  @ApiOperation({
+    summary: "Schedule recurring re-scrapes of a job",
+    description:
+      "Attach a cron schedule to a job. Each run creates a new scraping job over the same URLs (with the same options and metadata) whose `parentJobId` is this job. A run is skipped while the previous one is unfinished. Posting again replaces and re-enables the job's schedule. Only accessible by the job owner.",
+  })
+  @ApiBody({ type: CreateScrapingScheduleDto })
+  @ApiResponse({
+    status: 201,
+    description: "Schedule saved successfully",
+    type: ScrapingScheduleDto,
+    schema: {
+      example: {
+        statusCode: 201,
+        success: true,
+        message: "Schedule saved successfully",
+        data: {
+          id: "0b7e6f2a-5c1d-4e8f-9a3b-2d4c6e8f0a1b",
+          jobId: "123e4567-e89b-12d3-a456-426614174000",
+          userId: "987e6543-e21b-12d3-a456-426614174000",
+          cronExpression: "0 6 1 * *",
+          timeZone: "UTC",
+          enabled: true,
+          nextRunAt: "2024-01-01T06:00:00.000Z",
+          lastRunAt: null,
+          lastRunJobId: null,
+          createdAt: "2023-12-01T10:00:00.000Z",
+          updatedAt: "2023-12-01T10:00:00.000Z",
+        },
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description:
+      "Invalid UUID, cron expression or time zone, runs less than an hour apart, or the job is itself a scheduled run",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "Schedule runs must be at least one hour apart",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/schedule",
+      },
+    },
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "Job not found or you do not have access to this job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/schedule",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/schedule",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while saving the schedule",
+  })
+  async scheduleJob(
+    @Param("id", ParseUUIDPipe) id: string,
+    @Body(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    dto: CreateScrapingScheduleDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Schedule job request received", {
+      operation: "scheduleJob",
+      requestId,
+      userId,
+      jobId: id,
+      cron: dto.cron,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const schedule = await this.scrapingScheduleService.createSchedule(
+        id,
+        userId,
+        dto,
+      );
+
+      this.logger.log("Schedule saved successfully", {
+        operation: "scheduleJob",
+        requestId,
+        userId,
+        jobId: id,
+        scheduleId: schedule.id,
+        timestamp: new Date().toISOString(),
+      });
+
+      return createdResponse(schedule, "Schedule saved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to schedule job",
+        {
+          operation: "scheduleJob",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+
+  /**
+   * List the runs a job's schedule has created
+   */
+  @Get(":id/runs")
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Get run history of a scheduled job",
+    description:
+      "Retrieve the scraping jobs created by this job's schedule, newest first. Use GET /scraping-jobs/{id} on a run for its items. Only accessible by the job owner.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Job runs retrieved successfully",
+    type: [ScrapingJobDto],
+    schema: {
+      example: {
+        statusCode: 200,
+        success: true,
+        message: "Job runs retrieved successfully",
+        data: [
+          {
+            id: "456e7890-e89b-12d3-a456-426614174000",
+            userId: "987e6543-e21b-12d3-a456-426614174000",
+            parentJobId: "123e4567-e89b-12d3-a456-426614174000",
+            status: "completed",
+            totalUrls: 10,
+            processedUrls: 10,
+            failedUrls: 1,
+            cancelledUrls: 0,
+            options: { label: "Q4 fintech leads" },
+            createdAt: "2024-01-01T06:00:00.000Z",
+            updatedAt: "2024-01-01T06:20:00.000Z",
+          },
+        ],
+      },
+    },
+  })
+  @ApiBadRequestResponse({
+    description: "Invalid UUID format",
+  })
+  @ApiNotFoundResponse({
+    description: "Job not found or access denied",
+    schema: {
+      example: {
+        statusCode: 404,
+        message: "Job not found or you do not have access to this job",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/runs",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+    schema: {
+      example: {
+        statusCode: 401,
+        message: "Invalid or expired token",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/scraping-jobs/123e4567-e89b-12d3-a456-426614174000/runs",
+      },
+    },
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while retrieving job runs",
+  })
+  async listJobRuns(
+    @Param("id", ParseUUIDPipe) id: string,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("List job runs request received", {
+      operation: "listJobRuns",
+      requestId,
+      userId,
+      jobId: id,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const runs = await this.scrapingService.listJobRuns(id, userId);
+
+      this.logger.log("Job runs retrieved successfully", {
+        operation: "listJobRuns",
+        requestId,
+        userId,
+        jobId: id,
+        runCount: runs.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return successResponse(runs, "Job runs retrieved successfully");
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve job runs",
+        {
+          operation: "listJobRuns",
+          requestId,
+          userId,
+          jobId: id,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
 }
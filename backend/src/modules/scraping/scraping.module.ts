@@ -2,11 +2,24 @@ import { Module } from "@nestjs/common";
 import { BullModule } from "@nestjs/bullmq";
 import { DatabaseModule } from "../../core/database/database.module";
 import { SupabaseModule } from "../../core/supabase/supabase.module";
+import { CompaniesModule } from "../companies/companies.module";
+import { ContactsModule } from "../contacts/contacts.module";
 import { ScrapingController } from "./scraping.controller";
 import { ScrapingItemsController } from "./scraping-items.controller";
+import { ScrapingSchedulesController } from "./scraping-schedules.controller";
+import { CompanyHistoryController } from "./company-history.controller";
+import { SearchController } from "./search.controller";
 import { ScrapingService } from "./services/scraping.service";
 import { ScrapingQueueService } from "./services/scraping-queue.service";
-import { ScrapingRepository } from "../../core/database/repositories/scraping.repository";
+import { ScrapingScheduleService } from "./services/scraping-schedule.service";
+import { ScrapingScheduleCronService } from "./services/scraping-schedule-cron.service";
+import { UrlFileParserService } from "./services/url-file-parser.service";
+import { RobotsTxtService } from "./services/robots-txt.service";
+import { HostThrottleService } from "./services/host-throttle.service";
+import { CompanyHistoryService } from "./services/company-history.service";
+import { ScrapingExportService } from "./services/scraping-export.service";
+import { ScrapingSearchService } from "./services/scraping-search.service";
+import { redisProvider } from "../../config/redis.config";
 import { ScrapingProcessor } from "./processors/scraping.processor";
 
 /**
@@ -20,12 +33,28 @@ import { ScrapingProcessor } from "./processors/scraping.processor";
     }),
     DatabaseModule,
     SupabaseModule,
+    CompaniesModule,
+    ContactsModule,
+  ],
+  controllers: [
+    ScrapingController,
+    ScrapingItemsController,
+    ScrapingSchedulesController,
+    CompanyHistoryController,
+    SearchController,
   ],
-  controllers: [ScrapingController, ScrapingItemsController],
   providers: [
     ScrapingService,
     ScrapingQueueService,
-    ScrapingRepository,
+    ScrapingScheduleService,
+    ScrapingScheduleCronService,
+    UrlFileParserService,
+    RobotsTxtService,
+    HostThrottleService,
+    CompanyHistoryService,
+    ScrapingExportService,
+    ScrapingSearchService,
+    redisProvider,
     ScrapingProcessor,
   ],
   exports: [ScrapingService],
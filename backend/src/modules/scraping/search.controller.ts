@@ -0,0 +1,139 @@
+import {
+  Controller,
+  Get,
+  Query,
+  UseGuards,
+  HttpCode,
+  HttpStatus,
+  Logger,
+  ValidationPipe,
+} from "@nestjs/common";
+import {
+  ApiTags,
+  ApiOperation,
+  ApiResponse,
+  ApiBearerAuth,
+  ApiUnauthorizedResponse,
+  ApiBadRequestResponse,
+  ApiInternalServerErrorResponse,
+} from "@nestjs/swagger";
+import { AuthGuard } from "../../common/guards/auth.guard";
+import { CurrentUser } from "../../common/decorators/current-user.decorator";
+import { ScrapingSearchService } from "./services/scraping-search.service";
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  SearchItemsQueryDto,
+} from "./dto/search-items-query.dto";
+import { SearchResultDto } from "./dto/scraping-responses.dto";
+import { paginatedResponse } from "../../common/helpers/api-response.helper";
+import { validationExceptionFactory } from "../../common/helpers/validation-errors.helper";
+
+/**
+ * Controller for full-text search across the user's scraped companies
+ * All endpoints require authentication via AuthGuard
+ */
+@ApiTags("Search")
+@Controller("search")
+@UseGuards(AuthGuard)
+@ApiBearerAuth()
+export class SearchController {
+  private readonly logger = new Logger(SearchController.name);
+
+  constructor(private readonly scrapingSearchService: ScrapingSearchService) {}
+
+  /**
+   * Ranked full-text search over all items of the authenticated user
+   */
+  @Get()
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({
+    summary: "Search scraped companies and contacts",
+    description:
+      "Full-text search over company name, industry, HQ location, contact names and titles, and page text of every item from the authenticated user's jobs. Results are ranked (company name matches weigh most, page text least) and include highlighted fragments. Pass pagination.nextCursor as cursor to get the next page.",
+  })
+  @ApiResponse({
+    status: 200,
+    description: "Search results retrieved successfully",
+    type: [SearchResultDto],
+  })
+  @ApiBadRequestResponse({
+    description: "Missing q, or invalid limit or cursor",
+    schema: {
+      example: {
+        statusCode: 400,
+        message: "q is required",
+        timestamp: "2023-12-01T10:00:00.000Z",
+        path: "/api/search",
+      },
+    },
+  })
+  @ApiUnauthorizedResponse({
+    description: "Invalid or missing authentication token",
+  })
+  @ApiInternalServerErrorResponse({
+    description: "Internal server error while searching",
+  })
+  async search(
+    @Query(
+      new ValidationPipe({
+        whitelist: true,
+        forbidNonWhitelisted: true,
+        transform: true,
+        exceptionFactory: validationExceptionFactory,
+      }),
+    )
+    query: SearchItemsQueryDto,
+    @CurrentUser("id") userId: string,
+  ) {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Search request received", {
+      operation: "search",
+      requestId,
+      userId,
+      q: query.q,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.scrapingSearchService.searchItems(userId, query);
+
+      this.logger.log("Search results retrieved successfully", {
+        operation: "search",
+        requestId,
+        userId,
+        resultCount: page.items.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return paginatedResponse(
+        page.items,
+        {
+          limit: query.limit ?? DEFAULT_SEARCH_PAGE_SIZE,
+          nextCursor: page.nextCursor,
+        },
+        "Search results retrieved successfully",
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to search",
+        {
+          operation: "search",
+          requestId,
+          userId,
+          q: query.q,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      // Delegate to global exception filter
+      throw error;
+    }
+  }
+}
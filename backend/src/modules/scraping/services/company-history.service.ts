@@ -0,0 +1,373 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from "@nestjs/common";
+import { ScrapingRepository } from "../../../core/database/repositories/scraping.repository";
+import {
+  CompanyFieldHistoryRepository,
+  CompanyFieldHistoryEntity,
+  ObservedFieldValue,
+} from "../../../core/database/repositories/company-field-history.repository";
+import { Contact } from "../../../core/database/schema/scraping-items";
+import { canonicalizeUrl } from "../utils/url-canonicalizer";
+
+/**
+ * Single-value company fields whose history is tracked
+ */
+const TRACKED_FIELDS = [
+  "companyName",
+  "website",
+  "industry",
+  "headcountRange",
+  "hqLocation",
+] as const;
+
+/**
+ * History field name for contacts (one row per contact, keyed by email or name)
+ */
+const CONTACT_FIELD = "contact";
+
+/**
+ * Kind of difference between the latest scrape and the one before it
+ */
+export type FieldChangeType = "added" | "changed" | "removed";
+
+/**
+ * One field difference between two scrapes of the same URL
+ */
+export interface FieldChange {
+  field: string;
+  // Contact key (email or name); null for single-value fields
+  key: string | null;
+  type: FieldChangeType;
+  previousValue: unknown;
+  currentValue: unknown;
+  // When the previous value was last seen
+  previousSeenAt: Date | null;
+}
+
+/**
+ * What changed for a company between its two most recent scrapes
+ */
+export interface CompanyChanges {
+  canonicalUrl: string;
+  currentItemId: string;
+  currentObservedAt: Date | null;
+  previousItemId: string | null;
+  previousObservedAt: Date | null;
+  changes: FieldChange[];
+}
+
+/**
+ * Service for field-level history across scrapes of the same canonical URL
+ * The worker records every completed item; the API reads history and changes
+ */
+@Injectable()
+export class CompanyHistoryService {
+  private readonly logger = new Logger(CompanyHistoryService.name);
+
+  constructor(
+    private readonly scrapingRepository: ScrapingRepository,
+    private readonly companyFieldHistoryRepository: CompanyFieldHistoryRepository,
+  ) {}
+
+  /**
+   * Record the field values of a completed item in its URL's history
+   * Items without a canonical URL or owner are skipped
+   *
+   * @param itemId - Completed scraping item
+   */
+  async recordItem(itemId: string): Promise<void> {
+    const found = await this.scrapingRepository.findItemWithOwner(itemId);
+    const canonicalUrl = found?.item.canonicalUrl;
+    if (!found?.userId || !canonicalUrl) {
+      return;
+    }
+
+    const { item, userId } = found;
+    await this.companyFieldHistoryRepository.recordObservation({
+      userId,
+      canonicalUrl,
+      itemId,
+      observedAt: item.finishedAt ?? new Date(),
+      values: this.toObservedValues(item),
+    });
+  }
+
+  /**
+   * Full value history of a company, grouped per field and value
+   *
+   * @param userId - The authenticated user's ID
+   * @param url - Any URL of the company; canonicalized before lookup
+   * @returns History rows, oldest value first per field
+   * @throws BadRequestException if the URL is invalid
+   * @throws NotFoundException if the URL has no recorded history
+   */
+  async getHistory(
+    userId: string,
+    url: string,
+  ): Promise<{ canonicalUrl: string; history: CompanyFieldHistoryEntity[] }> {
+    const requestId = crypto.randomUUID();
+    const canonicalUrl = this.toCanonicalUrl(url);
+
+    this.logger.log("Retrieving company field history", {
+      operation: "getHistory",
+      requestId,
+      userId,
+      canonicalUrl,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const history = await this.companyFieldHistoryRepository.findHistory(
+        userId,
+        canonicalUrl,
+      );
+
+      if (history.length === 0) {
+        throw new NotFoundException("No scrape history found for this URL");
+      }
+
+      this.logger.log("Company field history retrieved successfully", {
+        operation: "getHistory",
+        requestId,
+        userId,
+        canonicalUrl,
+        rowCount: history.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return { canonicalUrl, history };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve company field history",
+        {
+          operation: "getHistory",
+          requestId,
+          userId,
+          canonicalUrl,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retrieve company history");
+    }
+  }
+
+  /**
+   * What changed for a company since its previous scrape:
+   * new or changed values first seen in the latest scrape, and contacts
+   * seen in the previous scrape but not in the latest one
+   *
+   * @param userId - The authenticated user's ID
+   * @param url - Any URL of the company; canonicalized before lookup
+   * @returns Changes between the two most recent completed scrapes
+   * @throws BadRequestException if the URL is invalid
+   * @throws NotFoundException if the URL was never scraped successfully
+   */
+  async getChanges(userId: string, url: string): Promise<CompanyChanges> {
+    const requestId = crypto.randomUUID();
+    const canonicalUrl = this.toCanonicalUrl(url);
+
+    this.logger.log("Retrieving company changes", {
+      operation: "getChanges",
+      requestId,
+      userId,
+      canonicalUrl,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const [current, previous] =
+        await this.scrapingRepository.findCompletedItemsByCanonicalUrl(
+          userId,
+          canonicalUrl,
+          2,
+        );
+
+      if (!current) {
+        throw new NotFoundException("No completed scrape found for this URL");
+      }
+
+      const changes = previous
+        ? this.diffScrapes(
+            await this.companyFieldHistoryRepository.findHistory(
+              userId,
+              canonicalUrl,
+            ),
+            current.id,
+            previous.id,
+          )
+        : [];
+
+      this.logger.log("Company changes retrieved successfully", {
+        operation: "getChanges",
+        requestId,
+        userId,
+        canonicalUrl,
+        currentItemId: current.id,
+        previousItemId: previous?.id ?? null,
+        changeCount: changes.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return {
+        canonicalUrl,
+        currentItemId: current.id,
+        currentObservedAt: current.finishedAt,
+        previousItemId: previous?.id ?? null,
+        previousObservedAt: previous?.finishedAt ?? null,
+        changes,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retrieve company changes",
+        {
+          operation: "getChanges",
+          requestId,
+          userId,
+          canonicalUrl,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retrieve company changes");
+    }
+  }
+
+  /**
+   * Compare the latest scrape with the previous one using the history rows
+   * Single-value fields that were not found in the latest scrape are not
+   * reported as removed, since a missing value usually means extraction missed it
+   *
+   * @private
+   */
+  private diffScrapes(
+    history: CompanyFieldHistoryEntity[],
+    currentItemId: string,
+    previousItemId: string,
+  ): FieldChange[] {
+    const rowsByKey = new Map<string, CompanyFieldHistoryEntity[]>();
+    for (const row of history) {
+      const key = `${row.field}\u0000${row.valueKey}`;
+      rowsByKey.set(key, [...(rowsByKey.get(key) ?? []), row]);
+    }
+
+    const changes: FieldChange[] = [];
+
+    for (const rows of rowsByKey.values()) {
+      // History rows are ordered oldest first
+      const latest = rows[rows.length - 1];
+      const before = rows.length > 1 ? rows[rows.length - 2] : null;
+      const key = latest.field === CONTACT_FIELD ? latest.valueKey : null;
+
+      if (latest.firstItemId === currentItemId) {
+        changes.push({
+          field: latest.field,
+          key,
+          type: before ? "changed" : "added",
+          previousValue: before?.value ?? null,
+          currentValue: latest.value,
+          previousSeenAt: before?.lastSeenAt ?? null,
+        });
+      } else if (
+        latest.field === CONTACT_FIELD &&
+        latest.lastItemId === previousItemId
+      ) {
+        changes.push({
+          field: latest.field,
+          key,
+          type: "removed",
+          previousValue: latest.value,
+          currentValue: null,
+          previousSeenAt: latest.lastSeenAt,
+        });
+      }
+    }
+
+    return changes;
+  }
+
+  /**
+   * Field values of an item in history form
+   * Contacts are keyed by lowercased email, falling back to name
+   *
+   * @private
+   */
+  private toObservedValues(item: {
+    companyName: string | null;
+    website: string | null;
+    industry: string | null;
+    headcountRange: string | null;
+    hqLocation: string | null;
+    contacts: Contact[] | null;
+  }): ObservedFieldValue[] {
+    const values: ObservedFieldValue[] = [];
+
+    for (const field of TRACKED_FIELDS) {
+      const value = item[field]?.trim();
+      if (value) {
+        values.push({ field, valueKey: "", value });
+      }
+    }
+
+    const seenContacts = new Set<string>();
+    for (const contact of item.contacts ?? []) {
+      const valueKey = (contact.email || contact.name || "")
+        .trim()
+        .toLowerCase();
+      if (!valueKey || seenContacts.has(valueKey)) {
+        continue;
+      }
+      seenContacts.add(valueKey);
+
+      values.push({
+        field: CONTACT_FIELD,
+        valueKey,
+        value: {
+          name: contact.name,
+          title: contact.title,
+          email: contact.email,
+        },
+      });
+    }
+
+    return values;
+  }
+
+  /**
+   * Canonicalize a lookup URL the same way job intake does
+   *
+   * @throws BadRequestException if the URL is not a valid http(s) URL
+   * @private
+   */
+  private toCanonicalUrl(url: string): string {
+    const canonicalUrl = canonicalizeUrl(url);
+    if (!canonicalUrl) {
+      throw new BadRequestException("url must be a valid http(s) URL");
+    }
+    return canonicalUrl;
+  }
+}
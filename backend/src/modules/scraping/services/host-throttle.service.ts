@@ -0,0 +1,207 @@
+import { Inject, Injectable, Logger } from "@nestjs/common";
+import Redis from "ioredis";
+import * as crypto from "crypto";
+
+/**
+ * Politeness settings applied to one host
+ */
+export interface HostPolicy {
+  // Minimum spacing between request starts, in milliseconds
+  intervalMs: number;
+  // Requests allowed back-to-back before spacing applies
+  burst: number;
+  // Maximum simultaneous scraping items for the host across all workers
+  maxConcurrency: number;
+}
+
+/**
+ * A held concurrency slot for a host
+ */
+export interface HostLease {
+  host: string;
+  leaseId: string;
+}
+
+/**
+ * Result of trying to start work on a host
+ */
+export type HostAcquireResult =
+  | { granted: true; lease: HostLease }
+  | { granted: false; retryAfterMs: number };
+
+/**
+ * Leases expire on their own so a crashed worker cannot block a host forever
+ * Renewed whenever the holder fetches another page
+ */
+const LEASE_TTL_MS = 120000;
+
+// Base wait when a host is at its concurrency cap (jitter is added on top)
+const BUSY_RETRY_MS = 1000;
+
+/**
+ * Atomically checks the host's concurrency slots and GCRA token bucket
+ * KEYS: slots sorted set (lease id -> expiry), theoretical arrival time key
+ * ARGV: intervalMs, burst, maxConcurrency (0 = reuse held lease), leaseTtlMs, leaseId
+ * Returns {1, 0} when granted, {0, waitMs} when rate limited, {0, -1} when busy
+ */
+const ACQUIRE_SCRIPT = `
+local slotsKey = KEYS[1]
+local tatKey = KEYS[2]
+local intervalMs = tonumber(ARGV[1])
+local burst = tonumber(ARGV[2])
+local maxConcurrency = tonumber(ARGV[3])
+local leaseTtlMs = tonumber(ARGV[4])
+local leaseId = ARGV[5]
+
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+if maxConcurrency > 0 then
+  redis.call('ZREMRANGEBYSCORE', slotsKey, '-inf', now)
+  if redis.call('ZCARD', slotsKey) >= maxConcurrency then
+    return {0, -1}
+  end
+end
+
+if intervalMs > 0 then
+  local tat = tonumber(redis.call('GET', tatKey)) or now
+  if tat < now then
+    tat = now
+  end
+  local newTat = tat + intervalMs
+  local allowAt = newTat - burst * intervalMs
+  if allowAt > now then
+    return {0, allowAt - now}
+  end
+  redis.call('SET', tatKey, newTat, 'PX', newTat - now)
+end
+
+if maxConcurrency > 0 then
+  redis.call('ZADD', slotsKey, now + leaseTtlMs, leaseId)
+else
+  redis.call('ZADD', slotsKey, 'XX', now + leaseTtlMs, leaseId)
+end
+redis.call('PEXPIRE', slotsKey, leaseTtlMs)
+return {1, 0}
+`;
+
+/**
+ * Redis-backed per-host politeness scheduler shared by all workers
+ * Combines a concurrency cap per host with a token bucket (GCRA) for spacing
+ */
+@Injectable()
+export class HostThrottleService {
+  private readonly logger = new Logger(HostThrottleService.name);
+
+  constructor(@Inject("REDIS") private readonly redis: Redis) {}
+
+  /**
+   * Try to start a scraping item on a host
+   * Claims a concurrency slot and a rate token in one step
+   *
+   * @param host - Normalized host name
+   * @param policy - Politeness settings for the host
+   * @returns The lease when granted, otherwise how long to wait before retrying
+   */
+  async tryAcquire(
+    host: string,
+    policy: HostPolicy,
+  ): Promise<HostAcquireResult> {
+    const leaseId = crypto.randomUUID();
+    const waitMs = await this.runScript(host, policy, leaseId, true);
+
+    if (waitMs === 0) {
+      return { granted: true, lease: { host, leaseId } };
+    }
+
+    const retryAfterMs =
+      waitMs < 0
+        ? BUSY_RETRY_MS + Math.floor(Math.random() * (BUSY_RETRY_MS / 2))
+        : waitMs;
+
+    this.logger.debug("Host throttled", {
+      operation: "tryAcquire",
+      host,
+      reason: waitMs < 0 ? "concurrency" : "rate",
+      retryAfterMs,
+      timestamp: new Date().toISOString(),
+    });
+
+    return { granted: false, retryAfterMs };
+  }
+
+  /**
+   * Wait for the next rate token while holding a lease
+   * Used for follow-up requests of the same item (e.g. crawled subpages)
+   *
+   * @param lease - Lease returned by tryAcquire
+   * @param policy - Politeness settings for the host
+   */
+  async waitForTurn(lease: HostLease, policy: HostPolicy): Promise<void> {
+    for (;;) {
+      const waitMs = await this.runScript(
+        lease.host,
+        policy,
+        lease.leaseId,
+        false,
+      );
+      if (waitMs <= 0) {
+        return;
+      }
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+    }
+  }
+
+  /**
+   * Release a concurrency slot
+   * Failures are logged only; the lease expires on its own
+   *
+   * @param lease - Lease returned by tryAcquire
+   */
+  async release(lease: HostLease): Promise<void> {
+    try {
+      await this.redis.zrem(this.slotsKey(lease.host), lease.leaseId);
+    } catch (error) {
+      this.logger.warn("Failed to release host lease", {
+        operation: "release",
+        host: lease.host,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Run the acquire script and return 0 when granted, -1 when busy,
+   * or the milliseconds until the next rate token
+   */
+  private async runScript(
+    host: string,
+    policy: HostPolicy,
+    leaseId: string,
+    claimSlot: boolean,
+  ): Promise<number> {
+    const result = (await this.redis.eval(
+      ACQUIRE_SCRIPT,
+      2,
+      this.slotsKey(host),
+      this.tatKey(host),
+      Math.max(0, Math.round(policy.intervalMs)),
+      Math.max(1, policy.burst),
+      claimSlot ? Math.max(1, policy.maxConcurrency) : 0,
+      LEASE_TTL_MS,
+      leaseId,
+    )) as [number, number];
+
+    return result[0] === 1 ? 0 : result[1];
+  }
+
+  // Hash tags keep both keys of a host in the same Redis Cluster slot
+  private slotsKey(host: string): string {
+    return `scrape:host:{${host}}:slots`;
+  }
+
+  private tatKey(host: string): string {
+    return `scrape:host:{${host}}:tat`;
+  }
+}
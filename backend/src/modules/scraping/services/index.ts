@@ -1,2 +1,10 @@
+export * from "./company-history.service";
+export * from "./host-throttle.service";
+export * from "./robots-txt.service";
+export * from "./scraping-export.service";
 export * from "./scraping-queue.service";
+export * from "./scraping-search.service";
+export * from "./scraping-schedule.service";
+export * from "./scraping-schedule-cron.service";
 export * from "./scraping.service";
+export * from "./url-file-parser.service";
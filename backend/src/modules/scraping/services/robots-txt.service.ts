@@ -0,0 +1,213 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { ConfigService } from "@nestjs/config";
+import axios from "axios";
+import robotsParser from "robots-parser";
+import { ENV } from "../../../common/constants/string-const";
+
+/**
+ * Outcome of a robots.txt check for a single URL
+ */
+export interface RobotsCheckResult {
+  allowed: boolean;
+  // Crawl-delay for our user agent in milliseconds, null when not set
+  crawlDelayMs: number | null;
+}
+
+/**
+ * Thrown when robots.txt disallows fetching a URL
+ * The processor maps it to the "disallowed" item status instead of "failed"
+ */
+export class RobotsDisallowedError extends Error {
+  constructor(public readonly url: string) {
+    super(`Blocked by robots.txt: ${url}`);
+    this.name = "RobotsDisallowedError";
+  }
+}
+
+/**
+ * Parsed rules for one origin
+ * disallowAll is set when robots.txt is unreachable (5xx), per RFC 9309
+ */
+interface RobotsRules {
+  robot: ReturnType<typeof robotsParser> | null;
+  disallowAll: boolean;
+}
+
+interface CacheEntry {
+  rules: Promise<RobotsRules>;
+  expiresAt: number;
+}
+
+const DEFAULT_USER_AGENT = "CompanyDataExtractorBot/1.0";
+const DEFAULT_CACHE_TTL_MS = 60 * 60 * 1000;
+
+// Server errors and network failures are retried sooner than regular files
+const UNAVAILABLE_CACHE_TTL_MS = 5 * 60 * 1000;
+
+// RFC 9309 requires parsing at least the first 500 KiB
+const MAX_ROBOTS_TXT_BYTES = 500 * 1024;
+
+const ROBOTS_FETCH_TIMEOUT_MS = 10000;
+
+/**
+ * Service for fetching, caching and evaluating robots.txt per origin
+ * Rules are matched against the first product token of SCRAPER_USER_AGENT
+ */
+@Injectable()
+export class RobotsTxtService {
+  private readonly logger = new Logger(RobotsTxtService.name);
+  private readonly cache = new Map<string, CacheEntry>();
+
+  constructor(private readonly configService: ConfigService) {}
+
+  /**
+   * User agent sent with robots.txt and page requests
+   */
+  getUserAgent(): string {
+    return this.configService.get<string>(
+      ENV.SCRAPER_USER_AGENT,
+      DEFAULT_USER_AGENT,
+    );
+  }
+
+  /**
+   * Check whether a URL may be fetched and which Crawl-delay applies
+   *
+   * @param url - Absolute http(s) URL to check
+   * @returns Whether the URL is allowed and the host's Crawl-delay
+   */
+  async check(url: string): Promise<RobotsCheckResult> {
+    const origin = new URL(url).origin;
+    const rules = await this.getRules(origin);
+
+    if (rules.disallowAll) {
+      return { allowed: false, crawlDelayMs: null };
+    }
+    if (!rules.robot) {
+      return { allowed: true, crawlDelayMs: null };
+    }
+
+    const token = this.getRobotsToken();
+    const crawlDelay = rules.robot.getCrawlDelay(token);
+
+    return {
+      // undefined means the URL is outside this robots.txt's origin
+      allowed: rules.robot.isAllowed(url, token) !== false,
+      crawlDelayMs:
+        typeof crawlDelay === "number" && crawlDelay > 0
+          ? Math.round(crawlDelay * 1000)
+          : null,
+    };
+  }
+
+  /**
+   * Get cached rules for an origin, fetching robots.txt when missing or expired
+   * Concurrent callers for the same origin share one in-flight request
+   */
+  private getRules(origin: string): Promise<RobotsRules> {
+    const now = Date.now();
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > now) {
+      return cached.rules;
+    }
+
+    const entry: CacheEntry = {
+      rules: this.fetchRules(origin).then(({ rules, ttlMs }) => {
+        entry.expiresAt = Date.now() + ttlMs;
+        return rules;
+      }),
+      // Keep the in-flight request cached until it settles
+      expiresAt: Number.POSITIVE_INFINITY,
+    };
+
+    this.pruneExpired(now);
+    this.cache.set(origin, entry);
+    return entry.rules;
+  }
+
+  /**
+   * Fetch and parse robots.txt for an origin
+   * 2xx: parse rules; 4xx: no restrictions; 5xx: disallow everything;
+   * network errors: no restrictions (the page fetch reports the real error)
+   */
+  private async fetchRules(
+    origin: string,
+  ): Promise<{ rules: RobotsRules; ttlMs: number }> {
+    const robotsUrl = `${origin}/robots.txt`;
+    const cacheTtlMs = this.configService.get<number>(
+      ENV.ROBOTS_TXT_CACHE_TTL_MS,
+      DEFAULT_CACHE_TTL_MS,
+    );
+
+    try {
+      const response = await axios.get<string>(robotsUrl, {
+        timeout: ROBOTS_FETCH_TIMEOUT_MS,
+        headers: { "User-Agent": this.getUserAgent() },
+        responseType: "text",
+        transformResponse: (data: string) => data,
+        maxContentLength: MAX_ROBOTS_TXT_BYTES,
+        maxRedirects: 5,
+        validateStatus: () => true,
+      });
+
+      this.logger.log("Fetched robots.txt", {
+        operation: "fetchRules",
+        robotsUrl,
+        statusCode: response.status,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (response.status >= 500) {
+        return {
+          rules: { robot: null, disallowAll: true },
+          ttlMs: Math.min(cacheTtlMs, UNAVAILABLE_CACHE_TTL_MS),
+        };
+      }
+      if (response.status >= 400) {
+        return {
+          rules: { robot: null, disallowAll: false },
+          ttlMs: cacheTtlMs,
+        };
+      }
+
+      return {
+        rules: {
+          robot: robotsParser(robotsUrl, response.data ?? ""),
+          disallowAll: false,
+        },
+        ttlMs: cacheTtlMs,
+      };
+    } catch (error) {
+      this.logger.warn("Failed to fetch robots.txt, assuming no restrictions", {
+        operation: "fetchRules",
+        robotsUrl,
+        error: error instanceof Error ? error.message : String(error),
+        timestamp: new Date().toISOString(),
+      });
+
+      return {
+        rules: { robot: null, disallowAll: false },
+        ttlMs: Math.min(cacheTtlMs, UNAVAILABLE_CACHE_TTL_MS),
+      };
+    }
+  }
+
+  /**
+   * Product token matched against robots.txt User-agent lines
+   * e.g. "CompanyDataExtractorBot/1.0 (+https://example.com)" -> "CompanyDataExtractorBot"
+   */
+  private getRobotsToken(): string {
+    return this.getUserAgent().split(/[/\s]/)[0];
+  }
+
+  /**
+   * Drop expired origins so the cache does not grow without bound
+   */
+  private pruneExpired(now: number): void {
+    for (const [origin, entry] of this.cache) {
+      if (entry.expiresAt <= now) {
+        this.cache.delete(origin);
+      }
+    }
+  }
+}
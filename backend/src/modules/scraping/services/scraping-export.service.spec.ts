@@ -0,0 +1,86 @@
+import { parse } from "csv-parse/sync";
+import {
+  ScrapingItemEntity,
+  ScrapingRepository,
+} from "../../../core/database/repositories/scraping.repository";
+import { ExportScrapingJobQueryDto } from "../dto/export-scraping-job-query.dto";
+import { ScrapingExportService } from "./scraping-export.service";
+
+const item = (fields: Partial<ScrapingItemEntity>): ScrapingItemEntity =>
+  ({
+    id: "item-1",
+    jobId: "job-1",
+    url: "https://acme.com",
+    status: "completed",
+    contacts: null,
+    phones: null,
+    ...fields,
+  }) as ScrapingItemEntity;
+
+const exportCsv = async (
+  items: ScrapingItemEntity[],
+  query: Omit<ExportScrapingJobQueryDto, "format">,
+): Promise<string[][]> => {
+  const repository = {
+    findJobById: () => Promise.resolve({ id: "job-1" }),
+    streamItemsByJobId: async function* () {
+      yield await Promise.resolve(items);
+    },
+  };
+  const service = new ScrapingExportService(
+    repository as unknown as ScrapingRepository,
+  );
+
+  const { stream } = await service.exportJob("job-1", "user-1", {
+    ...query,
+    format: "csv",
+  } as ExportScrapingJobQueryDto);
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk as string));
+  }
+  return parse(Buffer.concat(chunks).toString("utf8")) as string[][];
+};
+
+describe("ScrapingExportService CSV cells", () => {
+  it("writes E.164 phone numbers as they are", async () => {
+    const rows = await exportCsv(
+      [
+        item({
+          phones: ["+14155550123", "+49301234567"],
+          contacts: [
+            {
+              name: "Jane Doe",
+              title: null,
+              email: null,
+              phone: "+14155550199",
+            },
+          ],
+        }),
+      ],
+      { layout: "contact", columns: ["phones", "contactPhone"] },
+    );
+
+    expect(rows).toEqual([
+      ["phones", "contactPhone"],
+      ["+14155550123; +49301234567", "+14155550199"],
+    ]);
+  });
+
+  it("still quotes other cells that a spreadsheet would run as a formula", async () => {
+    const rows = await exportCsv(
+      [
+        item({
+          companyName: '=HYPERLINK("https://evil.example")',
+          industry: "+1 call now",
+        }),
+      ],
+      { layout: "company", columns: ["companyName", "industry"] },
+    );
+
+    expect(rows[1]).toEqual([
+      `'=HYPERLINK("https://evil.example")`,
+      "'+1 call now",
+    ]);
+  });
+});
@@ -0,0 +1,504 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from "@nestjs/common";
+import { PassThrough, Readable } from "stream";
+import ExcelJS from "exceljs";
+import { stringify } from "csv-stringify/sync";
+import {
+  ScrapingRepository,
+  ScrapingItemEntity,
+} from "../../../core/database/repositories/scraping.repository";
+import { HeadcountFilters } from "../../../core/database/repositories/base.repository";
+import {
+  Contact,
+  INDUSTRY_SECTORS,
+  SocialProfiles,
+} from "../../../core/database/schema/scraping-items";
+import { getContactClassification } from "../../contacts/utils/email-classifier";
+import { getCompanyDomain } from "../../companies/utils/registrable-domain";
+import {
+  COMPANY_EXPORT_COLUMNS,
+  COMPANY_LAYOUT_COLUMNS,
+  CONTACT_LAYOUT_COLUMNS,
+  ExportColumn,
+  ExportFormat,
+  ExportLayout,
+  ExportScrapingJobQueryDto,
+} from "../dto/export-scraping-job-query.dto";
+
+/**
+ * Items read from the database per query while exporting
+ */
+const EXPORT_BATCH_SIZE = 500;
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json; charset=utf-8",
+  ndjson: "application/x-ndjson; charset=utf-8",
+};
+
+const LAYOUT_COLUMNS: Record<ExportLayout, readonly ExportColumn[]> = {
+  company: [...COMPANY_EXPORT_COLUMNS, ...COMPANY_LAYOUT_COLUMNS],
+  contact: [...COMPANY_EXPORT_COLUMNS, ...CONTACT_LAYOUT_COLUMNS],
+};
+
+const COLUMN_VALUES: Record<
+  ExportColumn,
+  (item: ScrapingItemEntity, contact: Contact | null) => unknown
+> = {
+  url: (item) => item.url,
+  canonicalUrl: (item) => item.canonicalUrl,
+  status: (item) => item.status,
+  companyName: (item) => item.companyName,
+  website: (item) => item.website,
+  industry: (item) => item.industry,
+  industrySector: (item) => item.industrySector,
+  industrySectorName: (item) =>
+    item.industrySector ? INDUSTRY_SECTORS[item.industrySector] : null,
+  industryConfidence: (item) => item.industryConfidence,
+  headcountRange: (item) => item.headcountRange,
+  headcountMin: (item) => item.headcountMin,
+  headcountMax: (item) => item.headcountMax,
+  headcountBucket: (item) => item.headcountBucket,
+  hqLocation: (item) => item.hqLocation,
+  hqStreet: (item) => item.hqStreet,
+  hqCity: (item) => item.hqCity,
+  hqRegion: (item) => item.hqRegion,
+  hqPostalCode: (item) => item.hqPostalCode,
+  hqCountry: (item) => item.hqCountry,
+  phones: (item) => item.phones,
+  socialProfiles: (item) => item.socialProfiles,
+  errorCategory: (item) => item.errorCategory,
+  lastError: (item) => item.lastError,
+  finishedAt: (item) => item.finishedAt,
+  metadata: (item) => item.metadata,
+  contactCount: (item) => item.contacts?.length ?? 0,
+  contacts: (item) => item.contacts ?? [],
+  contactName: (_item, contact) => contact?.name ?? null,
+  contactTitle: (_item, contact) => contact?.title ?? null,
+  contactEmail: (_item, contact) => contact?.email ?? null,
+  contactPhone: (_item, contact) => contact?.phone ?? null,
+  contactMatchScore: (_item, contact) => contact?.matchScore ?? null,
+  contactEmailType: (_item, contact) => contact?.emailType ?? null,
+  contactEmailDomainMatch: (_item, contact) =>
+    contact?.emailDomainMatch ?? null,
+  contactQualityScore: (_item, contact) => contact?.qualityScore ?? null,
+  contactSourceUrl: (_item, contact) => contact?.sourceUrl ?? null,
+};
+
+// Leading characters that make spreadsheet apps evaluate a CSV cell as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+// E.164 numbers, alone or joined with "; ", start with "+" but cannot run as a formula
+const E164_NUMBERS = /^\+\d{7,15}(?:; \+\d{7,15})*$/;
+
+type ExportRow = Partial<Record<ExportColumn, unknown>>;
+
+type ContactFilter = Pick<
+  ExportScrapingJobQueryDto,
+  "emailTypes" | "minQualityScore"
+>;
+
+/**
+ * A job export ready to be sent as a file download
+ */
+export interface ScrapingJobExport {
+  stream: Readable;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Service for downloading job results as CSV, XLSX, JSON or NDJSON
+ * Items are read from the database in batches while the response is written,
+ * so memory use does not grow with the size of the job
+ */
+@Injectable()
+export class ScrapingExportService {
+  private readonly logger = new Logger(ScrapingExportService.name);
+
+  constructor(private readonly scrapingRepository: ScrapingRepository) {}
+
+  /**
+   * Start an export of a job's items
+   * The job and columns are checked before streaming starts; errors while
+   * streaming destroy the returned stream
+   *
+   * @param jobId - The job's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @param query - Format, layout and optional column selection
+   * @returns Stream of the file with its content type and file name
+   * @throws NotFoundException if job not found or user doesn't have access
+   * @throws BadRequestException if a selected column is not part of the layout
+   */
+  async exportJob(
+    jobId: string,
+    userId: string,
+    query: ExportScrapingJobQueryDto,
+  ): Promise<ScrapingJobExport> {
+    const requestId = crypto.randomUUID();
+    const layout = query.layout ?? "company";
+
+    this.logger.log("Exporting job", {
+      operation: "exportJob",
+      requestId,
+      userId,
+      jobId,
+      format: query.format,
+      layout,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
+
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "exportJob",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      const columns = this.resolveColumns(layout, query.columns);
+      const rows = this.iterateRows(
+        jobId,
+        layout,
+        columns,
+        {
+          minHeadcount: query.minHeadcount,
+          maxHeadcount: query.maxHeadcount,
+          headcountBuckets: query.headcountBuckets,
+        },
+        {
+          emailTypes: query.emailTypes,
+          minQualityScore: query.minQualityScore,
+        },
+      );
+
+      const stream =
+        query.format === "xlsx"
+          ? this.toXlsxStream(rows, columns)
+          : Readable.from(this.toTextChunks(query.format, rows, columns));
+
+      stream.once("error", (error) => {
+        this.logger.error(
+          "Job export failed while streaming",
+          {
+            operation: "exportJob",
+            requestId,
+            userId,
+            jobId,
+            error: error.message,
+            timestamp: new Date().toISOString(),
+          },
+          error.stack,
+        );
+      });
+
+      return {
+        stream,
+        contentType: CONTENT_TYPES[query.format],
+        filename: `scraping-job-${jobId}.${query.format}`,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to export job",
+        {
+          operation: "exportJob",
+          requestId,
+          userId,
+          jobId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to export job. Please try again");
+    }
+  }
+
+  /**
+   * Selected columns, or every column of the layout when none are selected
+   *
+   * @throws BadRequestException if a column belongs to the other layout
+   * @private
+   */
+  private resolveColumns(
+    layout: ExportLayout,
+    selected: ExportColumn[] | undefined,
+  ): ExportColumn[] {
+    const available = LAYOUT_COLUMNS[layout];
+    if (!selected) {
+      return [...available];
+    }
+
+    const unavailable = selected.filter(
+      (column) => !available.includes(column),
+    );
+    if (unavailable.length > 0) {
+      throw new BadRequestException(
+        `Columns not available in the ${layout} layout: ${unavailable.join(", ")}`,
+      );
+    }
+
+    return [...new Set(selected)];
+  }
+
+  /**
+   * Export rows of a job's items matching the company size filters: one per
+   * item, or one per contact in the contact layout
+   * Items without contacts (after filtering) still get one row in the contact layout
+   *
+   * @private
+   */
+  private async *iterateRows(
+    jobId: string,
+    layout: ExportLayout,
+    columns: ExportColumn[],
+    itemFilters: HeadcountFilters,
+    contactFilter: ContactFilter,
+  ): AsyncGenerator<ExportRow> {
+    const toRow = (
+      item: ScrapingItemEntity,
+      contact: Contact | null,
+    ): ExportRow =>
+      Object.fromEntries(
+        columns.map((column) => [column, COLUMN_VALUES[column](item, contact)]),
+      );
+
+    for await (const items of this.scrapingRepository.streamItemsByJobId(
+      jobId,
+      EXPORT_BATCH_SIZE,
+      itemFilters,
+    )) {
+      for (const stored of items) {
+        const item = this.filterContacts(stored, contactFilter);
+        if (layout === "contact" && item.contacts?.length) {
+          for (const contact of item.contacts) {
+            yield toRow(item, contact);
+          }
+        } else {
+          yield toRow(item, null);
+        }
+      }
+    }
+  }
+
+  /**
+   * Item with its contacts classified and narrowed to the requested email
+   * types and minimum quality score; name-only contacts are dropped when filtering
+   *
+   * @private
+   */
+  private filterContacts(
+    item: ScrapingItemEntity,
+    filter: ContactFilter,
+  ): ScrapingItemEntity {
+    if (!item.contacts) {
+      return item;
+    }
+
+    const filtered =
+      filter.emailTypes !== undefined || filter.minQualityScore !== undefined;
+    const contacts: Contact[] = [];
+
+    for (const contact of item.contacts) {
+      const classification = getContactClassification(
+        contact,
+        getCompanyDomain(
+          item.canonicalUrl ?? item.url,
+          item.website,
+          item.fieldSources?.website,
+        ),
+      );
+      if (!classification) {
+        // Name-only contacts have no email to filter on
+        if (!filtered) {
+          contacts.push(contact);
+        }
+        continue;
+      }
+      if (
+        (!filter.emailTypes ||
+          filter.emailTypes.includes(classification.emailType)) &&
+        (filter.minQualityScore === undefined ||
+          classification.qualityScore >= filter.minQualityScore)
+      ) {
+        contacts.push({ ...contact, ...classification });
+      }
+    }
+
+    return { ...item, contacts };
+  }
+
+  /**
+   * Serialize rows as CSV, JSON or NDJSON text chunks
+   *
+   * @private
+   */
+  private async *toTextChunks(
+    format: Exclude<ExportFormat, "xlsx">,
+    rows: AsyncIterable<ExportRow>,
+    columns: ExportColumn[],
+  ): AsyncGenerator<string> {
+    if (format === "csv") {
+      yield stringify([columns]);
+      for await (const row of rows) {
+        yield stringify([
+          columns.map((column) => this.toCsvCell(column, row[column])),
+        ]);
+      }
+      return;
+    }
+
+    if (format === "ndjson") {
+      for await (const row of rows) {
+        yield `${JSON.stringify(row)}\n`;
+      }
+      return;
+    }
+
+    let first = true;
+    yield "[";
+    for await (const row of rows) {
+      yield `${first ? "\n" : ",\n"}${JSON.stringify(row)}`;
+      first = false;
+    }
+    yield first ? "]\n" : "\n]\n";
+  }
+
+  /**
+   * Serialize rows as an XLSX workbook, committing each row as it is written
+   *
+   * @private
+   */
+  private toXlsxStream(
+    rows: AsyncIterable<ExportRow>,
+    columns: ExportColumn[],
+  ): Readable {
+    const output = new PassThrough();
+    const workbook = new ExcelJS.stream.xlsx.WorkbookWriter({
+      stream: output,
+      useStyles: false,
+      useSharedStrings: false,
+    });
+    const worksheet = workbook.addWorksheet("Results");
+    worksheet.columns = columns.map((column) => ({
+      header: column,
+      key: column,
+    }));
+
+    const write = async () => {
+      for await (const row of rows) {
+        // Client went away; stop reading from the database
+        if (output.destroyed) {
+          return;
+        }
+        worksheet
+          .addRow(
+            Object.fromEntries(
+              columns.map((column) => [
+                column,
+                this.toSpreadsheetValue(column, row[column]),
+              ]),
+            ),
+          )
+          .commit();
+      }
+      worksheet.commit();
+      await workbook.commit();
+    };
+
+    write().catch((error: unknown) => {
+      output.destroy(error instanceof Error ? error : new Error(String(error)));
+    });
+
+    return output;
+  }
+
+  /**
+   * CSV cell text; text that would start a formula is prefixed with a quote
+   *
+   * @private
+   */
+  private toCsvCell(column: ExportColumn, value: unknown): string | number {
+    const cell = this.toSpreadsheetValue(column, value);
+    if (cell instanceof Date) {
+      return cell.toISOString();
+    }
+    if (
+      typeof cell === "string" &&
+      FORMULA_PREFIX.test(cell) &&
+      !E164_NUMBERS.test(cell)
+    ) {
+      return `'${cell}`;
+    }
+    return cell ?? "";
+  }
+
+  /**
+   * Flatten a value into a single spreadsheet cell
+   * Contacts become "Name <email> phone (Title)" entries joined with "; ",
+   * phone numbers and social profile URLs are joined with "; "
+   *
+   * @private
+   */
+  private toSpreadsheetValue(
+    column: ExportColumn,
+    value: unknown,
+  ): string | number | Date | null {
+    if (value === null || value === undefined) {
+      return null;
+    }
+    if (column === "contacts") {
+      return (value as Contact[])
+        .map((contact) =>
+          [
+            contact.name,
+            contact.email && `<${contact.email}>`,
+            contact.phone,
+            contact.title && `(${contact.title})`,
+          ]
+            .filter(Boolean)
+            .join(" "),
+        )
+        .join("; ");
+    }
+    if (column === "phones") {
+      return (value as string[]).join("; ");
+    }
+    if (column === "socialProfiles") {
+      return Object.values(value as SocialProfiles).join("; ") || null;
+    }
+    if (
+      typeof value === "string" ||
+      typeof value === "number" ||
+      value instanceof Date
+    ) {
+      return value;
+    }
+    return JSON.stringify(value);
+  }
+}
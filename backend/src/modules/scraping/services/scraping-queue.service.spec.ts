@@ -0,0 +1,33 @@
+import { computeQueuePriority } from "./scraping-queue.service";
+
+describe("computeQueuePriority", () => {
+  it("runs every high entry before any normal entry, and normal before low", () => {
+    const deepHigh = computeQueuePriority("high", 10_000);
+    const firstNormal = computeQueuePriority("normal", 0);
+    const deepNormal = computeQueuePriority("normal", 10_000);
+    const firstLow = computeQueuePriority("low", 0);
+
+    expect(deepHigh).toBeLessThan(firstNormal);
+    expect(deepNormal).toBeLessThan(firstLow);
+  });
+
+  it("ranks entries within a class by the owner's backlog ahead of them", () => {
+    // User A has 3 items queued, user B submits their first
+    const userA = [0, 1, 2].map((rank) => computeQueuePriority("normal", rank));
+    const userB = computeQueuePriority("normal", 0);
+
+    expect(userB).toBeLessThan(userA[1]);
+    expect(userA[0]).toBeLessThan(userA[1]);
+    expect(userA[1]).toBeLessThan(userA[2]);
+  });
+
+  it("stays positive and inside its class for out-of-range ranks", () => {
+    expect(computeQueuePriority("high", -5)).toBe(1);
+    expect(computeQueuePriority("high", Number.MAX_SAFE_INTEGER)).toBeLessThan(
+      computeQueuePriority("normal", 0),
+    );
+    expect(computeQueuePriority("low", Number.MAX_SAFE_INTEGER)).toBeLessThan(
+      2 ** 21,
+    );
+  });
+});
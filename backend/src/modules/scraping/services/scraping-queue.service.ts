@@ -1,6 +1,10 @@
 import { Injectable, Logger } from "@nestjs/common";
 import { InjectQueue } from "@nestjs/bullmq";
 import { Queue } from "bullmq";
+import {
+  CrawlOptions,
+  JobPriority,
+} from "../../../core/database/schema/scraping-jobs";
 
 /**
  * Job data structure for scraping queue
@@ -9,8 +13,60 @@ export interface ScrapeJobData {
   itemId: string;
   url: string;
   jobId: string;
+  crawl?: CrawlOptions;
+  // Skip robots.txt checks (admin-only job option)
+  ignoreRobotsTxt?: boolean;
+  // BullMQ priority from computeQueuePriority (lower runs first)
+  priority?: number;
 }
 
+/**
+ * Deterministic BullMQ job ID for a scraping item, so its queue entry can be
+ * looked up and removed later (e.g. when the job is cancelled)
+ */
+export function getScrapeJobId(itemId: string): string {
+  return `scrape-${itemId}`;
+}
+
+/**
+ * Width of each priority class in BullMQ priority values
+ * Three classes stay below BullMQ's maximum priority of 2^21
+ */
+const PRIORITY_BAND_SIZE = 500000;
+
+const PRIORITY_BAND_OFFSETS: Record<JobPriority, number> = {
+  high: 0,
+  normal: PRIORITY_BAND_SIZE,
+  low: 2 * PRIORITY_BAND_SIZE,
+};
+
+/**
+ * BullMQ priority for a queue entry (lower runs first)
+ * Within a priority class the entry is ranked by how many of its owner's items
+ * are queued ahead of it, so each user's first item runs before any user's
+ * second item: new users are not starved by another user's large backlog
+ *
+ * @param priority - The job's priority class
+ * @param userRank - Number of the user's items already waiting ahead of this one
+ */
+export function computeQueuePriority(
+  priority: JobPriority,
+  userRank: number,
+): number {
+  const rank = Math.min(Math.max(0, userRank), PRIORITY_BAND_SIZE - 1);
+  return PRIORITY_BAND_OFFSETS[priority] + rank + 1;
+}
+
+/**
+ * BullMQ states in which a job has not started and can be removed
+ */
+const REMOVABLE_JOB_STATES = new Set([
+  "waiting",
+  "delayed",
+  "prioritized",
+  "paused",
+]);
+
 /**
  * Queue status interface for monitoring
  */
@@ -32,52 +88,46 @@ export class ScrapingQueueService {
 
   constructor(
     @InjectQueue("scrape-queue") private readonly scrapeQueue: Queue,
-  ) { }
+  ) {}
 
   /**
    * Enqueue a single URL scraping job
    * Configures retry attempts and exponential backoff
    *
-   * @param itemId - The unique identifier for the scraping item
-   * @param url - URL to scrape
-   * @param jobId - The parent job ID
+   * @param data - Item ID, URL, parent job ID and per-job fetch settings
    * @returns The BullMQ job ID
    */
-  async enqueueSingleUrlJob(
-    itemId: string,
-    url: string,
-    jobId: string,
-  ): Promise<string> {
+  async enqueueSingleUrlJob(data: ScrapeJobData): Promise<string> {
+    const { itemId, url, jobId, priority } = data;
+
     this.logger.log(`Enqueuing single URL job`, {
       operation: "enqueueSingleUrlJob",
       itemId,
       url,
       jobId,
+      priority,
       timestamp: new Date().toISOString(),
     });
 
     try {
-      const job = await this.scrapeQueue.add(
-        "scrape-url",
-        {
-          itemId,
-          url,
-          jobId,
-        } as ScrapeJobData,
-        {
-          attempts: 3,
-          backoff: {
-            type: "exponential",
-            delay: 2000,
-          },
-          removeOnComplete: {
-            age: 3600,
-          },
-          removeOnFail: {
-            age: 86400,
-          },
+      // A finished job kept for its retention window would make add() a no-op
+      await this.removeFinishedJob(itemId);
+
+      const job = await this.scrapeQueue.add("scrape-url", data, {
+        attempts: 3,
+        backoff: {
+          type: "exponential",
+          delay: 2000,
         },
-      );
+        removeOnComplete: {
+          age: 3600,
+        },
+        removeOnFail: {
+          age: 86400,
+        },
+        jobId: getScrapeJobId(itemId),
+        ...(priority !== undefined && { priority }),
+      });
 
       if (!job.id) {
         throw new Error("Failed to create scraping job - job ID not assigned");
@@ -114,12 +164,10 @@ export class ScrapingQueueService {
   /**
    * Enqueue multiple URLs as separate parallel jobs
    *
-   * @param items - Array of items with itemId, url, and jobId
+   * @param items - Array of items with itemId, url, jobId and optional crawl settings
    * @returns Array of BullMQ job IDs
    */
-  async enqueueMultipleUrlJobs(
-    items: { itemId: string; url: string; jobId: string }[],
-  ): Promise<string[]> {
+  async enqueueMultipleUrlJobs(items: ScrapeJobData[]): Promise<string[]> {
     this.logger.log(`Enqueuing multiple URL jobs`, {
       operation: "enqueueMultipleUrlJobs",
       itemCount: items.length,
@@ -127,9 +175,7 @@ export class ScrapingQueueService {
     });
 
     try {
-      const jobPromises = items.map((item) =>
-        this.enqueueSingleUrlJob(item.itemId, item.url, item.jobId),
-      );
+      const jobPromises = items.map((item) => this.enqueueSingleUrlJob(item));
 
       const bullmqJobIds = await Promise.all(jobPromises);
 
@@ -172,7 +218,8 @@ export class ScrapingQueueService {
       const counts = await this.scrapeQueue.getJobCounts();
 
       const status: QueueStatus = {
-        waiting: counts.waiting || 0,
+        // Items are enqueued with a priority, so they wait in the prioritized set
+        waiting: (counts.waiting || 0) + (counts.prioritized || 0),
         active: counts.active || 0,
         completed: counts.completed || 0,
         failed: counts.failed || 0,
@@ -200,4 +247,69 @@ export class ScrapingQueueService {
       throw error;
     }
   }
+
+  /**
+   * Remove the not-yet-started BullMQ jobs of the given scraping items
+   * Active jobs cannot be removed; the processor stops those itself
+   *
+   * @param itemIds - Scraping item IDs
+   * @returns Number of BullMQ jobs removed
+   */
+  async removeItemJobs(itemIds: string[]): Promise<number> {
+    this.logger.log(`Removing queued URL jobs`, {
+      operation: "removeItemJobs",
+      itemCount: itemIds.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    let removed = 0;
+
+    for (const itemId of itemIds) {
+      try {
+        const job = await this.scrapeQueue.getJob(getScrapeJobId(itemId));
+        if (!job) {
+          continue;
+        }
+
+        const state = await job.getState();
+        if (REMOVABLE_JOB_STATES.has(state)) {
+          await job.remove();
+          removed++;
+        }
+      } catch (error) {
+        // A job can become active between getState and remove; the processor handles it
+        this.logger.warn(`Failed to remove queued URL job`, {
+          operation: "removeItemJobs",
+          itemId,
+          error: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString(),
+        });
+      }
+    }
+
+    this.logger.log(`Queued URL jobs removed`, {
+      operation: "removeItemJobs",
+      itemCount: itemIds.length,
+      removedCount: removed,
+      timestamp: new Date().toISOString(),
+    });
+
+    return removed;
+  }
+
+  /**
+   * Remove a completed or failed BullMQ job still retained for an item
+   * so the item can be enqueued again under the same deterministic ID
+   */
+  private async removeFinishedJob(itemId: string): Promise<void> {
+    const existing = await this.scrapeQueue.getJob(getScrapeJobId(itemId));
+    if (!existing) {
+      return;
+    }
+
+    const state = await existing.getState();
+    if (state === "completed" || state === "failed") {
+      await existing.remove();
+    }
+  }
 }
@@ -0,0 +1,43 @@
+import { Injectable, Logger } from "@nestjs/common";
+import { Cron, CronExpression } from "@nestjs/schedule";
+import { ScrapingScheduleService } from "./scraping-schedule.service";
+
+@Injectable()
+export class ScrapingScheduleCronService {
+  private readonly logger = new Logger(ScrapingScheduleCronService.name);
+
+  constructor(
+    private readonly scrapingScheduleService: ScrapingScheduleService,
+  ) {}
+
+  /**
+   * Runs every minute and starts the re-scrapes whose schedule is due
+   * Cron expression: '0 * * * * *' means at second 0 of every minute
+   */
+  @Cron(CronExpression.EVERY_MINUTE, {
+    name: "scraping-schedule-cron",
+    timeZone: "UTC",
+  })
+  async handleScheduleCron() {
+    const startTime = Date.now();
+
+    try {
+      const summary = await this.scrapingScheduleService.runDueSchedules();
+
+      if (summary.due > 0) {
+        this.logger.log(
+          `Scraping schedule cron completed in ${Date.now() - startTime}ms. ` +
+            `Due: ${summary.due}, started: ${summary.started}, skipped: ${summary.skipped}, failed: ${summary.failed}.`,
+        );
+      }
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      const errorStack = error instanceof Error ? error.stack : "";
+      this.logger.error(
+        `Scraping schedule cron failed: ${errorMessage}`,
+        errorStack,
+      );
+    }
+  }
+}
@@ -0,0 +1,442 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  NotFoundException,
+} from "@nestjs/common";
+import { CronTime } from "cron";
+import { ScrapingRepository } from "../../../core/database/repositories/scraping.repository";
+import {
+  ScrapingScheduleRepository,
+  ScrapingScheduleEntity,
+} from "../../../core/database/repositories/scraping-schedule.repository";
+import { CreateScrapingScheduleDto } from "../dto/create-scraping-schedule.dto";
+import { ScrapingService } from "./scraping.service";
+
+/**
+ * Minimum spacing between consecutive runs of a schedule
+ */
+const MIN_SCHEDULE_INTERVAL_MS = 60 * 60 * 1000;
+
+// Upcoming occurrences checked against the minimum interval
+const INTERVAL_CHECK_OCCURRENCES = 5;
+
+/**
+ * Maximum due schedules started per poll
+ */
+const MAX_RUNS_PER_POLL = 50;
+
+const DEFAULT_TIME_ZONE = "UTC";
+
+/**
+ * Outcome of one poll of due schedules
+ */
+export interface ScheduleRunSummary {
+  due: number;
+  started: number;
+  skipped: number;
+  failed: number;
+}
+
+/**
+ * Service for recurring re-scrapes of a job's URL set
+ * Each run is a new scraping job linked to the scheduled job via parentJobId
+ */
+@Injectable()
+export class ScrapingScheduleService {
+  private readonly logger = new Logger(ScrapingScheduleService.name);
+
+  constructor(
+    private readonly scrapingRepository: ScrapingRepository,
+    private readonly scrapingScheduleRepository: ScrapingScheduleRepository,
+    private readonly scrapingService: ScrapingService,
+  ) {}
+
+  /**
+   * Attach a cron schedule to a job, replacing and re-enabling an existing one
+   *
+   * @param jobId - The job whose URLs are re-scraped
+   * @param userId - The authenticated user's ID (for authorization)
+   * @param dto - Cron expression and optional time zone
+   * @returns The saved schedule
+   * @throws NotFoundException if job not found or user doesn't have access
+   * @throws BadRequestException if the job is itself a run or the cron expression is invalid
+   */
+  async createSchedule(
+    jobId: string,
+    userId: string,
+    dto: CreateScrapingScheduleDto,
+  ): Promise<ScrapingScheduleEntity> {
+    const requestId = crypto.randomUUID();
+    const timeZone = dto.timeZone ?? DEFAULT_TIME_ZONE;
+
+    this.logger.log("Scheduling job", {
+      operation: "createSchedule",
+      requestId,
+      userId,
+      jobId,
+      cron: dto.cron,
+      timeZone,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
+
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "createSchedule",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      if (job.parentJobId) {
+        throw new BadRequestException(
+          "Scheduled runs cannot be scheduled; schedule the original job instead",
+        );
+      }
+
+      const nextRunAt = this.getNextRunAt(dto.cron, timeZone);
+
+      const schedule = await this.scrapingScheduleRepository.upsertSchedule({
+        jobId,
+        userId,
+        cronExpression: dto.cron,
+        timeZone,
+        nextRunAt,
+      });
+
+      this.logger.log("Job scheduled", {
+        operation: "createSchedule",
+        requestId,
+        userId,
+        jobId,
+        scheduleId: schedule.id,
+        nextRunAt: nextRunAt.toISOString(),
+        timestamp: new Date().toISOString(),
+      });
+
+      return schedule;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to schedule job",
+        {
+          operation: "createSchedule",
+          requestId,
+          userId,
+          jobId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to schedule job. Please try again");
+    }
+  }
+
+  /**
+   * List all schedules of a user, newest first
+   *
+   * @param userId - The authenticated user's ID
+   * @returns The user's schedules
+   */
+  async listSchedules(userId: string): Promise<ScrapingScheduleEntity[]> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Listing schedules for user", {
+      operation: "listSchedules",
+      requestId,
+      userId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const schedules =
+        await this.scrapingScheduleRepository.findSchedulesByUserId(userId);
+
+      this.logger.log("Schedules retrieved successfully", {
+        operation: "listSchedules",
+        requestId,
+        userId,
+        scheduleCount: schedules.length,
+        timestamp: new Date().toISOString(),
+      });
+
+      return schedules;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to list schedules",
+        {
+          operation: "listSchedules",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      throw new BadRequestException("Failed to retrieve schedules");
+    }
+  }
+
+  /**
+   * Disable a schedule; existing runs are left untouched
+   *
+   * @param scheduleId - The schedule's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns The disabled schedule
+   * @throws NotFoundException if schedule not found or user doesn't have access
+   */
+  async disableSchedule(
+    scheduleId: string,
+    userId: string,
+  ): Promise<ScrapingScheduleEntity> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Disabling schedule", {
+      operation: "disableSchedule",
+      requestId,
+      userId,
+      scheduleId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const schedule = await this.scrapingScheduleRepository.findScheduleById(
+        scheduleId,
+        userId,
+      );
+
+      if (!schedule) {
+        this.logger.warn("Schedule not found or access denied", {
+          operation: "disableSchedule",
+          requestId,
+          userId,
+          scheduleId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Schedule not found or you do not have access to this schedule",
+        );
+      }
+
+      const disabled =
+        await this.scrapingScheduleRepository.disableSchedule(scheduleId);
+
+      this.logger.log("Schedule disabled", {
+        operation: "disableSchedule",
+        requestId,
+        userId,
+        scheduleId,
+        timestamp: new Date().toISOString(),
+      });
+
+      return disabled ?? { ...schedule, enabled: false, nextRunAt: null };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to disable schedule",
+        {
+          operation: "disableSchedule",
+          requestId,
+          userId,
+          scheduleId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof NotFoundException) {
+        throw error;
+      }
+
+      throw new BadRequestException(
+        "Failed to disable schedule. Please try again",
+      );
+    }
+  }
+
+  /**
+   * Start a run for every due schedule
+   * Each run is claimed by advancing nextRunAt first, so several instances
+   * polling at once never start the same run twice. A run is skipped while
+   * the previous run of the same job is still unfinished.
+   *
+   * @returns Counts of due, started, skipped and failed runs
+   */
+  async runDueSchedules(): Promise<ScheduleRunSummary> {
+    const now = new Date();
+    const dueSchedules = await this.scrapingScheduleRepository.findDueSchedules(
+      now,
+      MAX_RUNS_PER_POLL,
+    );
+    const summary: ScheduleRunSummary = {
+      due: dueSchedules.length,
+      started: 0,
+      skipped: 0,
+      failed: 0,
+    };
+
+    for (const schedule of dueSchedules) {
+      try {
+        const started = await this.runSchedule(schedule, now);
+        if (started) {
+          summary.started++;
+        } else {
+          summary.skipped++;
+        }
+      } catch (error) {
+        summary.failed++;
+        const errorStack = error instanceof Error ? error.stack : "";
+        this.logger.error(
+          "Failed to start scheduled run",
+          {
+            operation: "runDueSchedules",
+            scheduleId: schedule.id,
+            jobId: schedule.jobId,
+            error: error instanceof Error ? error.message : String(error),
+            timestamp: new Date().toISOString(),
+          },
+          errorStack,
+        );
+      }
+    }
+
+    return summary;
+  }
+
+  /**
+   * Claim and start one due schedule
+   *
+   * @returns True when a new run was created
+   * @private
+   */
+  private async runSchedule(
+    schedule: ScrapingScheduleEntity,
+    now: Date,
+  ): Promise<boolean> {
+    if (!schedule.nextRunAt) {
+      return false;
+    }
+
+    // Missed occurrences (e.g. downtime) collapse into this single run
+    const nextRunAt = this.getNextRunAt(
+      schedule.cronExpression,
+      schedule.timeZone,
+      now,
+    );
+    const claimed = await this.scrapingScheduleRepository.claimScheduleRun(
+      schedule.id,
+      schedule.nextRunAt,
+      nextRunAt,
+    );
+    if (!claimed) {
+      return false;
+    }
+
+    if (await this.scrapingRepository.hasUnfinishedRun(schedule.jobId)) {
+      this.logger.warn("Skipping scheduled run: previous run still active", {
+        operation: "runSchedule",
+        scheduleId: schedule.id,
+        jobId: schedule.jobId,
+        nextRunAt: nextRunAt.toISOString(),
+        timestamp: new Date().toISOString(),
+      });
+      return false;
+    }
+
+    const job = await this.scrapingRepository.findJobById(
+      schedule.jobId,
+      schedule.userId,
+    );
+    if (!job) {
+      return false;
+    }
+
+    const run = await this.scrapingService.createRunFromJob(job);
+    await this.scrapingScheduleRepository.recordRun(schedule.id, run.jobId);
+
+    this.logger.log("Scheduled run started", {
+      operation: "runSchedule",
+      scheduleId: schedule.id,
+      jobId: schedule.jobId,
+      runJobId: run.jobId,
+      acceptedUrls: run.acceptedUrls,
+      nextRunAt: nextRunAt.toISOString(),
+      timestamp: new Date().toISOString(),
+    });
+
+    return true;
+  }
+
+  /**
+   * Next occurrence of a cron expression after a point in time
+   *
+   * @param cronExpression - Cron expression (5 or 6 fields)
+   * @param timeZone - IANA time zone
+   * @param after - Reference time (defaults to now)
+   * @throws BadRequestException if the expression is invalid or fires more than hourly
+   * @private
+   */
+  private getNextRunAt(
+    cronExpression: string,
+    timeZone: string,
+    after: Date = new Date(),
+  ): Date {
+    let cronTime: CronTime;
+    try {
+      cronTime = new CronTime(cronExpression, timeZone);
+    } catch (error) {
+      throw new BadRequestException(
+        `Invalid cron expression: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+
+    const occurrences: Date[] = [];
+    let cursor = after;
+    for (let i = 0; i < INTERVAL_CHECK_OCCURRENCES; i++) {
+      cursor = cronTime.getNextDateFrom(cursor, timeZone).toJSDate();
+      occurrences.push(cursor);
+    }
+
+    for (let i = 1; i < occurrences.length; i++) {
+      if (
+        occurrences[i].getTime() - occurrences[i - 1].getTime() <
+        MIN_SCHEDULE_INTERVAL_MS
+      ) {
+        throw new BadRequestException(
+          "Schedule runs must be at least one hour apart",
+        );
+      }
+    }
+
+    return occurrences[0];
+  }
+}
@@ -0,0 +1,95 @@
+import { Injectable, Logger, BadRequestException } from "@nestjs/common";
+import {
+  ScrapingRepository,
+  ItemSearchResult,
+} from "../../../core/database/repositories/scraping.repository";
+import { CursorPage } from "../../../core/database/repositories/base.repository";
+import {
+  DEFAULT_SEARCH_PAGE_SIZE,
+  SearchItemsQueryDto,
+} from "../dto/search-items-query.dto";
+
+/**
+ * Service for full-text search over extracted companies and contacts
+ * Results are limited to items of the requesting user's jobs
+ */
+@Injectable()
+export class ScrapingSearchService {
+  private readonly logger = new Logger(ScrapingSearchService.name);
+
+  constructor(private readonly scrapingRepository: ScrapingRepository) {}
+
+  /**
+   * Search a user's items by company name, industry, HQ location,
+   * contact names and titles, and page text
+   *
+   * @param userId - The authenticated user's ID
+   * @param query - Search text, company size filters and pagination
+   * @returns Ranked, highlighted results and the cursor of the next page
+   * @throws BadRequestException if the cursor is invalid
+   */
+  async searchItems(
+    userId: string,
+    query: SearchItemsQueryDto,
+  ): Promise<CursorPage<ItemSearchResult>> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Searching items", {
+      operation: "searchItems",
+      requestId,
+      userId,
+      q: query.q,
+      hasCursor: Boolean(query.cursor),
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.scrapingRepository.searchItems(
+        userId,
+        query.q,
+        {
+          minHeadcount: query.minHeadcount,
+          maxHeadcount: query.maxHeadcount,
+          headcountBuckets: query.headcountBuckets,
+        },
+        {
+          limit: query.limit ?? DEFAULT_SEARCH_PAGE_SIZE,
+          cursor: query.cursor,
+        },
+      );
+
+      this.logger.log("Search completed", {
+        operation: "searchItems",
+        requestId,
+        userId,
+        resultCount: page.items.length,
+        hasMore: page.nextCursor !== null,
+        timestamp: new Date().toISOString(),
+      });
+
+      return page;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to search items",
+        {
+          operation: "searchItems",
+          requestId,
+          userId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to search items");
+    }
+  }
+}
@@ -2,13 +2,137 @@ import {
   Injectable,
   Logger,
   BadRequestException,
+  ForbiddenException,
   NotFoundException,
 } from "@nestjs/common";
 import { ConfigService } from "@nestjs/config";
+import { plainToInstance } from "class-transformer";
+import { validate } from "class-validator";
 import validator from "validator";
-import { ScrapingRepository } from "../../../core/database/repositories/scraping.repository";
-import { ScrapingQueueService } from "./scraping-queue.service";
-import { ENV } from "../../../common/constants/string-const";
+import {
+  ScrapingRepository,
+  ScrapingItemEntity,
+  ScrapingJobEntity,
+} from "../../../core/database/repositories/scraping.repository";
+import { ScrapingJobOptions } from "../../../core/database/schema/scraping-jobs";
+import {
+  ScrapingQueueService,
+  ScrapeJobData,
+  computeQueuePriority,
+} from "./scraping-queue.service";
+import {
+  UrlFileParserService,
+  ParsedUrlEntry,
+  ColumnMapping,
+} from "./url-file-parser.service";
+import { ENV, USER_ROLES } from "../../../common/constants/string-const";
+import { validationExceptionFactory } from "../../../common/helpers/validation-errors.helper";
+import { CreateScrapingJobFromUrlsDto } from "../dto/create-scraping-job-from-urls.dto";
+import { RetryScrapingJobDto } from "../dto/retry-scraping-job.dto";
+import {
+  DEFAULT_PAGE_SIZE,
+  ListScrapingItemsQueryDto,
+  ListScrapingJobsQueryDto,
+} from "../dto/list-scraping-query.dto";
+import { CursorPage } from "../../../core/database/repositories/base.repository";
+import { canonicalizeUrl } from "../utils/url-canonicalizer";
+import {
+  ScrapingJobOptionsDto,
+  CRAWL_DEFAULT_MAX_DEPTH,
+  CRAWL_DEFAULT_MAX_PAGES,
+  HIGH_PRIORITY_MAX_URLS,
+} from "../dto/scraping-job-options.dto";
+
+/**
+ * Reason a submitted URL did not become a scraping item
+ */
+export type DropReason = "invalid" | "duplicate";
+
+/**
+ * A submitted URL that was dropped during intake
+ */
+export interface DroppedUrl {
+  url: string;
+  reason: DropReason;
+  duplicateOf?: string;
+}
+
+/**
+ * Result of job creation, including the intake report
+ */
+export interface CreateJobResult {
+  jobId: string;
+  acceptedUrls: number;
+  droppedUrls: number;
+  dropReasons: Record<DropReason, number>;
+  droppedSamples: DroppedUrl[];
+}
+
+/**
+ * Result of cancelling a job
+ */
+export interface CancelJobResult {
+  jobId: string;
+  status: string;
+  cancelledItems: number;
+  inFlightItems: number;
+}
+
+/**
+ * Result of pausing a job
+ */
+export interface PauseJobResult {
+  jobId: string;
+  status: string;
+  pausedItems: number;
+  inFlightItems: number;
+}
+
+/**
+ * Result of resuming a paused job
+ */
+export interface ResumeJobResult {
+  jobId: string;
+  status: string;
+  resumedItems: number;
+}
+
+/**
+ * Result of retrying a job's failed items
+ */
+export interface RetryJobResult {
+  jobId: string;
+  status: string;
+  retriedItems: number;
+}
+
+/**
+ * Job statuses in which failed items cannot be retried
+ * (resume a paused job first; cancelled jobs stay cancelled)
+ */
+const NON_RETRYABLE_JOB_STATUSES = ["paused", "cancelled"];
+
+/**
+ * Job statuses in which new items may still be picked up and can be paused
+ */
+const PAUSABLE_JOB_STATUSES = ["pending", "processing"];
+
+/**
+ * Job statuses after which a job can no longer be cancelled
+ */
+const TERMINAL_JOB_STATUSES = ["completed", "failed", "cancelled"];
+
+/**
+ * Maximum number of dropped URLs echoed back in the create response
+ */
+const MAX_DROPPED_SAMPLES = 100;
+
+/**
+ * URL entry accepted during intake, with its canonical form
+ */
+interface AcceptedUrlEntry extends ParsedUrlEntry {
+  canonicalUrl: string;
+}
 
 /**
  * Service for managing web scraping operations
@@ -21,6 +145,7 @@ export class ScrapingService {
   constructor(
     private readonly scrapingRepository: ScrapingRepository,
     private readonly scrapingQueueService: ScrapingQueueService,
+    private readonly urlFileParserService: UrlFileParserService,
     private readonly configService: ConfigService,
   ) {}
 
@@ -29,15 +154,21 @@ export class ScrapingService {
    * Accepts either a file with URLs or a mock server flag (XOR validation)
    *
    * @param userId - The authenticated user's ID
-   * @param file - Optional uploaded text file containing URLs
+   * @param file - Optional uploaded text, CSV or XLSX file containing URLs
    * @param useMockServer - Optional flag to use mock server instead of file
+   * @param columnMapping - Optional URL/domain column selection for CSV/XLSX files
+   * @param rawOptions - Optional JSON-encoded job options from multipart form data
+   * @param userRole - The authenticated user's role, used for admin-only options
    * @returns Object containing the created job ID
    */
   async createJob(
     userId: string,
     file?: Express.Multer.File,
     useMockServer?: boolean | string,
-  ): Promise<{ jobId: string }> {
+    columnMapping?: ColumnMapping,
+    rawOptions?: string,
+    userRole: string = USER_ROLES.USER,
+  ): Promise<CreateJobResult> {
     const requestId = crypto.randomUUID();
 
     // Ensure useMockServer is a boolean (handles "true"/"false" strings from multipart/form-data)
@@ -80,10 +211,13 @@ export class ScrapingService {
         );
       }
 
+      const options = await this.parseJobOptions(rawOptions);
+      this.assertOptionsPermitted(options, userRole, userId, requestId);
+
       // Extract URLs based on input mode
-      let urls: string[];
+      let urls: ParsedUrlEntry[];
       if (file) {
-        urls = this.parseUrlsFromFile(file);
+        urls = await this.urlFileParserService.parse(file, columnMapping);
         this.logger.log("URLs parsed from file", {
           operation: "parseUrlsFromFile",
           requestId,
@@ -94,7 +228,10 @@ export class ScrapingService {
         });
       } else {
         const mockServerUrl = this.getMockServerUrl();
-        urls = Array(15).fill(mockServerUrl);
+        urls = Array.from({ length: 15 }, () => ({
+          url: mockServerUrl,
+          metadata: null,
+        }));
         this.logger.log("Using mock server URL (15 parallel requests)", {
           operation: "getMockServerUrl",
           requestId,
@@ -105,117 +242,367 @@ export class ScrapingService {
         });
       }
 
-      // Validate that we have at least one URL
-      if (urls.length === 0) {
-        this.logger.warn("Job creation failed: no URLs extracted", {
+      // Mock mode intentionally sends the same URL many times, so skip deduplication
+      return await this.createJobFromEntries(userId, urls, options, requestId, {
+        deduplicate: !isMockServer,
+      });
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to create scraping job",
+        {
           operation: "createJob",
           requestId,
           userId,
-          fileName: file?.originalname,
+          hasFile: !!file,
+          useMockServer: !!useMockServer,
+          error: errorMessage,
           timestamp: new Date().toISOString(),
-        });
-        throw new BadRequestException(
-          "No valid URLs found. Please provide a file with at least one URL",
-        );
+        },
+        errorStack,
+      );
+
+      // Re-throw known exceptions
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
       }
 
-      // Create job record in database
-      const job = await this.scrapingRepository.createJob({
-        userId,
-        totalUrls: urls.length,
-        status: "pending",
-      });
+      // Wrap unknown errors
+      throw new BadRequestException(
+        "Failed to create scraping job. Please try again",
+      );
+    }
+  }
 
-      this.logger.log("Scraping job created in database", {
-        operation: "createJob",
-        requestId,
-        userId,
-        jobId: job.id,
-        totalUrls: urls.length,
-        timestamp: new Date().toISOString(),
-      });
+  /**
+   * Create a new scraping job from a JSON list of URLs
+   * Used by backend integrations; shares validation, item creation and
+   * enqueueing with the multipart upload flow
+   *
+   * @param userId - The authenticated user's ID
+   * @param dto - Validated request body with URLs and per-job options
+   * @param userRole - The authenticated user's role, used for admin-only options
+   * @returns Object containing the created job ID
+   */
+  async createJobFromUrls(
+    userId: string,
+    dto: CreateScrapingJobFromUrlsDto,
+    userRole: string = USER_ROLES.USER,
+  ): Promise<CreateJobResult> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Creating scraping job from URL list", {
+      operation: "createJobFromUrls",
+      requestId,
+      userId,
+      urlCount: dto.urls.length,
+      timestamp: new Date().toISOString(),
+    });
 
-      // Create scraping items in database
-      const itemsData = urls.map((url) => ({
-        jobId: job.id,
-        url,
-        status: "pending",
+    try {
+      const entries: ParsedUrlEntry[] = dto.urls.map((url) => ({
+        url: url.trim(),
+        metadata: null,
       }));
 
-      const items = await this.scrapingRepository.createItems(itemsData);
+      const options = this.toJobOptions(dto.options);
+      this.assertOptionsPermitted(options, userRole, userId, requestId);
 
-      this.logger.log("Scraping items created in database", {
-        operation: "createJob",
-        requestId,
+      return await this.createJobFromEntries(
         userId,
-        jobId: job.id,
-        itemCount: items.length,
-        timestamp: new Date().toISOString(),
-      });
+        entries,
+        options,
+        requestId,
+      );
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to create scraping job from URL list",
+        {
+          operation: "createJobFromUrls",
+          requestId,
+          userId,
+          urlCount: dto.urls.length,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof ForbiddenException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException(
+        "Failed to create scraping job. Please try again",
+      );
+    }
+  }
 
-      // Update job status to "processing"
-      await this.scrapingRepository.updateJobProgress(job.id);
+  /**
+   * Shared job intake path: validates and canonicalizes URLs, collapses
+   * duplicates, creates the job and its items, and enqueues one BullMQ job per item
+   *
+   * @param userId - The authenticated user's ID
+   * @param entries - URL entries from a file, mock server or JSON body
+   * @param options - Validated per-job options
+   * @param requestId - Correlation ID of the calling request
+   * @param intake - Intake behaviour; duplicates are collapsed unless deduplicate is false,
+   * and parentJobId links a scheduled run to the job it re-scrapes
+   * @returns Created job ID and intake report
+   * @private
+   */
+  private async createJobFromEntries(
+    userId: string,
+    entries: ParsedUrlEntry[],
+    options: ScrapingJobOptions,
+    requestId: string,
+    intake: { deduplicate: boolean; parentJobId?: string } = {
+      deduplicate: true,
+    },
+  ): Promise<CreateJobResult> {
+    const { accepted: urls, dropped } = this.prepareEntries(
+      entries,
+      requestId,
+      intake.deduplicate,
+    );
 
-      this.logger.log("Job status updated to processing", {
-        operation: "createJob",
+    // Validate that we have at least one URL
+    if (urls.length === 0) {
+      this.logger.warn("Job creation failed: no URLs extracted", {
+        operation: "createJobFromEntries",
         requestId,
         userId,
-        jobId: job.id,
+        receivedCount: entries.length,
         timestamp: new Date().toISOString(),
       });
+      throw new BadRequestException(
+        "No valid URLs found. URLs must be valid http:// or https:// URLs",
+      );
+    }
 
-      // Enqueue each URL as separate job in BullMQ for parallel processing
-      const jobsToEnqueue = items.map((item) => ({
-        itemId: item.id,
-        url: item.url,
-        jobId: job.id,
-      }));
+    if (options.priority === "high" && urls.length > HIGH_PRIORITY_MAX_URLS) {
+      throw new BadRequestException(
+        `High priority is limited to jobs of at most ${HIGH_PRIORITY_MAX_URLS} URLs`,
+      );
+    }
+
+    // Rank the new items behind the user's existing backlog (fair share)
+    const backlog = await this.scrapingRepository.countUserBacklog(userId);
+
+    // Create job record in database
+    const job = await this.scrapingRepository.createJob({
+      userId,
+      parentJobId: intake.parentJobId,
+      totalUrls: urls.length,
+      status: "pending",
+      options,
+    });
+
+    this.logger.log("Scraping job created in database", {
+      operation: "createJobFromEntries",
+      requestId,
+      userId,
+      jobId: job.id,
+      totalUrls: urls.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Create scraping items in database
+    const itemsData = urls.map((entry) => ({
+      jobId: job.id,
+      url: entry.url,
+      canonicalUrl: entry.canonicalUrl,
+      status: "pending",
+      metadata: entry.metadata,
+    }));
+
+    const items = await this.scrapingRepository.createItems(itemsData);
+
+    this.logger.log("Scraping items created in database", {
+      operation: "createJobFromEntries",
+      requestId,
+      userId,
+      jobId: job.id,
+      itemCount: items.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Update job status to "processing"
+    await this.scrapingRepository.updateJobProgress(job.id);
+
+    this.logger.log("Job status updated to processing", {
+      operation: "createJobFromEntries",
+      requestId,
+      userId,
+      jobId: job.id,
+      timestamp: new Date().toISOString(),
+    });
+
+    // Enqueue each URL as separate job in BullMQ for parallel processing
+    const jobsToEnqueue = this.toQueueJobs(items, job.id, options, backlog);
+
+    const bullmqJobIds =
+      await this.scrapingQueueService.enqueueMultipleUrlJobs(jobsToEnqueue);
+
+    this.logger.log("All URLs enqueued successfully", {
+      operation: "createJobFromEntries",
+      requestId,
+      userId,
+      jobId: job.id,
+      enqueuedCount: bullmqJobIds.length,
+      totalUrls: urls.length,
+      droppedCount: dropped.length,
+      timestamp: new Date().toISOString(),
+    });
+
+    const dropReasons: Record<DropReason, number> = {
+      invalid: 0,
+      duplicate: 0,
+    };
+    for (const entry of dropped) {
+      dropReasons[entry.reason]++;
+    }
+
+    return {
+      jobId: job.id,
+      acceptedUrls: urls.length,
+      droppedUrls: dropped.length,
+      dropReasons,
+      droppedSamples: dropped.slice(0, MAX_DROPPED_SAMPLES),
+    };
+  }
+
+  /**
+   * Create a new run of a job over the same URL set (used by schedules)
+   * The run copies the job's options and item metadata and is linked via parentJobId
+   *
+   * @param parentJob - The scheduled job whose URLs are re-scraped
+   * @returns Created run's job ID and intake report
+   */
+  async createRunFromJob(
+    parentJob: ScrapingJobEntity,
+  ): Promise<CreateJobResult> {
+    const requestId = crypto.randomUUID();
+    const userId = parentJob.userId;
+
+    this.logger.log("Creating scheduled run of job", {
+      operation: "createRunFromJob",
+      requestId,
+      userId,
+      parentJobId: parentJob.id,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (!userId) {
+      throw new BadRequestException("Job has no owner and cannot be re-run");
+    }
 
-      const bullmqJobIds =
-        await this.scrapingQueueService.enqueueMultipleUrlJobs(jobsToEnqueue);
+    const items = await this.scrapingRepository.findItemsByJobId(parentJob.id);
+    const entries: ParsedUrlEntry[] = items.map((item) => ({
+      url: item.url,
+      metadata: item.metadata,
+    }));
 
-      this.logger.log("All URLs enqueued successfully", {
-        operation: "createJob",
+    return this.createJobFromEntries(
+      userId,
+      entries,
+      parentJob.options ?? {},
+      requestId,
+      { deduplicate: true, parentJobId: parentJob.id },
+    );
+  }
+
+  /**
+   * List the runs created from a job by its schedule, newest first
+   *
+   * @param jobId - The scheduled job's ID
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns Run jobs
+   * @throws NotFoundException if job not found or user doesn't have access
+   */
+  async listJobRuns(
+    jobId: string,
+    userId: string,
+  ): Promise<ScrapingJobEntity[]> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Listing runs of job", {
+      operation: "listJobRuns",
+      requestId,
+      userId,
+      jobId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
+
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "listJobRuns",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      const runs = await this.scrapingRepository.findRunsByParentJobId(
+        jobId,
+        userId,
+      );
+
+      this.logger.log("Job runs retrieved successfully", {
+        operation: "listJobRuns",
         requestId,
         userId,
-        jobId: job.id,
-        enqueuedCount: bullmqJobIds.length,
-        totalUrls: urls.length,
+        jobId,
+        runCount: runs.length,
         timestamp: new Date().toISOString(),
       });
 
-      return { jobId: job.id };
+      return runs;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
       const errorStack = error instanceof Error ? error.stack : "";
 
       this.logger.error(
-        "Failed to create scraping job",
+        "Failed to list job runs",
         {
-          operation: "createJob",
+          operation: "listJobRuns",
           requestId,
           userId,
-          hasFile: !!file,
-          useMockServer: !!useMockServer,
+          jobId,
           error: errorMessage,
           timestamp: new Date().toISOString(),
         },
         errorStack,
       );
 
-      // Re-throw known exceptions
-      if (
-        error instanceof BadRequestException ||
-        error instanceof NotFoundException
-      ) {
+      if (error instanceof NotFoundException) {
         throw error;
       }
 
-      // Wrap unknown errors
-      throw new BadRequestException(
-        "Failed to create scraping job. Please try again",
-      );
+      throw new BadRequestException("Failed to retrieve job runs");
     }
   }
 
@@ -300,33 +687,473 @@ export class ScrapingService {
   }
 
   /**
-   * List all jobs for a specific user
+   * Cancel a job: items that have not started are marked cancelled and their
+   * queued BullMQ jobs removed; in-flight items stop before their next fetch
    *
-   * @param userId - The authenticated user's ID
-   * @returns Array of jobs belonging to the user
+   * @param jobId - The job's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns Cancellation summary
+   * @throws NotFoundException if job not found or user doesn't have access
+   * @throws BadRequestException if the job has already finished
    */
-  async listJobs(userId: string): Promise<any[]> {
+  async cancelJob(jobId: string, userId: string): Promise<CancelJobResult> {
     const requestId = crypto.randomUUID();
 
-    this.logger.log("Listing jobs for user", {
-      operation: "listJobs",
+    this.logger.log("Cancelling job", {
+      operation: "cancelJob",
       requestId,
       userId,
+      jobId,
       timestamp: new Date().toISOString(),
     });
 
     try {
-      const jobs = await this.scrapingRepository.findJobsByUserId(userId);
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
 
-      this.logger.log("Jobs retrieved successfully", {
-        operation: "listJobs",
-        requestId,
-        userId,
-        jobCount: jobs.length,
-        timestamp: new Date().toISOString(),
-      });
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "cancelJob",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      if (TERMINAL_JOB_STATUSES.includes(job.status)) {
+        throw new BadRequestException(
+          `Job is already ${job.status} and cannot be cancelled`,
+        );
+      }
+
+      // Flag the job first so workers stop picking up its items
+      await this.scrapingRepository.updateJobStatus(jobId, "cancelled");
+
+      const cancelledItemIds =
+        await this.scrapingRepository.cancelPendingItems(jobId);
+      const removedQueueJobs =
+        await this.scrapingQueueService.removeItemJobs(cancelledItemIds);
+
+      const items = await this.scrapingRepository.findItemsByJobId(jobId);
+      const inFlightItems = items.filter(
+        (item) => item.status === "processing",
+      ).length;
+
+      await this.scrapingRepository.updateJobProgress(jobId);
+
+      this.logger.log("Job cancelled", {
+        operation: "cancelJob",
+        requestId,
+        userId,
+        jobId,
+        cancelledItems: cancelledItemIds.length,
+        removedQueueJobs,
+        inFlightItems,
+        timestamp: new Date().toISOString(),
+      });
+
+      return {
+        jobId,
+        status: "cancelled",
+        cancelledItems: cancelledItemIds.length,
+        inFlightItems,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to cancel job",
+        {
+          operation: "cancelJob",
+          requestId,
+          userId,
+          jobId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to cancel job. Please try again");
+    }
+  }
+
+  /**
+   * Pause a job: items that have not started are parked and their queued
+   * BullMQ jobs removed; in-flight items finish normally
+   * Other jobs in the shared queue are unaffected
+   *
+   * @param jobId - The job's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns Pause summary
+   * @throws NotFoundException if job not found or user doesn't have access
+   * @throws BadRequestException if the job is not pending or processing
+   */
+  async pauseJob(jobId: string, userId: string): Promise<PauseJobResult> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Pausing job", {
+      operation: "pauseJob",
+      requestId,
+      userId,
+      jobId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
+
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "pauseJob",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      if (!PAUSABLE_JOB_STATUSES.includes(job.status)) {
+        throw new BadRequestException(
+          `Job is ${job.status} and cannot be paused`,
+        );
+      }
+
+      // Flag the job first so progress updates keep it paused
+      await this.scrapingRepository.updateJobStatus(jobId, "paused");
+
+      const parkedItemIds =
+        await this.scrapingRepository.parkPendingItems(jobId);
+      const removedQueueJobs =
+        await this.scrapingQueueService.removeItemJobs(parkedItemIds);
+
+      const items = await this.scrapingRepository.findItemsByJobId(jobId);
+      const inFlightItems = items.filter(
+        (item) => item.status === "processing",
+      ).length;
+
+      this.logger.log("Job paused", {
+        operation: "pauseJob",
+        requestId,
+        userId,
+        jobId,
+        pausedItems: parkedItemIds.length,
+        removedQueueJobs,
+        inFlightItems,
+        timestamp: new Date().toISOString(),
+      });
 
-      return jobs;
+      return {
+        jobId,
+        status: "paused",
+        pausedItems: parkedItemIds.length,
+        inFlightItems,
+      };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to pause job",
+        {
+          operation: "pauseJob",
+          requestId,
+          userId,
+          jobId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to pause job. Please try again");
+    }
+  }
+
+  /**
+   * Resume a paused job by re-enqueueing its parked items
+   *
+   * @param jobId - The job's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @returns Resume summary with the job's recalculated status
+   * @throws NotFoundException if job not found or user doesn't have access
+   * @throws BadRequestException if the job is not paused
+   */
+  async resumeJob(jobId: string, userId: string): Promise<ResumeJobResult> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Resuming job", {
+      operation: "resumeJob",
+      requestId,
+      userId,
+      jobId,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
+
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "resumeJob",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      if (job.status !== "paused") {
+        throw new BadRequestException(
+          `Job is ${job.status} and cannot be resumed`,
+        );
+      }
+
+      await this.scrapingRepository.updateJobStatus(jobId, "processing");
+
+      const backlog = await this.scrapingRepository.countUserBacklog(userId);
+      const items = await this.scrapingRepository.unparkItems(jobId);
+      if (items.length > 0) {
+        await this.scrapingQueueService.enqueueMultipleUrlJobs(
+          this.toQueueJobs(items, jobId, job.options ?? {}, backlog),
+        );
+      }
+
+      // Recalculate status (e.g. completed if nothing was left to resume)
+      await this.scrapingRepository.updateJobProgress(jobId);
+      const status =
+        (await this.scrapingRepository.findJobStatus(jobId)) ?? "processing";
+
+      this.logger.log("Job resumed", {
+        operation: "resumeJob",
+        requestId,
+        userId,
+        jobId,
+        resumedItems: items.length,
+        status,
+        timestamp: new Date().toISOString(),
+      });
+
+      return { jobId, status, resumedItems: items.length };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to resume job",
+        {
+          operation: "resumeJob",
+          requestId,
+          userId,
+          jobId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to resume job. Please try again");
+    }
+  }
+
+  /**
+   * Retry a job's failed items, optionally only those with given error categories
+   * Items are reset to pending and re-enqueued; the job's counters and status
+   * are recalculated, which moves a failed or completed job back to processing
+   *
+   * @param jobId - The job's unique identifier
+   * @param userId - The authenticated user's ID (for authorization)
+   * @param dto - Optional error category filter
+   * @returns Retry summary with the job's recalculated status
+   * @throws NotFoundException if job not found or user doesn't have access
+   * @throws BadRequestException if the job is paused/cancelled or no failed items match
+   */
+  async retryJob(
+    jobId: string,
+    userId: string,
+    dto: RetryScrapingJobDto,
+  ): Promise<RetryJobResult> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Retrying failed items of job", {
+      operation: "retryJob",
+      requestId,
+      userId,
+      jobId,
+      errorCategories: dto.errorCategories,
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const job = await this.scrapingRepository.findJobById(jobId, userId);
+
+      if (!job) {
+        this.logger.warn("Job not found or access denied", {
+          operation: "retryJob",
+          requestId,
+          userId,
+          jobId,
+          timestamp: new Date().toISOString(),
+        });
+        throw new NotFoundException(
+          "Job not found or you do not have access to this job",
+        );
+      }
+
+      if (NON_RETRYABLE_JOB_STATUSES.includes(job.status)) {
+        throw new BadRequestException(
+          `Job is ${job.status} and its items cannot be retried`,
+        );
+      }
+
+      const backlog = await this.scrapingRepository.countUserBacklog(userId);
+      const items = await this.scrapingRepository.resetFailedItems(
+        jobId,
+        dto.errorCategories,
+      );
+
+      if (items.length === 0) {
+        throw new BadRequestException(
+          dto.errorCategories?.length
+            ? "No failed items match the given error categories"
+            : "Job has no failed items to retry",
+        );
+      }
+
+      // Recalculate counters before enqueueing so the job reads as processing
+      await this.scrapingRepository.updateJobProgress(jobId);
+      await this.scrapingQueueService.enqueueMultipleUrlJobs(
+        this.toQueueJobs(items, jobId, job.options ?? {}, backlog),
+      );
+
+      const status =
+        (await this.scrapingRepository.findJobStatus(jobId)) ?? "processing";
+
+      this.logger.log("Failed items re-enqueued", {
+        operation: "retryJob",
+        requestId,
+        userId,
+        jobId,
+        retriedItems: items.length,
+        status,
+        timestamp: new Date().toISOString(),
+      });
+
+      return { jobId, status, retriedItems: items.length };
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      const errorStack = error instanceof Error ? error.stack : "";
+
+      this.logger.error(
+        "Failed to retry job",
+        {
+          operation: "retryJob",
+          requestId,
+          userId,
+          jobId,
+          error: errorMessage,
+          timestamp: new Date().toISOString(),
+        },
+        errorStack,
+      );
+
+      if (
+        error instanceof BadRequestException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
+      throw new BadRequestException("Failed to retry job. Please try again");
+    }
+  }
+
+  /**
+   * List one page of a user's jobs
+   *
+   * @param userId - The authenticated user's ID
+   * @param query - Filters, sort and cursor
+   * @returns Jobs of the page and the cursor of the next page
+   * @throws BadRequestException if the cursor is invalid
+   */
+  async listJobs(
+    userId: string,
+    query: ListScrapingJobsQueryDto,
+  ): Promise<CursorPage<ScrapingJobEntity>> {
+    const requestId = crypto.randomUUID();
+
+    this.logger.log("Listing jobs for user", {
+      operation: "listJobs",
+      requestId,
+      userId,
+      status: query.status,
+      sortBy: query.sortBy,
+      hasCursor: Boolean(query.cursor),
+      timestamp: new Date().toISOString(),
+    });
+
+    try {
+      const page = await this.scrapingRepository.findJobsByUserId(
+        userId,
+        {
+          status: query.status,
+          createdFrom: query.createdFrom
+            ? new Date(query.createdFrom)
+            : undefined,
+          createdTo: query.createdTo ? new Date(query.createdTo) : undefined,
+        },
+        {
+          sortBy: query.sortBy ?? "createdAt",
+          direction: query.sortOrder ?? "desc",
+        },
+        { limit: query.limit ?? DEFAULT_PAGE_SIZE, cursor: query.cursor },
+      );
+
+      this.logger.log("Jobs retrieved successfully", {
+        operation: "listJobs",
+        requestId,
+        userId,
+        jobCount: page.items.length,
+        hasMore: page.nextCursor !== null,
+        timestamp: new Date().toISOString(),
+      });
+
+      return page;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -344,38 +1171,76 @@ export class ScrapingService {
         errorStack,
       );
 
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
       throw new BadRequestException("Failed to retrieve jobs");
     }
   }
 
   /**
-   * List all scraping items across all jobs for a specific user
+   * List one page of scraping items across all jobs of a user
    *
    * @param userId - The authenticated user's ID
-   * @returns Array of items from all user's jobs
+   * @param query - Filters, sort and cursor
+   * @returns Items of the page and the cursor of the next page
+   * @throws BadRequestException if the cursor is invalid
    */
-  async listItems(userId: string): Promise<any[]> {
+  async listItems(
+    userId: string,
+    query: ListScrapingItemsQueryDto,
+  ): Promise<CursorPage<ScrapingItemEntity>> {
     const requestId = crypto.randomUUID();
 
     this.logger.log("Listing items for user", {
       operation: "listItems",
       requestId,
       userId,
+      status: query.status,
+      jobId: query.jobId,
+      sortBy: query.sortBy,
+      hasCursor: Boolean(query.cursor),
       timestamp: new Date().toISOString(),
     });
 
     try {
-      const items = await this.scrapingRepository.findItemsByUserId(userId);
+      const page = await this.scrapingRepository.findItemsByUserId(
+        userId,
+        {
+          status: query.status,
+          jobId: query.jobId,
+          createdFrom: query.createdFrom
+            ? new Date(query.createdFrom)
+            : undefined,
+          createdTo: query.createdTo ? new Date(query.createdTo) : undefined,
+          industry: query.industry,
+          industrySectors: query.industrySectors,
+          location: query.location,
+          companyName: query.companyName,
+          country: query.country,
+          minHeadcount: query.minHeadcount,
+          maxHeadcount: query.maxHeadcount,
+          headcountBuckets: query.headcountBuckets,
+          hasContacts: query.hasContacts,
+        },
+        {
+          sortBy: query.sortBy ?? "createdAt",
+          direction: query.sortOrder ?? "desc",
+        },
+        { limit: query.limit ?? DEFAULT_PAGE_SIZE, cursor: query.cursor },
+      );
 
       this.logger.log("Items retrieved successfully", {
         operation: "listItems",
         requestId,
         userId,
-        itemCount: items.length,
+        itemCount: page.items.length,
+        hasMore: page.nextCursor !== null,
         timestamp: new Date().toISOString(),
       });
 
-      return items;
+      return page;
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : String(error);
@@ -393,74 +1258,206 @@ export class ScrapingService {
         errorStack,
       );
 
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
       throw new BadRequestException("Failed to retrieve items");
     }
   }
 
   /**
-   * Parse URLs from uploaded text file
-   * Extracts one URL per line, trims whitespace, and filters empty lines
+   * Validate and canonicalize submitted URLs, collapsing duplicates within the job
+   * The first occurrence of a canonical URL wins (including its metadata)
    *
-   * @param file - The uploaded text file
-   * @returns Array of extracted URLs
+   * @param entries - URL entries to validate
+   * @param requestId - Correlation ID of the calling request
+   * @param deduplicate - Whether entries with the same canonical URL collapse into one
+   * @returns Accepted entries and the URLs dropped with their reason
    * @private
    */
-  private parseUrlsFromFile(file: Express.Multer.File): string[] {
-    try {
-      // Convert buffer to string
-      const content = file.buffer.toString("utf-8");
-
-      // Split by newlines, trim whitespace, filter empty lines
-      const urls = content
-        .split(/\r?\n/)
-        .map((line: string) => line.trim())
-        .filter((line: string) => line.length > 0);
-
-      // Validate URLs using validator.js
-      const validUrls = urls.filter((url: string) => {
-        const isValid = validator.isURL(url, {
-          protocols: ["http", "https"],
-          require_protocol: true,
-          require_valid_protocol: true,
-          require_tld: false,
-        });
+  private prepareEntries(
+    entries: ParsedUrlEntry[],
+    requestId: string,
+    deduplicate: boolean,
+  ): { accepted: AcceptedUrlEntry[]; dropped: DroppedUrl[] } {
+    const accepted: AcceptedUrlEntry[] = [];
+    const dropped: DroppedUrl[] = [];
+    const firstSeen = new Map<string, string>();
 
-        if (!isValid) {
-          this.logger.warn("Invalid URL format detected", {
-            operation: "parseUrlsFromFile",
-            url,
-            fileName: file.originalname,
-            timestamp: new Date().toISOString(),
-          });
-        }
-        return isValid;
+    for (const entry of entries) {
+      const isValid = validator.isURL(entry.url, {
+        protocols: ["http", "https"],
+        require_protocol: true,
+        require_valid_protocol: true,
+        require_tld: false,
       });
+      const canonicalUrl = isValid ? canonicalizeUrl(entry.url) : null;
 
-      if (validUrls.length === 0 && urls.length > 0) {
-        throw new BadRequestException(
-          "No valid URLs found in file. URLs must be valid http:// or https:// URLs",
-        );
+      if (!canonicalUrl) {
+        this.logger.warn("Invalid URL format detected", {
+          operation: "prepareEntries",
+          requestId,
+          url: entry.url,
+          timestamp: new Date().toISOString(),
+        });
+        dropped.push({ url: entry.url, reason: "invalid" });
+        continue;
       }
 
-      return validUrls;
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
+      const duplicateOf = firstSeen.get(canonicalUrl);
+      if (deduplicate && duplicateOf !== undefined) {
+        dropped.push({ url: entry.url, reason: "duplicate", duplicateOf });
+        continue;
+      }
 
-      this.logger.error("Failed to parse URLs from file", {
-        operation: "parseUrlsFromFile",
-        fileName: file.originalname,
-        fileSize: file.size,
-        error: errorMessage,
+      firstSeen.set(canonicalUrl, entry.url);
+      accepted.push({ ...entry, canonicalUrl });
+    }
+
+    if (dropped.length > 0) {
+      this.logger.log("URLs dropped during intake", {
+        operation: "prepareEntries",
+        requestId,
+        acceptedCount: accepted.length,
+        droppedCount: dropped.length,
         timestamp: new Date().toISOString(),
       });
+    }
 
-      if (error instanceof BadRequestException) {
-        throw error;
-      }
+    return { accepted, dropped };
+  }
 
-      throw new BadRequestException(
-        "Failed to parse file. Please ensure it is a valid text file with one URL per line",
+  /**
+   * Parse and validate JSON-encoded job options sent as a multipart field
+   * Uses the same DTO as the JSON endpoint so both paths accept the same options
+   *
+   * @param rawOptions - JSON string from multipart form data
+   * @returns Validated job options
+   * @throws BadRequestException if the JSON is malformed or fails validation
+   * @private
+   */
+  private async parseJobOptions(
+    rawOptions?: string,
+  ): Promise<ScrapingJobOptions> {
+    if (!rawOptions || rawOptions.trim().length === 0) {
+      return {};
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(rawOptions);
+    } catch {
+      throw new BadRequestException("options must be a valid JSON object");
+    }
+
+    if (
+      typeof parsed !== "object" ||
+      parsed === null ||
+      Array.isArray(parsed)
+    ) {
+      throw new BadRequestException("options must be a valid JSON object");
+    }
+
+    const dto = plainToInstance(ScrapingJobOptionsDto, parsed);
+    const errors = await validate(dto, {
+      whitelist: true,
+      forbidNonWhitelisted: true,
+    });
+
+    if (errors.length > 0) {
+      throw validationExceptionFactory(errors);
+    }
+
+    return this.toJobOptions(dto);
+  }
+
+  /**
+   * Convert the options DTO into the persisted job options shape
+   *
+   * @param dto - Validated options DTO
+   * @returns Job options stored on the job record
+   * @private
+   */
+  private toJobOptions(dto?: ScrapingJobOptionsDto): ScrapingJobOptions {
+    if (!dto) {
+      return {};
+    }
+
+    return {
+      ...(dto.label !== undefined && { label: dto.label }),
+      ...(dto.crawl && {
+        crawl: {
+          enabled: dto.crawl.enabled,
+          maxDepth: dto.crawl.maxDepth ?? CRAWL_DEFAULT_MAX_DEPTH,
+          maxPages: dto.crawl.maxPages ?? CRAWL_DEFAULT_MAX_PAGES,
+        },
+      }),
+      ...(dto.ignoreRobotsTxt && { ignoreRobotsTxt: true }),
+      ...(dto.priority && { priority: dto.priority }),
+    };
+  }
+
+  /**
+   * Build queue payloads for items, carrying the job's fetch settings
+   * and a fair-share queue priority
+   *
+   * @param items - Items to enqueue
+   * @param jobId - Parent job ID
+   * @param options - The job's stored options
+   * @param backlog - The owner's items already waiting in the queue
+   * @returns One queue payload per item
+   * @private
+   */
+  private toQueueJobs(
+    items: Pick<ScrapingItemEntity, "id" | "url">[],
+    jobId: string,
+    options: ScrapingJobOptions,
+    backlog: number,
+  ): ScrapeJobData[] {
+    return items.map((item, index) => ({
+      itemId: item.id,
+      url: item.url,
+      jobId,
+      crawl: options.crawl,
+      ignoreRobotsTxt: options.ignoreRobotsTxt,
+      priority: computeQueuePriority(
+        options.priority ?? "normal",
+        backlog + index,
+      ),
+    }));
+  }
+
+  /**
+   * Reject job options the user's role may not set
+   * Only admins may disable robots.txt compliance for a job
+   *
+   * @param options - Resolved job options
+   * @param userRole - The authenticated user's role
+   * @param userId - The authenticated user's ID (for logging)
+   * @param requestId - Correlation ID of the calling request
+   * @throws ForbiddenException if a non-admin sets ignoreRobotsTxt
+   * @private
+   */
+  private assertOptionsPermitted(
+    options: ScrapingJobOptions,
+    userRole: string,
+    userId: string,
+    requestId: string,
+  ): void {
+    if (options.ignoreRobotsTxt && userRole !== (USER_ROLES.ADMIN as string)) {
+      this.logger.warn(
+        "Job creation rejected: ignoreRobotsTxt requires admin",
+        {
+          operation: "assertOptionsPermitted",
+          requestId,
+          userId,
+          userRole,
+          timestamp: new Date().toISOString(),
+        },
+      );
+      throw new ForbiddenException(
+        "Only admins can disable robots.txt compliance for a job",
       );
     }
   }
@@ -0,0 +1,337 @@
+import { Injectable, Logger, BadRequestException } from "@nestjs/common";
+import { parse as parseCsv } from "csv-parse/sync";
+import ExcelJS from "exceljs";
+
+/**
+ * A single URL extracted from an uploaded file, with the remaining
+ * spreadsheet columns kept as passthrough metadata
+ */
+export interface ParsedUrlEntry {
+  url: string;
+  metadata: Record<string, string> | null;
+}
+
+/**
+ * Caller-selected column mapping for spreadsheet uploads
+ * Only one of urlColumn / domainColumn may be provided
+ */
+export interface ColumnMapping {
+  urlColumn?: string;
+  domainColumn?: string;
+}
+
+type UploadFormat = "text" | "csv" | "xlsx";
+
+/**
+ * Spreadsheet contents: the header row and the data rows keyed by header
+ * Rows may omit headers whose cell is empty, so columns come from headers
+ */
+interface SpreadsheetTable {
+  headers: string[];
+  rows: Record<string, string>[];
+}
+
+/**
+ * Header names checked (case-insensitive) when no column mapping is provided
+ */
+const AUTO_DETECT_URL_HEADERS = ["url", "website", "homepage", "site"];
+const AUTO_DETECT_DOMAIN_HEADERS = ["domain", "company domain"];
+
+/**
+ * Service for turning uploaded files into URL entries
+ * Supports plain text (one URL per line), CSV and XLSX spreadsheets
+ */
+@Injectable()
+export class UrlFileParserService {
+  private readonly logger = new Logger(UrlFileParserService.name);
+
+  /**
+   * Parse an uploaded file into URL entries
+   *
+   * @param file - The uploaded file (txt, csv or xlsx)
+   * @param mapping - Optional column mapping for spreadsheet uploads
+   * @returns Array of URL entries with passthrough metadata (not yet validated)
+   * @throws BadRequestException if the file cannot be parsed or contains no URLs
+   */
+  async parse(
+    file: Express.Multer.File,
+    mapping: ColumnMapping = {},
+  ): Promise<ParsedUrlEntry[]> {
+    const format = this.detectFormat(file);
+
+    this.logger.log("Parsing uploaded file", {
+      operation: "parse",
+      fileName: file.originalname,
+      fileSize: file.size,
+      format,
+      urlColumn: mapping.urlColumn,
+      domainColumn: mapping.domainColumn,
+      timestamp: new Date().toISOString(),
+    });
+
+    if (mapping.urlColumn && mapping.domainColumn) {
+      throw new BadRequestException(
+        "Provide either urlColumn or domainColumn, not both",
+      );
+    }
+
+    if (format === "text" && (mapping.urlColumn || mapping.domainColumn)) {
+      throw new BadRequestException(
+        "Column mapping is only supported for CSV and XLSX files",
+      );
+    }
+
+    try {
+      let entries: ParsedUrlEntry[];
+      let rowCount: number;
+
+      if (format === "text") {
+        const lines = this.readTextLines(file);
+        rowCount = lines.length;
+        entries = lines.map((url) => ({ url, metadata: null }));
+      } else {
+        const table =
+          format === "csv"
+            ? this.readCsvRows(file)
+            : await this.readXlsxRows(file);
+        rowCount = table.rows.length;
+        entries = this.mapRows(table, mapping);
+      }
+
+      if (entries.length === 0 && rowCount > 0) {
+        throw new BadRequestException(
+          "No URLs found in file. Check the selected URL or domain column",
+        );
+      }
+
+      return entries;
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+
+      this.logger.error("Failed to parse uploaded file", {
+        operation: "parse",
+        fileName: file.originalname,
+        fileSize: file.size,
+        format,
+        error: errorMessage,
+        timestamp: new Date().toISOString(),
+      });
+
+      if (error instanceof BadRequestException) {
+        throw error;
+      }
+
+      throw new BadRequestException(
+        "Failed to parse file. Please upload a text file with one URL per line, or a CSV/XLSX file with a header row",
+      );
+    }
+  }
+
+  /**
+   * Detect upload format from file extension, falling back to MIME type
+   */
+  private detectFormat(file: Express.Multer.File): UploadFormat {
+    const name = file.originalname.toLowerCase();
+
+    if (name.endsWith(".csv") || file.mimetype === "text/csv") {
+      return "csv";
+    }
+    if (
+      name.endsWith(".xlsx") ||
+      file.mimetype ===
+        "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+    ) {
+      return "xlsx";
+    }
+    return "text";
+  }
+
+  /**
+   * Read a plain text file: one URL per line, trimmed, empty lines skipped
+   */
+  private readTextLines(file: Express.Multer.File): string[] {
+    return file.buffer
+      .toString("utf-8")
+      .split(/\r?\n/)
+      .map((line: string) => line.trim())
+      .filter((line: string) => line.length > 0);
+  }
+
+  /**
+   * Read CSV rows keyed by header, tolerating a UTF-8 BOM and ragged rows
+   */
+  private readCsvRows(file: Express.Multer.File): SpreadsheetTable {
+    let headers: string[] = [];
+    const rows: Record<string, string>[] = parseCsv(file.buffer, {
+      bom: true,
+      columns: (header: string[]) => {
+        headers = header.map((h) => h.trim());
+        return headers;
+      },
+      skip_empty_lines: true,
+      relax_column_count: true,
+      trim: true,
+    });
+    return { headers: headers.filter((h) => h.length > 0), rows };
+  }
+
+  /**
+   * Read rows from the first worksheet of an XLSX workbook keyed by header
+   */
+  private async readXlsxRows(
+    file: Express.Multer.File,
+  ): Promise<SpreadsheetTable> {
+    const workbook = new ExcelJS.Workbook();
+    await workbook.xlsx.load(file.buffer as unknown as ArrayBuffer);
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      return { headers: [], rows: [] };
+    }
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      headers[colNumber] = this.cellToString(cell.value);
+    });
+
+    const rows: Record<string, string>[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) {
+        return;
+      }
+
+      const record: Record<string, string> = {};
+      row.eachCell((cell, colNumber) => {
+        const header = headers[colNumber];
+        if (header) {
+          record[header] = this.cellToString(cell.value);
+        }
+      });
+
+      if (Object.values(record).some((value) => value.length > 0)) {
+        rows.push(record);
+      }
+    });
+
+    return { headers: headers.filter((h) => !!h), rows };
+  }
+
+  /**
+   * Convert an ExcelJS cell value (plain, hyperlink, rich text or formula) to text
+   */
+  private cellToString(value: ExcelJS.CellValue): string {
+    if (value === null || value === undefined) {
+      return "";
+    }
+    if (value instanceof Date) {
+      return value.toISOString();
+    }
+    if (typeof value === "object") {
+      if ("hyperlink" in value && typeof value.hyperlink === "string") {
+        return value.hyperlink.trim();
+      }
+      if ("richText" in value) {
+        return value.richText
+          .map((part) => part.text)
+          .join("")
+          .trim();
+      }
+      if ("result" in value) {
+        return this.cellToString(value.result as ExcelJS.CellValue);
+      }
+      if ("text" in value && typeof value.text === "string") {
+        return value.text.trim();
+      }
+      return "";
+    }
+    return String(value).trim();
+  }
+
+  /**
+   * Map spreadsheet rows to URL entries using the selected (or detected) column
+   * All other non-empty columns are kept as metadata
+   */
+  private mapRows(
+    { headers, rows }: SpreadsheetTable,
+    mapping: ColumnMapping,
+  ): ParsedUrlEntry[] {
+    if (rows.length === 0) {
+      return [];
+    }
+
+    const { column, isDomain } = this.resolveColumn(headers, mapping);
+
+    return rows
+      .map((row) => {
+        const rawValue = (row[column] ?? "").trim();
+        const metadata: Record<string, string> = {};
+
+        for (const [key, value] of Object.entries(row)) {
+          if (key !== column && value !== "") {
+            metadata[key] = value;
+          }
+        }
+
+        return {
+          url: isDomain ? this.domainToUrl(rawValue) : rawValue,
+          metadata: Object.keys(metadata).length > 0 ? metadata : null,
+        };
+      })
+      .filter((entry) => entry.url.length > 0);
+  }
+
+  /**
+   * Resolve which header holds the URL (or domain)
+   * Header matching is case-insensitive
+   */
+  private resolveColumn(
+    headers: string[],
+    mapping: ColumnMapping,
+  ): { column: string; isDomain: boolean } {
+    const findHeader = (name: string) =>
+      headers.find((h) => h.toLowerCase() === name.trim().toLowerCase());
+
+    const requested = mapping.urlColumn ?? mapping.domainColumn;
+    if (requested) {
+      const column = findHeader(requested);
+      if (!column) {
+        throw new BadRequestException(
+          `Column "${requested}" not found in file. Available columns: ${headers.join(", ")}`,
+        );
+      }
+      return { column, isDomain: !!mapping.domainColumn };
+    }
+
+    for (const name of AUTO_DETECT_URL_HEADERS) {
+      const column = findHeader(name);
+      if (column) {
+        return { column, isDomain: false };
+      }
+    }
+    for (const name of AUTO_DETECT_DOMAIN_HEADERS) {
+      const column = findHeader(name);
+      if (column) {
+        return { column, isDomain: true };
+      }
+    }
+
+    throw new BadRequestException(
+      `Could not detect a URL column. Specify urlColumn or domainColumn. Available columns: ${headers.join(", ")}`,
+    );
+  }
+
+  /**
+   * Turn a bare domain (e.g. "acme.com") into an https URL
+   * Values that already carry a protocol are kept as-is
+   */
+  private domainToUrl(domain: string): string {
+    if (domain.length === 0) {
+      return domain;
+    }
+    if (/^https?:\/\//i.test(domain)) {
+      return domain;
+    }
+    return `https://${domain.replace(/^\/+/, "")}`;
+  }
+}
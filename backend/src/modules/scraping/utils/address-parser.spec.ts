@@ -0,0 +1,128 @@
+import { parseAddress, toHqAddress } from "./address-parser";
+import { findCountry, findRegion, findTldCountry } from "./gazetteer";
+
+describe("parseAddress", () => {
+  it("splits a full street address", () => {
+    expect(parseAddress("Hauptstr. 1, 10115 Berlin, Germany")).toEqual({
+      street: "Hauptstr. 1",
+      city: "Berlin",
+      region: null,
+      postalCode: "10115",
+      countryCode: "DE",
+    });
+    expect(parseAddress("1 Main St, Austin, TX 78701, USA")).toEqual({
+      street: "1 Main St",
+      city: "Austin",
+      region: "TX",
+      postalCode: "78701",
+      countryCode: "US",
+    });
+  });
+
+  it("infers the country from a state code with its postal code", () => {
+    expect(parseAddress("Austin, TX 78701")).toEqual({
+      street: null,
+      city: "Austin",
+      region: "TX",
+      postalCode: "78701",
+      countryCode: "US",
+    });
+  });
+
+  it("reads a region code after the city in the same part", () => {
+    expect(parseAddress("Sydney NSW 2000")).toEqual({
+      street: null,
+      city: "Sydney",
+      region: "NSW",
+      postalCode: "2000",
+      countryCode: "AU",
+    });
+  });
+
+  it("tells countries from states of the same name by the city before them", () => {
+    expect(parseAddress("Tbilisi, Georgia")).toMatchObject({
+      city: "Tbilisi",
+      region: null,
+      countryCode: "GE",
+    });
+    expect(parseAddress("Atlanta, Georgia")).toMatchObject({
+      city: "Atlanta",
+      region: "GA",
+      countryCode: "US",
+    });
+    expect(parseAddress("Berlin, DE")).toMatchObject({
+      city: "Berlin",
+      region: null,
+      countryCode: "DE",
+    });
+    expect(parseAddress("Palo Alto, CA")).toMatchObject({
+      city: "Palo Alto",
+      region: "CA",
+      countryCode: "US",
+    });
+    expect(parseAddress("Toronto, CA")).toMatchObject({
+      city: "Toronto",
+      region: null,
+      countryCode: "CA",
+    });
+  });
+
+  it("infers the country of a known city and reads UK postcodes", () => {
+    expect(parseAddress("London SW1A 1AA")).toEqual({
+      street: null,
+      city: "London",
+      region: null,
+      postalCode: "SW1A 1AA",
+      countryCode: "GB",
+    });
+    expect(parseAddress("Zürich")?.countryCode).toBe("CH");
+  });
+
+  it("rejects text that is not a location", () => {
+    expect(parseAddress("Contact us")).toBeNull();
+    expect(parseAddress("  ")).toBeNull();
+    expect(parseAddress(null)).toBeNull();
+  });
+});
+
+describe("toHqAddress", () => {
+  it("maps the parsed parts to the hq* columns and clears them for non-locations", () => {
+    expect(toHqAddress("Sydney NSW 2000")).toEqual({
+      hqStreet: null,
+      hqCity: "Sydney",
+      hqRegion: "NSW",
+      hqPostalCode: "2000",
+      hqCountry: "AU",
+    });
+    expect(toHqAddress("Contact us")).toEqual({
+      hqStreet: null,
+      hqCity: null,
+      hqRegion: null,
+      hqPostalCode: null,
+      hqCountry: null,
+    });
+  });
+});
+
+describe("gazetteer", () => {
+  it("finds countries by English name, alias or uppercase ISO code", () => {
+    expect(findCountry("Germany")).toBe("DE");
+    expect(findCountry("Deutschland")).toBe("DE");
+    expect(findCountry("UK")).toBe("GB");
+    expect(findCountry("DE")).toBe("DE");
+    expect(findCountry("de")).toBeNull();
+  });
+
+  it("finds regions by name or uppercase code, optionally within a country", () => {
+    expect(findRegion("Texas")).toEqual({ region: "TX", countryCode: "US" });
+    expect(findRegion("ON")).toEqual({ region: "ON", countryCode: "CA" });
+    expect(findRegion("WA", "AU")).toEqual({ region: "WA", countryCode: "AU" });
+    expect(findRegion("tx")).toBeNull();
+  });
+
+  it("finds the country of a country-code TLD", () => {
+    expect(findTldCountry("https://www.acme.co.uk/about")).toBe("GB");
+    expect(findTldCountry("acme.de")).toBe("DE");
+    expect(findTldCountry("https://acme.com")).toBeNull();
+  });
+});
@@ -0,0 +1,254 @@
+import { CountryCode } from "libphonenumber-js";
+import { HqAddress } from "../../../core/database/schema/scraping-items";
+import { findCity, findCountry, findRegion } from "./gazetteer";
+
+/**
+ * A free-text location split into postal address parts
+ */
+export interface ParsedAddress {
+  street: string | null;
+  city: string | null;
+  // US state, Canadian province or Australian state code, else the region as written
+  region: string | null;
+  postalCode: string | null;
+  // ISO 3166 alpha-2
+  countryCode: CountryCode | null;
+}
+
+/**
+ * Postal code formats, most specific first; letter formats are uppercase only
+ * so ordinary words never match
+ */
+const POSTAL_CODE_PATTERNS = [
+  // UK: SW1A 1AA, EC2A 4BX, M1 1AE
+  /\b([A-Z]{1,2}\d[A-Z\d]?\s?\d[A-Z]{2})\b/,
+  // Canada: K1A 0B1
+  /\b([A-Z]\d[A-Z]\s?\d[A-Z]\d)\b/,
+  // Netherlands: 1012 AB
+  /\b(\d{4}\s?[A-Z]{2})\b/,
+  // US ZIP+4
+  /\b(\d{5}-\d{4})\b/,
+  // Numeric codes, optionally with a country prefix (D-10115, CH-8001)
+  /(?:^|\s)(?:[A-Z]{1,2}-)?(\d{4,6})\b/,
+];
+
+/**
+ * Words that mark a part as a street line rather than a place
+ */
+const STREET_PATTERN =
+  /\b(street|st|str|straße|strasse|road|rd|avenue|ave|av|boulevard|blvd|lane|ln|drive|dr|way|parkway|pkwy|place|pl|square|sq|court|ct|highway|hwy|rue|via|viale|calle|carrer|avenida|rua|weg|gasse|platz|allee|ring|damm|ufer|suite|ste|floor|fl|unit|building|bldg|p\.?o\.? box)\b|\b\w+(straße|strasse|str\.|weg|gasse|platz|allee)/i;
+
+// Longest part still treated as a place name
+const MAX_PLACE_LENGTH = 50;
+
+/**
+ * Parse a free-text HQ location into street, city, region, postal code and country
+ *
+ * Parts are read from comma- or line-separated text. The country comes from
+ * the last part (name or ISO code), else from a US, Canadian or Australian
+ * state, else from the city when it is a major city in the gazetteer. Text that
+ * matches no place, postal code or street (e.g. "Contact us") is rejected.
+ *
+ * @param raw - Location as extracted, e.g. "Hauptstr. 1, 10115 Berlin, Germany"
+ * @returns The parsed parts, or null when the text is not a location
+ */
+export const parseAddress = (raw: string | null): ParsedAddress | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const parts = raw
+    .split(/[,;\n|·]+/)
+    .map((part) => part.replace(/\s+/g, " ").trim())
+    .filter(Boolean);
+  if (parts.length === 0) {
+    return null;
+  }
+
+  const address: ParsedAddress = {
+    street: null,
+    city: null,
+    region: null,
+    postalCode: null,
+    countryCode: null,
+  };
+  // Parts not yet assigned, as [text, original index]
+  let remaining = parts.map((text, index) => ({ text, index }));
+
+  // Country: the last part, possibly with a postal code ("Germany 10115")
+  const last = remaining[remaining.length - 1];
+  const lastPostal = extractPostalCode(last.text);
+  const country = findCountry(lastPostal?.rest ?? last.text);
+  if (
+    country &&
+    !(
+      remaining.length > 1 &&
+      isRegionRatherThanCountry(
+        lastPostal?.rest ?? last.text,
+        country,
+        remaining[remaining.length - 2].text,
+      )
+    )
+  ) {
+    address.countryCode = country;
+    address.postalCode = lastPostal?.postalCode ?? null;
+    remaining = remaining.slice(0, -1);
+  }
+
+  // Street: the first part when it looks like a street line
+  if (
+    remaining.length > 1 &&
+    (STREET_PATTERN.test(remaining[0].text) ||
+      /^\d+[a-z]?\s+\D|\D\s+\d+[a-z]?$/i.test(remaining[0].text))
+  ) {
+    address.street = remaining[0].text;
+    remaining = remaining.slice(1);
+  }
+
+  // Postal code and region, from the end ("Austin, TX 78701", "10115 Berlin")
+  for (let i = remaining.length - 1; i >= 0; i--) {
+    const part = remaining[i];
+    const postal = address.postalCode ? null : extractPostalCode(part.text);
+    const rest = postal ? postal.rest : part.text;
+
+    const region = address.region
+      ? null
+      : findRegion(rest, address.countryCode);
+    if (region) {
+      address.region = region.region;
+      address.countryCode ??= region.countryCode;
+      address.postalCode ??= postal?.postalCode ?? null;
+      remaining.splice(i, 1);
+      continue;
+    }
+
+    // A region code after the city in the same part ("Sydney NSW 2000")
+    const words = rest.split(" ");
+    const trailingRegion =
+      !address.region && words.length > 1
+        ? findRegion(words[words.length - 1], address.countryCode)
+        : null;
+    if (trailingRegion && /^[A-Z]{2,3}$/.test(words[words.length - 1])) {
+      address.region = trailingRegion.region;
+      address.countryCode ??= trailingRegion.countryCode;
+      address.postalCode ??= postal?.postalCode ?? null;
+      part.text = words.slice(0, -1).join(" ");
+      continue;
+    }
+
+    if (postal) {
+      address.postalCode = postal.postalCode;
+      part.text = postal.rest;
+      if (!part.text) {
+        remaining.splice(i, 1);
+      }
+    }
+  }
+
+  // City: a gazetteer city, else the place part closest to the region/country
+  const places = remaining.filter(
+    (part) =>
+      part.text.length <= MAX_PLACE_LENGTH &&
+      !/\d/.test(part.text) &&
+      !STREET_PATTERN.test(part.text),
+  );
+  const knownCity = [...places].reverse().find((part) => findCity(part.text));
+  const cityPart =
+    knownCity ??
+    (address.countryCode || address.region || address.postalCode
+      ? places[places.length - 1]
+      : undefined);
+  if (cityPart) {
+    address.city = cityPart.text;
+    address.countryCode ??= findCity(cityPart.text);
+    remaining = remaining.filter((part) => part !== cityPart);
+  }
+
+  // A leftover part between city and country is the region when none was found
+  const regionPart = remaining.find(
+    (part) =>
+      cityPart &&
+      part.index > cityPart.index &&
+      !/\d/.test(part.text) &&
+      part.text.length <= MAX_PLACE_LENGTH,
+  );
+  if (regionPart && !address.region) {
+    address.region = regionPart.text;
+  }
+
+  if (
+    !address.city &&
+    !address.region &&
+    !address.postalCode &&
+    !address.countryCode
+  ) {
+    return null;
+  }
+  return address;
+};
+
+/**
+ * Parse a raw HQ location into the hq* address columns
+ * Text that is not a location clears every column
+ */
+export const toHqAddress = (hqLocation: string | null): HqAddress => {
+  const address = parseAddress(hqLocation);
+  return {
+    hqStreet: address?.street ?? null,
+    hqCity: address?.city ?? null,
+    hqRegion: address?.region ?? null,
+    hqPostalCode: address?.postalCode ?? null,
+    hqCountry: address?.countryCode ?? null,
+  };
+};
+
+/**
+ * Whether a last part that names both a country and a state ("Georgia",
+ * "CA", "DE") is the state, judged by the city before it
+ *
+ * A gazetteer city of the country keeps the country ("Tbilisi, Georgia",
+ * "Berlin, DE"), one of the state's country makes it the state ("Atlanta,
+ * Georgia"). Otherwise a written-out name is the country and an uppercase
+ * code the state, as in "Palo Alto, CA".
+ */
+const isRegionRatherThanCountry = (
+  text: string,
+  country: CountryCode,
+  previous: string,
+): boolean => {
+  const region = findRegion(text);
+  if (!region) {
+    return false;
+  }
+
+  const city = findCity(extractPostalCode(previous)?.rest ?? previous);
+  if (city === country) {
+    return false;
+  }
+  if (city === region.countryCode) {
+    return true;
+  }
+  return /^[A-Z]{2,3}$/.test(text.trim());
+};
+
+/**
+ * First postal code in a part, with the rest of the part's text
+ */
+const extractPostalCode = (
+  text: string,
+): { postalCode: string; rest: string } | null => {
+  for (const pattern of POSTAL_CODE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (match) {
+      return {
+        postalCode: match[1],
+        rest: (
+          text.slice(0, match.index) + text.slice(match.index + match[0].length)
+        )
+          .replace(/\s+/g, " ")
+          .trim(),
+      };
+    }
+  }
+  return null;
+};
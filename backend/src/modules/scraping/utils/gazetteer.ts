@@ -0,0 +1,519 @@
+import { CountryCode, getCountries } from "libphonenumber-js";
+
+/**
+ * Offline place names used to validate and complete parsed addresses:
+ * every country (English names from ICU plus common short and native forms),
+ * US states, Canadian provinces, Australian states and major cities worldwide
+ */
+
+// Country names and short forms that differ from the English region name
+const COUNTRY_ALIASES: Record<string, CountryCode> = {
+  usa: "US",
+  "u.s.a.": "US",
+  "u.s.": "US",
+  "united states of america": "US",
+  america: "US",
+  uk: "GB",
+  "u.k.": "GB",
+  england: "GB",
+  scotland: "GB",
+  wales: "GB",
+  "northern ireland": "GB",
+  "great britain": "GB",
+  britain: "GB",
+  deutschland: "DE",
+  holland: "NL",
+  "the netherlands": "NL",
+  nederland: "NL",
+  schweiz: "CH",
+  suisse: "CH",
+  svizzera: "CH",
+  osterreich: "AT",
+  espana: "ES",
+  italia: "IT",
+  belgie: "BE",
+  belgique: "BE",
+  danmark: "DK",
+  sverige: "SE",
+  norge: "NO",
+  suomi: "FI",
+  polska: "PL",
+  "czech republic": "CZ",
+  cesko: "CZ",
+  brasil: "BR",
+  mexico: "MX",
+  uae: "AE",
+  korea: "KR",
+  "republic of korea": "KR",
+  "south korea": "KR",
+  russia: "RU",
+  "hong kong": "HK",
+  turkiye: "TR",
+  "viet nam": "VN",
+};
+
+// Country-code TLDs that differ from the ISO code
+const TLD_COUNTRIES: Record<string, CountryCode> = { uk: "GB" };
+
+/**
+ * US states (and DC) by name, keyed to their USPS code
+ */
+const US_STATES: Record<string, string> = {
+  alabama: "AL",
+  alaska: "AK",
+  arizona: "AZ",
+  arkansas: "AR",
+  california: "CA",
+  colorado: "CO",
+  connecticut: "CT",
+  delaware: "DE",
+  "district of columbia": "DC",
+  florida: "FL",
+  georgia: "GA",
+  hawaii: "HI",
+  idaho: "ID",
+  illinois: "IL",
+  indiana: "IN",
+  iowa: "IA",
+  kansas: "KS",
+  kentucky: "KY",
+  louisiana: "LA",
+  maine: "ME",
+  maryland: "MD",
+  massachusetts: "MA",
+  michigan: "MI",
+  minnesota: "MN",
+  mississippi: "MS",
+  missouri: "MO",
+  montana: "MT",
+  nebraska: "NE",
+  nevada: "NV",
+  "new hampshire": "NH",
+  "new jersey": "NJ",
+  "new mexico": "NM",
+  "new york": "NY",
+  "north carolina": "NC",
+  "north dakota": "ND",
+  ohio: "OH",
+  oklahoma: "OK",
+  oregon: "OR",
+  pennsylvania: "PA",
+  "rhode island": "RI",
+  "south carolina": "SC",
+  "south dakota": "SD",
+  tennessee: "TN",
+  texas: "TX",
+  utah: "UT",
+  vermont: "VT",
+  virginia: "VA",
+  washington: "WA",
+  "west virginia": "WV",
+  wisconsin: "WI",
+  wyoming: "WY",
+};
+
+/**
+ * Canadian provinces and territories by name, keyed to their postal code
+ */
+const CA_PROVINCES: Record<string, string> = {
+  alberta: "AB",
+  "british columbia": "BC",
+  manitoba: "MB",
+  "new brunswick": "NB",
+  "newfoundland and labrador": "NL",
+  "nova scotia": "NS",
+  ontario: "ON",
+  "prince edward island": "PE",
+  quebec: "QC",
+  saskatchewan: "SK",
+  "northwest territories": "NT",
+  nunavut: "NU",
+  yukon: "YT",
+};
+
+/**
+ * Australian states and territories by name, keyed to their abbreviation
+ */
+const AU_STATES: Record<string, string> = {
+  "new south wales": "NSW",
+  victoria: "VIC",
+  queensland: "QLD",
+  "western australia": "WA",
+  "south australia": "SA",
+  tasmania: "TAS",
+  "australian capital territory": "ACT",
+  "northern territory": "NT",
+};
+
+// Looked up in this order when the country is not known
+const REGIONS: [CountryCode, Record<string, string>][] = [
+  ["US", US_STATES],
+  ["CA", CA_PROVINCES],
+  ["AU", AU_STATES],
+];
+
+/**
+ * Major cities and their country, keyed by normalized name (see normalizePlaceName)
+ * Ambiguous names map to the largest namesake; an explicit country wins over this
+ */
+const CITIES: Record<string, CountryCode> = {
+  // North America
+  "new york": "US",
+  "new york city": "US",
+  nyc: "US",
+  brooklyn: "US",
+  "los angeles": "US",
+  chicago: "US",
+  houston: "US",
+  phoenix: "US",
+  philadelphia: "US",
+  "san antonio": "US",
+  "san diego": "US",
+  dallas: "US",
+  austin: "US",
+  "san jose": "US",
+  "san francisco": "US",
+  "palo alto": "US",
+  "mountain view": "US",
+  "menlo park": "US",
+  "redwood city": "US",
+  "santa clara": "US",
+  sunnyvale: "US",
+  cupertino: "US",
+  oakland: "US",
+  seattle: "US",
+  bellevue: "US",
+  redmond: "US",
+  portland: "US",
+  denver: "US",
+  boulder: "US",
+  boston: "US",
+  cambridge: "US",
+  "washington dc": "US",
+  atlanta: "US",
+  savannah: "US",
+  miami: "US",
+  orlando: "US",
+  tampa: "US",
+  nashville: "US",
+  charlotte: "US",
+  raleigh: "US",
+  detroit: "US",
+  minneapolis: "US",
+  "st. louis": "US",
+  "saint louis": "US",
+  "kansas city": "US",
+  pittsburgh: "US",
+  baltimore: "US",
+  "salt lake city": "US",
+  "las vegas": "US",
+  columbus: "US",
+  indianapolis: "US",
+  cleveland: "US",
+  cincinnati: "US",
+  "new orleans": "US",
+  sacramento: "US",
+  irvine: "US",
+  "santa monica": "US",
+  toronto: "CA",
+  montreal: "CA",
+  vancouver: "CA",
+  calgary: "CA",
+  ottawa: "CA",
+  edmonton: "CA",
+  waterloo: "CA",
+  "mexico city": "MX",
+  "ciudad de mexico": "MX",
+  guadalajara: "MX",
+  monterrey: "MX",
+  // South America
+  "sao paulo": "BR",
+  "rio de janeiro": "BR",
+  "buenos aires": "AR",
+  santiago: "CL",
+  bogota: "CO",
+  medellin: "CO",
+  lima: "PE",
+  montevideo: "UY",
+  // Europe
+  london: "GB",
+  manchester: "GB",
+  birmingham: "GB",
+  edinburgh: "GB",
+  glasgow: "GB",
+  bristol: "GB",
+  leeds: "GB",
+  liverpool: "GB",
+  oxford: "GB",
+  belfast: "GB",
+  dublin: "IE",
+  cork: "IE",
+  paris: "FR",
+  lyon: "FR",
+  marseille: "FR",
+  toulouse: "FR",
+  nice: "FR",
+  nantes: "FR",
+  bordeaux: "FR",
+  lille: "FR",
+  berlin: "DE",
+  hamburg: "DE",
+  munich: "DE",
+  munchen: "DE",
+  cologne: "DE",
+  koln: "DE",
+  frankfurt: "DE",
+  "frankfurt am main": "DE",
+  stuttgart: "DE",
+  dusseldorf: "DE",
+  leipzig: "DE",
+  dresden: "DE",
+  hannover: "DE",
+  nuremberg: "DE",
+  nurnberg: "DE",
+  bremen: "DE",
+  karlsruhe: "DE",
+  vienna: "AT",
+  wien: "AT",
+  graz: "AT",
+  zurich: "CH",
+  geneva: "CH",
+  geneve: "CH",
+  basel: "CH",
+  bern: "CH",
+  lausanne: "CH",
+  zug: "CH",
+  amsterdam: "NL",
+  rotterdam: "NL",
+  "the hague": "NL",
+  "den haag": "NL",
+  utrecht: "NL",
+  eindhoven: "NL",
+  brussels: "BE",
+  bruxelles: "BE",
+  brussel: "BE",
+  antwerp: "BE",
+  antwerpen: "BE",
+  ghent: "BE",
+  luxembourg: "LU",
+  madrid: "ES",
+  barcelona: "ES",
+  valencia: "ES",
+  seville: "ES",
+  sevilla: "ES",
+  malaga: "ES",
+  lisbon: "PT",
+  lisboa: "PT",
+  porto: "PT",
+  rome: "IT",
+  roma: "IT",
+  milan: "IT",
+  milano: "IT",
+  turin: "IT",
+  torino: "IT",
+  naples: "IT",
+  florence: "IT",
+  bologna: "IT",
+  copenhagen: "DK",
+  kobenhavn: "DK",
+  aarhus: "DK",
+  stockholm: "SE",
+  gothenburg: "SE",
+  goteborg: "SE",
+  malmo: "SE",
+  oslo: "NO",
+  bergen: "NO",
+  helsinki: "FI",
+  espoo: "FI",
+  reykjavik: "IS",
+  warsaw: "PL",
+  warszawa: "PL",
+  krakow: "PL",
+  wroclaw: "PL",
+  gdansk: "PL",
+  prague: "CZ",
+  praha: "CZ",
+  brno: "CZ",
+  budapest: "HU",
+  bucharest: "RO",
+  bucuresti: "RO",
+  "cluj-napoca": "RO",
+  sofia: "BG",
+  athens: "GR",
+  belgrade: "RS",
+  zagreb: "HR",
+  ljubljana: "SI",
+  bratislava: "SK",
+  tallinn: "EE",
+  riga: "LV",
+  vilnius: "LT",
+  kyiv: "UA",
+  kiev: "UA",
+  lviv: "UA",
+  istanbul: "TR",
+  ankara: "TR",
+  moscow: "RU",
+  "saint petersburg": "RU",
+  tbilisi: "GE",
+  batumi: "GE",
+  yerevan: "AM",
+  baku: "AZ",
+  // Middle East and Africa
+  "tel aviv": "IL",
+  jerusalem: "IL",
+  dubai: "AE",
+  "abu dhabi": "AE",
+  doha: "QA",
+  riyadh: "SA",
+  cairo: "EG",
+  lagos: "NG",
+  nairobi: "KE",
+  johannesburg: "ZA",
+  "cape town": "ZA",
+  casablanca: "MA",
+  accra: "GH",
+  // Asia-Pacific
+  tokyo: "JP",
+  osaka: "JP",
+  kyoto: "JP",
+  seoul: "KR",
+  busan: "KR",
+  beijing: "CN",
+  shanghai: "CN",
+  shenzhen: "CN",
+  guangzhou: "CN",
+  hangzhou: "CN",
+  taipei: "TW",
+  singapore: "SG",
+  "kuala lumpur": "MY",
+  jakarta: "ID",
+  bangkok: "TH",
+  manila: "PH",
+  "ho chi minh city": "VN",
+  hanoi: "VN",
+  mumbai: "IN",
+  delhi: "IN",
+  "new delhi": "IN",
+  bangalore: "IN",
+  bengaluru: "IN",
+  hyderabad: "IN",
+  chennai: "IN",
+  pune: "IN",
+  gurgaon: "IN",
+  gurugram: "IN",
+  noida: "IN",
+  kolkata: "IN",
+  karachi: "PK",
+  lahore: "PK",
+  dhaka: "BD",
+  sydney: "AU",
+  melbourne: "AU",
+  brisbane: "AU",
+  perth: "AU",
+  adelaide: "AU",
+  canberra: "AU",
+  auckland: "NZ",
+  wellington: "NZ",
+};
+
+/**
+ * Lowercase a place name and drop accents and surrounding punctuation
+ * ("Zürich" and "zurich" compare equal)
+ */
+export const normalizePlaceName = (name: string): string =>
+  name
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .replace(/^[\s.,;:()-]+|[\s,;:()-]+$/g, "")
+    .replace(/ß/g, "ss");
+
+let countriesByName: Map<string, CountryCode> | null = null;
+
+const getCountriesByName = (): Map<string, CountryCode> => {
+  if (!countriesByName) {
+    const displayNames = new Intl.DisplayNames(["en"], { type: "region" });
+    countriesByName = new Map(
+      getCountries().flatMap((code): [string, CountryCode][] => {
+        const name = displayNames.of(code);
+        return name ? [[normalizePlaceName(name), code]] : [];
+      }),
+    );
+    for (const [alias, code] of Object.entries(COUNTRY_ALIASES)) {
+      countriesByName.set(normalizePlaceName(alias), code);
+    }
+  }
+  return countriesByName;
+};
+
+const ISO_COUNTRY_CODES = new Set<string>(getCountries());
+
+/**
+ * Whether a code is an ISO 3166 alpha-2 country code (uppercase)
+ */
+export const isCountryCode = (code: string): code is CountryCode =>
+  ISO_COUNTRY_CODES.has(code);
+
+/**
+ * Country of a name ("Germany", "Deutschland", "UK") or an uppercase ISO
+ * alpha-2 code ("DE")
+ */
+export const findCountry = (text: string): CountryCode | null => {
+  const trimmed = text.trim();
+  if (isCountryCode(trimmed)) {
+    return trimmed;
+  }
+  return getCountriesByName().get(normalizePlaceName(trimmed)) ?? null;
+};
+
+/**
+ * US state, Canadian province or Australian state of a name ("Texas") or
+ * code ("TX"); codes must be uppercase
+ *
+ * @param text - Region name or code
+ * @param countryCode - Only look in this country's regions, when known
+ * @returns The region code with its country, or null
+ */
+export const findRegion = (
+  text: string,
+  countryCode?: CountryCode | null,
+): { region: string; countryCode: CountryCode } | null => {
+  const trimmed = text.trim();
+  const name = normalizePlaceName(trimmed);
+
+  for (const [country, regions] of REGIONS) {
+    if (countryCode && country !== countryCode) {
+      continue;
+    }
+    if (/^[A-Z]{2,3}$/.test(trimmed)) {
+      if (Object.values(regions).includes(trimmed)) {
+        return { region: trimmed, countryCode: country };
+      }
+    } else if (regions[name]) {
+      return { region: regions[name], countryCode: country };
+    }
+  }
+  return null;
+};
+
+/**
+ * Country of a major city, or null when the city is not in the gazetteer
+ */
+export const findCity = (text: string): CountryCode | null =>
+  CITIES[normalizePlaceName(text)] ?? null;
+
+/**
+ * Country of a URL's or host's country-code TLD (acme.de -> DE, acme.co.uk -> GB)
+ */
+export const findTldCountry = (url: string): CountryCode | null => {
+  try {
+    const host = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`)
+      .hostname;
+    const tld = host.slice(host.lastIndexOf(".") + 1).toLowerCase();
+    const code = TLD_COUNTRIES[tld] ?? tld.toUpperCase();
+    return tld.length === 2 && isCountryCode(code) ? code : null;
+  } catch {
+    return null;
+  }
+};
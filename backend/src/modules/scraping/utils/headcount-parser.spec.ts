@@ -0,0 +1,75 @@
+import {
+  getHeadcountBucket,
+  parseHeadcount,
+  toHeadcount,
+} from "./headcount-parser";
+
+describe("parseHeadcount", () => {
+  it("parses ranges with separators, multipliers and words", () => {
+    expect(parseHeadcount("51-200 employees")).toEqual({ min: 51, max: 200 });
+    expect(parseHeadcount("1,001–5,000")).toEqual({ min: 1001, max: 5000 });
+    expect(parseHeadcount("1K-5K")).toEqual({ min: 1000, max: 5000 });
+    expect(parseHeadcount("between 50 and 100 people")).toEqual({
+      min: 50,
+      max: 100,
+    });
+  });
+
+  it("parses single counts as a range of one", () => {
+    expect(parseHeadcount("~1,200 staff")).toEqual({ min: 1200, max: 1200 });
+    expect(parseHeadcount("Team of 12")).toEqual({ min: 12, max: 12 });
+    expect(parseHeadcount("2.5k employees")).toEqual({
+      min: 2500,
+      max: 2500,
+    });
+  });
+
+  it("parses open-ended and upper-bounded counts", () => {
+    expect(parseHeadcount("10,000+ employees")).toEqual({
+      min: 10000,
+      max: null,
+    });
+    expect(parseHeadcount("over 500")).toEqual({ min: 501, max: null });
+    expect(parseHeadcount("fewer than 50 employees")).toEqual({
+      min: 1,
+      max: 49,
+    });
+  });
+
+  it("takes a single number only with employee wording or on its own", () => {
+    expect(parseHeadcount("250")).toEqual({ min: 250, max: 250 });
+    expect(parseHeadcount("500+")).toEqual({ min: 500, max: null });
+    expect(parseHeadcount("Employs over 500")).toEqual({
+      min: 501,
+      max: null,
+    });
+    expect(parseHeadcount("founded 1998")).toBeNull();
+    expect(parseHeadcount("over 20 years of experience")).toBeNull();
+    expect(parseHeadcount("+1 555 0100")).toBeNull();
+  });
+
+  it("returns null for text without a plausible count", () => {
+    expect(parseHeadcount("A growing team")).toBeNull();
+    expect(parseHeadcount("0 employees")).toBeNull();
+    expect(parseHeadcount(null)).toBeNull();
+  });
+});
+
+describe("getHeadcountBucket", () => {
+  it("uses the midpoint of a range and the lower bound of an open range", () => {
+    expect(getHeadcountBucket({ min: 51, max: 200 })).toBe("51-200");
+    expect(getHeadcountBucket({ min: 100, max: 500 })).toBe("201-500");
+    expect(getHeadcountBucket({ min: 12, max: 12 })).toBe("11-50");
+    expect(getHeadcountBucket({ min: 20000, max: null })).toBe("10001+");
+  });
+});
+
+describe("toHeadcount", () => {
+  it("clears every column when the text is not a count", () => {
+    expect(toHeadcount("Contact us")).toEqual({
+      headcountMin: null,
+      headcountMax: null,
+      headcountBucket: null,
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import {
+  HEADCOUNT_BUCKETS,
+  Headcount,
+  HeadcountBucket,
+} from "../../../core/database/schema/scraping-items";
+
+/**
+ * An employee count range; max is null when open-ended ("500+")
+ */
+export interface HeadcountRange {
+  min: number;
+  max: number | null;
+}
+
+/**
+ * A count with optional thousands separators (1,200 or 1.200), decimals and
+ * a k/m multiplier (2.5k)
+ */
+const NUMBER =
+  "(\\d{1,3}(?:[,.'’]\\d{3})+|\\d+(?:[.,]\\d+)?)\\s*(k|m|thousand|million)?\\b";
+
+const RANGE_PATTERN = new RegExp(`${NUMBER}\\s*(?:-|to|and)\\s*${NUMBER}`, "i");
+
+const NUMBER_PATTERN = new RegExp(NUMBER, "i");
+
+// Words before a count that make it a lower or upper bound
+const AT_LEAST = /(?:\bat least|\bminimum(?: of)?|≥)\s*$/i;
+const MORE_THAN = /(?:\bover|\bmore than|\babove|\bin excess of|>)\s*$/i;
+const AT_MOST = /(?:\bup to|\bat most|\bmaximum(?: of)?|≤)\s*$/i;
+const LESS_THAN = /(?:\bunder|\bless than|\bfewer than|\bbelow|<)\s*$/i;
+
+// Text right after a count that makes it open-ended ("500+", "500 or more")
+const OPEN_ENDED = /^\s*(?:\+|or more\b|and (?:more|above|up)\b|plus\b)/i;
+
+// Words that make a single number an employee count ("1,200 staff", "team of 12")
+const EMPLOYEE_CONTEXT =
+  /\b(employees?|employ(?:s|ing)|staff(?:ers)?|people|persons|team|members|workers|headcount|personnel|fte|colleagues)\b/i;
+
+const SOLE_PROPRIETOR =
+  /\b(self[- ]employed|sole proprietor(ship)?|just me)\b/i;
+
+// Largest plausible employee count; bigger numbers are revenue, years or IDs
+const MAX_HEADCOUNT = 5_000_000;
+
+// Lower bound of each bucket ("51-200" → 51)
+const BUCKET_LOWER_BOUNDS = HEADCOUNT_BUCKETS.map((bucket) =>
+  parseInt(bucket, 10),
+);
+
+/**
+ * Parse free-text company size into an employee count range
+ *
+ * Handles ranges ("51-200 employees", "1K-5K", "between 50 and 100"),
+ * open-ended counts ("10,000+", "over 500"), upper bounds ("under 50") and
+ * single counts ("~1,200 staff", "Team of 12"), which become a range of one.
+ * A single count needs employee wording unless the text is nothing but the
+ * count ("250", "500+"), so years and other numbers ("founded 1998") are
+ * not taken for a headcount.
+ *
+ * @param raw - Headcount as extracted
+ * @returns The range, or null when the text holds no plausible count
+ */
+export const parseHeadcount = (raw: string | null): HeadcountRange | null => {
+  if (!raw) {
+    return null;
+  }
+
+  const text = raw.replace(/[‒-―−]/g, "-").trim();
+  if (SOLE_PROPRIETOR.test(text)) {
+    return { min: 1, max: 1 };
+  }
+
+  const range = RANGE_PATTERN.exec(text);
+  if (range) {
+    // "1-5k" shares the multiplier of the upper bound
+    const low = toCount(range[1], range[2] ?? range[4]);
+    const high = toCount(range[3], range[4]);
+    return validate({ min: Math.min(low, high), max: Math.max(low, high) });
+  }
+
+  const match = NUMBER_PATTERN.exec(text);
+  if (!match) {
+    return null;
+  }
+
+  const count = toCount(match[1], match[2]);
+  const before = text.slice(0, match.index);
+  const after = text.slice(match.index + match[0].length);
+  if (!EMPLOYEE_CONTEXT.test(text) && !isBareCount(before, after)) {
+    return null;
+  }
+
+  if (OPEN_ENDED.test(after) || AT_LEAST.test(before)) {
+    return validate({ min: count, max: null });
+  }
+  if (MORE_THAN.test(before)) {
+    return validate({ min: count + 1, max: null });
+  }
+  if (AT_MOST.test(before)) {
+    return validate({ min: 1, max: count });
+  }
+  if (LESS_THAN.test(before)) {
+    return validate({ min: 1, max: count - 1 });
+  }
+  return validate({ min: count, max: count });
+};
+
+/**
+ * Bucket of a range: the one holding its midpoint, or its lower bound when
+ * open-ended, so "100-500" lands in 201-500 and "10,000+" in 5001-10000
+ */
+export const getHeadcountBucket = (range: HeadcountRange): HeadcountBucket => {
+  const point =
+    range.max === null ? range.min : Math.round((range.min + range.max) / 2);
+  let index = 0;
+  while (
+    index + 1 < HEADCOUNT_BUCKETS.length &&
+    BUCKET_LOWER_BOUNDS[index + 1] <= point
+  ) {
+    index++;
+  }
+  return HEADCOUNT_BUCKETS[index];
+};
+
+/**
+ * Parse a raw headcount into the headcount* columns
+ * Text without a plausible count clears every column
+ */
+export const toHeadcount = (headcountRange: string | null): Headcount => {
+  const range = parseHeadcount(headcountRange);
+  return {
+    headcountMin: range?.min ?? null,
+    headcountMax: range?.max ?? null,
+    headcountBucket: range ? getHeadcountBucket(range) : null,
+  };
+};
+
+/**
+ * Number from its written form: "1,200" and "1.200" are thousands, "2.5k"
+ * and "2,5k" are decimals with a multiplier
+ */
+const toCount = (digits: string, multiplier: string | undefined): number => {
+  const scale = !multiplier
+    ? 1
+    : /^(k|thousand)$/i.test(multiplier)
+      ? 1_000
+      : 1_000_000;
+  const value = /^\d{1,3}(?:[,.'’]\d{3})+$/.test(digits)
+    ? Number(digits.replace(/[,.'’]/g, ""))
+    : Number(digits.replace(",", "."));
+  return Math.round(value * scale);
+};
+
+/**
+ * Whether the text around a count holds nothing but its qualifiers
+ * ("~", "over", "+"), so "over 500" is a count but "founded 1998" is not
+ */
+const isBareCount = (before: string, after: string): boolean => {
+  const rest =
+    [AT_LEAST, MORE_THAN, AT_MOST, LESS_THAN].reduce(
+      (text, pattern) => text.replace(pattern, ""),
+      before,
+    ) + after.replace(OPEN_ENDED, "");
+  return !/[a-z]{2,}|\d/i.test(rest);
+};
+
+const validate = (range: HeadcountRange): HeadcountRange | null =>
+  range.min >= 1 &&
+  range.min <= MAX_HEADCOUNT &&
+  (range.max === null || range.max <= MAX_HEADCOUNT)
+    ? range
+    : null;
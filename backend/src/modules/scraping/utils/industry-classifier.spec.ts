@@ -0,0 +1,72 @@
+import { classifyIndustry } from "./industry-classifier";
+
+describe("classifyIndustry", () => {
+  it("lets a valid NAICS code decide over any keywords", () => {
+    expect(
+      classifyIndustry({ industry: "Software development", naics: "522110" }),
+    ).toEqual({ industrySector: "52", industryConfidence: 1 });
+    expect(classifyIndustry({ industry: null, naics: "3254" })).toEqual({
+      industrySector: "31-33",
+      industryConfidence: 1,
+    });
+    // Unknown sectors fall back to the keywords
+    expect(
+      classifyIndustry({ industry: "Software development", naics: "99" })
+        .industrySector,
+    ).toBe("51");
+  });
+
+  it("scores a sector's schema.org type above weak keyword hits", () => {
+    expect(
+      classifyIndustry({ industry: null, schemaTypes: ["Restaurant"] }),
+    ).toEqual({ industrySector: "72", industryConfidence: 0.53 });
+    expect(
+      classifyIndustry({
+        industry: null,
+        pageText: "Order through our app",
+        schemaTypes: ["Restaurant"],
+      }),
+    ).toEqual({ industrySector: "72", industryConfidence: 0.45 });
+  });
+
+  it("matches keyword plurals, -ies included", () => {
+    expect(classifyIndustry({ industry: "Bakeries" })).toEqual({
+      industrySector: "72",
+      industryConfidence: 0.53,
+    });
+    expect(classifyIndustry({ industry: "Banks" }).industrySector).toBe("52");
+  });
+
+  it("counts at most three hits of a keyword in page text", () => {
+    const threeHits = classifyIndustry({
+      industry: null,
+      pageText: "Our hotel. ".repeat(3),
+    });
+
+    expect(threeHits).toEqual({
+      industrySector: "72",
+      industryConfidence: 0.68,
+    });
+    expect(
+      classifyIndustry({ industry: null, pageText: "Our hotel. ".repeat(10) }),
+    ).toEqual(threeHits);
+  });
+
+  it("returns nulls when the best score is below the threshold", () => {
+    expect(
+      classifyIndustry({ industry: null, pageText: "Download our app" }),
+    ).toEqual({ industrySector: null, industryConfidence: null });
+    expect(classifyIndustry({ industry: null })).toEqual({
+      industrySector: null,
+      industryConfidence: null,
+    });
+  });
+
+  it("halves the confidence when two sectors tie", () => {
+    const alone = classifyIndustry({ industry: "Bank" });
+    const tied = classifyIndustry({ industry: "Bank and hotel" });
+
+    expect(alone).toEqual({ industrySector: "52", industryConfidence: 0.68 });
+    expect(tied.industryConfidence).toBe(0.34);
+  });
+});
@@ -0,0 +1,141 @@
+import {
+  IndustryClassification,
+  IndustrySector,
+} from "../../../core/database/schema/scraping-items";
+import {
+  INDUSTRY_KEYWORDS,
+  SCHEMA_TYPE_SECTORS,
+  getNaicsSector,
+} from "./industry-taxonomy";
+
+/**
+ * What a company's pages say about its industry
+ */
+export interface IndustrySignals {
+  // Raw industry as extracted (span.industry, .category, meta keywords, ...)
+  industry: string | null;
+  // meta[name="keywords"]
+  keywords?: string | null;
+  // Page titles and meta/og/schema.org descriptions
+  descriptions?: string[];
+  // Visible page text
+  pageText?: string | null;
+  // schema.org types and NAICS code of the organization
+  schemaTypes?: string[];
+  naics?: string | null;
+}
+
+// How much a keyword hit counts in each signal
+const SIGNAL_WEIGHTS = {
+  industry: 3,
+  keywords: 2,
+  descriptions: 2,
+  pageText: 1,
+};
+
+// Score added per schema.org type that implies a sector
+const SCHEMA_TYPE_WEIGHT = 6;
+
+// Hits of one keyword counted in page text; repetition adds little
+const MAX_PAGE_TEXT_HITS = 3;
+
+// Lowest winning score that is classified at all
+const MIN_SCORE = 3;
+
+// Score at which evidence is considered strong (confidence ~63% of the margin)
+const EVIDENCE_SCALE = 8;
+
+/**
+ * Lowercase text without accents, as keywords are written
+ */
+const normalizeText = (text: string): string =>
+  text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase();
+
+/**
+ * Keyword patterns, built once: whole words with an optional plural
+ */
+const KEYWORD_PATTERNS = Object.entries(INDUSTRY_KEYWORDS).map(
+  ([sector, keywords]) => ({
+    sector: sector as IndustrySector,
+    keywords: Object.entries(keywords).map(([keyword, weight]) => ({
+      weight,
+      pattern: new RegExp(
+        `\\b${keyword
+          .replace(/[-/\\^$*+?.()|[\]{}]/g, "\\$&")
+          .replace(/y$/, "(?:y|ies)")}(?:s|es)?\\b`,
+        "g",
+      ),
+    })),
+  }),
+);
+
+/**
+ * Classify a company into a NAICS sector with an offline keyword/weight model
+ *
+ * A valid schema.org NAICS code decides on its own (confidence 1). Otherwise
+ * every sector scores the weighted keyword hits of each signal (raw industry
+ * counts most, page text least) plus its schema.org types. Confidence grows
+ * with the winning score and with its lead over the runner-up.
+ *
+ * @param signals - Raw industry, keywords, descriptions, page text and markup
+ * @returns The sector and confidence, or nulls when nothing scores enough
+ */
+export const classifyIndustry = (
+  signals: IndustrySignals,
+): IndustryClassification => {
+  const naicsSector = signals.naics ? getNaicsSector(signals.naics) : null;
+  if (naicsSector) {
+    return { industrySector: naicsSector, industryConfidence: 1 };
+  }
+
+  const scores = new Map<IndustrySector, number>();
+  const add = (sector: IndustrySector, score: number) =>
+    scores.set(sector, (scores.get(sector) ?? 0) + score);
+
+  for (const type of signals.schemaTypes ?? []) {
+    const sector = SCHEMA_TYPE_SECTORS[type];
+    if (sector) {
+      add(sector, SCHEMA_TYPE_WEIGHT);
+    }
+  }
+
+  const texts: [string | null | undefined, number, number][] = [
+    [signals.industry, SIGNAL_WEIGHTS.industry, 1],
+    // Often the raw industry itself (fallback selector); counted once
+    signals.keywords !== signals.industry
+      ? [signals.keywords, SIGNAL_WEIGHTS.keywords, 1]
+      : [null, 0, 0],
+    [signals.descriptions?.join(" . "), SIGNAL_WEIGHTS.descriptions, 1],
+    [signals.pageText, SIGNAL_WEIGHTS.pageText, MAX_PAGE_TEXT_HITS],
+  ];
+  for (const [text, signalWeight, maxHits] of texts) {
+    if (!text) {
+      continue;
+    }
+    const normalized = normalizeText(text);
+    for (const { sector, keywords } of KEYWORD_PATTERNS) {
+      for (const { weight, pattern } of keywords) {
+        const hits = Math.min(normalized.match(pattern)?.length ?? 0, maxHits);
+        if (hits > 0) {
+          add(sector, weight * signalWeight * hits);
+        }
+      }
+    }
+  }
+
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  const [top, runnerUp] = ranked;
+  if (!top || top[1] < MIN_SCORE) {
+    return { industrySector: null, industryConfidence: null };
+  }
+
+  const evidence = 1 - Math.exp(-top[1] / EVIDENCE_SCALE);
+  const margin = top[1] / (top[1] + (runnerUp?.[1] ?? 0));
+  return {
+    industrySector: top[0],
+    industryConfidence: Math.round(evidence * margin * 100) / 100,
+  };
+};
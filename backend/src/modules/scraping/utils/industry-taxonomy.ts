@@ -0,0 +1,446 @@
+import { IndustrySector } from "../../../core/database/schema/scraping-items";
+
+/**
+ * Keyword weights per sector: 3 for terms that name the sector ("fintech",
+ * "restaurant"), 2 for strong hints, 1 for terms that lean towards it but
+ * also appear elsewhere. Keywords are lowercase, accent-free and matched as
+ * whole words or phrases, with an optional plural ("s", "es", "y" → "ies").
+ */
+export const INDUSTRY_KEYWORDS: Record<
+  IndustrySector,
+  Record<string, number>
+> = {
+  "11": {
+    agriculture: 3,
+    agricultural: 3,
+    agritech: 3,
+    agtech: 3,
+    aquaculture: 3,
+    forestry: 3,
+    livestock: 3,
+    farming: 3,
+    fishery: 3,
+    farm: 2,
+    crop: 2,
+    dairy: 2,
+    ranch: 2,
+    orchard: 2,
+    vineyard: 2,
+    fishing: 2,
+    harvest: 1,
+    seed: 1,
+    greenhouse: 1,
+  },
+  "21": {
+    mining: 3,
+    quarry: 3,
+    "oil and gas": 3,
+    petroleum: 3,
+    "crude oil": 3,
+    "mineral exploration": 3,
+    mineral: 2,
+    drilling: 2,
+    coal: 2,
+    "natural gas": 2,
+    ore: 1,
+    lithium: 1,
+    exploration: 1,
+  },
+  "22": {
+    utility: 3,
+    "power generation": 3,
+    "power plant": 3,
+    "wind farm": 3,
+    "energy provider": 3,
+    "energy supplier": 3,
+    "water supply": 3,
+    electricity: 2,
+    "renewable energy": 2,
+    solar: 2,
+    wastewater: 2,
+    grid: 1,
+    energy: 1,
+  },
+  "23": {
+    construction: 3,
+    roofing: 3,
+    plumbing: 3,
+    remodeling: 3,
+    homebuilder: 3,
+    "general contractor": 3,
+    "electrical contractor": 3,
+    contractor: 2,
+    builder: 2,
+    renovation: 2,
+    "civil engineering": 2,
+    excavation: 2,
+    concrete: 2,
+    hvac: 2,
+    building: 1,
+    infrastructure: 1,
+  },
+  "31-33": {
+    manufacturing: 3,
+    manufacturer: 3,
+    "injection molding": 3,
+    factory: 2,
+    machinery: 2,
+    fabrication: 2,
+    chemical: 2,
+    pharmaceutical: 2,
+    semiconductor: 2,
+    textile: 2,
+    "food processing": 2,
+    plastic: 2,
+    steel: 2,
+    cnc: 2,
+    oem: 2,
+    production: 1,
+    industrial: 1,
+    assembly: 1,
+    packaging: 1,
+    automotive: 1,
+  },
+  "42": {
+    wholesale: 3,
+    wholesaler: 3,
+    distributor: 3,
+    "trading company": 2,
+    distribution: 2,
+    supplier: 1,
+    import: 1,
+    export: 1,
+    bulk: 1,
+  },
+  "44-45": {
+    retail: 3,
+    retailer: 3,
+    supermarket: 3,
+    "online shop": 2,
+    "online store": 2,
+    "e-commerce": 2,
+    ecommerce: 2,
+    boutique: 2,
+    shopping: 2,
+    grocery: 2,
+    "add to cart": 2,
+    store: 1,
+    shop: 1,
+    apparel: 1,
+    fashion: 1,
+    checkout: 1,
+  },
+  "48-49": {
+    logistics: 3,
+    transportation: 3,
+    freight: 3,
+    trucking: 3,
+    warehousing: 3,
+    airline: 3,
+    transport: 2,
+    shipping: 2,
+    courier: 2,
+    warehouse: 2,
+    aviation: 2,
+    railway: 2,
+    "supply chain": 2,
+    "last mile": 2,
+    delivery: 1,
+    fleet: 1,
+  },
+  "51": {
+    software: 3,
+    saas: 3,
+    telecommunications: 3,
+    telecom: 3,
+    broadcasting: 3,
+    publishing: 2,
+    publisher: 2,
+    media: 2,
+    streaming: 2,
+    "video game": 2,
+    newspaper: 2,
+    magazine: 2,
+    cloud: 2,
+    cybersecurity: 2,
+    platform: 1,
+    app: 1,
+    api: 1,
+    developer: 1,
+    analytics: 1,
+    data: 1,
+    internet: 1,
+    gaming: 1,
+    news: 1,
+    "artificial intelligence": 1,
+    "machine learning": 1,
+  },
+  "52": {
+    bank: 3,
+    banking: 3,
+    fintech: 3,
+    insurance: 3,
+    insurer: 3,
+    "asset management": 3,
+    "wealth management": 3,
+    "venture capital": 3,
+    "private equity": 3,
+    brokerage: 3,
+    finance: 2,
+    financial: 2,
+    investment: 2,
+    investing: 2,
+    payment: 2,
+    lending: 2,
+    loan: 2,
+    mortgage: 2,
+    cryptocurrency: 2,
+    crypto: 2,
+    credit: 1,
+    capital: 1,
+    trading: 1,
+  },
+  "53": {
+    "real estate": 3,
+    realty: 3,
+    realtor: 3,
+    "property management": 3,
+    "commercial property": 3,
+    proptech: 3,
+    "car rental": 3,
+    "equipment rental": 3,
+    property: 2,
+    leasing: 2,
+    rental: 2,
+    landlord: 2,
+    apartment: 2,
+    coworking: 2,
+  },
+  "54": {
+    consulting: 3,
+    consultancy: 3,
+    "law firm": 3,
+    attorney: 3,
+    lawyer: 3,
+    accounting: 3,
+    accountant: 3,
+    "tax advisory": 3,
+    "marketing agency": 3,
+    "design agency": 3,
+    "digital agency": 3,
+    "public relations": 3,
+    "engineering services": 3,
+    "information technology": 3,
+    architecture: 3,
+    architect: 3,
+    veterinary: 3,
+    consultant: 2,
+    legal: 2,
+    audit: 2,
+    advertising: 2,
+    "research and development": 2,
+    "it services": 2,
+    "technology services": 2,
+    "web development": 2,
+    agency: 1,
+  },
+  "55": {
+    "holding company": 3,
+    conglomerate: 3,
+    holdings: 2,
+    "group of companies": 2,
+    "portfolio companies": 2,
+  },
+  "56": {
+    staffing: 3,
+    recruitment: 3,
+    recruiting: 3,
+    "temp agency": 3,
+    "employment agency": 3,
+    "call center": 3,
+    "facility management": 3,
+    "cleaning services": 3,
+    janitorial: 3,
+    "security services": 3,
+    "waste management": 3,
+    "pest control": 3,
+    "travel agency": 3,
+    outsourcing: 2,
+    recycling: 2,
+    landscaping: 2,
+  },
+  "61": {
+    education: 3,
+    university: 3,
+    "e-learning": 3,
+    elearning: 3,
+    edtech: 3,
+    tutoring: 3,
+    educational: 2,
+    school: 2,
+    college: 2,
+    academy: 2,
+    course: 2,
+    student: 2,
+    curriculum: 2,
+    training: 1,
+    learning: 1,
+    teacher: 1,
+  },
+  "62": {
+    healthcare: 3,
+    "health care": 3,
+    hospital: 3,
+    clinic: 3,
+    dental: 3,
+    dentist: 3,
+    nursing: 3,
+    "mental health": 3,
+    "home care": 3,
+    childcare: 3,
+    telehealth: 3,
+    medical: 2,
+    patient: 2,
+    physician: 2,
+    doctor: 2,
+    therapy: 2,
+    "social services": 2,
+    healthtech: 2,
+    pharmacy: 1,
+  },
+  "71": {
+    museum: 3,
+    theater: 3,
+    theatre: 3,
+    casino: 3,
+    "amusement park": 3,
+    "sports club": 3,
+    recreation: 3,
+    "art gallery": 3,
+    entertainment: 2,
+    concert: 2,
+    festival: 2,
+    gym: 2,
+    fitness: 2,
+    golf: 2,
+    esports: 2,
+    artist: 1,
+  },
+  "72": {
+    hotel: 3,
+    hospitality: 3,
+    resort: 3,
+    restaurant: 3,
+    catering: 3,
+    "food service": 3,
+    "bed and breakfast": 3,
+    hostel: 3,
+    cafe: 2,
+    bakery: 2,
+    menu: 1,
+    reservation: 1,
+    bar: 1,
+  },
+  "81": {
+    "auto repair": 3,
+    "hair salon": 3,
+    "beauty salon": 3,
+    salon: 3,
+    laundry: 3,
+    "dry cleaning": 3,
+    funeral: 3,
+    church: 3,
+    "pet grooming": 3,
+    "car wash": 3,
+    repair: 2,
+    spa: 2,
+    nonprofit: 2,
+    "non-profit": 2,
+    charity: 2,
+    religious: 2,
+    association: 2,
+    maintenance: 1,
+  },
+  "92": {
+    government: 3,
+    municipality: 3,
+    "city council": 3,
+    ministry: 3,
+    "public administration": 3,
+    "federal agency": 3,
+    "state agency": 3,
+    "fire department": 3,
+    embassy: 3,
+    "public sector": 2,
+    police: 2,
+    county: 1,
+  },
+};
+
+/**
+ * schema.org organization types that imply a sector; generic types
+ * (Organization, Corporation, LocalBusiness) are left out
+ */
+export const SCHEMA_TYPE_SECTORS: Record<string, IndustrySector> = {
+  Restaurant: "72",
+  FoodEstablishment: "72",
+  CafeOrCoffeeShop: "72",
+  Bakery: "72",
+  BarOrPub: "72",
+  Hotel: "72",
+  LodgingBusiness: "72",
+  MedicalOrganization: "62",
+  Hospital: "62",
+  MedicalClinic: "62",
+  Dentist: "62",
+  Physician: "62",
+  EducationalOrganization: "61",
+  CollegeOrUniversity: "61",
+  School: "61",
+  GovernmentOrganization: "92",
+  FinancialService: "52",
+  BankOrCreditUnion: "52",
+  InsuranceAgency: "52",
+  LegalService: "54",
+  Attorney: "54",
+  AccountingService: "54",
+  ResearchOrganization: "54",
+  Store: "44-45",
+  OnlineStore: "44-45",
+  HomeAndConstructionBusiness: "23",
+  GeneralContractor: "23",
+  RoofingContractor: "23",
+  Plumber: "23",
+  Electrician: "23",
+  HVACBusiness: "23",
+  NewsMediaOrganization: "51",
+  SportsOrganization: "71",
+  EntertainmentBusiness: "71",
+  RealEstateAgent: "53",
+  HealthAndBeautyBusiness: "81",
+  EmploymentAgency: "56",
+  TravelAgency: "56",
+  NGO: "81",
+};
+
+/**
+ * Sector of a NAICS code of any length (2 to 6 digits), or null
+ */
+export const getNaicsSector = (code: string): IndustrySector | null => {
+  const prefix = /^(\d{2})\d{0,4}$/.exec(code.trim())?.[1];
+  if (!prefix) {
+    return null;
+  }
+
+  const combined: Record<string, IndustrySector> = {
+    "31": "31-33",
+    "32": "31-33",
+    "33": "31-33",
+    "44": "44-45",
+    "45": "44-45",
+    "48": "48-49",
+    "49": "48-49",
+  };
+  const sector = combined[prefix] ?? prefix;
+  return sector in INDUSTRY_KEYWORDS ? sector : null;
+};
@@ -0,0 +1,41 @@
+import { canonicalizeUrl, isTrackingParam } from "./url-canonicalizer";
+
+describe("canonicalizeUrl", () => {
+  it("collapses scheme, www, trailing slash and tracking variants", () => {
+    const variants = [
+      "http://acme.com",
+      "https://www.acme.com/",
+      "https://acme.com/?utm_source=x",
+      "HTTPS://ACME.COM:443/#team",
+    ];
+
+    expect(new Set(variants.map(canonicalizeUrl))).toEqual(
+      new Set(["https://acme.com"]),
+    );
+  });
+
+  it("keeps meaningful paths and query parameters in sorted order", () => {
+    expect(canonicalizeUrl("https://acme.com/about/?b=2&gclid=abc&a=1")).toBe(
+      "https://acme.com/about?a=1&b=2",
+    );
+  });
+
+  it("keeps non-default ports", () => {
+    expect(canonicalizeUrl("http://localhost:3914/company/")).toBe(
+      "https://localhost:3914/company",
+    );
+  });
+
+  it("returns null for unparseable or non-http URLs", () => {
+    expect(canonicalizeUrl("not a url")).toBeNull();
+    expect(canonicalizeUrl("ftp://acme.com")).toBeNull();
+  });
+});
+
+describe("isTrackingParam", () => {
+  it("matches known names and prefixes case-insensitively", () => {
+    expect(isTrackingParam("UTM_Campaign")).toBe(true);
+    expect(isTrackingParam("fbclid")).toBe(true);
+    expect(isTrackingParam("page")).toBe(false);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Query parameters that only carry campaign/click tracking and never change page content
+ */
+const TRACKING_PARAMS = new Set([
+  "fbclid",
+  "gclid",
+  "gclsrc",
+  "dclid",
+  "msclkid",
+  "yclid",
+  "igshid",
+  "mc_cid",
+  "mc_eid",
+  "_hsenc",
+  "_hsmi",
+  "_ga",
+  "_gl",
+  "ref",
+  "ref_src",
+  "source",
+  "trk",
+]);
+
+/**
+ * Query parameter prefixes used by tracking suites (utm_source, utm_medium, ...)
+ */
+const TRACKING_PARAM_PREFIXES = ["utm_", "pk_", "mtm_", "hsa_"];
+
+const DEFAULT_PORTS: Record<string, string> = {
+  "http:": "80",
+  "https:": "443",
+};
+
+/**
+ * Check whether a query parameter is a known tracking parameter
+ */
+export const isTrackingParam = (name: string): boolean => {
+  const lower = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix))
+  );
+};
+
+/**
+ * Canonicalize a URL so that variants of the same page compare equal
+ *
+ * - scheme is normalized to https (http and https variants are the same site)
+ * - host is lowercased and a leading "www." is removed
+ * - default ports, fragments and tracking parameters are dropped
+ * - remaining query parameters are sorted
+ * - trailing slashes are removed (the site root has an empty path)
+ *
+ * @param url - Absolute http(s) URL
+ * @returns Canonical URL, or null if the input cannot be parsed
+ */
+export const canonicalizeUrl = (url: string): string | null => {
+  let parsed: URL;
+  try {
+    parsed = new URL(url.trim());
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol !== "http:" && parsed.protocol !== "https:") {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, "");
+  const port =
+    parsed.port && parsed.port !== DEFAULT_PORTS[parsed.protocol]
+      ? `:${parsed.port}`
+      : "";
+
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a, av], [b, bv]) => a.localeCompare(b) || av.localeCompare(bv));
+  const query = new URLSearchParams(params).toString();
+
+  const path = parsed.pathname.replace(/\/+$/, "");
+
+  return `https://${host}${port}${path}${query ? `?${query}` : ""}`;
+};
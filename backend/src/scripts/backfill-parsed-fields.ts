@@ -0,0 +1,94 @@
+// Load environment variables FIRST, before any other imports
+import { loadEnvironment } from "../config/env.loader";
+loadEnvironment();
+
+import { Logger, Module } from "@nestjs/common";
+import { ConfigModule } from "@nestjs/config";
+import { NestFactory } from "@nestjs/core";
+import { DatabaseModule } from "../core/database/database.module";
+import { ScrapingRepository } from "../core/database/repositories/scraping.repository";
+import { CompanyRepository } from "../core/database/repositories/company.repository";
+import { toHqAddress } from "../modules/scraping/utils/address-parser";
+import { toHeadcount } from "../modules/scraping/utils/headcount-parser";
+import { classifyIndustry } from "../modules/scraping/utils/industry-classifier";
+
+const BATCH_SIZE = 500;
+
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true }), DatabaseModule],
+})
+class BackfillModule {}
+
+/**
+ * Fill the columns parsed from raw fields (HQ address, headcount, industry
+ * sector) for rows stored before those parsers existed, and re-parse the
+ * rest with the current parsers
+ *
+ * Address and headcount follow their raw text, so they are always
+ * re-derived. The worker classifies industries from signals that are not
+ * stored (keywords, descriptions, markup), so only rows without a sector are
+ * classified, from the raw industry and page text. Safe to run again.
+ *
+ * Run after migrating: npm run build && npm run db:backfill
+ */
+async function backfill() {
+  const logger = new Logger("Backfill");
+  const app = await NestFactory.createApplicationContext(BackfillModule);
+
+  try {
+    const scrapingRepository = app.get(ScrapingRepository);
+    const companyRepository = app.get(CompanyRepository);
+
+    let itemCount = 0;
+    for await (const items of scrapingRepository.streamCompletedItems(
+      BATCH_SIZE,
+    )) {
+      for (const item of items) {
+        await scrapingRepository.updateItemParsedFields(item.id, {
+          ...toHqAddress(item.hqLocation),
+          ...toHeadcount(item.headcountRange),
+          ...(item.industrySector
+            ? {}
+            : classifyIndustry({
+                industry: item.industry,
+                pageText: item.pageTextExcerpt,
+              })),
+        });
+      }
+      itemCount += items.length;
+      logger.log(`Re-parsed ${itemCount} items`);
+    }
+
+    let companyCount = 0;
+    for await (const companies of companyRepository.streamCompanies(
+      BATCH_SIZE,
+    )) {
+      for (const company of companies) {
+        await companyRepository.updateParsedFields(company.id, {
+          ...toHqAddress(company.hqLocation),
+          ...toHeadcount(company.headcountRange),
+          ...(company.industrySector
+            ? {}
+            : classifyIndustry({ industry: company.industry })),
+        });
+      }
+      companyCount += companies.length;
+      logger.log(`Re-parsed ${companyCount} companies`);
+    }
+
+    logger.log(
+      `Backfill completed: ${itemCount} items, ${companyCount} companies`,
+    );
+  } finally {
+    await app.close();
+  }
+}
+
+backfill().catch((error: unknown) => {
+  const logger = new Logger("Backfill");
+  logger.error(
+    "Backfill failed",
+    error instanceof Error ? error.stack : String(error),
+  );
+  process.exit(1);
+});